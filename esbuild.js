@@ -36,6 +36,17 @@ const extensionBrowserConfig = {
     external: ['vscode', 'path', 'fs', 'os', 'child_process', 'stream'],
 };
 
+// Config for the command line TLC report tool (to be run by Node outside of VS Code)
+/** @type BuildOptions */
+const cliConfig = {
+    ...baseConfig,
+    platform: 'node',
+    format: 'cjs',
+    entryPoints: ['./src/cli/tlcReport.ts'],
+    outfile: './out/tlc-report.js',
+    alias: { vscode: './src/cli/vscode.ts' },
+};
+
 // Config for webview source code (to be run in a web-based context)
 /** @type BuildOptions */
 const webviewConfig = {
@@ -76,6 +87,45 @@ const webviewCoverageConfig = {
     }
 };
 
+/** @type BuildOptions */
+const webviewTraceGraphConfig = {
+    ...baseConfig,
+    target: 'es2020',
+    format: 'esm',
+    tsconfig: 'tsconfig.webview.json',
+    entryPoints: ['./src/webview/trace-graph-view.tsx'],
+    outfile: './out/trace-graph-view.js',
+    loader: {
+        '.ttf': 'copy', // use the file loader to handle .ttf files
+    }
+};
+
+/** @type BuildOptions */
+const webviewCfgEditorConfig = {
+    ...baseConfig,
+    target: 'es2020',
+    format: 'esm',
+    tsconfig: 'tsconfig.webview.json',
+    entryPoints: ['./src/webview/cfg-editor-view.tsx'],
+    outfile: './out/cfg-editor-view.js',
+    loader: {
+        '.ttf': 'copy', // use the file loader to handle .ttf files
+    }
+};
+
+/** @type BuildOptions */
+const webviewSimulationDashboardConfig = {
+    ...baseConfig,
+    target: 'es2020',
+    format: 'esm',
+    tsconfig: 'tsconfig.webview.json',
+    entryPoints: ['./src/webview/simulation-dashboard.tsx'],
+    outfile: './out/simulationDashboard.js',
+    loader: {
+        '.ttf': 'copy', // use the file loader to handle .ttf files
+    }
+};
+
 const watchPlugin = (name) => [{
     name: 'watch-plugin',
     setup(build) {
@@ -91,6 +141,7 @@ const watchPlugin = (name) => [{
             // Build and watch extension
             (await context({...extensionConfig, plugins: watchPlugin('extensionConfig')})).watch();
             (await context({...extensionBrowserConfig, plugins: watchPlugin('extensionBrowserConfig')})).watch();
+            (await context({...cliConfig, plugins: watchPlugin('cliConfig')})).watch();
             (await context({...webviewConfig, plugins: watchPlugin('webviewConfig')})).watch();
             (await context({
                 ...webviewCurrentProofStepConfig,
@@ -100,13 +151,29 @@ const watchPlugin = (name) => [{
                 ...webviewCoverageConfig,
                 plugins: watchPlugin('webviewCoverageConfig')
             })).watch();
+            (await context({
+                ...webviewTraceGraphConfig,
+                plugins: watchPlugin('webviewTraceGraphConfig')
+            })).watch();
+            (await context({
+                ...webviewCfgEditorConfig,
+                plugins: watchPlugin('webviewCfgEditorConfig')
+            })).watch();
+            (await context({
+                ...webviewSimulationDashboardConfig,
+                plugins: watchPlugin('webviewSimulationDashboardConfig')
+            })).watch();
         } else {
             // Build extension
             await build(extensionConfig);
             await build(extensionBrowserConfig);
+            await build(cliConfig);
             await build(webviewConfig);
             await build(webviewCurrentProofStepConfig);
             await build(webviewCoverageConfig);
+            await build(webviewTraceGraphConfig);
+            await build(webviewCfgEditorConfig);
+            await build(webviewSimulationDashboardConfig);
             console.log('build complete');
         }
     } catch (err) {
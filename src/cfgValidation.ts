@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import { LANG_TLAPLUS, LANG_TLAPLUS_CFG } from './common';
+import { CFG_SECTION_LEVELS, CfgConstant, CfgName, parseCfgConstants, parseCfgSections } from './parsers/cfg';
+import { samePath } from './model/modelProfiles';
+import { SpecSymbols, SpecSymbolsLoader } from './symbols/specSymbols';
+
+const VALIDATION_DELAY_MS = 500;
+
+const LEVEL_NAMES = ['constant', 'state', 'action', 'temporal'];
+
+/**
+ * Checks names in model config files against the specs they belong to, so that mistakes show up
+ * before TLC is run.
+ */
+export class CfgValidator implements vscode.Disposable {
+    private readonly timers = new Map<string, NodeJS.Timeout>();    // Document URI -> pending validation
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly diagnostic: vscode.DiagnosticCollection,
+        private readonly specSymbols: SpecSymbolsLoader
+    ) {
+        this.disposables.push(
+            vscode.workspace.onDidOpenTextDocument((document) => this.schedule(document)),
+            vscode.workspace.onDidChangeTextDocument((event) => {
+                if (event.contentChanges.length > 0) {
+                    this.documentChanged(event.document);
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument((document) => this.documentChanged(document)),
+            vscode.workspace.onDidCloseTextDocument((document) => {
+                if (document.languageId === LANG_TLAPLUS_CFG) {
+                    this.cancel(document.uri);
+                    this.diagnostic.delete(document.uri);
+                }
+            })
+        );
+        vscode.workspace.textDocuments.forEach((document) => this.schedule(document));
+    }
+
+    dispose(): void {
+        Array.from(this.timers.values()).forEach((timer) => clearTimeout(timer));
+        this.timers.clear();
+        this.disposables.forEach((d) => d.dispose());
+    }
+
+    private documentChanged(document: vscode.TextDocument): void {
+        if (document.languageId !== LANG_TLAPLUS) {
+            this.schedule(document);
+            return;
+        }
+        this.scheduleSpecConfigs(document.uri.fsPath).catch((err) => {
+            console.error(`Cannot find model configs of ${document.uri.fsPath}: ${err}`);
+        });
+    }
+
+    /**
+     * Schedules validation of the open model configs that belong to the spec, including the ones
+     * named by model profiles.
+     */
+    private async scheduleSpecConfigs(tlaPath: string): Promise<void> {
+        const cfgDocuments = vscode.workspace.textDocuments
+            .filter((doc) => doc.languageId === LANG_TLAPLUS_CFG && doc.uri.scheme === 'file');
+        for (const cfgDocument of cfgDocuments) {
+            const specPath = await this.specSymbols.resolveSpecPath(cfgDocument.uri);
+            if (specPath && samePath(specPath, tlaPath) && !cfgDocument.isClosed) {
+                this.schedule(cfgDocument);
+            }
+        }
+    }
+
+    private schedule(document: vscode.TextDocument): void {
+        if (document.languageId !== LANG_TLAPLUS_CFG || document.uri.scheme !== 'file') {
+            return;
+        }
+        this.cancel(document.uri);
+        this.timers.set(document.uri.toString(), setTimeout(() => {
+            this.timers.delete(document.uri.toString());
+            this.validate(document).catch((err) => {
+                console.error(`Cannot validate ${document.uri.fsPath}: ${err}`);
+            });
+        }, VALIDATION_DELAY_MS));
+    }
+
+    private cancel(uri: vscode.Uri): void {
+        const timer = this.timers.get(uri.toString());
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(uri.toString());
+        }
+    }
+
+    private async validate(document: vscode.TextDocument): Promise<void> {
+        const version = document.version;
+        const spec = await this.specSymbols.load(document.uri);
+        if (document.isClosed || document.version !== version) {
+            return;     // Another validation is on the way
+        }
+        if (spec) {
+            this.diagnostic.set(document.uri, validateCfg(document.getText(), spec));
+        } else {
+            this.diagnostic.delete(document.uri);
+        }
+    }
+}
+
+/**
+ * Checks that the names a model config file mentions exist in the spec and fit where they are used,
+ * and that all the constants of the spec are assigned.
+ * Unknown names are only reported when symbols of the extended modules are known too.
+ */
+export function validateCfg(text: string, spec: SpecSymbols): vscode.Diagnostic[] {
+    const diagnostics: vscode.Diagnostic[] = [];
+    const report = (range: vscode.Range, message: string) => {
+        diagnostics.push(new vscode.Diagnostic(range, message, vscode.DiagnosticSeverity.Error));
+    };
+    const sections = parseCfgSections(text);
+    const assigned = new Set<string>();
+    for (const section of sections) {
+        if (/^CONSTANTS?$/.test(section.keyword)) {
+            for (const constant of parseCfgConstants(section)) {
+                assigned.add(constant.name.name);
+                checkConstant(constant, spec, report);
+            }
+            continue;
+        }
+        const maxLevel = CFG_SECTION_LEVELS[section.keyword];
+        if (maxLevel !== undefined) {
+            section.names.forEach((name) => checkOperator(section.keyword, maxLevel, name, spec, report));
+        }
+    }
+
+    const constantsSection = sections.find((s) => /^CONSTANTS?$/.test(s.keyword));
+    const unassignedRange = constantsSection?.range ?? sections[0]?.range ?? new vscode.Range(0, 0, 0, 0);
+    Array.from(spec.symbols.values())
+        .filter((s) => s.kind === 'constant' && s.module === spec.moduleName && !assigned.has(s.name))
+        .forEach((s) => report(unassignedRange, `Constant ${s.name} of ${spec.moduleName} is not assigned a value.`));
+    return diagnostics;
+}
+
+type Reporter = (range: vscode.Range, message: string) => void;
+
+function checkOperator(keyword: string, maxLevel: number, name: CfgName, spec: SpecSymbols, report: Reporter) {
+    const symbol = spec.symbols.get(name.name);
+    if (!symbol) {
+        if (spec.complete) {
+            report(name.range, `${name.name} is not defined in ${spec.moduleName} or the modules it uses.`);
+        }
+        return;
+    }
+    if (symbol.kind !== 'definition') {
+        report(name.range, `${name.name} is a ${symbol.kind}, ${keyword} expects a defined operator.`);
+    } else if (symbol.arity !== undefined && symbol.arity > 0) {
+        report(name.range, `${name.name} takes ${symbol.arity} argument(s), ${keyword} expects none.`);
+    } else if (symbol.level !== undefined && symbol.level > maxLevel) {
+        report(
+            name.range,
+            `${keyword} must be ${LEVEL_NAMES[maxLevel]}-level, but ${name.name} is ${LEVEL_NAMES[symbol.level]}-level.`
+        );
+    }
+}
+
+function checkConstant(constant: CfgConstant, spec: SpecSymbols, report: Reporter) {
+    const name = constant.name.name;
+    const symbol = spec.symbols.get(name);
+    if (!symbol) {
+        if (spec.complete) {
+            report(constant.name.range, `${name} is not declared in ${spec.moduleName} or the modules it uses.`);
+        }
+        return;
+    }
+    if (symbol.kind === 'variable') {
+        report(constant.name.range, `${name} is a variable, only constants and definitions can be assigned.`);
+        return;
+    }
+    if (constant.operator === '=' && symbol.arity !== undefined && symbol.arity > 0) {
+        report(constant.name.range, `${name} takes ${symbol.arity} argument(s), it can only be replaced with <-.`);
+        return;
+    }
+    if (!constant.value) {
+        return;
+    }
+    const value = constant.value.name;
+    const replacement = spec.symbols.get(value);
+    if (!replacement) {
+        if (spec.complete) {
+            report(constant.value.range, `${value} is not defined in ${spec.moduleName} or the modules it uses.`);
+        }
+    } else if (symbol.arity !== undefined && replacement.arity !== undefined && symbol.arity !== replacement.arity) {
+        report(
+            constant.value.range,
+            `${value} takes ${replacement.arity} argument(s), but ${name} takes ${symbol.arity}.`
+        );
+    } else if (symbol.kind === 'constant' && replacement.level !== undefined && replacement.level > 0) {
+        report(
+            constant.value.range,
+            `${name} is a constant, but ${value} is ${LEVEL_NAMES[replacement.level]}-level.`
+        );
+    }
+}
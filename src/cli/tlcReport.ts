@@ -0,0 +1,202 @@
+/**
+ * Command line entry point that turns a TLC run into a JSON or JUnit XML report, e.g. for CI.
+ * Either runs TLC on the given spec or reads the output of a finished run from a .out file.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn } from 'child_process';
+import { PassThrough, Readable } from 'stream';
+import { ModelCheckResult, ModelCheckResultSource, SpecFiles } from '../model/check';
+import { buildCheckReport, formatJsonReport, formatJUnitReport } from '../model/checkReport';
+import { TlcModelCheckerStdoutParser } from '../parsers/tlc';
+
+const DEFAULT_JAR_PATH = path.resolve(__dirname, '../tools/tla2tools.jar');
+const DEFAULT_GC_OPTION = '-XX:+UseParallelGC';
+
+const EXIT_PASSED = 0;
+const EXIT_FAILED = 1;
+const EXIT_USAGE = 2;
+
+const USAGE = [
+    'Usage:',
+    '  tlc-report [options] <spec.tla> [-- <TLC options>]   Run TLC and report the result',
+    '  tlc-report [options] --out <file.out>               Report the result of a finished run',
+    '',
+    'Options:',
+    '  --format json|junit   Report format, json by default',
+    '  --report <file>       Where to write the report, stdout by default',
+    '  --config <file.cfg>   Model config, the .cfg file next to the spec by default',
+    '  --jar <path>          Path to tla2tools.jar, the bundled one by default',
+    '  --java <path>         Java executable, java by default',
+    '',
+    'Exits with 0 if model checking succeeded, 1 if it failed or did not finish and 2 on invalid arguments.'
+].join('\n');
+
+export type ReportFormat = 'json' | 'junit';
+
+export interface CliArgs {
+    format: ReportFormat;
+    reportPath: string | undefined;
+    outFilePath: string | undefined;
+    specPath: string | undefined;
+    configPath: string | undefined;
+    jarPath: string;
+    javaPath: string;
+    tlcOptions: string[];
+}
+
+/**
+ * Thrown when the command line arguments cannot be used.
+ */
+export class CliUsageError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+export function parseCliArgs(argv: string[]): CliArgs {
+    const args: CliArgs = {
+        format: 'json',
+        reportPath: undefined,
+        outFilePath: undefined,
+        specPath: undefined,
+        configPath: undefined,
+        jarPath: DEFAULT_JAR_PATH,
+        javaPath: 'java',
+        tlcOptions: []
+    };
+    let i = 0;
+    const nextValue = (name: string) => {
+        i += 1;
+        if (i >= argv.length) {
+            throw new CliUsageError(`Missing value of ${name}`);
+        }
+        return argv[i];
+    };
+    for (; i < argv.length; i++) {
+        const arg = argv[i];
+        if (arg === '--') {
+            args.tlcOptions = argv.slice(i + 1);
+            break;
+        }
+        switch (arg) {
+            case '--format': {
+                const format = nextValue(arg);
+                if (format !== 'json' && format !== 'junit') {
+                    throw new CliUsageError(`Unknown report format: ${format}`);
+                }
+                args.format = format;
+                break;
+            }
+            case '--report':
+                args.reportPath = nextValue(arg);
+                break;
+            case '--out':
+                args.outFilePath = nextValue(arg);
+                break;
+            case '--config':
+                args.configPath = nextValue(arg);
+                break;
+            case '--jar':
+                args.jarPath = nextValue(arg);
+                break;
+            case '--java':
+                args.javaPath = nextValue(arg);
+                break;
+            default:
+                if (arg.startsWith('--') || args.specPath) {
+                    throw new CliUsageError(`Unexpected argument: ${arg}`);
+                }
+                args.specPath = arg;
+        }
+    }
+    if (!args.specPath === !args.outFilePath) {
+        throw new CliUsageError('Either a spec or an .out file must be given');
+    }
+    return args;
+}
+
+/**
+ * Parses TLC output the same way the extension does.
+ */
+export async function readCheckResult(
+    source: ModelCheckResultSource,
+    stdout: Readable,
+    specFiles: SpecFiles | undefined
+): Promise<ModelCheckResult | undefined> {
+    let checkResult: ModelCheckResult | undefined;
+    const parser = new TlcModelCheckerStdoutParser(source, stdout, specFiles, false, (result) => {
+        checkResult = result;
+    });
+    await parser.readAll();
+    return checkResult;
+}
+
+export function formatReport(checkResult: ModelCheckResult, format: ReportFormat, suiteName: string): string {
+    return format === 'junit'
+        ? formatJUnitReport(checkResult, suiteName)
+        : formatJsonReport(checkResult);
+}
+
+async function runCli(argv: string[]): Promise<number> {
+    const args = parseCliArgs(argv);
+    let checkResult: ModelCheckResult | undefined;
+    let suiteName: string;
+    if (args.outFilePath) {
+        const stream = new PassThrough();
+        stream.end(await fs.promises.readFile(args.outFilePath));
+        checkResult = await readCheckResult(ModelCheckResultSource.OutFile, stream, undefined);
+        suiteName = path.parse(args.outFilePath).name;
+    } else {
+        const specPath = path.resolve(args.specPath ?? '');
+        const configPath = path.resolve(args.configPath ?? specPath.replace(/\.tla$/, '') + '.cfg');
+        const specFiles = new SpecFiles(specPath, configPath);
+        checkResult = await runTlc(args, specFiles);
+        suiteName = specFiles.modelName;
+    }
+    if (!checkResult) {
+        throw new Error('TLC produced no output');
+    }
+    const report = formatReport(checkResult, args.format, suiteName);
+    if (args.reportPath) {
+        await fs.promises.writeFile(args.reportPath, report);
+    } else {
+        process.stdout.write(report);
+    }
+    return buildCheckReport(checkResult).status === 'passed' ? EXIT_PASSED : EXIT_FAILED;
+}
+
+async function runTlc(args: CliArgs, specFiles: SpecFiles): Promise<ModelCheckResult | undefined> {
+    const javaArgs = [
+        DEFAULT_GC_OPTION, '-cp', args.jarPath, 'tlc2.TLC',
+        specFiles.tlaFileName, '-tool', '-modelcheck', '-config', specFiles.cfgFilePath
+    ].concat(args.tlcOptions);
+    const proc = spawn(args.javaPath, javaArgs, { cwd: path.dirname(specFiles.tlaFilePath) });
+    const failed = new Promise<never>((_, reject) => {
+        proc.once('error', (err) => reject(new Error(`Failed to launch TLC using "${args.javaPath}": ${err.message}`)));
+    });
+    // Progress goes to stderr so that the report can be written to stdout
+    proc.stdout.pipe(process.stderr, { end: false });
+    proc.stderr.pipe(process.stderr, { end: false });
+    return Promise.race([
+        readCheckResult(ModelCheckResultSource.Process, proc.stdout, specFiles),
+        failed
+    ]);
+}
+
+if (require.main === module) {
+    runCli(process.argv.slice(2)).then(
+        (exitCode) => {
+            process.exitCode = exitCode;
+        },
+        (err) => {
+            if (err instanceof CliUsageError) {
+                console.error(`${err.message}\n\n${USAGE}`);
+                process.exitCode = EXIT_USAGE;
+            } else {
+                console.error(err instanceof Error ? err.message : err);
+                process.exitCode = EXIT_FAILED;
+            }
+        }
+    );
+}
@@ -0,0 +1,62 @@
+/**
+ * The part of the VS Code API that TLC output parsers rely on, implemented for running them outside the editor.
+ * The CLI bundle resolves the 'vscode' module to this file.
+ */
+
+export class Position {
+    constructor(readonly line: number, readonly character: number) {}
+}
+
+export class Range {
+    readonly start: Position;
+    readonly end: Position;
+
+    constructor(start: Position, end: Position);
+    constructor(startLine: number, startCharacter: number, endLine: number, endCharacter: number);
+    constructor(a: Position | number, b: Position | number, c?: number, d?: number) {
+        if (typeof a === 'number' && typeof b === 'number') {
+            this.start = new Position(a, b);
+            this.end = new Position(c ?? a, d ?? b);
+        } else {
+            this.start = a as Position;
+            this.end = b as Position;
+        }
+    }
+}
+
+export enum DiagnosticSeverity {
+    Error = 0,
+    Warning = 1,
+    Information = 2,
+    Hint = 3
+}
+
+export class Diagnostic {
+    constructor(
+        readonly range: Range,
+        readonly message: string,
+        readonly severity: DiagnosticSeverity = DiagnosticSeverity.Error
+    ) {}
+}
+
+export class Uri {
+    private constructor(readonly scheme: string, readonly path: string) {}
+
+    get fsPath(): string {
+        return this.path;
+    }
+
+    static file(filePath: string): Uri {
+        return new Uri('file', filePath);
+    }
+
+    toString(): string {
+        return `${this.scheme}://${this.path}`;
+    }
+}
+
+export const window = {
+    showErrorMessage: (message: string): void => console.error(message),
+    showWarningMessage: (message: string): void => console.warn(message),
+    showInformationMessage: (message: string): void => console.log(message)
+};
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import moment from 'moment';
+import { PassThrough } from 'stream';
+import { ModelCheckResult, ModelCheckResultSource } from '../model/check';
+import { CheckHistory, CheckHistoryEntry, historyEntrySpecFiles } from '../model/checkHistory';
+import { compareCheckResults, formatComparison } from '../model/checkComparison';
+import { TlcModelCheckerStdoutParser } from '../parsers/tlc';
+import { rerunCheck, setCheckHistory } from './checkModel';
+import { showOutput } from './visualizeOutput';
+import { CheckHistoryTreeDataProvider } from '../panels/checkHistoryTreeDataProvider';
+
+export const CMD_CHECK_HISTORY_OPEN = 'tlaplus.model.check.history.open';
+export const CMD_CHECK_HISTORY_RERUN = 'tlaplus.model.check.history.rerun';
+export const CMD_CHECK_HISTORY_DELETE = 'tlaplus.model.check.history.delete';
+export const CMD_CHECK_HISTORY_CLEAR = 'tlaplus.model.check.history.clear';
+export const CMD_CHECK_HISTORY_COMPARE = 'tlaplus.model.check.history.compare';
+
+/**
+ * Tree items of the history view carry their entries.
+ */
+interface HistoryEntryHolder {
+    entry: CheckHistoryEntry;
+}
+
+/**
+ * Sets up recording of model checking runs along with the view and commands to browse them.
+ */
+export function registerCheckHistory(
+    context: vscode.ExtensionContext,
+    diagnostic: vscode.DiagnosticCollection
+): void {
+    const storageUri = context.storageUri ?? context.globalStorageUri;
+    const history = new CheckHistory(vscode.Uri.joinPath(storageUri, 'tlc-history').fsPath);
+    history.load().catch((err) => console.error(`Cannot load model checking history: ${err}`));
+    setCheckHistory(history);
+    context.subscriptions.push(
+        vscode.window.registerTreeDataProvider(
+            CheckHistoryTreeDataProvider.viewType,
+            new CheckHistoryTreeDataProvider(history, context)
+        ),
+        vscode.commands.registerCommand(
+            CMD_CHECK_HISTORY_OPEN,
+            (item) => openHistoryEntry(history, item, context)),
+        vscode.commands.registerCommand(
+            CMD_CHECK_HISTORY_RERUN,
+            (item) => rerunHistoryEntry(item, diagnostic, context)),
+        vscode.commands.registerCommand(
+            CMD_CHECK_HISTORY_DELETE,
+            (item) => deleteHistoryEntry(history, item)),
+        vscode.commands.registerCommand(
+            CMD_CHECK_HISTORY_CLEAR,
+            () => clearHistory(history)),
+        vscode.commands.registerCommand(
+            CMD_CHECK_HISTORY_COMPARE,
+            (item) => compareHistoryEntries(history, item))
+    );
+}
+
+/**
+ * Shows the result of a past model checking run in the model checking panel.
+ */
+async function openHistoryEntry(
+    history: CheckHistory,
+    item: HistoryEntryHolder | undefined,
+    extContext: vscode.ExtensionContext
+): Promise<void> {
+    if (!item) {
+        return;
+    }
+    let output: Buffer;
+    try {
+        output = await fs.readFile(history.getOutFilePath(item.entry));
+    } catch (err) {
+        vscode.window.showErrorMessage(`Cannot read output of the model checking run: ${err}`);
+        return;
+    }
+    showOutput(output, extContext, historyEntrySpecFiles(item.entry));
+}
+
+/**
+ * Runs a past model check again with the same options.
+ */
+async function rerunHistoryEntry(
+    item: HistoryEntryHolder | undefined,
+    diagnostic: vscode.DiagnosticCollection,
+    extContext: vscode.ExtensionContext
+): Promise<void> {
+    if (!item) {
+        return;
+    }
+    await rerunCheck(historyEntrySpecFiles(item.entry), item.entry.options, diagnostic, extContext);
+}
+
+async function deleteHistoryEntry(
+    history: CheckHistory,
+    item: HistoryEntryHolder | undefined
+): Promise<void> {
+    if (item) {
+        await history.delete(item.entry);
+    }
+}
+
+async function clearHistory(history: CheckHistory): Promise<void> {
+    const answer = await vscode.window.showWarningMessage(
+        'Delete all recorded model checking runs?', { modal: true }, 'Delete');
+    if (answer === 'Delete') {
+        await history.clear();
+    }
+}
+
+/**
+ * Asks for two runs, or one more run if one is given, and shows the differences between them.
+ */
+async function compareHistoryEntries(history: CheckHistory, item: HistoryEntryHolder | undefined): Promise<void> {
+    const first = item?.entry ?? await pickHistoryEntry(history.getEntries(), 'Select the first run to compare');
+    if (!first) {
+        return;
+    }
+    const second = await pickHistoryEntry(
+        history.getEntries().filter((e) => e.id !== first.id),
+        'Select the run to compare with');
+    if (!second) {
+        return;
+    }
+    const [before, after] = first.startTime <= second.startTime ? [first, second] : [second, first];
+    let beforeResult: ModelCheckResult | undefined;
+    let afterResult: ModelCheckResult | undefined;
+    try {
+        beforeResult = await readCheckResult(history, before);
+        afterResult = await readCheckResult(history, after);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Cannot read output of the model checking run: ${err}`);
+        return;
+    }
+    if (!beforeResult || !afterResult) {
+        vscode.window.showWarningMessage('No model checking results found in the output of the run');
+        return;
+    }
+    const text = formatComparison(
+        compareCheckResults(beforeResult, afterResult),
+        describeEntry(before),
+        describeEntry(after));
+    const doc = await vscode.workspace.openTextDocument({ language: 'markdown', content: text });
+    await vscode.window.showTextDocument(doc);
+}
+
+async function pickHistoryEntry(
+    entries: ReadonlyArray<CheckHistoryEntry>,
+    placeHolder: string
+): Promise<CheckHistoryEntry | undefined> {
+    if (entries.length === 0) {
+        vscode.window.showWarningMessage('There are no model checking runs to compare');
+        return undefined;
+    }
+    const picked = await vscode.window.showQuickPick(
+        entries.map((entry) => ({ label: describeEntry(entry), entry })),
+        { placeHolder });
+    return picked?.entry;
+}
+
+/**
+ * Parses the saved TLC output of the run.
+ */
+async function readCheckResult(
+    history: CheckHistory,
+    entry: CheckHistoryEntry
+): Promise<ModelCheckResult | undefined> {
+    const stream = new PassThrough();
+    stream.end(await fs.readFile(history.getOutFilePath(entry)));
+    let checkResult: ModelCheckResult | undefined;
+    const parser = new TlcModelCheckerStdoutParser(
+        ModelCheckResultSource.OutFile, stream, historyEntrySpecFiles(entry), false, (r) => checkResult = r);
+    await parser.readAll();
+    return checkResult;
+}
+
+function describeEntry(entry: CheckHistoryEntry): string {
+    const startTime = moment(entry.startTime).format('YYYY-MM-DD HH:mm:ss');
+    return `${entry.modelName} (${path.basename(entry.tlaFilePath)}), ${startTime}`;
+}
@@ -1,9 +1,15 @@
 import { ChildProcess } from 'child_process';
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { LANG_TLAPLUS, LANG_TLAPLUS_CFG } from '../common';
+import { exists, LANG_TLAPLUS, LANG_TLAPLUS_CFG } from '../common';
 import { applyDCollection } from '../diagnostic';
 import { ModelCheckResult, ModelCheckResultSource, SpecFiles } from '../model/check';
+import { CheckHistory } from '../model/checkHistory';
+import { addDeadCodeDiagnostics } from '../model/deadCode';
+import {
+    buildResumeOptions, CheckpointEntry, CheckpointIndex, CheckpointRun, checkpointSpecFiles, mergeResumedCheckResult
+} from '../model/checkpoints';
+import { buildProfileRunOptions, ModelProfile } from '../model/modelProfiles';
 import { ToolOutputChannel } from '../outputChannels';
 import { saveStreamToFile } from '../outputSaver';
 import {
@@ -12,14 +18,18 @@ import {
     updateCheckResultView
 } from '../panels/checkResultView';
 import { TlcModelCheckerStdoutParser } from '../parsers/tlc';
-import { runTlc, stopProcess } from '../tla2tools';
+import { getTlcOptions, runTlc, stopProcess, ToolProcessInfo } from '../tla2tools';
+import { runDistributedTlc, stopDistributedWorkers } from './distributedCheck';
 import { ModelResolveMode, resolveModelForUri } from './modelResolver';
 import { TlcCoverageDecorationProvider } from '../tlcCoverage';
+import { ModelProfiles } from './modelProfiles';
 
 export const CMD_CHECK_MODEL_RUN = 'tlaplus.model.check.run';
 export const CMD_CHECK_MODEL_RUN_AGAIN = 'tlaplus.model.check.runAgain';
 export const CMD_CHECK_MODEL_CUSTOM_RUN = 'tlaplus.model.check.customRun';
+export const CMD_CHECK_MODEL_RUN_DISTRIBUTED = 'tlaplus.model.check.runDistributed';
 export const CMD_CHECK_MODEL_STOP = 'tlaplus.model.check.stop';
+export const CMD_CHECK_MODEL_STOP_KEEP_CHECKPOINT = 'tlaplus.model.check.stopKeepCheckpoint';
 export const CMD_CHECK_MODEL_DISPLAY = 'tlaplus.model.check.display';
 export const CMD_SHOW_TLC_OUTPUT = 'tlaplus.showTlcOutput';
 export const CTX_TLC_RUNNING = 'tlaplus.tlc.isRunning';
@@ -28,9 +38,20 @@ export const CTX_TLC_CAN_RUN_AGAIN = 'tlaplus.tlc.canRunAgain';
 const CFG_CREATE_OUT_FILES = 'tlaplus.tlc.modelChecker.createOutFiles';
 let checkProcess: ChildProcess | undefined;
 let lastCheckFiles: SpecFiles | undefined;
+let lastCheckDistributed = false;
 let coverageProvider: TlcCoverageDecorationProvider | undefined;
+let checkHistory: CheckHistory | undefined;
+let checkpointIndex: CheckpointIndex | undefined;
+let checkpointRun: CheckpointRun | undefined;
+let modelProfiles: ModelProfiles | undefined;
 const statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 0);
 export const outChannel = new ToolOutputChannel('TLC', mapTlcOutputLine);
+const checkResultEmitter = new vscode.EventEmitter<ModelCheckResult>();
+
+/**
+ * Fires when the result of the current model checking run changes.
+ */
+export const onDidUpdateCheckResult = checkResultEmitter.event;
 
 class CheckResultHolder {
     checkResult: ModelCheckResult | undefined;
@@ -43,6 +64,41 @@ export function setCoverageProvider(provider: TlcCoverageDecorationProvider): vo
     coverageProvider = provider;
 }
 
+/**
+ * Sets the history where model checking runs are recorded.
+ */
+export function setCheckHistory(history: CheckHistory): void {
+    checkHistory = history;
+}
+
+/**
+ * Sets the index where resumable checkpoints of model checking runs are recorded.
+ */
+export function setCheckpointIndex(index: CheckpointIndex): void {
+    checkpointIndex = index;
+}
+
+/**
+ * Sets the model profiles that TLC runs take their settings from.
+ */
+export function setModelProfiles(profiles: ModelProfiles): void {
+    modelProfiles = profiles;
+}
+
+/**
+ * Finds the model profile to check the given model with, if any.
+ */
+export function getModelProfile(tlaFilePath: string, cfgFilePath: string): ModelProfile | undefined {
+    return modelProfiles?.find(tlaFilePath, cfgFilePath);
+}
+
+/**
+ * Finds the spec a model config belongs to according to the model profiles, if any profile names the config.
+ */
+export function getProfileSpecPath(cfgFilePath: string): string | undefined {
+    return modelProfiles?.findSpecPath(cfgFilePath);
+}
+
 /**
  * Runs TLC on a TLA+ specification.
  */
@@ -63,6 +119,25 @@ export async function checkModel(
     await doCheckModel(specFiles, true, extContext, diagnostic, true);
 }
 
+/**
+ * Runs a distributed TLC master on a TLA+ specification along with the workers from the settings.
+ */
+export async function checkModelDistributed(
+    fileUri: vscode.Uri | undefined,
+    diagnostic: vscode.DiagnosticCollection,
+    extContext: vscode.ExtensionContext
+): Promise<void> {
+    const uri = fileUri ? fileUri : getActiveEditorFileUri(extContext);
+    if (!uri) {
+        return;
+    }
+    const specFiles = await getSpecFiles(uri, true);
+    if (!specFiles) {
+        return;
+    }
+    await doCheckModel(specFiles, true, extContext, diagnostic, true, { distributed: true });
+}
+
 export async function runLastCheckAgain(
     diagnostic: vscode.DiagnosticCollection,
     extContext: vscode.ExtensionContext
@@ -74,7 +149,39 @@ export async function runLastCheckAgain(
     if (!canRunTlc(extContext)) {
         return;
     }
-    await doCheckModel(lastCheckFiles, true, extContext, diagnostic, false);
+    await doCheckModel(lastCheckFiles, true, extContext, diagnostic, false, { distributed: lastCheckDistributed });
+}
+
+/**
+ * Runs model checking of the given spec with exactly the given TLC options.
+ */
+export async function rerunCheck(
+    specFiles: SpecFiles,
+    tlcOptions: string[],
+    diagnostic: vscode.DiagnosticCollection,
+    extContext: vscode.ExtensionContext
+): Promise<void> {
+    if (!canRunTlc(extContext)) {
+        return;
+    }
+    await doCheckModel(specFiles, true, extContext, diagnostic, false, { presetOptions: tlcOptions });
+}
+
+/**
+ * Resumes an interrupted model checking run from its last checkpoint.
+ */
+export async function resumeCheck(
+    entry: CheckpointEntry,
+    diagnostic: vscode.DiagnosticCollection,
+    extContext: vscode.ExtensionContext
+): Promise<void> {
+    if (!canRunTlc(extContext)) {
+        return;
+    }
+    await doCheckModel(checkpointSpecFiles(entry), true, extContext, diagnostic, false, {
+        presetOptions: buildResumeOptions(entry),
+        resumedFrom: entry
+    });
 }
 
 export async function checkModelCustom(
@@ -113,12 +220,39 @@ export function stopModelChecking(
     silent: boolean = false
 ): void {
     if (checkProcess && terminateLastRun(lastCheckFiles)) {
+        if (checkpointRun) {
+            checkpointRun.discardCheckpoint = true;
+        }
         stopProcess(checkProcess);
+        stopDistributedWorkers();
     } else if (!silent) {
         vscode.window.showInformationMessage("There're no currently running model checking processes");
     }
 }
 
+/**
+ * Stops the current model checking process so that it can be resumed from its last checkpoint later.
+ */
+export async function stopModelCheckingKeepCheckpoint(): Promise<void> {
+    if (!checkProcess) {
+        vscode.window.showInformationMessage("There're no currently running model checking processes");
+        return;
+    }
+    if (!checkpointRun?.checkpoint) {
+        const answer = await vscode.window.showWarningMessage(
+            'TLC has not written a checkpoint of this run yet, so it cannot be resumed. '
+                + 'By default, TLC writes a checkpoint every 30 minutes, the -checkpoint option changes that.',
+            { modal: true },
+            'Stop Anyway'
+        );
+        if (answer !== 'Stop Anyway' || !checkProcess) {
+            return;
+        }
+    }
+    stopProcess(checkProcess);
+    stopDistributedWorkers();
+}
+
 export function showTlcOutput(): void {
     outChannel.revealWindow();
 }
@@ -149,7 +283,7 @@ export function getEditorIfCanRunTlc(extContext: vscode.ExtensionContext): vscod
     return editor;
 }
 
-function canRunTlc(extContext: vscode.ExtensionContext): boolean {
+export function canRunTlc(extContext: vscode.ExtensionContext): boolean {
     if (checkProcess) {
         vscode.window.showWarningMessage(
             'Another model checking process is currently running',
@@ -160,25 +294,51 @@ function canRunTlc(extContext: vscode.ExtensionContext): boolean {
     return true;
 }
 
+/**
+ * Optional parameters of a model checking run.
+ */
+export interface CheckModelOptions {
+    extraOpts?: string[];                               // TLC options added to the ones from the settings
+    debuggerPortCallback?: (port?: number) => void;
+    presetOptions?: string[];                           // TLC options to use instead of the ones from the settings
+    distributed?: boolean;
+    resumedFrom?: CheckpointEntry;
+}
+
 export async function doCheckModel(
     specFiles: SpecFiles,
     showCheckResultView: boolean,
     extContext: vscode.ExtensionContext,
     diagnostic: vscode.DiagnosticCollection,
     showOptionsPrompt: boolean,
-    extraOpts: string[] = [],
-    debuggerPortCallback?: (port?: number) => void
+    runOptions: CheckModelOptions = {}
 ): Promise<ModelCheckResult | undefined> {
+    const { extraOpts = [], debuggerPortCallback, presetOptions, distributed = false, resumedFrom } = runOptions;
     try {
-        const procInfo = await runTlc(
-            specFiles.tlaFilePath, specFiles.cfgFilePath, showOptionsPrompt, extraOpts);
-        if (procInfo === undefined) {
+        // Options of the model profile replace the ones from the settings, so there's nothing to prompt for
+        const profileOptions = buildProfileRunOptions(
+            getModelProfile(specFiles.tlaFilePath, specFiles.cfgFilePath));
+        let tlcOptions = presetOptions ?? profileOptions.tlcOptions;
+        let procInfo: ToolProcessInfo | undefined;
+        if (distributed) {
+            tlcOptions = tlcOptions ?? await getTlcOptions(showOptionsPrompt);
+            procInfo = tlcOptions === undefined
+                ? undefined
+                : await runDistributedTlc(specFiles, tlcOptions, profileOptions);
+        } else {
+            procInfo = await runTlc(
+                specFiles.tlaFilePath, specFiles.cfgFilePath, showOptionsPrompt, extraOpts,
+                profileOptions.javaOptions, tlcOptions, profileOptions.libraryPaths,
+                (chosenOptions) => tlcOptions = chosenOptions);
+        }
+        if (tlcOptions === undefined || procInfo === undefined) {
             // Command cancelled by user, make sure UI state is reset
             vscode.commands.executeCommand('setContext', CTX_TLC_CAN_RUN_AGAIN, !!lastCheckFiles);
             updateStatusBarItem(false, lastCheckFiles);
             return undefined;
         }
         lastCheckFiles = specFiles;
+        lastCheckDistributed = distributed;
         vscode.commands.executeCommand('setContext', CTX_TLC_CAN_RUN_AGAIN, true);
         updateStatusBarItem(true, specFiles);
         outChannel.bindTo(procInfo);
@@ -187,16 +347,33 @@ export async function doCheckModel(
             checkProcess = undefined;
             updateStatusBarItem(false, lastCheckFiles);
         });
+        const historyRun = showCheckResultView
+            ? checkHistory?.startRun(specFiles, extraOpts.concat(tlcOptions))
+            : undefined;
         if (showCheckResultView) {
             attachFileSaver(specFiles, checkProcess);
             revealEmptyCheckResultView(extContext);
         }
+        if (historyRun) {
+            saveStreamToFile(checkProcess.stdout, historyRun.outFilePath);
+        }
+        const currentCheckpointRun = showCheckResultView
+            ? checkpointIndex?.startRun(specFiles, tlcOptions, resumedFrom)
+            : undefined;
+        checkpointRun = currentCheckpointRun;
         const resultHolder = new CheckResultHolder();
-        const checkResultCallback = (checkResult: ModelCheckResult) => {
+        const checkResultCallback = (result: ModelCheckResult) => {
+            // A resumed run only reports statistics since the checkpoint, the earlier ones come from the index
+            const checkResult = resumedFrom ? mergeResumedCheckResult(resumedFrom, result) : result;
             resultHolder.checkResult = checkResult;
+            if (currentCheckpointRun) {
+                checkpointIndex?.updateRun(currentCheckpointRun, checkResult)
+                    .catch((err) => console.error(`Cannot record checkpoint: ${err}`));
+            }
             if (showCheckResultView) {
                 updateCheckResultView(checkResult);
             }
+            checkResultEmitter.fire(checkResult);
 
             // Update coverage visualization
             if (coverageProvider && checkResult.coverageStat.length > 0) {
@@ -218,7 +395,16 @@ export async function doCheckModel(
             debuggerPortCallback
         );
         const dCol = await stdoutParser.readAll();
+        if (resultHolder.checkResult) {
+            addDeadCodeDiagnostics(resultHolder.checkResult, dCol);
+        }
         applyDCollection(dCol, diagnostic);
+        if (historyRun) {
+            await checkHistory?.finishRun(historyRun, resultHolder.checkResult);
+        }
+        if (currentCheckpointRun) {
+            await checkpointIndex?.finishRun(currentCheckpointRun, resultHolder.checkResult);
+        }
         return resultHolder.checkResult;
     } catch (err) {
         statusBarItem.hide();
@@ -244,6 +430,12 @@ export async function getSpecFiles(
     interactive = true,
     mode: ModelResolveMode = 'adjacent'
 ): Promise<SpecFiles | undefined> {
+    const profile = mode === 'adjacent' && fileUri.fsPath.endsWith('.tla')
+        ? modelProfiles?.getActive(fileUri.fsPath)
+        : undefined;
+    if (profile?.cfgPath) {
+        return getProfileSpecFiles(fileUri.fsPath, profile.cfgPath, profile.name, warn);
+    }
     const resolved = await resolveModelForUri(fileUri, warn, interactive, mode);
     if (!resolved) {
         return undefined;
@@ -256,6 +448,25 @@ export async function getSpecFiles(
     );
 }
 
+/**
+ * Spec files of a model profile that names its model config.
+ */
+async function getProfileSpecFiles(
+    tlaFilePath: string,
+    cfgFilePath: string,
+    profileName: string,
+    warn: boolean
+): Promise<SpecFiles | undefined> {
+    if (!await exists(cfgFilePath)) {
+        if (warn) {
+            vscode.window.showWarningMessage(
+                `Model config ${path.basename(cfgFilePath)} of model profile ${profileName} doesn't exist.`);
+        }
+        return undefined;
+    }
+    return new SpecFiles(tlaFilePath, cfgFilePath);
+}
+
 function updateStatusBarItem(active: boolean, specFiles: SpecFiles | undefined) {
     statusBarItem.text = 'TLC' + (active ?
         (specFiles === undefined ? '' : ` (Model: ${specFiles.modelName})`)
@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { exists } from '../common';
+import { CheckpointEntry, CheckpointIndex } from '../model/checkpoints';
+import { resumeCheck, setCheckpointIndex } from './checkModel';
+
+export const CMD_CHECK_MODEL_RESUME = 'tlaplus.model.check.resume';
+
+/**
+ * Sets up recording of model checking checkpoints along with the command to resume from them.
+ */
+export function registerCheckpoints(
+    context: vscode.ExtensionContext,
+    diagnostic: vscode.DiagnosticCollection
+): void {
+    const storageUri = context.storageUri ?? context.globalStorageUri;
+    const index = new CheckpointIndex(vscode.Uri.joinPath(storageUri, 'tlc-checkpoints').fsPath);
+    index.load().catch((err) => console.error(`Cannot load model checking checkpoints: ${err}`));
+    setCheckpointIndex(index);
+    context.subscriptions.push(
+        vscode.commands.registerCommand(
+            CMD_CHECK_MODEL_RESUME,
+            () => resumeModelCheck(index, diagnostic, context))
+    );
+}
+
+/**
+ * Asks for a checkpoint and resumes the model checking run it was written by.
+ */
+async function resumeModelCheck(
+    index: CheckpointIndex,
+    diagnostic: vscode.DiagnosticCollection,
+    extContext: vscode.ExtensionContext
+): Promise<void> {
+    const entries: CheckpointEntry[] = [];
+    for (const entry of index.getEntries()) {
+        // The checkpoint directory may have been removed since the checkpoint was recorded
+        if (await exists(entry.metaDir)) {
+            entries.push(entry);
+        } else {
+            await index.delete(entry);
+        }
+    }
+    if (entries.length === 0) {
+        vscode.window.showInformationMessage('There are no model checking runs to resume');
+        return;
+    }
+    const item = await vscode.window.showQuickPick(
+        entries.map((entry) => ({
+            label: entry.modelName,
+            description: path.basename(entry.tlaFilePath),
+            detail: `Checkpoint of ${entry.checkpointTime}`
+                + (entry.distinctStates === undefined ? '' : `, ${entry.distinctStates} distinct states`),
+            entry
+        })),
+        { placeHolder: 'Select the model checking run to resume' }
+    );
+    if (item) {
+        await resumeCheck(item.entry, diagnostic, extContext);
+    }
+}
@@ -0,0 +1,133 @@
+import * as vscode from 'vscode';
+import * as os from 'os';
+import { createInterface } from 'readline';
+import { SpecFiles } from '../model/check';
+import { ModelProfileRunOptions } from '../model/modelProfiles';
+import { ToolOutputChannel } from '../outputChannels';
+import { TLC_DISTRIBUTED_SERVER_RUNNING } from '../parsers/tlcCodes';
+import { runSshTlcWorker, runTlcServer, runTlcWorker, stopProcess, ToolProcessInfo } from '../tla2tools';
+
+const CFG_LOCAL_WORKERS = 'tlaplus.tlc.distributed.localWorkers';
+const CFG_REMOTE_WORKERS = 'tlaplus.tlc.distributed.remoteWorkers';
+const CFG_SERVER_ADDRESS = 'tlaplus.tlc.distributed.serverAddress';
+const DEFAULT_LOCAL_WORKERS = 2;
+
+/**
+ * A machine that runs a TLC worker over SSH, as given in the settings.
+ */
+interface RemoteWorkerConfig {
+    host: string;
+    javaPath?: string;
+    toolsJarPath?: string;
+}
+
+const workersChannel = new ToolOutputChannel('TLC Workers');
+let workers: ToolProcessInfo[] = [];
+
+/**
+ * Starts a distributed TLC master for the model, along with the workers from the settings.
+ * Workers are started once the master is ready to accept them, and stopped when the master exits.
+ */
+export async function runDistributedTlc(
+    specFiles: SpecFiles,
+    tlcOptions: string[],
+    runOptions: ModelProfileRunOptions
+): Promise<ToolProcessInfo | undefined> {
+    const config = vscode.workspace.getConfiguration();
+    const localCount = config.get<number>(CFG_LOCAL_WORKERS, DEFAULT_LOCAL_WORKERS);
+    const remoteWorkers = config.get<RemoteWorkerConfig[]>(CFG_REMOTE_WORKERS, []);
+    if (localCount < 1 && remoteWorkers.length === 0) {
+        vscode.window.showWarningMessage(
+            'No TLC workers are configured, set the number of local workers or add remote ones in the settings.');
+        return undefined;
+    }
+    // Remote workers reach the master by the address the master announces, so it must be visible to them
+    const serverAddress = remoteWorkers.length === 0
+        ? 'localhost'
+        : config.get<string>(CFG_SERVER_ADDRESS) || os.hostname();
+    const server = await runTlcServer(
+        specFiles.tlaFilePath,
+        specFiles.cfgFilePath,
+        tlcOptions,
+        [`-Djava.rmi.server.hostname=${serverAddress}`].concat(runOptions.javaOptions),
+        runOptions.libraryPaths
+    );
+    stopDistributedWorkers();
+    workersChannel.clear();
+    // Readline would pause the output when closed, and the check result parser reads it as well
+    const readyMarker = `@!@!@STARTMSG ${TLC_DISTRIBUTED_SERVER_RUNNING.num}`;
+    let output = '';
+    let serverClosed = false;
+    const onServerOutput = (chunk: Buffer | string) => {
+        output += chunk.toString();
+        if (!output.includes(readyMarker)) {
+            output = output.slice(-readyMarker.length);
+            return;
+        }
+        server.process.stdout?.off('data', onServerOutput);
+        startWorkers(specFiles.tlaFilePath, serverAddress, localCount, remoteWorkers, () => serverClosed)
+            .catch((err) => vscode.window.showErrorMessage(`Cannot start TLC workers: ${err}`));
+    };
+    server.process.stdout?.on('data', onServerOutput);
+    server.process.on('close', () => {
+        serverClosed = true;
+        stopDistributedWorkers();
+    });
+    return server;
+}
+
+/**
+ * Stops the workers of the current distributed TLC run, if any.
+ */
+export function stopDistributedWorkers(): void {
+    workers.forEach((worker) => stopProcess(worker.process));
+    workers = [];
+}
+
+async function startWorkers(
+    tlaFilePath: string,
+    serverAddress: string,
+    localCount: number,
+    remoteWorkers: RemoteWorkerConfig[],
+    isServerClosed: () => boolean
+): Promise<void> {
+    // The master may exit while workers are being started, the workers started after that would be left running
+    for (let i = 0; i < localCount && !isServerClosed(); i++) {
+        const worker = await runTlcWorker(tlaFilePath, serverAddress);
+        if (isServerClosed()) {
+            stopProcess(worker.process);
+            return;
+        }
+        addWorker(`local ${i + 1}`, worker);
+    }
+    for (const remote of remoteWorkers) {
+        if (isServerClosed()) {
+            return;
+        }
+        addWorker(remote.host, runSshTlcWorker(
+            remote.host,
+            remote.javaPath || 'java',
+            remote.toolsJarPath || 'tla2tools.jar',
+            serverAddress
+        ));
+    }
+}
+
+function addWorker(name: string, worker: ToolProcessInfo) {
+    workers.push(worker);
+    workersChannel.appendLine(`[${name}] ${worker.commandLine}`);
+    createInterface({ input: worker.mergedOutput }).on('line', (line) => {
+        if (line.trim() !== '') {
+            workersChannel.appendLine(`[${name}] ${line}`);
+        }
+    });
+    worker.process.on('close', (code) => {
+        workers = workers.filter((w) => w !== worker);
+        workersChannel.appendLine(`[${name}] Exited with code ${code}`);
+    });
+    // Emitted when the worker can't be started, e.g. when there's no ssh client
+    worker.process.on('error', (err) => {
+        workers = workers.filter((w) => w !== worker);
+        workersChannel.appendLine(`[${name}] Cannot run the worker: ${err.message}`);
+    });
+}
@@ -0,0 +1,98 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { ErrorInfo, ModelCheckResult, SpecFiles } from '../model/check';
+import {
+    exportTraceCsv, exportTraceJson, exportTraceMarkdown, exportTraceModule, TraceExportFormat
+} from '../model/traceExport';
+import { getLastCheckResult } from '../panels/checkResultView';
+
+export const CMD_EXPORT_ERROR_TRACE = 'tlaplus.model.check.exportTrace';
+
+const FORMAT_ITEMS = [
+    { label: 'JSON', description: 'Structured states and variable values', format: TraceExportFormat.Json },
+    { label: 'Markdown', description: 'Table of variables per state', format: TraceExportFormat.Markdown },
+    { label: 'CSV', description: 'Table of variables per state', format: TraceExportFormat.Csv },
+    { label: 'TLA+ module', description: 'Trace as a sequence of records', format: TraceExportFormat.TlaModule }
+];
+
+/**
+ * Exports an error trace of the last model checking result.
+ * The trace is picked by its index among the result errors, the user is asked when there are several.
+ */
+export async function exportErrorTrace(errorIndex?: number): Promise<void> {
+    const checkResult = getLastCheckResult();
+    const index = errorIndex ?? await pickErrorTrace(checkResult, 'Select error trace to export');
+    const error = index !== undefined ? checkResult?.errors[index] : undefined;
+    if (!checkResult || !error) {
+        return;
+    }
+    const picked = await vscode.window.showQuickPick(FORMAT_ITEMS, { placeHolder: 'Select export format' });
+    if (!picked) {
+        return;
+    }
+    const specFiles = checkResult.specFiles instanceof SpecFiles ? checkResult.specFiles : undefined;
+    switch (picked.format) {
+        case TraceExportFormat.Json:
+            return openDocument('json', exportTraceJson(error));
+        case TraceExportFormat.Markdown:
+            return openDocument('markdown', exportTraceMarkdown(error));
+        case TraceExportFormat.Csv:
+            return openDocument('plaintext', exportTraceCsv(error));
+        case TraceExportFormat.TlaModule:
+            return saveTraceModule(error, specFiles);
+    }
+}
+
+/**
+ * Returns the index of an error with a trace among the errors of the check result.
+ * The user is asked when there are several such errors.
+ */
+export async function pickErrorTrace(
+    checkResult: ModelCheckResult | undefined,
+    placeHolder: string
+): Promise<number | undefined> {
+    const indexes = checkResult?.errors
+        .map((error, idx) => error.errorTrace.length > 0 ? idx : -1)
+        .filter((idx) => idx >= 0) ?? [];
+    if (!checkResult || indexes.length === 0) {
+        vscode.window.showInformationMessage('There is no error trace in the last model checking result');
+        return undefined;
+    }
+    if (indexes.length === 1) {
+        return indexes[0];
+    }
+    const picked = await vscode.window.showQuickPick(
+        indexes.map((idx, n) => ({
+            label: `Counterexample ${n + 1}`,
+            description: checkResult.errors[idx].lines.map((l) => l.toString()).join(' '),
+            idx
+        })),
+        { placeHolder });
+    return picked?.idx;
+}
+
+async function openDocument(language: string, content: string): Promise<void> {
+    const doc = await vscode.workspace.openTextDocument({ language, content });
+    await vscode.window.showTextDocument(doc);
+}
+
+/**
+ * The module name must match the file name, so the module is saved to a file rather than opened as untitled.
+ */
+async function saveTraceModule(error: ErrorInfo, specFiles: SpecFiles | undefined): Promise<void> {
+    const specName = specFiles ? path.parse(specFiles.tlaFileName).name : 'Spec';
+    const defaultDir = specFiles?.outputDir ?? vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const defaultName = `${specName}_Trace.tla`;
+    const fileUri = await vscode.window.showSaveDialog({
+        defaultUri: defaultDir ? vscode.Uri.file(path.join(defaultDir, defaultName)) : undefined,
+        filters: { 'TLA+ modules': ['tla'] },
+        saveLabel: 'Export'
+    });
+    if (!fileUri) {
+        return;
+    }
+    const moduleName = path.parse(fileUri.fsPath).name;
+    await fs.writeFile(fileUri.fsPath, exportTraceModule(error, moduleName));
+    await vscode.window.showTextDocument(fileUri);
+}
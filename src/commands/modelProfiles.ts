@@ -0,0 +1,200 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { exists, LANG_TLAPLUS, LANG_TLAPLUS_CFG, mkDir, readFile, replaceExtension, writeFile } from '../common';
+import {
+    describeModelProfile, findModelProfile, findProfileSpecPath, ModelProfile, parseModelProfiles, samePath
+} from '../model/modelProfiles';
+import { setModelProfiles } from './checkModel';
+
+export const CMD_SELECT_MODEL_PROFILE = 'tlaplus.model.profile.select';
+export const MODEL_PROFILES_FILE = path.join('.vscode', 'tlaplus-models.json');
+const STATE_ACTIVE_PROFILES = 'tlaplus.model.profile.active';
+
+/**
+ * Model profiles from the profiles files of all workspace folders,
+ * along with the profile chosen for each spec.
+ */
+export class ModelProfiles implements vscode.Disposable {
+    private profiles: ModelProfile[] = [];
+    private readonly statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 1);
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(private readonly state: vscode.Memento) {
+        const watcher = vscode.workspace.createFileSystemWatcher('**/' + MODEL_PROFILES_FILE.replace(/\\/g, '/'));
+        const reload = () => this.load();
+        this.disposables.push(
+            watcher,
+            watcher.onDidCreate(reload),
+            watcher.onDidChange(reload),
+            watcher.onDidDelete(reload),
+            vscode.workspace.onDidChangeWorkspaceFolders(reload),
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateStatusBarItem()),
+            this.statusBarItem
+        );
+    }
+
+    async load(): Promise<void> {
+        const profiles: ModelProfile[] = [];
+        for (const folder of vscode.workspace.workspaceFolders ?? []) {
+            const filePath = path.join(folder.uri.fsPath, MODEL_PROFILES_FILE);
+            if (!await exists(filePath)) {
+                continue;
+            }
+            try {
+                profiles.push(...parseModelProfiles(await readFile(filePath), folder.uri.fsPath));
+            } catch (err) {
+                const message = err instanceof Error ? err.message : String(err);
+                vscode.window.showWarningMessage(`Cannot read model profiles from ${filePath}: ${message}`);
+            }
+        }
+        this.profiles = profiles;
+        this.updateStatusBarItem();
+    }
+
+    getProfiles(tlaFilePath: string): ModelProfile[] {
+        return this.profiles.filter((p) => samePath(p.specPath, tlaFilePath));
+    }
+
+    /**
+     * The profile chosen for the spec, if it still exists.
+     */
+    getActive(tlaFilePath: string): ModelProfile | undefined {
+        const name = this.getActiveNames()[path.normalize(tlaFilePath)];
+        return this.getProfiles(tlaFilePath).find((p) => p.name === name);
+    }
+
+    async setActive(tlaFilePath: string, name: string | undefined): Promise<void> {
+        const names = this.getActiveNames();
+        names[path.normalize(tlaFilePath)] = name;
+        await this.state.update(STATE_ACTIVE_PROFILES, names);
+        this.updateStatusBarItem();
+    }
+
+    /**
+     * Finds the profile to check the given model with, see findModelProfile.
+     */
+    find(tlaFilePath: string, cfgFilePath: string): ModelProfile | undefined {
+        return findModelProfile(this.profiles, tlaFilePath, cfgFilePath, this.getActive(tlaFilePath)?.name);
+    }
+
+    /**
+     * Finds the spec of a model config that is named by profiles, see findProfileSpecPath.
+     */
+    findSpecPath(cfgFilePath: string): string | undefined {
+        return findProfileSpecPath(this.profiles, cfgFilePath);
+    }
+
+    dispose(): void {
+        this.disposables.forEach((d) => d.dispose());
+    }
+
+    private getActiveNames(): { [tlaFilePath: string]: string | undefined } {
+        return { ...this.state.get<{ [tlaFilePath: string]: string | undefined }>(STATE_ACTIVE_PROFILES, {}) };
+    }
+
+    private updateStatusBarItem() {
+        const tlaFilePath = getActiveSpecPath();
+        if (!tlaFilePath || this.getProfiles(tlaFilePath).length === 0) {
+            this.statusBarItem.hide();
+            return;
+        }
+        const active = this.getActive(tlaFilePath);
+        this.statusBarItem.text = `$(settings) ${active ? active.name : 'Default model'}`;
+        this.statusBarItem.tooltip = `TLC model profile of ${path.basename(tlaFilePath)}, click to select another`;
+        this.statusBarItem.command = CMD_SELECT_MODEL_PROFILE;
+        this.statusBarItem.show();
+    }
+}
+
+/**
+ * Sets up model profiles and the command to choose them.
+ */
+export function registerModelProfiles(context: vscode.ExtensionContext): void {
+    const profiles = new ModelProfiles(context.workspaceState);
+    profiles.load().catch((err) => console.error(`Cannot load model profiles: ${err}`));
+    setModelProfiles(profiles);
+    context.subscriptions.push(
+        profiles,
+        vscode.commands.registerCommand(
+            CMD_SELECT_MODEL_PROFILE,
+            (uri?: vscode.Uri) => selectModelProfile(profiles, uri))
+    );
+}
+
+interface ProfilePickItem extends vscode.QuickPickItem {
+    profile?: ModelProfile;
+    edit?: boolean;
+}
+
+async function selectModelProfile(profiles: ModelProfiles, uri?: vscode.Uri): Promise<void> {
+    const tlaFilePath = uri ? replaceExtension(uri.fsPath, 'tla') : getActiveSpecPath();
+    if (!tlaFilePath) {
+        vscode.window.showWarningMessage('Open a TLA+ specification to select its model profile.');
+        return;
+    }
+    const active = profiles.getActive(tlaFilePath);
+    const items: ProfilePickItem[] = profiles.getProfiles(tlaFilePath).map((profile) => ({
+        label: profile.name,
+        description: profile.cfgPath ? path.basename(profile.cfgPath) : undefined,
+        detail: describeModelProfile(profile),
+        picked: profile === active,
+        profile
+    }));
+    items.push({
+        label: 'Default model',
+        description: path.basename(replaceExtension(tlaFilePath, 'cfg')),
+        detail: 'Options from the tlaplus.tlc.modelChecker.options setting',
+        picked: active === undefined
+    }, {
+        label: '$(edit) Edit model profiles...',
+        edit: true
+    });
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: `Select a model profile for ${path.basename(tlaFilePath)}`
+    });
+    if (!selected) {
+        return;
+    }
+    if (selected.edit) {
+        await editModelProfiles(tlaFilePath);
+        return;
+    }
+    await profiles.setActive(tlaFilePath, selected.profile?.name);
+}
+
+/**
+ * Opens the profiles file of the spec's workspace folder, creating it with a profile of the spec if needed.
+ */
+async function editModelProfiles(tlaFilePath: string): Promise<void> {
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(tlaFilePath));
+    if (!folder) {
+        vscode.window.showWarningMessage('Model profiles are kept in a workspace folder, open the spec folder first.');
+        return;
+    }
+    const filePath = path.join(folder.uri.fsPath, MODEL_PROFILES_FILE);
+    if (!await exists(filePath)) {
+        const relPath = (p: string) => path.relative(folder.uri.fsPath, p).replace(/\\/g, '/');
+        const template = {
+            models: [{
+                spec: relPath(tlaFilePath),
+                name: 'default',
+                cfg: relPath(replaceExtension(tlaFilePath, 'cfg')),
+                workers: 'auto'
+            }]
+        };
+        if (!await exists(path.dirname(filePath))) {
+            await mkDir(path.dirname(filePath));
+        }
+        await writeFile(filePath, JSON.stringify(template, null, 4) + '\n');
+    }
+    const doc = await vscode.workspace.openTextDocument(filePath);
+    await vscode.window.showTextDocument(doc);
+}
+
+function getActiveSpecPath(): string | undefined {
+    const doc = vscode.window.activeTextEditor?.document;
+    if (!doc || (doc.languageId !== LANG_TLAPLUS && doc.languageId !== LANG_TLAPLUS_CFG)) {
+        return undefined;
+    }
+    return replaceExtension(doc.uri.fsPath, 'tla');
+}
@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { deleteDir, readFile } from '../common';
+import { ModelCheckResult, ModelCheckResultSource, SpecFiles } from '../model/check';
+import { buildProfileRunOptions, ModelProfileRunOptions } from '../model/modelProfiles';
+import {
+    applySweepCombination, createSweepRunResult, formatSweepResults, getSweepCombinations, parseSweepParameters,
+    SweepCombination, SweepRunResult
+} from '../model/parameterSweep';
+import { TlcModelCheckerStdoutParser } from '../parsers/tlc';
+import { getTlcOptions, runTlc, stopProcess } from '../tla2tools';
+import { getModelProfile, getSpecFiles } from './checkModel';
+import { createCustomModel } from './customModel';
+
+export const CMD_RUN_PARAMETER_SWEEP = 'tlaplus.model.sweep.run';
+
+const CFG_SWEEP_PARALLEL_RUNS = 'tlaplus.tlc.parameterSweep.parallelRuns';
+const CONFIRM_COMBINATIONS_COUNT = 20;
+
+let lastSweepParameters: string | undefined;
+
+/**
+ * Checks the model with every combination of the given constant values, and shows how the state space
+ * changes from one combination to another.
+ */
+export async function runParameterSweep(fileUri: vscode.Uri | undefined): Promise<void> {
+    const uri = fileUri ?? vscode.window.activeTextEditor?.document.uri;
+    if (!uri) {
+        vscode.window.showWarningMessage('No editor is active, cannot find a TLA+ model to sweep');
+        return;
+    }
+    const specFiles = await getSpecFiles(uri);
+    if (!specFiles) {
+        return;
+    }
+    const input = await vscode.window.showInputBox({
+        value: lastSweepParameters,
+        prompt: `Constants of ${specFiles.modelName} to sweep along with their values, separated with semicolons`,
+        placeHolder: 'N \\in 2..5; Values \\in {{a, b}, {a, b, c}}',
+        ignoreFocusOut: true,
+        validateInput: (text) => {
+            try {
+                parseSweepParameters(text);
+                return undefined;
+            } catch (err) {
+                return err instanceof Error ? err.message : String(err);
+            }
+        }
+    });
+    if (!input) {
+        return;
+    }
+    lastSweepParameters = input;
+    const params = parseSweepParameters(input);
+    const combinations = getSweepCombinations(params);
+    if (combinations.length > CONFIRM_COMBINATIONS_COUNT) {
+        const answer = await vscode.window.showWarningMessage(
+            `The sweep checks ${combinations.length} models. Continue?`, { modal: true }, 'Run');
+        if (answer !== 'Run') {
+            return;
+        }
+    }
+    const profileOptions = buildProfileRunOptions(getModelProfile(specFiles.tlaFilePath, specFiles.cfgFilePath));
+    const tlcOptions = profileOptions.tlcOptions ?? await getTlcOptions(false);
+    if (!tlcOptions) {
+        return;
+    }
+    const cfgText = await readFile(specFiles.cfgFilePath);
+    const parallelRuns = Math.max(1, vscode.workspace.getConfiguration().get<number>(CFG_SWEEP_PARALLEL_RUNS, 1));
+    const results = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Sweeping parameters of ${specFiles.modelName}`,
+        cancellable: true
+    }, async (progress, token) => {
+        const sweepResults: SweepRunResult[] = [];
+        let nextIdx = 0;
+        let doneCount = 0;
+        const runNext = async () => {
+            while (nextIdx < combinations.length && !token.isCancellationRequested) {
+                const idx = nextIdx++;
+                sweepResults[idx] = await checkCombination(
+                    specFiles, cfgText, combinations[idx], { ...profileOptions, tlcOptions }, token);
+                doneCount += 1;
+                progress.report({
+                    increment: 100 / combinations.length,
+                    message: `${doneCount} of ${combinations.length} models checked`
+                });
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(parallelRuns, combinations.length) }, runNext));
+        // Models that were not checked because of cancellation are shown as stopped
+        return combinations.map((c, idx) => sweepResults[idx] ?? createSweepRunResult(c, undefined, undefined));
+    });
+    const title = `Parameter sweep of ${specFiles.modelName} (${path.basename(specFiles.tlaFilePath)})`;
+    const doc = await vscode.workspace.openTextDocument({
+        language: 'markdown',
+        content: formatSweepResults(title, params, results)
+    });
+    await vscode.window.showTextDocument(doc);
+}
+
+/**
+ * Checks a temporary copy of the model with the given constant values.
+ */
+async function checkCombination(
+    specFiles: SpecFiles,
+    cfgText: string,
+    combination: SweepCombination,
+    runOptions: ModelProfileRunOptions,
+    token: vscode.CancellationToken
+): Promise<SweepRunResult> {
+    const model = await createCustomModel(specFiles.tlaFilePath, [], [applySweepCombination(cfgText, combination)]);
+    if (!model) {
+        return createSweepRunResult(combination, undefined, undefined);
+    }
+    const startTime = Date.now();
+    try {
+        const modelSpecFiles = new SpecFiles(
+            path.join(model.dirPath, model.tlaFileName),
+            path.join(model.dirPath, model.cfgFileName)
+        );
+        const procInfo = await runTlc(
+            modelSpecFiles.tlaFilePath, modelSpecFiles.cfgFilePath, false, [], runOptions.javaOptions,
+            runOptions.tlcOptions, runOptions.libraryPaths);
+        if (!procInfo) {
+            return createSweepRunResult(combination, undefined, undefined);
+        }
+        const cancellation = token.onCancellationRequested(() => stopProcess(procInfo.process));
+        let checkResult: ModelCheckResult | undefined;
+        const parser = new TlcModelCheckerStdoutParser(
+            ModelCheckResultSource.Process, procInfo.process.stdout, modelSpecFiles, false, (r) => checkResult = r);
+        await parser.readAll();
+        cancellation.dispose();
+        return createSweepRunResult(combination, checkResult, Date.now() - startTime);
+    } catch (err) {
+        vscode.window.showErrorMessage(`Error checking model: ${err}`);
+        return createSweepRunResult(combination, undefined, undefined);
+    } finally {
+        deleteDir(model.dirPath);
+    }
+}
@@ -61,10 +61,15 @@ export async function transpilePlusCal(fileUri: vscode.Uri, token?: vscode.Cance
 
 /**
  * Parses the resulting TLA+ spec.
+ * Modules are looked up in the given library paths before the configured module search paths.
  */
-export async function parseSpec(fileUri: vscode.Uri, token?: vscode.CancellationToken): Promise<SanyData> {
+export async function parseSpec(
+    fileUri: vscode.Uri,
+    token?: vscode.CancellationToken,
+    libraryPaths: string[] = []
+): Promise<SanyData> {
     throwIfCancelled(token);
-    const procInfo = await runSany(fileUri.fsPath);
+    const procInfo = await runSany(fileUri.fsPath, libraryPaths);
     sanyOutChannel.bindTo(procInfo);
     const cancellationDisposable = registerCancellation(procInfo, token);
     const stdoutParser = new SanyStdoutParser(procInfo.mergedOutput);
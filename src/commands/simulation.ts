@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { createTempDirSync } from '../common';
+import { buildProfileRunOptions } from '../model/modelProfiles';
+import { buildSimulationTlcOptions, SimulationOptions } from '../model/simulation';
+import { SimulationDashboardPanel } from '../panels/simulationDashboard';
+import { getTlcOptions } from '../tla2tools';
+import { canRunTlc, getModelProfile, getSpecFiles, rerunCheck } from './checkModel';
+
+export const CMD_RUN_SIMULATION = 'tlaplus.model.simulate.run';
+
+const DEFAULT_DEPTH = 100;
+// TLC writes every trace to a file when sampling, so only short runs are sampled
+const MAX_SAMPLED_TRACES = 1000;
+
+let lastOptions: SimulationOptions = { depth: DEFAULT_DEPTH, traces: undefined, seed: undefined };
+
+/**
+ * Runs random simulation of the model with the given depth, number of traces and seed,
+ * and shows its progress in the simulation dashboard.
+ */
+export async function runSimulation(
+    fileUri: vscode.Uri | undefined,
+    diagnostic: vscode.DiagnosticCollection,
+    extContext: vscode.ExtensionContext
+): Promise<void> {
+    const uri = fileUri ?? vscode.window.activeTextEditor?.document.uri;
+    if (!uri) {
+        vscode.window.showWarningMessage('No editor is active, cannot find a TLA+ model to simulate');
+        return;
+    }
+    if (!canRunTlc(extContext)) {
+        return;
+    }
+    const specFiles = await getSpecFiles(uri);
+    if (!specFiles) {
+        return;
+    }
+    const options = await askSimulationOptions();
+    if (!options) {
+        return;
+    }
+    lastOptions = options;
+    const profileOptions = buildProfileRunOptions(getModelProfile(specFiles.tlaFilePath, specFiles.cfgFilePath));
+    const baseOptions = profileOptions.tlcOptions ?? await getTlcOptions(false);
+    if (!baseOptions) {
+        return;
+    }
+    const sampledTracesDir = options.traces !== undefined && options.traces <= MAX_SAMPLED_TRACES
+        ? createTempDirSync()
+        : undefined;
+    const tlcOptions = buildSimulationTlcOptions(
+        options,
+        baseOptions,
+        sampledTracesDir ? path.join(sampledTracesDir, 'trace') : undefined);
+    const dashboard = SimulationDashboardPanel.start(extContext.extensionUri, specFiles, sampledTracesDir);
+    try {
+        await rerunCheck(specFiles, tlcOptions, diagnostic, extContext);
+    } finally {
+        dashboard.finish();
+    }
+}
+
+async function askSimulationOptions(): Promise<SimulationOptions | undefined> {
+    const depth = await askNumber('Maximum length of simulated traces', String(lastOptions.depth), false, 1);
+    if (depth === undefined || depth === null) {
+        return undefined;
+    }
+    const traces = await askNumber(
+        `Number of traces to generate, leave empty to run until stopped. Up to ${MAX_SAMPLED_TRACES} traces `
+            + 'are sampled to be saved as trace files.',
+        lastOptions.traces === undefined ? '' : String(lastOptions.traces),
+        true,
+        1);
+    if (traces === undefined) {
+        return undefined;
+    }
+    const seed = await askNumber(
+        'Seed of the random generator, leave empty for a random one',
+        lastOptions.seed === undefined ? '' : String(lastOptions.seed),
+        true,
+        undefined);
+    if (seed === undefined) {
+        return undefined;
+    }
+    return {
+        depth,
+        traces: traces === null ? undefined : traces,
+        seed: seed === null ? undefined : seed
+    };
+}
+
+/**
+ * Asks for an integer. Returns null when an optional number is left empty, and undefined when cancelled.
+ */
+async function askNumber(
+    prompt: string,
+    value: string,
+    optional: boolean,
+    min: number | undefined
+): Promise<number | null | undefined> {
+    const text = await vscode.window.showInputBox({
+        prompt,
+        value,
+        ignoreFocusOut: true,
+        validateInput: (input) => {
+            if (optional && input.trim() === '') {
+                return undefined;
+            }
+            if (!/^-?\d+$/.test(input.trim())) {
+                return 'Enter an integer number';
+            }
+            return min !== undefined && parseInt(input.trim()) < min ? `Enter a number of at least ${min}` : undefined;
+        }
+    });
+    if (text === undefined) {
+        return undefined;
+    }
+    return text.trim() === '' ? null : parseInt(text.trim());
+}
@@ -1,8 +1,21 @@
 import * as vscode from 'vscode';
 import { TlcCoverageDecorationProvider } from '../tlcCoverage';
+import { CoverageCodeLensProvider } from '../coverageCodeLens';
+import { CoverageItem } from '../model/check';
+import { CoverageSortOrder } from '../model/actionCoverage';
+import { CoverageTreeDataProvider, CoverageTreeItem } from '../panels/coverageTreeDataProvider';
+import { LANG_TLAPLUS } from '../common';
 
 export const CMD_TOGGLE_COVERAGE = 'tlaplus.tlc.profiler.toggle';
 export const CMD_CLEAR_COVERAGE = 'tlaplus.tlc.profiler.clear';
+export const CMD_SORT_COVERAGE = 'tlaplus.coverage.sort';
+export const CMD_REVEAL_ACTION_COVERAGE = 'tlaplus.coverage.revealAction';
+
+const SORT_ORDER_NAMES = new Map<CoverageSortOrder, string>([
+    [CoverageSortOrder.Source, 'Source order'],
+    [CoverageSortOrder.MostCovered, 'Most covered first'],
+    [CoverageSortOrder.LeastCovered, 'Least covered first']
+]);
 
 let statusBarItem: vscode.StatusBarItem | undefined;
 
@@ -37,10 +50,64 @@ export function registerCoverageCommands(
         })
     );
 
+    const treeDataProvider = new CoverageTreeDataProvider(provider, context);
+    const treeView = vscode.window.createTreeView<CoverageTreeItem>(CoverageTreeDataProvider.viewType, {
+        treeDataProvider,
+        showCollapseAll: true
+    });
+    const updateTreeMessage = () => {
+        treeView.message = treeDataProvider.hasCoverage()
+            ? undefined
+            : 'Check a model to see how often its actions and their subexpressions were evaluated.';
+    };
+    updateTreeMessage();
+
+    context.subscriptions.push(
+        treeView,
+        provider.onDidChangeCoverage(updateTreeMessage),
+        vscode.languages.registerCodeLensProvider(
+            { language: LANG_TLAPLUS },
+            new CoverageCodeLensProvider(provider, CMD_REVEAL_ACTION_COVERAGE)
+        ),
+        vscode.commands.registerCommand(
+            CMD_SORT_COVERAGE,
+            () => sortCoverage(treeDataProvider)),
+        vscode.commands.registerCommand(
+            CMD_REVEAL_ACTION_COVERAGE,
+            (item: CoverageItem) => revealActionCoverage(treeView, treeDataProvider, item))
+    );
+
     // Initialize status bar
     updateStatusBar(provider.isEnabled());
 }
 
+async function sortCoverage(treeDataProvider: CoverageTreeDataProvider) {
+    const current = treeDataProvider.getSortOrder();
+    const picked = await vscode.window.showQuickPick(
+        Array.from(SORT_ORDER_NAMES.entries()).map(([order, label]) => ({
+            order,
+            label,
+            description: order === current ? 'current' : undefined
+        })),
+        { placeHolder: 'Sort coverage by' }
+    );
+    if (picked) {
+        treeDataProvider.setSortOrder(picked.order);
+    }
+}
+
+async function revealActionCoverage(
+    treeView: vscode.TreeView<CoverageTreeItem>,
+    treeDataProvider: CoverageTreeDataProvider,
+    coverage: CoverageItem
+) {
+    const item = treeDataProvider.findActionItem(coverage);
+    if (!item) {
+        return;
+    }
+    await treeView.reveal(item, { select: true, focus: true, expand: true });
+}
+
 function updateStatusBar(enabled: boolean) {
     if (!statusBarItem) {return;}
 
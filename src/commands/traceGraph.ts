@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { readFile } from '../common';
+import { buildDotStateGraph, buildTraceGraph } from '../model/traceGraph';
+import { parseDotGraph } from '../parsers/dot';
+import { getLastCheckResult } from '../panels/checkResultView';
+import { TraceGraphPanel } from '../panels/traceGraphView';
+import { pickErrorTrace } from './exportTrace';
+
+export const CMD_SHOW_TRACE_GRAPH = 'tlaplus.model.check.showTraceGraph';
+export const CMD_SHOW_STATE_GRAPH = 'tlaplus.model.check.showStateGraph';
+
+/**
+ * Graphs are laid out and drawn in the webview, bigger ones are too slow to render and impossible to read.
+ */
+const MAX_GRAPH_STATES = 1000;
+
+/**
+ * Shows an error trace of the last model checking result as a graph.
+ */
+export async function showTraceGraph(extContext: vscode.ExtensionContext, errorIndex?: number): Promise<void> {
+    const checkResult = getLastCheckResult();
+    const index = errorIndex ?? await pickErrorTrace(checkResult, 'Select error trace to show');
+    const error = index !== undefined ? checkResult?.errors[index] : undefined;
+    if (index === undefined || !error) {
+        return;
+    }
+    TraceGraphPanel.render(extContext.extensionUri, buildTraceGraph(error, index));
+}
+
+/**
+ * Shows a state graph dumped by TLC with the -dump dot option.
+ */
+export async function showStateGraph(extContext: vscode.ExtensionContext, uri?: vscode.Uri): Promise<void> {
+    if (!uri) {
+        const activeEditor = vscode.window.activeTextEditor;
+        if (activeEditor && activeEditor.document.fileName.endsWith('.dot')) {
+            uri = activeEditor.document.uri;
+        } else {
+            const fileUris = await vscode.window.showOpenDialog({
+                canSelectFiles: true,
+                canSelectFolders: false,
+                canSelectMany: false,
+                filters: { 'DOT files': ['dot'] },
+                title: 'Select state graph dumped by TLC'
+            });
+            if (!fileUris || fileUris.length === 0) {
+                return;
+            }
+            uri = fileUris[0];
+        }
+    }
+    const dot = parseDotGraph(await readFile(uri.fsPath));
+    if (dot.nodes.length > MAX_GRAPH_STATES) {
+        vscode.window.showWarningMessage(
+            `The state graph has ${dot.nodes.length} states, `
+            + `only graphs of up to ${MAX_GRAPH_STATES} states can be shown.`
+        );
+        return;
+    }
+    TraceGraphPanel.render(extContext.extensionUri, buildDotStateGraph(dot, path.basename(uri.fsPath)));
+}
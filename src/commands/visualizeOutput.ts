@@ -1,7 +1,7 @@
 import * as fs from 'fs';
 import { PassThrough } from 'stream';
 import * as vscode from 'vscode';
-import { ModelCheckResultSource } from '../model/check';
+import { ModelCheckResultSource, SpecFiles } from '../model/check';
 import { revealEmptyCheckResultView, updateCheckResultView } from '../panels/checkResultView';
 import { TlcModelCheckerStdoutParser } from '../parsers/tlc';
 
@@ -31,11 +31,14 @@ export function visualizeTlcOutput(extContext: vscode.ExtensionContext): void {
     });
 }
 
-function showOutput(buffer: Buffer, extContext: vscode.ExtensionContext) {
+/**
+ * Shows TLC output in the model checking panel, as if it was read from an .out file.
+ */
+export function showOutput(buffer: Buffer, extContext: vscode.ExtensionContext, specFiles?: SpecFiles): void {
     const stream = new PassThrough();
     stream.end(buffer);
     revealEmptyCheckResultView(extContext);
     const parser = new TlcModelCheckerStdoutParser(
-        ModelCheckResultSource.OutFile, stream, undefined, false, updateCheckResultView);
+        ModelCheckResultSource.OutFile, stream, specFiles, false, updateCheckResultView);
     parser.readAll();
 }
@@ -1,12 +1,10 @@
 import * as vscode from 'vscode';
 import { getPrevText } from './completions';
 import { TLA_CONSTANTS } from './tlaCompletions';
+import { CFG_SECTION_LEVELS, parseCfgSections, TLA_CFG_KEYWORDS } from '../parsers/cfg';
+import { SpecSymbol, SpecSymbolsLoader } from '../symbols/specSymbols';
 
-export const TLA_CFG_KEYWORDS = [
-    'SPECIFICATION', 'INVARIANT', 'INVARIANTS', 'PROPERTY', 'PROPERTIES', 'CONSTANT', 'CONSTANTS', 'INIT',
-    'NEXT', 'SYMMETRY', 'CONSTRAINT', 'CONSTRAINTS', 'ACTION_CONSTRAINT', 'ACTION_CONSTRAINTS', 'VIEW',
-    'CHECK_DEADLOCK', 'POSTCONDITION', 'ALIAS'
-];
+export { TLA_CFG_KEYWORDS };
 
 const KEYWORD_ITEMS = TLA_CFG_KEYWORDS.map(w => {
     return new vscode.CompletionItem(w, vscode.CompletionItemKind.Keyword);
@@ -15,27 +13,63 @@ const TLA_CONST_ITEMS = TLA_CONSTANTS.map(w => new vscode.CompletionItem(w, vsco
 
 /**
  * Completes text in .cfg files.
+ * Names of constants and operators are taken from the spec, if the loader of its symbols is given.
  */
 export class CfgCompletionItemProvider implements vscode.CompletionItemProvider {
-    provideCompletionItems(
+    constructor(private readonly specSymbols?: SpecSymbolsLoader) {}
+
+    async provideCompletionItems(
         document: vscode.TextDocument,
         position: vscode.Position,
         token: vscode.CancellationToken,
         context: vscode.CompletionContext
-    ): vscode.ProviderResult<vscode.CompletionList> {
+    ): Promise<vscode.CompletionList> {
         const prevText = getPrevText(document, position);
         const isNewLine = /^\s*[a-zA-Z]*$/g.test(prevText);
         if (prevText.startsWith('CHECK_DEADLOCK')) {
             return new vscode.CompletionList(TLA_CONST_ITEMS, false);
         }
-        return new vscode.CompletionList(isNewLine ? KEYWORD_ITEMS : [], false);
+        const keywordItems = isNewLine ? KEYWORD_ITEMS : [];
+        const spec = this.specSymbols ? await this.specSymbols.load(document.uri) : undefined;
+        const section = parseCfgSections(document.getText(new vscode.Range(new vscode.Position(0, 0), position))).pop();
+        // Names go at the start of entries and after <- in constant replacements, values of constants aren't names
+        const entryText = section?.body.split('\n').pop() ?? '';
+        if (!spec || !section || !(/^[\s\w]*$/.test(entryText) || /<-\s*\w*$/.test(entryText))) {
+            return new vscode.CompletionList(keywordItems, false);
+        }
+        const symbols = Array.from(spec.symbols.values())
+            .filter((symbol) => fitsSection(symbol, section.keyword, prevText));
+        return new vscode.CompletionList(keywordItems.concat(symbols.map(createSymbolItem)), false);
     }
 
     resolveCompletionItem?(
         item: vscode.CompletionItem,
         token: vscode.CancellationToken
     ): vscode.ProviderResult<vscode.CompletionItem> {
-        item.insertText = item.label + ' ';
+        if (item.kind === vscode.CompletionItemKind.Keyword || item.kind === vscode.CompletionItemKind.Constant) {
+            item.insertText = item.label + ' ';
+        }
         return item;
     }
 }
+
+function fitsSection(symbol: SpecSymbol, keyword: string, prevText: string): boolean {
+    if (/^CONSTANTS?$/.test(keyword)) {
+        // Constants are assigned, operators replace them
+        return /<-\s*\w*$/.test(prevText) ? symbol.kind === 'definition' : symbol.kind === 'constant';
+    }
+    const maxLevel = CFG_SECTION_LEVELS[keyword];
+    return maxLevel !== undefined
+        && symbol.kind === 'definition'
+        && (symbol.arity === undefined || symbol.arity === 0)
+        && (symbol.level === undefined || symbol.level <= maxLevel);
+}
+
+function createSymbolItem(symbol: SpecSymbol): vscode.CompletionItem {
+    const item = new vscode.CompletionItem(
+        symbol.name,
+        symbol.kind === 'constant' ? vscode.CompletionItemKind.Value : vscode.CompletionItemKind.Function
+    );
+    item.detail = symbol.module;
+    return item;
+}
@@ -0,0 +1,31 @@
+import * as vscode from 'vscode';
+import { describeActionCoverage, isNeverEnabled } from './model/actionCoverage';
+import { TlcCoverageDecorationProvider } from './tlcCoverage';
+
+/**
+ * Shows coverage of the last model checking run above each action.
+ */
+export class CoverageCodeLensProvider implements vscode.CodeLensProvider {
+    readonly onDidChangeCodeLenses: vscode.Event<void>;
+
+    constructor(
+        private readonly coverage: TlcCoverageDecorationProvider,
+        private readonly revealCommand: string
+    ) {
+        this.onDidChangeCodeLenses = coverage.onDidChangeCoverage;
+    }
+
+    provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+        return this.coverage.getCoverage(document.uri.fsPath).map((item) => {
+            const neverEnabled = isNeverEnabled(item);
+            return new vscode.CodeLens(new vscode.Range(item.range.start, item.range.start), {
+                title: neverEnabled ? `$(warning) ${describeActionCoverage(item)}` : describeActionCoverage(item),
+                tooltip: neverEnabled
+                    ? `Action ${item.action} didn't produce any states`
+                    : `Action ${item.action} produced ${item.total} states, ${item.distinct} of them new`,
+                command: this.revealCommand,
+                arguments: [item]
+            });
+        });
+    }
+}
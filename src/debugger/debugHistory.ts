@@ -0,0 +1,308 @@
+import * as vscode from 'vscode';
+import { parseCfgModel, updateCfgText } from '../model/cfgModel';
+import { SampledTraceState } from '../model/simulation';
+
+/**
+ * Comment that marks modules with an exported debug trace. Debugging such a module replays the trace.
+ */
+export const DEBUG_TRACE_COMMENT = '\\* Debug trace: debug this module to replay the recorded states';
+
+/**
+ * A variable of a recorded state, as the debugger reported it.
+ */
+export interface RecordedVariable {
+    name: string;
+    value: string;
+}
+
+/**
+ * A state the debugger stopped at during a debug session.
+ */
+export interface RecordedStep {
+    index: number;
+    reason: string;
+    frameName: string;
+    filePath: string | undefined;
+    line: number;
+    column: number;
+    // Reference of the variables scope of the state, valid only while the debugger is stopped there
+    stateReference: number | undefined;
+    variables: RecordedVariable[];
+}
+
+/**
+ * A message of the Debug Adapter Protocol, only the parts the recorder is interested in.
+ */
+interface DapMessage {
+    type: string;
+    seq?: number;
+    command?: string;
+    event?: string;
+    request_seq?: number;
+    success?: boolean;
+    arguments?: { variablesReference?: number };
+    body?: {
+        reason?: string;
+        stackFrames?: { name: string, line: number, column: number, source?: { path?: string } }[];
+        scopes?: { name: string, variablesReference: number }[];
+        variables?: { name: string, value: string }[];
+    };
+}
+
+/**
+ * Records the states visited in TLA+ debug sessions from the messages between VS Code and the debugger.
+ * The first stack frame, scopes and variables reported after each stop make up a step.
+ */
+export class DebugHistory {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+    private steps: RecordedStep[] = [];
+    private currentIndex: number | undefined;
+    private sessionName: string | undefined;
+    private pending: RecordedStep | undefined;
+    private pendingJump: number | undefined;
+    private readonly variablesRequests = new Map<number, number>(); // request seq -> variables reference
+
+    getSteps(): ReadonlyArray<RecordedStep> {
+        return this.steps;
+    }
+
+    getCurrentStep(): RecordedStep | undefined {
+        return this.currentIndex === undefined ? undefined : this.steps[this.currentIndex];
+    }
+
+    getSessionName(): string | undefined {
+        return this.sessionName;
+    }
+
+    startSession(name: string): void {
+        this.steps = [];
+        this.currentIndex = undefined;
+        this.sessionName = name;
+        this.pending = undefined;
+        this.pendingJump = undefined;
+        this.variablesRequests.clear();
+        this.changeEmitter.fire();
+    }
+
+    clear(): void {
+        this.startSession(this.sessionName ?? '');
+    }
+
+    /**
+     * Marks the next stop as a return to the given step, so that it isn't recorded as a new one.
+     */
+    expectJump(step: RecordedStep): void {
+        this.pendingJump = step.index;
+    }
+
+    cancelJump(): void {
+        this.pendingJump = undefined;
+    }
+
+    /**
+     * Handles a message VS Code sends to the debugger.
+     */
+    handleRequest(message: unknown): void {
+        const msg = message as DapMessage;
+        if (msg?.type === 'request' && msg.command === 'variables' && msg.seq !== undefined
+                && msg.arguments?.variablesReference !== undefined) {
+            this.variablesRequests.set(msg.seq, msg.arguments.variablesReference);
+        }
+    }
+
+    /**
+     * Handles a message the debugger sends to VS Code.
+     */
+    handleResponse(message: unknown): void {
+        const msg = message as DapMessage;
+        if (msg?.type === 'event' && msg.event === 'stopped') {
+            this.handleStopped(msg.body?.reason ?? 'step');
+        } else if (msg?.type === 'response' && msg.success !== false) {
+            switch (msg.command) {
+                case 'stackTrace':
+                    this.handleStackTrace(msg);
+                    break;
+                case 'scopes':
+                    this.handleScopes(msg);
+                    break;
+                case 'variables':
+                    this.handleVariables(msg);
+                    break;
+            }
+        }
+    }
+
+    private handleStopped(reason: string) {
+        if (this.pendingJump !== undefined) {
+            this.currentIndex = this.pendingJump;
+            this.pendingJump = undefined;
+            this.pending = undefined;
+            this.changeEmitter.fire();
+            return;
+        }
+        this.pending = {
+            index: this.steps.length,
+            reason,
+            frameName: '',
+            filePath: undefined,
+            line: 0,
+            column: 0,
+            stateReference: undefined,
+            variables: []
+        };
+    }
+
+    private handleStackTrace(msg: DapMessage) {
+        const frame = msg.body?.stackFrames?.[0];
+        if (!this.pending || !frame || this.pending.frameName) {
+            return;
+        }
+        this.pending.frameName = frame.name;
+        this.pending.filePath = frame.source?.path;
+        this.pending.line = frame.line;
+        this.pending.column = frame.column;
+        this.steps.push(this.pending);
+        this.currentIndex = this.pending.index;
+        this.changeEmitter.fire();
+    }
+
+    private handleScopes(msg: DapMessage) {
+        const scopes = msg.body?.scopes ?? [];
+        if (!this.pending || this.pending.stateReference !== undefined || scopes.length === 0) {
+            return;
+        }
+        const stateScope = scopes.find((s) => /state|variables/i.test(s.name)) ?? scopes[0];
+        this.pending.stateReference = stateScope.variablesReference;
+    }
+
+    private handleVariables(msg: DapMessage) {
+        const reference = msg.request_seq === undefined ? undefined : this.variablesRequests.get(msg.request_seq);
+        if (msg.request_seq !== undefined) {
+            this.variablesRequests.delete(msg.request_seq);
+        }
+        if (!this.pending || reference === undefined || reference !== this.pending.stateReference) {
+            return;
+        }
+        this.pending.variables = (msg.body?.variables ?? []).map((v) => ({ name: v.name, value: v.value }));
+        this.changeEmitter.fire();
+    }
+
+    dispose(): void {
+        this.changeEmitter.dispose();
+    }
+}
+
+/**
+ * Turns the recorded steps into trace states. The debugger stops several times in the same state when stepping
+ * through an action, such repeated states are dropped.
+ */
+export function getRecordedTrace(steps: ReadonlyArray<RecordedStep>): SampledTraceState[] {
+    const trace: SampledTraceState[] = [];
+    let lastState: string | undefined;
+    for (const step of steps) {
+        if (step.variables.length === 0) {
+            continue;
+        }
+        const state = JSON.stringify(step.variables);
+        if (state !== lastState) {
+            trace.push({ action: step.frameName, variables: step.variables });
+            lastState = state;
+        }
+    }
+    return trace;
+}
+
+/**
+ * Checks whether the given variables, e.g. of a state in the trace of the current stop, are those of the step.
+ */
+export function isRecordedState(step: RecordedStep, variables: ReadonlyArray<RecordedVariable>): boolean {
+    return step.variables.length > 0
+        && step.variables.length === variables.length
+        && step.variables.every((v) => variables.some((other) => other.name === v.name && other.value === v.value));
+}
+
+export function isDebugTraceModule(text: string): boolean {
+    return text.includes(DEBUG_TRACE_COMMENT);
+}
+
+/**
+ * Returns a module that extends the spec and only allows the behavior with the given states.
+ * The module is checked with the config returned by formatDebugTraceConfig. The spec's initial predicate and
+ * next-state relation are kept when the config names them, so that the debugger stops in the spec's actions.
+ */
+export function formatDebugTraceModule(
+    trace: SampledTraceState[],
+    moduleName: string,
+    specModuleName: string,
+    cfgText: string,
+    title: string
+): string {
+    const model = parseCfgModel(cfgText);
+    const names = trace[0].variables.map((v) => v.name);
+    const lines = [`---- MODULE ${moduleName} ----`, `\\* ${title}`, DEBUG_TRACE_COMMENT];
+    lines.push(`EXTENDS ${specModuleName}, TLC`, '');
+    const modelValues = collectModelValues(cfgText);
+    if (modelValues.length > 0) {
+        lines.push(`CONSTANTS ${modelValues.join(', ')}`, '');
+    }
+    lines.push('Trace == <<');
+    trace.forEach((state, idx) => {
+        const sep = idx === trace.length - 1 ? '' : ',';
+        lines.push(`    [${state.variables.map((v) => `${v.name} |-> ${v.value}`).join(', ')}]${sep}`);
+    });
+    lines.push('>>', '', 'TraceActions == <<');
+    trace.forEach((state, idx) => {
+        const sep = idx === trace.length - 1 ? '' : ',';
+        lines.push(`    "${state.action.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"${sep}`);
+    });
+    lines.push('>>', '', 'TraceState(i) ==');
+    names.forEach((name) => lines.push(`    /\\ ${name} = Trace[i].${name}`));
+    lines.push('', 'TraceInit ==');
+    if (model.init) {
+        lines.push(`    /\\ ${model.init}`);
+    }
+    lines.push('    /\\ TraceState(1)', '', 'TraceNext ==');
+    if (model.next) {
+        lines.push(`    /\\ ${model.next}`);
+    }
+    lines.push('    /\\ \\E i \\in DOMAIN Trace :', '        /\\ i + 1 \\in DOMAIN Trace', '        /\\ TraceState(i)');
+    names.forEach((name) => lines.push(`        /\\ ${name}' = Trace[i + 1].${name}`));
+    lines.push('', '====', '');
+    return lines.join('\n');
+}
+
+/**
+ * Returns the config of a module from formatDebugTraceModule, made from the config of the spec.
+ * Temporal properties, symmetry and view don't apply to a single finite behavior and are dropped.
+ */
+export function formatDebugTraceConfig(cfgText: string): string {
+    const model = parseCfgModel(cfgText);
+    const constants = model.constants.concat(collectModelValues(cfgText)
+        .map((name) => ({ name, kind: 'modelValue' as const, value: '' })));
+    return updateCfgText(cfgText, {
+        ...model,
+        specification: '',
+        init: 'TraceInit',
+        next: 'TraceNext',
+        constants,
+        properties: [],
+        symmetry: '',
+        view: '',
+        checkDeadlock: false
+    });
+}
+
+/**
+ * Model values of the sets of model values in the config. The debugger prints them as plain names,
+ * so the trace module declares them as constants.
+ */
+function collectModelValues(cfgText: string): string[] {
+    const model = parseCfgModel(cfgText);
+    const declared = new Set(model.constants.map((c) => c.name));
+    const values = model.constants
+        .filter((c) => c.kind === 'modelValues')
+        .flatMap((c) => c.value.split(',').map((v) => v.trim()))
+        .filter((v) => v !== '' && !declared.has(v));
+    return Array.from(new Set(values));
+}
@@ -1,11 +1,16 @@
 import * as path from 'path';
 import * as vscode from 'vscode';
-import { exists, replaceExtension } from '../common';
+import { exists, pathToModuleName, readFile, replaceExtension, writeFile } from '../common';
 import {
     doCheckModel, getSpecFiles, stopModelChecking
 } from '../commands/checkModel';
 import { SpecFiles } from '../model/check';
+import { DebugHistoryStepItem, DebugHistoryTreeDataProvider } from '../panels/debugHistoryTreeDataProvider';
 import { extractFingerprintFromTrace, findLatestTraceFile } from '../tla2tools';
+import {
+    DebugHistory, formatDebugTraceConfig, formatDebugTraceModule, getRecordedTrace, isDebugTraceModule,
+    isRecordedState, RecordedStep
+} from './debugHistory';
 
 export const TLAPLUS_DEBUG_LAUNCH_SMOKE = 'tlaplus.debugger.smoke';
 export const TLAPLUS_DEBUG_LAUNCH_CHECKNDEBUG = 'tlaplus.debugger.run';
@@ -13,11 +18,16 @@ export const TLAPLUS_DEBUG_LAUNCH_CUSTOMCHECKNDEBUG = 'tlaplus.debugger.customRu
 export const TLAPLUS_DEBUG_LAUNCH_DEBUG = 'tlaplus.debugger.attach';
 export const TLAPLUS_DEBUG_GOTO_STATE = 'tlaplus.debugger.gotoState';
 export const TLAPLUS_DEBUG_LOAD_TRACE = 'tlaplus.debugger.loadTrace';
+export const TLAPLUS_DEBUG_HISTORY_GOTO = 'tlaplus.debugger.history.goto';
+export const TLAPLUS_DEBUG_HISTORY_STEP_BACK = 'tlaplus.debugger.history.stepBack';
+export const TLAPLUS_DEBUG_HISTORY_EXPORT = 'tlaplus.debugger.history.export';
+export const TLAPLUS_DEBUG_HISTORY_CLEAR = 'tlaplus.debugger.history.clear';
 
 const DEFAULT_DEBUGGER_PORT = 4712;
 const DEBUGGER_MIN_PORT = 5001;         // BSD uses ports up to 5000 as ephemeral
 const DEBUGGER_MAX_PORT = 49151;        // Ports above 49152 are suggested as ephemeral by IANA
 const CTX_DEBUGGER_SUPPORTS_GOTO_STATE = 'tlaplus.debugger.supportsGotoState';
+const CTX_DEBUGGER_HAS_HISTORY = 'tlaplus.debugger.hasHistory';
 
 export class TLADebugAdapterServerDescriptorFactory implements vscode.DebugAdapterDescriptorFactory {
 
@@ -28,22 +38,28 @@ export class TLADebugAdapterServerDescriptorFactory implements vscode.DebugAdapt
 }
 
 /**
- * Tracks debug adapter protocol messages to detect capabilities from the debugger backend.
+ * Tracks debug adapter protocol messages to detect capabilities from the debugger backend
+ * and to record the visited states.
  */
 export class TLADebugAdapterTrackerFactory implements vscode.DebugAdapterTrackerFactory {
 
+    constructor(private readonly history?: DebugHistory) {}
+
     createDebugAdapterTracker(session: vscode.DebugSession): vscode.ProviderResult<vscode.DebugAdapterTracker> {
         if (session.type !== 'tlaplus') {
             return;
         }
 
         return {
+            onWillStartSession: () => this.history?.startSession(session.name),
+            onWillReceiveMessage: (message: unknown) => this.history?.handleRequest(message),
             onDidSendMessage: (message: unknown) => {
                 // Listen for the initialize response from the debug adapter
                 if (this.isInitializeResponse(message)) {
                     const supportsGotoState = message.body?.supportsGotoState === true;
                     vscode.commands.executeCommand('setContext', CTX_DEBUGGER_SUPPORTS_GOTO_STATE, supportsGotoState);
                 }
+                this.history?.handleResponse(message);
             },
             onWillStopSession: () => {
                 // Clear the context when the debug session ends
@@ -117,7 +133,10 @@ export async function checkAndDebugSpec(
         });
     };
     // Don't await doCheckModel because it only returns after TLC terminates.
-    doCheckModel(specFiles, false, context, diagnostic, true, ['-debugger', `port=${initPort}`], portOpenCallback);
+    doCheckModel(specFiles, false, context, diagnostic, true, {
+        extraOpts: ['-debugger', `port=${initPort}`],
+        debuggerPortCallback: portOpenCallback
+    });
 }
 
 export async function checkAndDebugSpecCustom(
@@ -153,7 +172,10 @@ export async function checkAndDebugSpecCustom(
         });
     };
     // Don't await doCheckModel because it only returns after TLC terminates.
-    doCheckModel(specFiles, false, context, diagnostic, true, ['-debugger', `port=${initPort}`], portOpenCallback);
+    doCheckModel(specFiles, false, context, diagnostic, true, {
+        extraOpts: ['-debugger', `port=${initPort}`],
+        debuggerPortCallback: portOpenCallback
+    });
 }
 
 export async function smokeTestSpec(
@@ -209,8 +231,10 @@ export async function smokeTestSpec(
     stopModelChecking(terminateLastRun, true);
 
     // Don't await doCheckModel because it only returns after TLC terminates.
-    doCheckModel(specFiles, false, context, diagnostic, false,
-        ['-simulate', '-noTE', '-debugger', `nosuspend,port=${initPort}`], portOpenCallback);
+    doCheckModel(specFiles, false, context, diagnostic, false, {
+        extraOpts: ['-simulate', '-noTE', '-debugger', `nosuspend,port=${initPort}`],
+        debuggerPortCallback: portOpenCallback
+    });
 }
 
 /**
@@ -230,6 +254,23 @@ interface DebugVariableContext {
     };
 }
 
+// Bodies of the DAP responses used to look up the states of the current trace
+interface DapThreadsResponse {
+    threads: { id: number }[];
+}
+
+interface DapStackTraceResponse {
+    stackFrames: { id: number }[];
+}
+
+interface DapScopesResponse {
+    scopes: { variablesReference: number }[];
+}
+
+interface DapVariablesResponse {
+    variables: { name: string, value: string, variablesReference: number, __vscodeVariableMenuContext?: string }[];
+}
+
 /**
  * Goes to a specific state in the TLA+ debugger by sending a custom DAP request.
  * This command is triggered from the variables view context menu or keyboard shortcut.
@@ -268,9 +309,8 @@ export async function gotoState(context: DebugVariableContext | undefined): Prom
 }
 
 /**
- * Debugs a counterexample by loading the most recent trace file.
- * The trace file is loaded using TLC's -loadtrace option with the appropriate -fp index.
- * This allows stepping through the exact execution that was previously captured.
+ * Debugs a counterexample by loading the most recent trace file, or the trace of a module exported
+ * from the debug history. This allows stepping through the exact execution that was previously captured.
  *
  * @param tlaFilePath Path to the TLA+ specification file (optional, will use active editor if not provided)
  * @param diagnostic Diagnostic collection for error reporting
@@ -299,21 +339,11 @@ export async function debugCounterexample(
         return;
     }
 
-    // Find the latest trace file
-    const traceFilePath = await findLatestTraceFile(specFiles.tlaFilePath, specFiles.cfgFilePath);
-    if (!traceFilePath) {
-        vscode.window.showWarningMessage(
-            'No trace file found. Run model checking in BFS mode to generate a trace file.'
-        );
-        return;
-    }
-
-    // Extract the fingerprint from the trace filename
-    const fpValue = extractFingerprintFromTrace(traceFilePath);
-    if (fpValue === undefined) {
-        vscode.window.showErrorMessage(
-            `Could not extract fingerprint index from trace file: ${path.basename(traceFilePath)}`
-        );
+    // An exported debug trace module only allows the recorded behavior, it's debugged as it is
+    const traceOptions = isDebugTraceModule(await readFile(specFiles.tlaFilePath))
+        ? []
+        : await getLoadTraceOptions(specFiles);
+    if (!traceOptions) {
         return;
     }
 
@@ -333,13 +363,200 @@ export async function debugCounterexample(
         });
     };
 
-    // Build the TLC options with -loadtrace (format first, then file path)
-    const debugOptions = [
-        '-fp', String(fpValue),
-        '-loadtrace', 'tlc', traceFilePath,
-        '-debugger', `port=${initPort}`
-    ];
+    const debugOptions = [...traceOptions, '-debugger', `port=${initPort}`];
 
     // Don't await doCheckModel because it only returns after TLC terminates
-    doCheckModel(specFiles, false, context, diagnostic, false, debugOptions, portOpenCallback);
+    doCheckModel(specFiles, false, context, diagnostic, false, {
+        extraOpts: debugOptions,
+        debuggerPortCallback: portOpenCallback
+    });
+}
+
+/**
+ * Returns the TLC options that load the most recent trace file of the spec, or undefined if there's none.
+ * The trace file is loaded using TLC's -loadtrace option with the appropriate -fp index.
+ */
+async function getLoadTraceOptions(specFiles: SpecFiles): Promise<string[] | undefined> {
+    // Find the latest trace file
+    const traceFilePath = await findLatestTraceFile(specFiles.tlaFilePath, specFiles.cfgFilePath);
+    if (!traceFilePath) {
+        vscode.window.showWarningMessage(
+            'No trace file found. Run model checking in BFS mode to generate a trace file.'
+        );
+        return undefined;
+    }
+
+    // Extract the fingerprint from the trace filename
+    const fpValue = extractFingerprintFromTrace(traceFilePath);
+    if (fpValue === undefined) {
+        vscode.window.showErrorMessage(
+            `Could not extract fingerprint index from trace file: ${path.basename(traceFilePath)}`
+        );
+        return undefined;
+    }
+
+    // Build the TLC options with -loadtrace (format first, then file path)
+    return ['-fp', String(fpValue), '-loadtrace', 'tlc', traceFilePath];
+}
+
+/**
+ * Registers the view and the commands of the debug history.
+ */
+export function registerDebugHistory(
+    context: vscode.ExtensionContext,
+    diagnostic: vscode.DiagnosticCollection
+): DebugHistory {
+    const history = new DebugHistory();
+    context.subscriptions.push(
+        history,
+        // Keeps the view visible after the session ends, so that the path can still be exported
+        history.onDidChange(() => vscode.commands.executeCommand(
+            'setContext', CTX_DEBUGGER_HAS_HISTORY, history.getSteps().length > 0)),
+        vscode.window.registerTreeDataProvider(
+            DebugHistoryTreeDataProvider.viewType,
+            new DebugHistoryTreeDataProvider(history, context)
+        ),
+        vscode.commands.registerCommand(
+            TLAPLUS_DEBUG_HISTORY_GOTO,
+            (item: DebugHistoryStepItem) => gotoRecordedStep(history, item.step)),
+        vscode.commands.registerCommand(
+            TLAPLUS_DEBUG_HISTORY_STEP_BACK,
+            () => stepBack(history)),
+        vscode.commands.registerCommand(
+            TLAPLUS_DEBUG_HISTORY_EXPORT,
+            () => exportDebugHistory(history, diagnostic, context)),
+        vscode.commands.registerCommand(
+            TLAPLUS_DEBUG_HISTORY_CLEAR,
+            () => history.clear())
+    );
+    return history;
+}
+
+/**
+ * Returns the debugger to a recorded state. The debugger only goes to the states of the trace of the current stop,
+ * so the recorded state is looked up there and an error is shown if it's not on the trace.
+ */
+async function gotoRecordedStep(history: DebugHistory, step: RecordedStep): Promise<void> {
+    const session = vscode.debug.activeDebugSession;
+    if (!session || session.type !== 'tlaplus') {
+        vscode.window.showWarningMessage('No active TLA+ debug session');
+        return;
+    }
+    if (step.variables.length === 0) {
+        vscode.window.showWarningMessage('The debugger reported no variables for this state.');
+        return;
+    }
+    try {
+        const stateReference = await findTraceStateReference(session, step);
+        if (stateReference === undefined) {
+            vscode.window.showWarningMessage('The state is not on the trace of the current debugger stop.');
+            return;
+        }
+        history.expectJump(step);
+        await session.customRequest('tlaplus/gotoState', { variablesReference: stateReference });
+    } catch (error) {
+        history.cancelJump();
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        vscode.window.showErrorMessage(`Failed to go to state: ${errorMessage}`);
+    }
+}
+
+/**
+ * Finds the trace state variable of the given step among the scopes of the top stack frame, the same kind of
+ * variable the Go to State command of the variables view sends to the debugger.
+ */
+async function findTraceStateReference(session: vscode.DebugSession, step: RecordedStep): Promise<number | undefined> {
+    const stackItem = vscode.debug.activeStackItem;
+    let frameId: number | undefined;
+    if (stackItem instanceof vscode.DebugStackFrame && stackItem.session.id === session.id) {
+        frameId = stackItem.frameId;
+    } else {
+        const threads: DapThreadsResponse = await session.customRequest('threads');
+        const threadId = threads.threads[0]?.id;
+        if (threadId === undefined) {
+            return undefined;
+        }
+        const trace: DapStackTraceResponse = await session.customRequest('stackTrace', { threadId, levels: 1 });
+        frameId = trace.stackFrames[0]?.id;
+    }
+    if (frameId === undefined) {
+        return undefined;
+    }
+    const scopes: DapScopesResponse = await session.customRequest('scopes', { frameId });
+    for (const scope of scopes.scopes) {
+        const scopeVariables: DapVariablesResponse = await session.customRequest(
+            'variables', { variablesReference: scope.variablesReference });
+        const traceStates = scopeVariables.variables.filter(
+            (v) => v.__vscodeVariableMenuContext === 'state' && v.variablesReference > 0);
+        for (const traceState of traceStates) {
+            const stateVariables: DapVariablesResponse = await session.customRequest(
+                'variables', { variablesReference: traceState.variablesReference });
+            if (isRecordedState(step, stateVariables.variables)) {
+                return traceState.variablesReference;
+            }
+        }
+    }
+    return undefined;
+}
+
+async function stepBack(history: DebugHistory): Promise<void> {
+    const current = history.getCurrentStep();
+    if (!current || current.index === 0) {
+        vscode.window.showInformationMessage('There is no earlier state in the debug history.');
+        return;
+    }
+    await gotoRecordedStep(history, history.getSteps()[current.index - 1]);
+}
+
+/**
+ * Saves the states visited up to the current one as a trace module with its config, next to the spec.
+ * The module extends the spec and only allows the recorded behavior, so debugCounterexample replays it.
+ */
+async function exportDebugHistory(
+    history: DebugHistory,
+    diagnostic: vscode.DiagnosticCollection,
+    context: vscode.ExtensionContext
+): Promise<void> {
+    const current = history.getCurrentStep();
+    const trace = current ? getRecordedTrace(history.getSteps().slice(0, current.index + 1)) : [];
+    if (trace.length === 0) {
+        vscode.window.showInformationMessage('The debug history has no states to export.');
+        return;
+    }
+    const stepPath = history.getSteps().find((s) => s.filePath)?.filePath;
+    const specFiles = stepPath ? await getSpecFiles(vscode.Uri.file(stepPath), false, false) : undefined;
+    if (!specFiles) {
+        vscode.window.showWarningMessage('Cannot find the model config of the debugged spec.');
+        return;
+    }
+    const specDir = path.dirname(specFiles.tlaFilePath);
+    const specName = pathToModuleName(specFiles.tlaFilePath);
+    const fileUri = await vscode.window.showSaveDialog({
+        defaultUri: vscode.Uri.file(path.join(specDir, `${specName}_debug_trace.tla`)),
+        filters: { 'TLA+ modules': ['tla'] },
+        saveLabel: 'Export'
+    });
+    if (!fileUri) {
+        return;
+    }
+    if (path.resolve(path.dirname(fileUri.fsPath)) !== path.resolve(specDir)) {
+        vscode.window.showErrorMessage(`The debug trace must be saved next to ${specName}.tla, it extends the spec.`);
+        return;
+    }
+    const moduleName = pathToModuleName(fileUri.fsPath);
+    const title = `Path recorded in debug session ${history.getSessionName() ?? ''}`.trim();
+    try {
+        const cfgText = await readFile(specFiles.cfgFilePath);
+        await writeFile(fileUri.fsPath, formatDebugTraceModule(trace, moduleName, specName, cfgText, title));
+        await writeFile(replaceExtension(fileUri.fsPath, 'cfg'), formatDebugTraceConfig(cfgText));
+    } catch (err) {
+        vscode.window.showErrorMessage(`Cannot export debug history: ${err}`);
+        return;
+    }
+    const debugOption = 'Debug Trace';
+    const option = await vscode.window.showInformationMessage(
+        `Debug history exported to ${path.basename(fileUri.fsPath)}.`, debugOption);
+    if (option === debugOption) {
+        await debugCounterexample(fileUri.fsPath, diagnostic, context);
+    }
 }
@@ -0,0 +1,34 @@
+import * as vscode from 'vscode';
+import { CfgName, CfgSection, parseCfgConstants, parseCfgSections } from '../parsers/cfg';
+import { SpecSymbolsLoader } from '../symbols/specSymbols';
+
+/**
+ * Navigates from names in model config files to their definitions in the spec.
+ */
+export class CfgDefinitionsProvider implements vscode.DefinitionProvider {
+    constructor(private readonly specSymbols: SpecSymbolsLoader) {}
+
+    async provideDefinition(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Location | undefined> {
+        const section = parseCfgSections(document.getText()).find((s) => s.bodyRange.contains(position));
+        const name = section ? findSymbolName(section, position) : undefined;
+        if (!name) {
+            return undefined;
+        }
+        const spec = await this.specSymbols.load(document.uri);
+        return spec?.symbols.get(name.name)?.location;
+    }
+}
+
+/**
+ * Returns the name at the given position, unless it's a part of a constant value, like a model value.
+ */
+function findSymbolName(section: CfgSection, position: vscode.Position): CfgName | undefined {
+    const names = /^CONSTANTS?$/.test(section.keyword)
+        ? parseCfgConstants(section).flatMap((c) => c.value ? [c.name, c.value] : [c.name])
+        : section.names;
+    return names.find((n) => n.range.contains(position));
+}
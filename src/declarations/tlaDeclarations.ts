@@ -211,7 +211,7 @@ function extractModuleNamesFromStatement(
     .filter((name): name is string => !!name);
 }
 
-function collectReferencedModules(
+export function collectReferencedModules(
   document: vscode.TextDocument,
 ): string[] {
   const documentText = document.getText();
@@ -581,7 +581,7 @@ function symbolLocations(
 /**
  * Common logic for providing declarations/definitions
  */
-async function provideSymbolLocations(
+export async function provideSymbolLocations(
   document: vscode.TextDocument,
   position: vscode.Position,
   docInfos: TlaDocumentInfos,
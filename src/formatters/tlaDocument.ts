@@ -0,0 +1,460 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { makeSpaces } from './formatting';
+import { maskNonCode } from '../references/tlaReferences';
+import { createTempDirSync, deleteDir, writeFile } from '../common';
+import { exportModuleXml } from '../symbols/tlaSymbols';
+
+const TOKEN_REGEX = /\/\\|\\\/|\[\]|==|\|->|->|<<|>>|\w+|\S/g;
+const JUNCTIONS = ['/\\', '\\/'];
+// Tokens after which a junction symbol starts a bulleted list rather than being an infix operator
+const LIST_CONTEXT_TOKENS = new Set([
+    '==', '(', '[', '{', ',', '->', '|->', ':', '<<', '=', '#', '~', '/\\', '\\/', 'THEN', 'ELSE', 'IN', 'LET'
+]);
+const NON_DEFINITION_START = /^(?:THEOREM|LEMMA|COROLLARY|PROPOSITION|AXIOM|ASSUME|ASSUMPTION|PROOF|<\d|-{4,}|={4,})/;
+const MODULE_HEADER = /^\s*-{4,}\s*MODULE\s+\w+\s*-{4,}\s*$/;
+const MODULE_NAME = /^\s*-{4,}\s*MODULE\s+(\w+)/m;
+
+/**
+ * A group of consecutive lines that can only be formatted together.
+ */
+export class LineBlock {
+    constructor(
+        readonly start: number,
+        readonly lines: string[]
+    ) {}
+
+    get end(): number {
+        return this.start + this.lines.length - 1;
+    }
+}
+
+class Token {
+    constructor(
+        readonly text: string,
+        readonly col: number
+    ) {}
+}
+
+/**
+ * Formats whole .tla documents or selected parts of them.
+ * Only layout that doesn't affect the way SANY parses the module is changed: bodies of definitions are
+ * moved as a whole, and lines are moved individually only when no junction list depends on their position.
+ * The result is then parsed with SANY and dropped if its syntax tree differs from the one of the original module.
+ * PlusCal algorithms are left as is.
+ */
+export class TlaDocumentFormattingEditProvider implements
+    vscode.DocumentFormattingEditProvider,
+    vscode.DocumentRangeFormattingEditProvider {
+
+    provideDocumentFormattingEdits(
+        document: vscode.TextDocument,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.TextEdit[]> {
+        return verifyWithSany(document, formatDocument(document, options), token);
+    }
+
+    provideDocumentRangeFormattingEdits(
+        document: vscode.TextDocument,
+        range: vscode.Range,
+        options: vscode.FormattingOptions,
+        token: vscode.CancellationToken
+    ): vscode.ProviderResult<vscode.TextEdit[]> {
+        return verifyWithSany(document, formatDocument(document, options, range), token);
+    }
+}
+
+function formatDocument(
+    document: vscode.TextDocument,
+    options: vscode.FormattingOptions,
+    range?: vscode.Range
+): vscode.TextEdit[] {
+    const lines = [];
+    for (let i = 0; i < document.lineCount; i++) {
+        lines.push(document.lineAt(i).text);
+    }
+    const edits = [];
+    for (const block of formatTlaLines(lines, options)) {
+        if (range && (block.end < range.start.line || block.start > range.end.line)) {
+            continue;
+        }
+        for (let i = 0; i < block.lines.length; i++) {
+            const line = document.lineAt(block.start + i);
+            if (line.text !== block.lines[i]) {
+                edits.push(vscode.TextEdit.replace(line.range, block.lines[i]));
+            }
+        }
+    }
+    return edits;
+}
+
+/**
+ * Returns the edits if SANY parses the formatted module the same way as the original one, and no edits otherwise.
+ * When SANY can't parse the original module, there's no syntax tree to preserve and the edits are kept.
+ */
+async function verifyWithSany(
+    document: vscode.TextDocument,
+    edits: vscode.TextEdit[],
+    token: vscode.CancellationToken
+): Promise<vscode.TextEdit[]> {
+    const moduleName = MODULE_NAME.exec(document.getText())?.[1];
+    if (edits.length === 0 || !moduleName) {
+        return edits;
+    }
+    const tempDir = createTempDirSync();
+    if (!tempDir) {
+        return edits;
+    }
+    try {
+        // Modules the spec extends are looked up next to it
+        const libraryPaths = document.uri.scheme === 'file' ? [path.dirname(document.uri.fsPath)] : [];
+        const originalXml = await exportTextXml(
+            path.join(tempDir, 'original'), moduleName, document.getText(), libraryPaths);
+        if (originalXml === undefined || token.isCancellationRequested) {
+            return edits;
+        }
+        const formattedXml = await exportTextXml(
+            path.join(tempDir, 'formatted'), moduleName, applyLineEdits(document, edits), libraryPaths);
+        if (formattedXml !== undefined && normalizeSanyXml(formattedXml) === normalizeSanyXml(originalXml)) {
+            return edits;
+        }
+        vscode.window.setStatusBarMessage(
+            'The module was not formatted: SANY would parse the formatted module differently.', 5000);
+        return [];
+    } finally {
+        deleteDir(tempDir).catch((err) => console.error(`Cannot delete formatter temp dir: ${err}`));
+    }
+}
+
+async function exportTextXml(
+    dirPath: string,
+    moduleName: string,
+    text: string,
+    libraryPaths: string[]
+): Promise<string | undefined> {
+    await vscode.workspace.fs.createDirectory(vscode.Uri.file(dirPath));
+    const filePath = path.join(dirPath, `${moduleName}.tla`);
+    await writeFile(filePath, text);
+    return exportModuleXml(vscode.Uri.file(filePath), false, libraryPaths);
+}
+
+function applyLineEdits(document: vscode.TextDocument, edits: vscode.TextEdit[]): string {
+    const lines = [];
+    for (let i = 0; i < document.lineCount; i++) {
+        lines.push(document.lineAt(i).text);
+    }
+    // The formatter only replaces whole lines
+    for (const edit of edits) {
+        lines[edit.range.start.line] = edit.newText;
+    }
+    return lines.join(document.eol === vscode.EndOfLine.CRLF ? '\r\n' : '\n');
+}
+
+/**
+ * Removes source locations and comments from the XML SANY exports, leaving the syntax tree only.
+ */
+export function normalizeSanyXml(xml: string): string {
+    return xml
+        .replace(/^[^<]*/, '')
+        .replace(/<location>[\s\S]*?<\/location>/g, '')
+        .replace(/<pre-comments>[\s\S]*?<\/pre-comments>/g, '')
+        .replace(/>\s+</g, '><')
+        .trim();
+}
+
+/**
+ * Splits the module into top-level units and formats each of them.
+ */
+export function formatTlaLines(lines: string[], options: vscode.FormattingOptions): LineBlock[] {
+    const masked = maskLines(lines);
+    const header = lines.find((line) => MODULE_HEADER.test(line));
+    const separatorWidth = header ? header.trim().length : undefined;
+    const blocks = [];
+    let start = 0;
+    while (start < lines.length) {
+        // Everything that is not placed at the very first column belongs to the preceding unit
+        let end = start + 1;
+        while (end < lines.length && !/^\S/.test(masked[end])) {
+            end += 1;
+        }
+        if (isDefinitionStart(masked[start])) {
+            blocks.push(new LineBlock(start, formatDefinition(lines.slice(start, end), options)));
+        } else {
+            for (let i = start; i < end; i++) {
+                blocks.push(new LineBlock(i, [formatPlainLine(lines[i], separatorWidth)]));
+            }
+        }
+        start = end;
+    }
+    return blocks;
+}
+
+function isDefinitionStart(maskedLine: string): boolean {
+    return /^\S/.test(maskedLine) && maskedLine.includes('==') && !NON_DEFINITION_START.test(maskedLine);
+}
+
+function formatPlainLine(line: string, separatorWidth: number | undefined): string {
+    const text = line.trimEnd();
+    if (separatorWidth && /^-{4,}$/.test(text)) {
+        return '-'.repeat(separatorWidth);
+    }
+    if (separatorWidth && /^={4,}$/.test(text)) {
+        return '='.repeat(separatorWidth);
+    }
+    return text;
+}
+
+/**
+ * Formats an operator definition, giving up if the result would be parsed differently.
+ */
+function formatDefinition(lines: string[], options: vscode.FormattingOptions): string[] {
+    const trimmed = lines.map((line) => line.trimEnd());
+    if (lines.some((line) => /^\s*\t/.test(line))) {
+        // Can't reliably tell the columns when tabs are mixed in
+        return trimmed;
+    }
+    let result = indentBody(trimmed, options);
+    result = alignCaseArms(result);
+    result = alignLetIn(result);
+    result = compactBullets(result);
+    return junctionSignature(maskLines(result)) === junctionSignature(maskLines(trimmed)) ? result : trimmed;
+}
+
+/**
+ * Puts a single space around the definition sign and indents the body by one tab
+ * when it starts on the next line. The body is always moved as a whole.
+ */
+function indentBody(lines: string[], options: vscode.FormattingOptions): string[] {
+    const masked = maskLines(lines);
+    const lastCodeLine = findLastCodeLine(masked);
+    const defIdx = masked[0].indexOf('==');
+    const bodyCol = firstNonSpace(masked[0], defIdx + 2);
+    let delta = 0;
+    let firstLine = lines[0];
+    if (bodyCol < 0) {
+        const indents = masked.slice(1, lastCodeLine + 1).filter(isCodeLine).map(indentation);
+        if (indents.length === 0) {
+            return lines;
+        }
+        delta = options.tabSize - Math.min(...indents);
+        firstLine = lines[0].substring(0, defIdx).trimEnd() + ' ==';
+    } else if (masked[0].substring(0, bodyCol) === lines[0].substring(0, bodyCol)) {
+        const head = lines[0].substring(0, defIdx).trimEnd() + ' == ';
+        delta = head.length - bodyCol;
+        firstLine = head + lines[0].substring(bodyCol);
+    }
+    const codeIndents = masked.slice(1, lastCodeLine + 1).filter(isCodeLine).map(indentation);
+    if (codeIndents.some((indent) => indent + delta < 1)) {
+        // The body would end up in the first column which starts a new unit
+        return lines;
+    }
+    const result = shiftLines(lines, 1, lastCodeLine, delta);
+    result[0] = firstLine;
+    return result;
+}
+
+/**
+ * Aligns `[]` of CASE arms two columns to the right of the CASE keyword, so that the arms
+ * line up with the first one. Every arm is moved together with its continuation lines.
+ */
+function alignCaseArms(lines: string[]): string[] {
+    let result = lines;
+    for (let i = 1; i < result.length; i++) {
+        const masked = maskLines(result);
+        const matches = /^(\s*)\[\]/.exec(masked[i]);
+        if (!matches || result[i].substring(0, matches[1].length).trim() !== '') {
+            continue;
+        }
+        const caseToken = findLastToken(masked, i, 'CASE');
+        if (!caseToken) {
+            continue;
+        }
+        const armCol = matches[1].length;
+        const delta = caseToken.col + 2 - armCol;
+        if (delta === 0) {
+            continue;
+        }
+        const armEnd = findContinuationEnd(masked, i, armCol);
+        const indents = masked.slice(i, armEnd + 1).filter(isCodeLine).map(indentation);
+        if (indents.some((indent) => indent + delta < 1)) {
+            continue;
+        }
+        result = shiftLines(result, i, armEnd, delta);
+    }
+    return result;
+}
+
+/**
+ * Aligns IN with the matching LET when this doesn't move any junction list.
+ */
+function alignLetIn(lines: string[]): string[] {
+    const result = lines.slice();
+    for (let i = 1; i < result.length; i++) {
+        const masked = maskLines(result);
+        const matches = /^(\s*)IN\b/.exec(masked[i]);
+        if (!matches || result[i].substring(0, matches[1].length).trim() !== '') {
+            continue;
+        }
+        const letCol = findMatchingLetColumn(masked, i);
+        const inCol = matches[1].length;
+        if (letCol === undefined || letCol === inCol) {
+            continue;
+        }
+        const rest = masked[i].substring(inCol + 2).trimStart();
+        const continued = findContinuationEnd(masked, i, inCol) > i;
+        if (continued && JUNCTIONS.some((j) => rest.startsWith(j))) {
+            continue;
+        }
+        result[i] = makeSpaces(letCol) + result[i].trimStart();
+    }
+    return result;
+}
+
+/**
+ * Leaves a single space after a junction bullet if the list item fits in one line.
+ */
+function compactBullets(lines: string[]): string[] {
+    const result = lines.slice();
+    const masked = maskLines(result);
+    for (let i = 1; i < result.length; i++) {
+        const matches = /^(\s*)(\/\\|\\\/)( {2,})\S/.exec(masked[i]);
+        if (!matches || !result[i].startsWith(matches[0].substring(0, matches[0].length - 1))) {
+            continue;
+        }
+        const col = matches[1].length;
+        if (findContinuationEnd(masked, i, col) > i) {
+            continue;
+        }
+        const textStart = col + matches[2].length + matches[3].length;
+        result[i] = result[i].substring(0, col + matches[2].length) + ' ' + result[i].substring(textStart);
+    }
+    return result;
+}
+
+/**
+ * Describes which junction lists every token of the unit belongs to.
+ * SANY relies on columns of list bullets, so equal signatures mean that lists are parsed the same way.
+ */
+export function junctionSignature(maskedLines: string[]): string {
+    const lists: { col: number, bullet: string, id: number }[] = [];
+    const signature: string[] = [];
+    let nextId = 0;
+    for (const line of maskedLines) {
+        const tokens = tokenize(line);
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            if (i === 0) {
+                // A token to the left of a bullet or at its column ends the list, unless it's the next bullet
+                while (lists.length > 0) {
+                    const top = lists[lists.length - 1];
+                    if (token.col > top.col || (token.col === top.col && token.text === top.bullet)) {
+                        break;
+                    }
+                    lists.pop();
+                }
+            }
+            if (JUNCTIONS.includes(token.text) && (i === 0 || LIST_CONTEXT_TOKENS.has(tokens[i - 1].text))) {
+                const top = lists[lists.length - 1];
+                if (!top || top.col !== token.col || top.bullet !== token.text) {
+                    lists.push({ col: token.col, bullet: token.text, id: nextId });
+                    nextId += 1;
+                }
+            }
+            signature.push(lists.map((l) => l.id).join('.'));
+        }
+    }
+    return signature.join(' ');
+}
+
+function tokenize(line: string): Token[] {
+    const tokens = [];
+    const regex = new RegExp(TOKEN_REGEX);
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(line))) {
+        tokens.push(new Token(match[0], match.index));
+    }
+    return tokens;
+}
+
+function maskLines(lines: string[]): string[] {
+    return maskNonCode(lines.join('\n'), undefined, false).split('\n');
+}
+
+function shiftLines(lines: string[], from: number, to: number, delta: number): string[] {
+    return lines.map((line, idx) => {
+        if (delta === 0 || idx < from || idx > to || line.length === 0) {
+            return line;
+        }
+        const indent = Math.max(0, indentation(line) + delta);
+        return makeSpaces(indent) + line.trimStart();
+    });
+}
+
+/**
+ * Returns the last line that continues the item starting at the given line, i.e. the last code line
+ * before a code line which is not placed to the right of the given column.
+ */
+function findContinuationEnd(maskedLines: string[], line: number, col: number): number {
+    let end = line;
+    for (let i = line + 1; i < maskedLines.length; i++) {
+        if (!isCodeLine(maskedLines[i])) {
+            continue;
+        }
+        if (indentation(maskedLines[i]) <= col) {
+            break;
+        }
+        end = i;
+    }
+    return end;
+}
+
+function findMatchingLetColumn(maskedLines: string[], inLine: number): number | undefined {
+    let depth = 0;
+    for (let i = inLine - 1; i >= 0; i--) {
+        const tokens = tokenize(maskedLines[i]);
+        for (let j = tokens.length - 1; j >= 0; j--) {
+            if (tokens[j].text === 'IN') {
+                depth += 1;
+            } else if (tokens[j].text === 'LET') {
+                if (depth === 0) {
+                    return tokens[j].col;
+                }
+                depth -= 1;
+            }
+        }
+    }
+    return undefined;
+}
+
+function findLastToken(maskedLines: string[], beforeLine: number, text: string): Token | undefined {
+    for (let i = beforeLine - 1; i >= 0; i--) {
+        const token = tokenize(maskedLines[i]).reverse().find((t) => t.text === text);
+        if (token) {
+            return token;
+        }
+    }
+    return undefined;
+}
+
+function findLastCodeLine(maskedLines: string[]): number {
+    for (let i = maskedLines.length - 1; i > 0; i--) {
+        if (isCodeLine(maskedLines[i])) {
+            return i;
+        }
+    }
+    return 0;
+}
+
+function isCodeLine(maskedLine: string): boolean {
+    return maskedLine.trim().length > 0;
+}
+
+function indentation(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+function firstNonSpace(line: string, from: number): number {
+    const idx = line.substring(from).search(/\S/);
+    return idx < 0 ? -1 : from + idx;
+}
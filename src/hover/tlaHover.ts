@@ -0,0 +1,188 @@
+import * as vscode from 'vscode';
+import { pathToModuleName } from '../common';
+import { provideSymbolLocations } from '../declarations/tlaDeclarations';
+import { TlaDocumentInfos } from '../model/documentInfo';
+import { TlaSymbolInformation } from '../symbols/tlaSymbols';
+
+const LEVEL_NAMES = ['Constant', 'State', 'Action', 'Temporal'];
+const MAX_SIGNATURE_LINES = 10;
+
+/**
+ * Shows the definition signature, level, comment and source module of TLA+ symbols.
+ * Symbols are resolved the same way "Go to Definition" does, so operators that come from
+ * EXTENDS or INSTANCE (including the standard modules inside tla2tools.jar) are covered too.
+ */
+export class TlaHoverProvider implements vscode.HoverProvider {
+    constructor(private readonly docInfos: TlaDocumentInfos) {}
+
+    async provideHover(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Hover | undefined> {
+        const wordRange = document.getWordRangeAtPosition(position);
+        if (!wordRange) {
+            return undefined;
+        }
+        const result = await provideSymbolLocations(document, position, this.docInfos);
+        if (token.isCancellationRequested || !result) {
+            return undefined;
+        }
+        const locations = Array.isArray(result) ? result : [result];
+        if (locations.length === 0) {
+            return undefined;
+        }
+        // The closest preceding definition is the one that is in effect at the hover position
+        const location = locations[locations.length - 1];
+        const targetDoc = location.uri.toString() === document.uri.toString()
+            ? document
+            : await vscode.workspace.openTextDocument(location.uri);
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+        const name = document.getText(wordRange).replace(/'+$/, '');
+        const symbol = this.findSymbolInfo(location, name);
+        return new vscode.Hover(buildHoverMessage(targetDoc, location, name, symbol), wordRange);
+    }
+
+    private findSymbolInfo(location: vscode.Location, name: string): vscode.SymbolInformation | undefined {
+        const docInfo = this.docInfos.get(location.uri);
+        const symbols = docInfo.symbols.concat(docInfo.plusCalSymbols);
+        return symbols.find((s) => s.name === name && s.location.range.start.isEqual(location.range.start));
+    }
+}
+
+function buildHoverMessage(
+    document: vscode.TextDocument,
+    location: vscode.Location,
+    name: string,
+    symbol: vscode.SymbolInformation | undefined
+): vscode.MarkdownString {
+    const md = new vscode.MarkdownString();
+    md.appendCodeblock(extractSignature(document, location.range.start, name, symbol), 'tlaplus');
+    // Level and comments are only known when the symbols come from SANY
+    const tlaSymbol = symbol instanceof TlaSymbolInformation ? symbol : undefined;
+    const details = [];
+    if (tlaSymbol?.level !== undefined && LEVEL_NAMES[tlaSymbol.level]) {
+        details.push(`*Level:* ${LEVEL_NAMES[tlaSymbol.level]}`);
+    }
+    const moduleName = findModuleName(document, location.range.start.line);
+    if (moduleName) {
+        details.push(`*Module:* \`${moduleName}\``);
+    }
+    if (details.length > 0) {
+        md.appendMarkdown(details.join(' &nbsp; ') + '\n\n');
+    }
+    const comment = tlaSymbol?.preComment || extractPreComment(document, location.range.start.line);
+    if (comment) {
+        md.appendMarkdown('---\n\n');
+        md.appendText(comment);
+    }
+    return md;
+}
+
+/**
+ * Returns the definition header, i.e. everything from the symbol name to the `==` sign.
+ * Declarations without a body are shown together with their declaring keyword.
+ */
+export function extractSignature(
+    document: vscode.TextDocument,
+    start: vscode.Position,
+    name: string,
+    symbol?: vscode.SymbolInformation
+): string {
+    const firstLine = document.lineAt(start.line).text;
+    const header = /^\s*-{4,}\s*MODULE\s+(\w+)/.exec(firstLine);
+    if (header) {
+        return `MODULE ${header[1]}`;
+    }
+    const lastLine = Math.min(document.lineCount - 1, start.line + MAX_SIGNATURE_LINES);
+    const text = document.getText(new vscode.Range(start, document.lineAt(lastLine).range.end));
+    // Parameters of an operator or a function may span several lines
+    const escapedName = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const definition = new RegExp(`^${escapedName}\\s*(\\([^)]*\\)|\\[[^\\]]*\\])?\\s*==`).exec(text);
+    if (definition) {
+        return definition[0].replace(/\s+/g, ' ');
+    }
+    // Infix and postfix operator definitions
+    const defIdx = firstLine.indexOf('==', start.character);
+    if (defIdx >= 0) {
+        return firstLine.substring(start.character, defIdx + 2).replace(/\s+/g, ' ').trim();
+    }
+    const keyword = declarationKeyword(document, start, symbol);
+    return keyword ? `${keyword} ${name}` : name;
+}
+
+function declarationKeyword(
+    document: vscode.TextDocument,
+    start: vscode.Position,
+    symbol: vscode.SymbolInformation | undefined
+): string | undefined {
+    if (symbol?.kind === vscode.SymbolKind.Variable) {
+        return 'VARIABLE';
+    }
+    if (symbol?.kind === vscode.SymbolKind.Constant) {
+        return 'CONSTANT';
+    }
+    // Walk back to the beginning of a CONSTANTS/VARIABLES list
+    for (let i = start.line; i >= 0 && i > start.line - MAX_SIGNATURE_LINES; i--) {
+        const line = i === start.line
+            ? document.lineAt(i).text.substring(0, start.character)
+            : document.lineAt(i).text;
+        const matches = /^\s*(CONSTANTS?|VARIABLES?)\b/.exec(line);
+        if (matches) {
+            return matches[1].startsWith('C') ? 'CONSTANT' : 'VARIABLE';
+        }
+        if (i < start.line && !/,\s*(\\\*.*)?$/.test(line)) {
+            break;
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Collects the comment placed right above the given line, either a block of `\*` lines or a `(* *)` block.
+ */
+export function extractPreComment(document: vscode.TextDocument, line: number): string | undefined {
+    const lines: string[] = [];
+    let i = line - 1;
+    if (i >= 0 && /\*\)\s*$/.test(document.lineAt(i).text)) {
+        for (; i >= 0; i--) {
+            const text = document.lineAt(i).text;
+            lines.unshift(text);
+            if (text.includes('(*')) {
+                break;
+            }
+        }
+        // Don't mistake a PlusCal algorithm for a comment
+        if (i < 0 || /--(fair\s+)?algorithm\b/.test(lines.join('\n'))) {
+            return undefined;
+        }
+        const comment = lines.join('\n')
+            .replace(/^\s*\(\*+/, '')
+            .replace(/\*+\)\s*$/, '')
+            .split('\n')
+            .map((l) => l.replace(/^\s*\*?\s?/, '').trimEnd())
+            .join('\n');
+        return comment.trim() || undefined;
+    }
+    for (; i >= 0; i--) {
+        const matches = /^\s*\\\*\s?(.*)$/.exec(document.lineAt(i).text);
+        if (!matches) {
+            break;
+        }
+        lines.unshift(matches[1].trimEnd());
+    }
+    const comment = lines.join('\n').trim();
+    return comment || undefined;
+}
+
+function findModuleName(document: vscode.TextDocument, line: number): string | undefined {
+    for (let i = line; i >= 0; i--) {
+        const matches = /^\s*-{4,}\s*MODULE\s+(\w+)/.exec(document.lineAt(i).text);
+        if (matches) {
+            return matches[1];
+        }
+    }
+    return document.uri.path.endsWith('.tla') ? pathToModuleName(document.uri.path) : undefined;
+}
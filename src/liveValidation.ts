@@ -0,0 +1,225 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as os from 'os';
+import * as path from 'path';
+import { LANG_TLAPLUS, pathToModuleName } from './common';
+import { DCollection, applyDCollection } from './diagnostic';
+import { SanyStdoutParser } from './parsers/sany';
+import { getModuleSearchDirs, runSany, stopProcess } from './tla2tools';
+import { collectReferencedModules } from './declarations/tlaDeclarations';
+
+const CFG_LIVE_VALIDATION_ENABLED = 'tlaplus.liveValidation.enabled';
+const CFG_LIVE_VALIDATION_DELAY = 'tlaplus.liveValidation.delay';
+const DEFAULT_DELAY_MS = 500;
+
+interface PendingValidation {
+    timer: NodeJS.Timeout | undefined;
+    tokenSource: vscode.CancellationTokenSource;
+}
+
+/**
+ * Runs SANY in the background on the current contents of TLA+ editors, so that syntax and semantic
+ * errors show up while typing. Modules are copied to a temporary directory, the user's files are never
+ * saved or modified.
+ */
+export class LiveValidator implements vscode.Disposable {
+    private readonly pending = new Map<string, PendingValidation>();   // Document URI -> validation
+    private readonly disposables: vscode.Disposable[] = [];
+    private enabled = isLiveValidationEnabled();
+
+    constructor(private readonly diagnostic: vscode.DiagnosticCollection) {
+        this.disposables.push(
+            vscode.workspace.onDidChangeTextDocument((event) => {
+                if (event.contentChanges.length > 0) {
+                    this.documentChanged(event.document);
+                }
+            }),
+            vscode.workspace.onDidOpenTextDocument((document) => this.schedule(document)),
+            vscode.workspace.onDidCloseTextDocument((document) => this.cancel(document.uri)),
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (event.affectsConfiguration(CFG_LIVE_VALIDATION_ENABLED)) {
+                    this.enabled = isLiveValidationEnabled();
+                    if (this.enabled) {
+                        vscode.workspace.textDocuments.forEach((document) => this.schedule(document));
+                    } else {
+                        this.cancelAll();
+                    }
+                }
+            })
+        );
+        if (this.enabled) {
+            vscode.workspace.textDocuments.forEach((document) => this.schedule(document));
+        }
+    }
+
+    dispose(): void {
+        this.cancelAll();
+        this.disposables.forEach((d) => d.dispose());
+    }
+
+    private documentChanged(document: vscode.TextDocument): void {
+        if (!this.schedule(document)) {
+            return;
+        }
+        // Modules that extend or instantiate the changed one may become (in)valid too
+        findDependentDocuments(document).forEach((dependent) => this.schedule(dependent));
+    }
+
+    /**
+     * Schedules validation of the given document, replacing the one that is pending or running.
+     * Returns false if the document cannot be validated.
+     */
+    private schedule(document: vscode.TextDocument): boolean {
+        if (!this.enabled || !canValidate(document)) {
+            return false;
+        }
+        this.cancel(document.uri);
+        const validation: PendingValidation = {
+            timer: undefined,
+            tokenSource: new vscode.CancellationTokenSource()
+        };
+        const delay = vscode.workspace.getConfiguration().get<number>(CFG_LIVE_VALIDATION_DELAY, DEFAULT_DELAY_MS);
+        validation.timer = setTimeout(() => {
+            validation.timer = undefined;
+            this.validate(document, validation.tokenSource.token).finally(() => {
+                if (this.pending.get(document.uri.toString()) === validation) {
+                    this.pending.delete(document.uri.toString());
+                }
+                validation.tokenSource.dispose();
+            });
+        }, delay);
+        this.pending.set(document.uri.toString(), validation);
+        return true;
+    }
+
+    private cancel(uri: vscode.Uri): void {
+        const validation = this.pending.get(uri.toString());
+        if (!validation) {
+            return;
+        }
+        this.pending.delete(uri.toString());
+        if (validation.timer) {
+            clearTimeout(validation.timer);
+            validation.tokenSource.dispose();
+        } else {
+            validation.tokenSource.cancel();
+        }
+    }
+
+    private cancelAll(): void {
+        Array.from(this.pending.keys()).forEach((uri) => this.cancel(vscode.Uri.parse(uri)));
+    }
+
+    private async validate(document: vscode.TextDocument, token: vscode.CancellationToken): Promise<void> {
+        const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'tlaplus-'));
+        try {
+            const tempPaths = await copyModules(document, tempDir);
+            const tempPath = path.join(tempDir, path.basename(document.uri.fsPath));
+            if (token.isCancellationRequested) {
+                return;
+            }
+            // The original directory goes first, so that SANY finds saved modules next to the checked one.
+            // The output isn't shown in the SANY channel, it belongs to the last explicit parse.
+            const procInfo = await runSany(tempPath, [path.dirname(document.uri.fsPath)]);
+            const cancellation = token.onCancellationRequested(() => stopProcess(procInfo.process));
+            try {
+                const specData = await new SanyStdoutParser(procInfo.mergedOutput).readAll();
+                if (!token.isCancellationRequested && !document.isClosed) {
+                    applyDCollection(remapDCollection(specData.dCollection, tempPaths), this.diagnostic);
+                }
+            } finally {
+                cancellation.dispose();
+            }
+        } catch (err) {
+            if (!token.isCancellationRequested) {
+                console.error(`Cannot validate ${document.uri.fsPath}: ${err}`);
+            }
+        } finally {
+            await fs.rm(tempDir, { recursive: true, force: true });
+        }
+    }
+}
+
+/**
+ * Replaces paths of the temporary module copies in the collection with paths of the original files.
+ */
+export function remapDCollection(dCol: DCollection, pathMap: ReadonlyMap<string, string>): DCollection {
+    const result = new DCollection();
+    dCol.getModules().forEach((modPath) => result.addFilePath(pathMap.get(modPath) ?? modPath));
+    dCol.getMessages().forEach((msg) => result.addMessage(
+        pathMap.get(msg.filePath) ?? msg.filePath,
+        msg.diagnostic.range,
+        msg.diagnostic.message,
+        msg.diagnostic.severity
+    ));
+    return result;
+}
+
+function isLiveValidationEnabled(): boolean {
+    return vscode.workspace.getConfiguration().get<boolean>(CFG_LIVE_VALIDATION_ENABLED, false);
+}
+
+function canValidate(document: vscode.TextDocument): boolean {
+    // SANY requires module files to be named after the modules, which is not the case for untitled documents
+    return document.languageId === LANG_TLAPLUS && document.uri.scheme === 'file';
+}
+
+/**
+ * Writes the given document and all unsaved modules SANY would find for it to the temporary directory.
+ * SANY looks for modules in the directory of the document first and in the module search paths then.
+ * Returns the map of temporary file paths to the original ones.
+ */
+async function copyModules(document: vscode.TextDocument, tempDir: string): Promise<Map<string, string>> {
+    const searchDirs = [path.dirname(document.uri.fsPath)].concat(getModuleSearchDirs())
+        .map((dir) => path.resolve(dir));
+    const tempPaths = new Map<string, string>();
+    for (const doc of vscode.workspace.textDocuments) {
+        if (doc !== document && (!doc.isDirty || !canValidate(doc))) {
+            continue;
+        }
+        const fileName = path.basename(doc.uri.fsPath);
+        const tempPath = path.join(tempDir, fileName);
+        const dirIndex = searchDirs.indexOf(path.dirname(doc.uri.fsPath));
+        if (doc !== document && (dirIndex < 0 || tempPaths.has(tempPath)
+                || await isModuleIn(fileName, searchDirs.slice(0, dirIndex)))) {
+            // SANY wouldn't use this module, or it would find another one with the same name first
+            continue;
+        }
+        await fs.writeFile(tempPath, doc.getText());
+        tempPaths.set(tempPath, doc.uri.fsPath);
+    }
+    return tempPaths;
+}
+
+async function isModuleIn(fileName: string, dirs: string[]): Promise<boolean> {
+    for (const dir of dirs) {
+        try {
+            await fs.access(path.join(dir, fileName));
+            return true;
+        } catch {
+            // Not in this directory
+        }
+    }
+    return false;
+}
+
+/**
+ * Returns open modules that extend or instantiate the given one, directly or through other open modules.
+ */
+function findDependentDocuments(document: vscode.TextDocument): vscode.TextDocument[] {
+    const moduleNames = new Set([pathToModuleName(document.uri.fsPath)]);
+    const candidates = vscode.workspace.textDocuments.filter((doc) => doc !== document && canValidate(doc));
+    const result: vscode.TextDocument[] = [];
+    let found = true;
+    while (found) {
+        found = false;
+        for (const doc of candidates) {
+            if (!result.includes(doc) && collectReferencedModules(doc).some((name) => moduleNames.has(name))) {
+                result.push(doc);
+                moduleNames.add(pathToModuleName(doc.uri.fsPath));
+                found = true;
+            }
+        }
+    }
+    return result;
+}
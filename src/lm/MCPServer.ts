@@ -32,8 +32,9 @@ import { TLADocumentSymbolProvider } from '../symbols/tlaSymbols';
 import { parseSpec, transpilePlusCal } from '../commands/parseModule';
 import { TlaDocumentInfos } from '../model/documentInfo';
 import { JarFileSystemProviderHandle, acquireJarFileSystemProvider } from '../JarFileSystemProvider';
-import { getSpecFiles, mapTlcOutputLine, outChannel } from '../commands/checkModel';
+import { getModelProfile, getSpecFiles, mapTlcOutputLine, outChannel } from '../commands/checkModel';
 import { runTlc, extractFingerprintFromTrace } from '../tla2tools';
+import { buildProfileRunOptions } from '../model/modelProfiles';
 import { CFG_TLC_STATISTICS_TYPE, ShareOption } from '../commands/tlcStatisticsCfg';
 import { getDiagnostic } from '../main';
 import { moduleSearchPaths } from '../paths';
@@ -1595,8 +1596,12 @@ export class MCPServer implements vscode.Disposable {
             // Use the provided cfgFilePath or default to specFiles.cfgFilePath
             const configFilePath = cfgFilePath || specFiles.cfgFilePath;
 
+            // The model profile of the spec, if any, gives the options and JVM settings
+            const profileOptions = buildProfileRunOptions(getModelProfile(specFiles.tlaFilePath, configFilePath));
             const procInfo = await runTlc(
-                specFiles.tlaFilePath, configFilePath, false, extraOps, extraJavaOpts);
+                specFiles.tlaFilePath, configFilePath, false, extraOps,
+                extraJavaOpts.concat(profileOptions.javaOptions), profileOptions.tlcOptions,
+                profileOptions.libraryPaths);
             if (procInfo === undefined) {
                 return {
                     content: [{
@@ -1,9 +1,10 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { runTlc, stopProcess, ToolProcessInfo } from '../tla2tools';
-import { getSpecFiles, mapTlcOutputLine, outChannel } from '../commands/checkModel';
+import { getModelProfile, getSpecFiles, mapTlcOutputLine, outChannel } from '../commands/checkModel';
 import { CFG_TLC_STATISTICS_TYPE, ShareOption } from '../commands/tlcStatisticsCfg';
 import { exists } from '../common';
+import { buildProfileRunOptions } from '../model/modelProfiles';
 
 export interface FileParameter {
 	fileName: string;
@@ -131,12 +132,15 @@ async function runTLC(
         extraJavaOpts.push('-Dtlc2.TLC.ide=TLAiVSCode');
     }
     const cfgFilePath = input.configFileName ? input.configFileName : specFiles.cfgFilePath;
+    const profileOptions = buildProfileRunOptions(getModelProfile(specFiles.tlaFilePath, cfgFilePath));
     const procInfo = await runTlc(
         specFiles.tlaFilePath,
         cfgFilePath,
         false,
         extraOps,
-        extraJavaOpts
+        extraJavaOpts.concat(profileOptions.javaOptions),
+        profileOptions.tlcOptions,
+        profileOptions.libraryPaths
     );
     const cancelAfterStart = maybeReturnOnCancel(procInfo);
     if (cancelAfterStart) {
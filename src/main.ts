@@ -3,30 +3,40 @@ import {
     CMD_CHECK_MODEL_RUN, CMD_CHECK_MODEL_STOP, CMD_CHECK_MODEL_DISPLAY, CMD_SHOW_TLC_OUTPUT,
     CMD_CHECK_MODEL_CUSTOM_RUN, checkModel, displayModelChecking, stopModelChecking,
     showTlcOutput, checkModelCustom, CMD_CHECK_MODEL_RUN_AGAIN, runLastCheckAgain,
-    setCoverageProvider
+    setCoverageProvider, CMD_CHECK_MODEL_RUN_DISTRIBUTED, checkModelDistributed,
+    CMD_CHECK_MODEL_STOP_KEEP_CHECKPOINT, stopModelCheckingKeepCheckpoint, getProfileSpecPath
 } from './commands/checkModel';
 import { CMD_RUN_REPL, launchRepl, REPLTerminalProfileProvider } from './commands/runRepl';
 import { TLAPLUS_DEBUG_LAUNCH_CHECKNDEBUG, TLAPLUS_DEBUG_LAUNCH_CUSTOMCHECKNDEBUG, TLAPLUS_DEBUG_LAUNCH_DEBUG,
     TLAPLUS_DEBUG_LAUNCH_SMOKE, TLAPLUS_DEBUG_GOTO_STATE, TLAPLUS_DEBUG_LOAD_TRACE, TLADebugAdapterServerDescriptorFactory,
     TLADebugAdapterTrackerFactory, checkAndDebugSpec, checkAndDebugSpecCustom, attachDebugger, smokeTestSpec, gotoState,
-    debugCounterexample
+    debugCounterexample, registerDebugHistory
 } from './debugger/debugging';
 import { CMD_EVALUATE_SELECTION, evaluateSelection, CMD_EVALUATE_EXPRESSION,
     evaluateExpression } from './commands/evaluateExpression';
 import { parseModule, CMD_PARSE_MODULE } from './commands/parseModule';
 import { visualizeTlcOutput, CMD_VISUALIZE_TLC_OUTPUT } from './commands/visualizeOutput';
+import { exportErrorTrace, CMD_EXPORT_ERROR_TRACE } from './commands/exportTrace';
+import {
+    showStateGraph, showTraceGraph, CMD_SHOW_STATE_GRAPH, CMD_SHOW_TRACE_GRAPH
+} from './commands/traceGraph';
 import { visualizeCoverage, CMD_VISUALIZE_COVERAGE } from './commands/visualizeCoverage';
 import { exportModuleToTex, exportModuleToPdf, CMD_EXPORT_TLA_TO_TEX,
     CMD_EXPORT_TLA_TO_PDF } from './commands/exportModule';
 import { TlaOnTypeFormattingEditProvider } from './formatters/tla';
+import { TlaDocumentFormattingEditProvider } from './formatters/tlaDocument';
 import { CfgOnTypeFormattingEditProvider } from './formatters/cfg';
 import { TlaCodeActionProvider } from './actions';
 import { TlaDocumentSymbolsProvider } from './symbols/tlaSymbols';
+import { TLA_SEMANTIC_TOKENS_LEGEND, TlaSemanticTokensProvider } from './symbols/tlaSemanticTokens';
 import { LANG_TLAPLUS, LANG_TLAPLUS_CFG } from './common';
 import { TlaCompletionItemProvider } from './completions/tlaCompletions';
 import { CfgCompletionItemProvider } from './completions/cfgCompletions';
 import { TlaDeclarationsProvider, TlaDefinitionsProvider } from './declarations/tlaDeclarations';
+import { CfgDefinitionsProvider } from './declarations/cfgDeclarations';
 import { TlaDocumentInfos } from './model/documentInfo';
+import { TlaHoverProvider } from './hover/tlaHover';
+import { TlaReferenceProvider, TlaRenameProvider } from './references/tlaReferences';
 import { syncTlcStatisticsSetting, listenTlcStatConfigurationChanges } from './commands/tlcStatisticsCfg';
 import { TlapsClient } from './tlaps';
 import { CurrentProofStepWebviewViewProvider } from './panels/currentProofStepWebviewViewProvider';
@@ -36,13 +46,25 @@ import { CheckModuleTool, ExploreModuleTool, SmokeModuleTool } from './lm/TLCToo
 import { ParseModuleTool, SymbolProviderTool } from './lm/SANYTool';
 import { MCPServer } from './lm/MCPServer';
 import { TlcCoverageDecorationProvider } from './tlcCoverage';
+import { LiveValidator } from './liveValidation';
+import { CfgValidator } from './cfgValidation';
+import { CfgEditorProvider, CMD_OPEN_CFG_EDITOR, openCfgEditor } from './panels/cfgEditor';
+import { SpecSymbolsLoader } from './symbols/specSymbols';
 import { registerCoverageCommands } from './commands/toggleCoverage';
+import { registerCheckHistory } from './commands/checkHistory';
+import { registerCheckpoints } from './commands/checkpoints';
+import { registerModelProfiles } from './commands/modelProfiles';
+import { CMD_RUN_PARAMETER_SWEEP, runParameterSweep } from './commands/parameterSweep';
+import { CMD_RUN_SIMULATION, runSimulation } from './commands/simulation';
+import { ModelTestController } from './testing/modelTests';
+import { TASK_TYPE_TLAPLUS, TlaTaskProvider } from './tasks';
 import { acquireJarFileSystemProvider } from './JarFileSystemProvider';
 
 const TLAPLUS_FILE_SELECTOR: vscode.DocumentSelector = { scheme: 'file', language: LANG_TLAPLUS };
 const TLAPLUS_CFG_FILE_SELECTOR: vscode.DocumentSelector = { scheme: 'file', language: LANG_TLAPLUS_CFG };
 
 const tlaDocInfos = new TlaDocumentInfos();
+const specSymbols = new SpecSymbolsLoader(getProfileSpecPath);
 
 // Holds all the error messages
 let diagnostic: vscode.DiagnosticCollection;
@@ -71,8 +93,19 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     );
 
     const currentProofStepWebviewViewProvider = new CurrentProofStepWebviewViewProvider(context.extensionUri);
+    const tlaDocumentFormatter = new TlaDocumentFormattingEditProvider();
+    const tlaSemanticTokensProvider = new TlaSemanticTokensProvider();
     diagnostic = vscode.languages.createDiagnosticCollection(LANG_TLAPLUS);
+    const cfgDiagnostic = vscode.languages.createDiagnosticCollection(LANG_TLAPLUS_CFG);
+    const debugHistory = registerDebugHistory(context, diagnostic);
     context.subscriptions.push(
+        new LiveValidator(diagnostic),
+        cfgDiagnostic,
+        new CfgValidator(cfgDiagnostic, specSymbols),
+        CfgEditorProvider.register(context.extensionUri, specSymbols),
+        vscode.commands.registerCommand(
+            CMD_OPEN_CFG_EDITOR,
+            (uri?: vscode.Uri) => openCfgEditor(uri)),
         vscode.workspace.onDidDeleteFiles((event) => {
             event.files.forEach((uri) => {
                 // Clear diagnostics for deleted TLA+ files
@@ -98,6 +131,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
                 diagnostic.delete(document.uri);
             }
         }),
+        vscode.workspace.onDidSaveTextDocument((document) => {
+            // Semantic tokens are only available for saved modules
+            if (document.languageId === LANG_TLAPLUS) {
+                tlaSemanticTokensProvider.refresh();
+            }
+        }),
         vscode.commands.registerCommand(
             CMD_PARSE_MODULE,
             () => parseModule(diagnostic)),
@@ -116,15 +155,36 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
         vscode.commands.registerCommand(
             CMD_CHECK_MODEL_CUSTOM_RUN,
             () => checkModelCustom(diagnostic, context)),
+        vscode.commands.registerCommand(
+            CMD_CHECK_MODEL_RUN_DISTRIBUTED,
+            (uri) => checkModelDistributed(uri, diagnostic, context)),
+        vscode.commands.registerCommand(
+            CMD_RUN_PARAMETER_SWEEP,
+            (uri) => runParameterSweep(uri)),
+        vscode.commands.registerCommand(
+            CMD_RUN_SIMULATION,
+            (uri) => runSimulation(uri, diagnostic, context)),
         vscode.commands.registerCommand(
             CMD_SHOW_TLC_OUTPUT,
             () => showTlcOutput()),
         vscode.commands.registerCommand(
             CMD_CHECK_MODEL_STOP,
             () => stopModelChecking()),
+        vscode.commands.registerCommand(
+            CMD_CHECK_MODEL_STOP_KEEP_CHECKPOINT,
+            () => stopModelCheckingKeepCheckpoint()),
         vscode.commands.registerCommand(
             CMD_CHECK_MODEL_DISPLAY,
             () => displayModelChecking(context)),
+        vscode.commands.registerCommand(
+            CMD_EXPORT_ERROR_TRACE,
+            (errorIndex?: number) => exportErrorTrace(errorIndex)),
+        vscode.commands.registerCommand(
+            CMD_SHOW_TRACE_GRAPH,
+            (errorIndex?: number) => showTraceGraph(context, errorIndex)),
+        vscode.commands.registerCommand(
+            CMD_SHOW_STATE_GRAPH,
+            (uri?: vscode.Uri) => showStateGraph(context, uri)),
         vscode.commands.registerCommand(
             CMD_VISUALIZE_TLC_OUTPUT,
             () => visualizeTlcOutput(context)),
@@ -152,7 +212,7 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             new TLADebugAdapterServerDescriptorFactory()),
         vscode.debug.registerDebugAdapterTrackerFactory(
             LANG_TLAPLUS,
-            new TLADebugAdapterTrackerFactory()),
+            new TLADebugAdapterTrackerFactory(debugHistory)),
         vscode.languages.registerOnTypeFormattingEditProvider(
             TLAPLUS_FILE_SELECTOR,
             new TlaOnTypeFormattingEditProvider(),
@@ -161,16 +221,26 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             TLAPLUS_CFG_FILE_SELECTOR,
             new CfgOnTypeFormattingEditProvider(),
             '\n'),
+        vscode.languages.registerDocumentFormattingEditProvider(
+            TLAPLUS_FILE_SELECTOR,
+            tlaDocumentFormatter),
+        vscode.languages.registerDocumentRangeFormattingEditProvider(
+            TLAPLUS_FILE_SELECTOR,
+            tlaDocumentFormatter),
         vscode.languages.registerDocumentSymbolProvider(
             TLAPLUS_FILE_SELECTOR,
             new TlaDocumentSymbolsProvider(tlaDocInfos),
             { label: 'TLA+' }),
+        vscode.languages.registerDocumentSemanticTokensProvider(
+            TLAPLUS_FILE_SELECTOR,
+            tlaSemanticTokensProvider,
+            TLA_SEMANTIC_TOKENS_LEGEND),
         vscode.languages.registerCompletionItemProvider(
             TLAPLUS_FILE_SELECTOR,
             new TlaCompletionItemProvider(tlaDocInfos)),
         vscode.languages.registerCompletionItemProvider(
             TLAPLUS_CFG_FILE_SELECTOR,
-            new CfgCompletionItemProvider()),
+            new CfgCompletionItemProvider(specSymbols)),
         vscode.languages.registerDeclarationProvider(
             TLAPLUS_FILE_SELECTOR,
             new TlaDeclarationsProvider(tlaDocInfos)
@@ -179,6 +249,22 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
             TLAPLUS_FILE_SELECTOR,
             new TlaDefinitionsProvider(tlaDocInfos)
         ),
+        vscode.languages.registerDefinitionProvider(
+            TLAPLUS_CFG_FILE_SELECTOR,
+            new CfgDefinitionsProvider(specSymbols)
+        ),
+        vscode.languages.registerHoverProvider(
+            TLAPLUS_FILE_SELECTOR,
+            new TlaHoverProvider(tlaDocInfos)
+        ),
+        vscode.languages.registerReferenceProvider(
+            TLAPLUS_FILE_SELECTOR,
+            new TlaReferenceProvider(tlaDocInfos)
+        ),
+        vscode.languages.registerRenameProvider(
+            TLAPLUS_FILE_SELECTOR,
+            new TlaRenameProvider(tlaDocInfos)
+        ),
         vscode.commands.registerCommand(
             TLAPLUS_DEBUG_LAUNCH_CHECKNDEBUG,
             (uri) => checkAndDebugSpec(uri, diagnostic, context)
@@ -272,6 +358,12 @@ export async function activate(context: vscode.ExtensionContext): Promise<void>
     // Register coverage commands
     registerCoverageCommands(context, coverageProvider);
 
+    registerCheckHistory(context, diagnostic);
+    registerCheckpoints(context, diagnostic);
+    registerModelProfiles(context);
+    context.subscriptions.push(new ModelTestController(context, diagnostic));
+    context.subscriptions.push(vscode.tasks.registerTaskProvider(TASK_TYPE_TLAPLUS, new TlaTaskProvider(diagnostic)));
+
     const mcpPort = vscode.workspace.getConfiguration().get<number>('tlaplus.mcp.port');
     if (typeof mcpPort === 'number' && (mcpPort >= 1024 && mcpPort <= 65535 || mcpPort === 0)) {
         const tlaMcpServer = new MCPServer(mcpPort);
@@ -0,0 +1,85 @@
+import { CoverageItem, SubexpressionCoverageItem } from './check';
+
+export enum CoverageSortOrder {
+    Source = 'source',
+    MostCovered = 'mostCovered',
+    LeastCovered = 'leastCovered'
+}
+
+/**
+ * Coverage of the actions of a module.
+ */
+export interface ModuleCoverage {
+    module: string;
+    actions: CoverageItem[];
+    neverEnabled: number;
+}
+
+/**
+ * An action is never enabled when it didn't produce a single state, which usually means a bug in the spec
+ * or in the model.
+ */
+export function isNeverEnabled(item: CoverageItem): boolean {
+    return item.total === 0;
+}
+
+export function describeActionCoverage(item: CoverageItem): string {
+    if (isNeverEnabled(item)) {
+        return 'Never enabled';
+    }
+    return `${item.distinct.toLocaleString()} distinct of ${item.total.toLocaleString()} states`;
+}
+
+/**
+ * Groups action coverage by module, modules are sorted by name.
+ */
+export function groupCoverageByModule(items: CoverageItem[], order: CoverageSortOrder): ModuleCoverage[] {
+    const modules = new Map<string, CoverageItem[]>();
+    for (const item of items) {
+        const actions = modules.get(item.module) ?? [];
+        actions.push(item);
+        modules.set(item.module, actions);
+    }
+    return Array.from(modules.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([module, actions]) => ({
+            module,
+            actions: sortActionCoverage(actions, order),
+            neverEnabled: actions.filter(isNeverEnabled).length
+        }));
+}
+
+export function sortActionCoverage(items: CoverageItem[], order: CoverageSortOrder): CoverageItem[] {
+    return items.slice().sort((a, b) => {
+        switch (order) {
+            case CoverageSortOrder.Source:
+                return compareRanges(a, b);
+            case CoverageSortOrder.MostCovered:
+                return b.total - a.total || b.distinct - a.distinct || compareRanges(a, b);
+            case CoverageSortOrder.LeastCovered:
+                return a.total - b.total || a.distinct - b.distinct || compareRanges(a, b);
+        }
+    });
+}
+
+export function sortSubexpressionCoverage(
+    items: SubexpressionCoverageItem[],
+    order: CoverageSortOrder
+): SubexpressionCoverageItem[] {
+    return items.slice().sort((a, b) => {
+        switch (order) {
+            case CoverageSortOrder.Source:
+                return compareRanges(a, b);
+            case CoverageSortOrder.MostCovered:
+                return b.count - a.count || compareRanges(a, b);
+            case CoverageSortOrder.LeastCovered:
+                return a.count - b.count || compareRanges(a, b);
+        }
+    });
+}
+
+function compareRanges(a: CoverageItem | SubexpressionCoverageItem, b: CoverageItem | SubexpressionCoverageItem) {
+    return (a.filePath ?? '').localeCompare(b.filePath ?? '')
+        || a.range.start.line - b.range.start.line
+        || a.range.start.character - b.range.start.character;
+}
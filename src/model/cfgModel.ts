@@ -0,0 +1,224 @@
+import * as vscode from 'vscode';
+import { CfgConstant, CfgSection, parseCfgConstants, parseCfgSections } from '../parsers/cfg';
+
+/**
+ * How a constant is given a value:
+ * - value: a TLA+ expression, N = 3
+ * - modelValue: a model value named after the constant, Nil = Nil
+ * - modelValues: a set of model values, Procs = {p1, p2}
+ * - replacement: an operator of the spec, Op <- MyOp
+ */
+export type CfgConstantKind = 'value' | 'modelValue' | 'modelValues' | 'replacement';
+
+export interface CfgConstantValue {
+    name: string;
+    kind: CfgConstantKind;
+    value: string;      // Expression, comma-separated model values or operator name, depending on the kind
+}
+
+/**
+ * The parts of a model config file that can be edited in the model config editor.
+ * Empty strings and lists stand for missing sections.
+ */
+export interface CfgModel {
+    specification: string;
+    init: string;
+    next: string;
+    constants: CfgConstantValue[];
+    invariants: string[];
+    properties: string[];
+    symmetry: string;
+    view: string;
+    alias: string;
+    checkDeadlock: boolean | undefined;
+}
+
+/**
+ * Spec symbols the model config editor offers, grouped by where they can go.
+ */
+export interface CfgSpecInfo {
+    moduleName: string;
+    constants: string[];
+    definitions: CfgSpecDefinition[];
+}
+
+export interface CfgSpecDefinition {
+    name: string;
+    level: number | undefined;
+}
+
+type CfgModelField = keyof CfgModel;
+
+const MODEL_KEYWORDS: { [field in CfgModelField]: string[] } = {
+    specification: ['SPECIFICATION'],
+    init: ['INIT'],
+    next: ['NEXT'],
+    constants: ['CONSTANT', 'CONSTANTS'],
+    invariants: ['INVARIANT', 'INVARIANTS'],
+    properties: ['PROPERTY', 'PROPERTIES'],
+    symmetry: ['SYMMETRY'],
+    view: ['VIEW'],
+    alias: ['ALIAS'],
+    checkDeadlock: ['CHECK_DEADLOCK']
+};
+
+const INDENT = '    ';
+
+/**
+ * Reads the editable parts of a model config file. Other sections, like CONSTRAINT, are left for the text editor.
+ */
+export function parseCfgModel(text: string): CfgModel {
+    const sections = parseCfgSections(text);
+    const names = (field: CfgModelField) => sections
+        .filter((s) => MODEL_KEYWORDS[field].includes(s.keyword))
+        .flatMap((s) => s.names.map((n) => n.name));
+    const deadlock = names('checkDeadlock')[0];
+    return {
+        specification: names('specification')[0] ?? '',
+        init: names('init')[0] ?? '',
+        next: names('next')[0] ?? '',
+        constants: sections
+            .filter((s) => MODEL_KEYWORDS.constants.includes(s.keyword))
+            .flatMap((s) => parseCfgConstants(s))
+            .map(toConstantValue),
+        invariants: names('invariants'),
+        properties: names('properties'),
+        symmetry: names('symmetry')[0] ?? '',
+        view: names('view')[0] ?? '',
+        alias: names('alias')[0] ?? '',
+        checkDeadlock: deadlock === undefined ? undefined : deadlock === 'TRUE'
+    };
+}
+
+function toConstantValue(constant: CfgConstant): CfgConstantValue {
+    const name = constant.name.name;
+    if (constant.operator === '<-') {
+        return { name, kind: 'replacement', value: constant.valueText };
+    }
+    if (constant.valueText === name) {
+        return { name, kind: 'modelValue', value: '' };
+    }
+    const setMatch = /^\{(.*)\}$/s.exec(constant.valueText);
+    const elements = setMatch ? setMatch[1].split(',').map((e) => e.trim()) : [];
+    if (elements.length > 0 && elements.every(isModelValue)) {
+        return { name, kind: 'modelValues', value: elements.join(', ') };
+    }
+    return { name, kind: 'value', value: constant.valueText };
+}
+
+function isModelValue(text: string): boolean {
+    return /^[A-Za-z0-9_]*[A-Za-z][A-Za-z0-9_]*$/.test(text) && text !== 'TRUE' && text !== 'FALSE';
+}
+
+/**
+ * Returns the text of a model config file with the given model. Only the sections whose values changed are
+ * rewritten, everything else, including comments and sections the model doesn't cover, is kept as is.
+ */
+export function updateCfgText(text: string, model: CfgModel): string {
+    const oldModel = parseCfgModel(text);
+    const sections = parseCfgSections(text);
+    const lineStarts = findLineStarts(text);
+    const offsetAt = (pos: vscode.Position) => lineStarts[pos.line] + pos.character;
+    const edits: { start: number, end: number, text: string }[] = [];
+    const appended: string[] = [];
+
+    (Object.keys(MODEL_KEYWORDS) as CfgModelField[]).forEach((field) => {
+        if (JSON.stringify(oldModel[field]) === JSON.stringify(model[field])) {
+            return;
+        }
+        const newText = renderField(field, model);
+        const fieldSections = sections.filter((s) => MODEL_KEYWORDS[field].includes(s.keyword));
+        if (fieldSections.length === 0) {
+            if (newText) {
+                appended.push(newText);
+            }
+            return;
+        }
+        fieldSections.forEach((section, idx) => {
+            const start = offsetAt(section.range.start);
+            const end = offsetAt(section.bodyRange.start) + sectionLength(section);
+            if (idx === 0 && newText) {
+                edits.push({ start, end, text: newText });
+            } else {
+                edits.push({ start, end: skipEmptyLine(text, start, end), text: '' });
+            }
+        });
+    });
+
+    let result = text;
+    edits.sort((a, b) => b.start - a.start).forEach((edit) => {
+        result = result.substring(0, edit.start) + edit.text + result.substring(edit.end);
+    });
+    if (appended.length > 0) {
+        const separator = result.trim() === '' ? '' : (result.endsWith('\n') ? '\n' : '\n\n');
+        result = (result.trim() === '' ? '' : result) + separator + appended.join('\n\n') + '\n';
+    }
+    return result;
+}
+
+/**
+ * Length of the section body without trailing whitespace and comments, which are kept in place.
+ */
+function sectionLength(section: CfgSection): number {
+    return section.body.trimEnd().length;
+}
+
+/**
+ * Extends the removed text to the line break, if nothing else is left on the line.
+ */
+function skipEmptyLine(text: string, start: number, end: number): number {
+    if (start > 0 && text[start - 1] !== '\n') {
+        return end;
+    }
+    const match = /^[ \t]*(\r?\n|$)/.exec(text.substring(end));
+    return match ? end + match[0].length : end;
+}
+
+function findLineStarts(text: string): number[] {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+    return lineStarts;
+}
+
+function renderField(field: CfgModelField, model: CfgModel): string {
+    const keywords = MODEL_KEYWORDS[field];
+    switch (field) {
+        case 'constants':
+            return model.constants.length === 0
+                ? ''
+                : [keywords[1], ...model.constants.map((c) => INDENT + renderConstant(c))].join('\n');
+        case 'invariants':
+        case 'properties':
+            return renderList(keywords, model[field]);
+        case 'checkDeadlock':
+            return model.checkDeadlock === undefined ? '' : `${keywords[0]} ${model.checkDeadlock ? 'TRUE' : 'FALSE'}`;
+        default:
+            return model[field] ? `${keywords[0]} ${model[field]}` : '';
+    }
+}
+
+function renderList(keywords: string[], names: string[]): string {
+    if (names.length <= 1) {
+        return names.length === 0 ? '' : `${keywords[0]} ${names[0]}`;
+    }
+    return [keywords[1], ...names.map((name) => INDENT + name)].join('\n');
+}
+
+function renderConstant(constant: CfgConstantValue): string {
+    switch (constant.kind) {
+        case 'modelValue':
+            return `${constant.name} = ${constant.name}`;
+        case 'modelValues': {
+            const values = constant.value.split(',').map((v) => v.trim()).filter((v) => v !== '');
+            return `${constant.name} = {${values.join(', ')}}`;
+        }
+        case 'replacement':
+            return `${constant.name} <- ${constant.value}`;
+        default:
+            return `${constant.name} = ${constant.value}`;
+    }
+}
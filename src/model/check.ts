@@ -46,6 +46,7 @@ STATE_NAMES.set(CheckState.Error, 'Errors');
 STATE_NAMES.set(CheckState.Stopped, 'Stopped');
 
 const VALUE_FORMAT_LENGTH_THRESHOLD = 30;
+const VIOLATED_PROPERTY_REGEX = /\b(?:Invariant|[Pp]roperty)\s+(\S+?)\s+(?:of [^ ]+ )?is violated/;
 
 /**
  * Statistics on initial state generation.
@@ -60,6 +61,18 @@ export class InitialStateStatItem {
     ) {}
 }
 
+/**
+ * Statistics on random simulation.
+ */
+export class SimulationStatItem {
+    constructor(
+        readonly statesChecked: number,
+        readonly traces: number,
+        readonly meanTraceLength: number,
+        readonly traceLengthSd: number
+    ) {}
+}
+
 /**
  * Statistics on coverage.
  */
@@ -70,7 +83,73 @@ export class CoverageItem {
         readonly filePath: string | undefined,
         readonly range: Range,
         readonly total: number,
-        readonly distinct: number
+        readonly distinct: number,
+        readonly subexpressions: SubexpressionCoverageItem[] = []
+    ) {}
+}
+
+/**
+ * Statistics on how many times subexpressions of an invariant or property were evaluated.
+ */
+export class PropertyCoverageItem {
+    constructor(
+        readonly module: string,
+        readonly name: string,
+        readonly filePath: string | undefined,
+        readonly range: Range,
+        readonly subexpressions: SubexpressionCoverageItem[] = []
+    ) {}
+}
+
+/**
+ * Statistics on how many times a subexpression of an action or a property was evaluated.
+ */
+export class SubexpressionCoverageItem {
+    constructor(
+        readonly module: string,
+        readonly filePath: string | undefined,
+        readonly range: Range,
+        readonly count: number,
+        readonly cost: number | undefined,
+        readonly children: SubexpressionCoverageItem[] = []
+    ) {}
+}
+
+export enum WorkerState {
+    Connected = 'C',
+    Disconnected = 'D',
+    Lost = 'L'
+}
+
+const WORKER_STATE_NAMES = new Map<WorkerState, string>();
+WORKER_STATE_NAMES.set(WorkerState.Connected, 'Connected');
+WORKER_STATE_NAMES.set(WorkerState.Disconnected, 'Disconnected');
+WORKER_STATE_NAMES.set(WorkerState.Lost, 'Connection lost');
+
+/**
+ * A worker of a distributed TLC run, as reported by the master.
+ */
+export class DistributedWorker {
+    readonly stateName: string;
+
+    constructor(
+        readonly address: string,
+        readonly state: WorkerState,
+        readonly statesSent: number | undefined,
+        readonly statesReceived: number | undefined,
+        readonly cacheRatio: string | undefined
+    ) {
+        this.stateName = WORKER_STATE_NAMES.get(state) ?? state;
+    }
+}
+
+/**
+ * The last checkpoint TLC completed, the run can be resumed from it.
+ */
+export class CheckpointInfo {
+    constructor(
+        readonly metaDir: string,           // as printed by TLC, relative to the spec directory
+        readonly dateTimeStr: string
     ) {}
 }
 
@@ -459,6 +538,19 @@ export class ErrorInfo {
     ) {}
 }
 
+/**
+ * Returns the name of the invariant or property, violation of which is reported by the error.
+ */
+export function getViolatedProperty(error: ErrorInfo): string | undefined {
+    for (const line of error.lines) {
+        const matches = VIOLATED_PROPERTY_REGEX.exec(line.toString());
+        if (matches) {
+            return matches[1].replace(/\.$/, '');
+        }
+    }
+    return undefined;
+}
+
 export enum ModelCheckResultSource {
     Process,    // The result comes from an ongoing TLC process
     OutFile     // The result comes from a .out file
@@ -513,6 +605,10 @@ export class ModelCheckResult {
         readonly collisionProbability: string | undefined,
         readonly outputLines: OutputLine[],
         readonly traceFilePath: string | undefined,
+        readonly workers: DistributedWorker[] = [],
+        readonly checkpoint: CheckpointInfo | undefined = undefined,
+        readonly simulationStat: SimulationStatItem[] = [],
+        readonly propertyCoverageStat: PropertyCoverageItem[] = []
     ) {
         this.stateName = getStateName(this.state);
         this.startDateTimeStr = dateTimeToStr(startDateTime);
@@ -554,7 +650,7 @@ export class ModelCheckResult {
     }
 }
 
-function getStateName(state: CheckState): string {
+export function getStateName(state: CheckState): string {
     const name = STATE_NAMES.get(state);
     if (typeof name !== 'undefined') {
         return name;
@@ -0,0 +1,190 @@
+import { ErrorInfo, MessageLine, ModelCheckResult } from './check';
+
+/**
+ * A number as reported by each of the compared runs, if reported at all.
+ */
+export interface ValueDelta {
+    name: string;
+    before: number | undefined;
+    after: number | undefined;
+}
+
+/**
+ * Coverage of a single action in both compared runs.
+ */
+export interface CoverageDelta {
+    module: string;
+    action: string;
+    total: ValueDelta;
+    distinct: ValueDelta;
+}
+
+export enum CounterexampleChange {
+    None = 'none',                  // Neither run produced a counterexample
+    Unchanged = 'unchanged',
+    Changed = 'changed',
+    Appeared = 'appeared',
+    Disappeared = 'disappeared'
+}
+
+/**
+ * Differences between two model checking runs.
+ */
+export interface CheckComparison {
+    stateSpace: ValueDelta[];
+    coverage: CoverageDelta[];
+    removedMessages: string[];      // Warnings and errors reported by the first run only
+    addedMessages: string[];        // Warnings and errors reported by the second run only
+    counterexample: CounterexampleChange;
+}
+
+/**
+ * Compares the results of two model checking runs, the earlier one going first.
+ */
+export function compareCheckResults(before: ModelCheckResult, after: ModelCheckResult): CheckComparison {
+    const beforeMessages = collectMessages(before);
+    const afterMessages = collectMessages(after);
+    return {
+        stateSpace: compareStateSpace(before, after),
+        coverage: compareCoverage(before, after),
+        removedMessages: beforeMessages.filter((m) => !afterMessages.includes(m)),
+        addedMessages: afterMessages.filter((m) => !beforeMessages.includes(m)),
+        counterexample: compareCounterexamples(before, after)
+    };
+}
+
+/**
+ * Formats the comparison as a Markdown document.
+ */
+export function formatComparison(comparison: CheckComparison, beforeTitle: string, afterTitle: string): string {
+    const lines = [
+        '# Model checking comparison',
+        '',
+        `- Before: ${beforeTitle}`,
+        `- After: ${afterTitle}`,
+        '',
+        '## State space',
+        '',
+        '| | Before | After | Change |',
+        '|---|---:|---:|---:|'
+    ];
+    comparison.stateSpace.forEach((d) => lines.push(`| ${d.name} | ${formatDeltaCells(d)} |`));
+    lines.push('', '## Coverage', '');
+    if (comparison.coverage.length === 0) {
+        lines.push('No coverage was reported.');
+    } else {
+        lines.push(
+            '| Action | Distinct before | Distinct after | Change | Total before | Total after | Change |',
+            '|---|---:|---:|---:|---:|---:|---:|'
+        );
+        comparison.coverage.forEach((c) => lines.push(
+            `| ${c.module}!${c.action} | ${formatDeltaCells(c.distinct)} | ${formatDeltaCells(c.total)} |`));
+    }
+    lines.push('', '## Warnings and errors', '');
+    if (comparison.removedMessages.length === 0 && comparison.addedMessages.length === 0) {
+        lines.push('No changes.');
+    }
+    comparison.removedMessages.forEach((m) => lines.push(`- Gone: ${formatMessage(m)}`));
+    comparison.addedMessages.forEach((m) => lines.push(`- New: ${formatMessage(m)}`));
+    lines.push('', '## Counterexample', '', describeCounterexampleChange(comparison.counterexample), '');
+    return lines.join('\n');
+}
+
+function compareStateSpace(before: ModelCheckResult, after: ModelCheckResult): ValueDelta[] {
+    const beforeStat = before.initialStatesStat[before.initialStatesStat.length - 1];
+    const afterStat = after.initialStatesStat[after.initialStatesStat.length - 1];
+    return [
+        { name: 'States found', before: beforeStat?.total, after: afterStat?.total },
+        { name: 'Distinct states', before: beforeStat?.distinct, after: afterStat?.distinct },
+        { name: 'Diameter', before: beforeStat?.diameter, after: afterStat?.diameter }
+    ];
+}
+
+function compareCoverage(before: ModelCheckResult, after: ModelCheckResult): CoverageDelta[] {
+    const deltas = new Map<string, CoverageDelta>();
+    const getDelta = (module: string, action: string) => {
+        const key = `${module}!${action}`;
+        let delta = deltas.get(key);
+        if (!delta) {
+            delta = {
+                module,
+                action,
+                total: { name: 'Total', before: undefined, after: undefined },
+                distinct: { name: 'Distinct', before: undefined, after: undefined }
+            };
+            deltas.set(key, delta);
+        }
+        return delta;
+    };
+    // The same action may be reported several times, e.g. for different disjuncts
+    before.coverageStat.forEach((item) => {
+        const delta = getDelta(item.module, item.action);
+        delta.total.before = (delta.total.before ?? 0) + item.total;
+        delta.distinct.before = (delta.distinct.before ?? 0) + item.distinct;
+    });
+    after.coverageStat.forEach((item) => {
+        const delta = getDelta(item.module, item.action);
+        delta.total.after = (delta.total.after ?? 0) + item.total;
+        delta.distinct.after = (delta.distinct.after ?? 0) + item.distinct;
+    });
+    return Array.from(deltas.values());
+}
+
+function collectMessages(checkResult: ModelCheckResult): string[] {
+    const messages = checkResult.warnings.map((w) => 'Warning: ' + formatLines(w.lines));
+    checkResult.errors.forEach((e) => messages.push('Error: ' + formatLines(e.lines)));
+    return messages;
+}
+
+function formatLines(lines: MessageLine[]): string {
+    return lines.map((l) => l.toString()).join('\n');
+}
+
+function compareCounterexamples(before: ModelCheckResult, after: ModelCheckResult): CounterexampleChange {
+    const beforeTrace = formatTraces(before.errors);
+    const afterTrace = formatTraces(after.errors);
+    if (beforeTrace === afterTrace) {
+        return beforeTrace ? CounterexampleChange.Unchanged : CounterexampleChange.None;
+    }
+    if (!beforeTrace) {
+        return CounterexampleChange.Appeared;
+    }
+    return afterTrace ? CounterexampleChange.Changed : CounterexampleChange.Disappeared;
+}
+
+function formatTraces(errors: ErrorInfo[]): string {
+    return errors
+        .filter((e) => e.errorTrace.length > 0)
+        .map((e) => e.errorTrace.map((item) => `${item.action}\n${item.variables.format('')}`).join('\n'))
+        .join('\n---\n');
+}
+
+function formatDeltaCells(delta: ValueDelta): string {
+    const change = delta.before !== undefined && delta.after !== undefined
+        ? formatChange(delta.after - delta.before)
+        : '';
+    return `${delta.before ?? '-'} | ${delta.after ?? '-'} | ${change}`;
+}
+
+function formatChange(change: number): string {
+    return change > 0 ? `+${change}` : `${change}`;
+}
+
+function formatMessage(message: string): string {
+    return message.replace(/\n/g, ' ');
+}
+
+function describeCounterexampleChange(change: CounterexampleChange): string {
+    switch (change) {
+        case CounterexampleChange.None:
+            return 'Neither run produced a counterexample.';
+        case CounterexampleChange.Unchanged:
+            return 'The counterexample is the same.';
+        case CounterexampleChange.Changed:
+            return 'The counterexample has changed.';
+        case CounterexampleChange.Appeared:
+            return 'Only the second run produced a counterexample.';
+        case CounterexampleChange.Disappeared:
+            return 'Only the first run produced a counterexample.';
+    }
+}
@@ -0,0 +1,134 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CheckState, getViolatedProperty, ModelCheckResult, SpecFiles } from './check';
+
+const INDEX_FILE_NAME = 'history.json';
+const MAX_ENTRIES = 100;
+
+/**
+ * A single past model checking run.
+ */
+export interface CheckHistoryEntry {
+    id: string;
+    tlaFilePath: string;
+    cfgFilePath: string;
+    modelName: string;
+    outputDir: string;
+    options: string[];                  // TLC options the run was started with
+    startTime: number;                  // msec since epoch
+    duration: number | undefined;       // msec
+    state: CheckState;
+    distinctStates: number | undefined;
+    violatedProperty: string | undefined;
+}
+
+/**
+ * A model checking run that is in progress and not in the history yet.
+ */
+export class CheckHistoryRun {
+    constructor(
+        readonly id: string,
+        readonly specFiles: SpecFiles,
+        readonly options: string[],
+        readonly startTime: number,
+        readonly outFilePath: string
+    ) {}
+}
+
+/**
+ * Keeps past model checking runs on disk, along with the TLC output of each run,
+ * so that the results can be shown again after the window is reloaded.
+ */
+export class CheckHistory {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+    private entries: CheckHistoryEntry[] = [];
+
+    constructor(private readonly storageDir: string) {}
+
+    async load(): Promise<void> {
+        await fs.mkdir(this.storageDir, { recursive: true });
+        try {
+            const text = await fs.readFile(path.join(this.storageDir, INDEX_FILE_NAME), 'utf8');
+            const entries = JSON.parse(text);
+            this.entries = Array.isArray(entries) ? entries : [];
+        } catch (err) {
+            // No runs were recorded yet
+            this.entries = [];
+        }
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Returns all recorded runs, the most recent first.
+     */
+    getEntries(): ReadonlyArray<CheckHistoryEntry> {
+        return this.entries;
+    }
+
+    getOutFilePath(entry: CheckHistoryEntry): string {
+        return path.join(this.storageDir, `${entry.id}.out`);
+    }
+
+    startRun(specFiles: SpecFiles, options: string[]): CheckHistoryRun {
+        const startTime = Date.now();
+        const id = startTime.toString();
+        return new CheckHistoryRun(id, specFiles, options, startTime, path.join(this.storageDir, `${id}.out`));
+    }
+
+    async finishRun(run: CheckHistoryRun, checkResult: ModelCheckResult | undefined): Promise<void> {
+        this.entries.unshift(createHistoryEntry(run, checkResult, Date.now()));
+        const removed = this.entries.splice(MAX_ENTRIES);
+        await this.save(removed);
+    }
+
+    async delete(entry: CheckHistoryEntry): Promise<void> {
+        this.entries = this.entries.filter((e) => e.id !== entry.id);
+        await this.save([entry]);
+    }
+
+    async clear(): Promise<void> {
+        const removed = this.entries;
+        this.entries = [];
+        await this.save(removed);
+    }
+
+    private async save(removed: CheckHistoryEntry[]): Promise<void> {
+        this.changeEmitter.fire();
+        await fs.mkdir(this.storageDir, { recursive: true });
+        await fs.writeFile(path.join(this.storageDir, INDEX_FILE_NAME), JSON.stringify(this.entries, null, 2));
+        for (const entry of removed) {
+            await fs.rm(this.getOutFilePath(entry), { force: true });
+        }
+    }
+}
+
+/**
+ * Creates a history entry from the final result of a model checking run.
+ */
+export function createHistoryEntry(
+    run: CheckHistoryRun,
+    checkResult: ModelCheckResult | undefined,
+    endTime: number
+): CheckHistoryEntry {
+    const lastStat = checkResult?.initialStatesStat[checkResult.initialStatesStat.length - 1];
+    const state = !checkResult || checkResult.state === CheckState.Running ? CheckState.Stopped : checkResult.state;
+    return {
+        id: run.id,
+        tlaFilePath: run.specFiles.tlaFilePath,
+        cfgFilePath: run.specFiles.cfgFilePath,
+        modelName: run.specFiles.modelName,
+        outputDir: run.specFiles.outputDir,
+        options: run.options,
+        startTime: run.startTime,
+        duration: checkResult?.duration ?? endTime - run.startTime,
+        state,
+        distinctStates: lastStat?.distinct,
+        violatedProperty: checkResult?.errors.map(getViolatedProperty).find((p) => p !== undefined)
+    };
+}
+
+export function historyEntrySpecFiles(entry: CheckHistoryEntry): SpecFiles {
+    return new SpecFiles(entry.tlaFilePath, entry.cfgFilePath, entry.modelName, entry.outputDir);
+}
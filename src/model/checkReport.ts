@@ -0,0 +1,213 @@
+import { Range } from 'vscode';
+import {
+    CheckState, ErrorInfo, ErrorTraceItem, getViolatedProperty, MessageLine, ModelCheckResult, SpecFiles
+} from './check';
+
+export type CheckReportStatus = 'passed' | 'failed' | 'incomplete';
+
+/**
+ * Position in a source file. Lines and columns are 1-based, as most CI tools expect.
+ */
+export interface ReportLocation {
+    file: string;
+    line: number;
+    column: number;
+}
+
+export interface ReportTraceState {
+    num: number;
+    title: string;
+    module: string;
+    action: string;
+    location: ReportLocation | undefined;
+    variables: Record<string, string>;
+}
+
+export interface ReportError {
+    message: string;
+    violatedProperty: string | undefined;
+    location: ReportLocation | undefined;
+    trace: ReportTraceState[];
+}
+
+export interface ReportCoverage {
+    module: string;
+    action: string;
+    location: ReportLocation | undefined;
+    total: number;
+    distinct: number;
+}
+
+/**
+ * Model checking result in a form that doesn't depend on the extension and can be serialized as is.
+ */
+export interface CheckReport {
+    status: CheckReportStatus;
+    spec: string | undefined;
+    config: string | undefined;
+    processInfo: string | undefined;
+    startTime: string | undefined;
+    endTime: string | undefined;
+    duration: number | undefined;   // Milliseconds
+    workers: number;
+    collisionProbability: string | undefined;
+    statistics: {
+        states: number;
+        distinctStates: number;
+        queueSize: number;
+        diameter: number;
+    } | undefined;
+    coverage: ReportCoverage[];
+    warnings: string[];
+    errors: ReportError[];
+    output: string[];               // Lines printed by the spec
+}
+
+export function buildCheckReport(checkResult: ModelCheckResult): CheckReport {
+    const specFiles = checkResult.specFiles instanceof SpecFiles ? checkResult.specFiles : undefined;
+    const stat = checkResult.initialStatesStat[checkResult.initialStatesStat.length - 1];
+    return {
+        status: getReportStatus(checkResult.state),
+        spec: specFiles?.tlaFilePath,
+        config: specFiles?.cfgFilePath,
+        processInfo: checkResult.processInfo,
+        startTime: checkResult.startDateTime?.toISOString(),
+        endTime: checkResult.endDateTime?.toISOString(),
+        duration: checkResult.duration,
+        workers: checkResult.workersCount,
+        collisionProbability: checkResult.collisionProbability,
+        statistics: stat
+            ? { states: stat.total, distinctStates: stat.distinct, queueSize: stat.queueSize, diameter: stat.diameter }
+            : undefined,
+        coverage: checkResult.coverageStat.map((item) => ({
+            module: item.module,
+            action: item.action,
+            location: toLocation(item.filePath, item.range),
+            total: item.total,
+            distinct: item.distinct
+        })),
+        warnings: checkResult.warnings.map((w) => formatLines(w.lines)),
+        errors: checkResult.errors.map(buildReportError),
+        output: checkResult.outputLines.flatMap((l) => Array(l.count).fill(l.text))
+    };
+}
+
+export function formatJsonReport(checkResult: ModelCheckResult): string {
+    return JSON.stringify(buildCheckReport(checkResult), null, 2) + '\n';
+}
+
+/**
+ * Formats the result as a JUnit XML report with a single test case for the model.
+ */
+export function formatJUnitReport(checkResult: ModelCheckResult, suiteName: string): string {
+    const report = buildCheckReport(checkResult);
+    const time = ((report.duration ?? 0) / 1000).toFixed(3);
+    const failures = report.status === 'failed' ? 1 : 0;
+    const errors = report.status === 'incomplete' ? 1 : 0;
+    const properties = report.statistics
+        ? Object.entries(report.statistics).map(([name, value]) => ({ name, value: String(value) }))
+        : [];
+    if (report.collisionProbability) {
+        properties.push({ name: 'collisionProbability', value: report.collisionProbability });
+    }
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="TLC" tests="1" failures="${failures}" errors="${errors}" time="${time}">`,
+        `  <testsuite name="${escapeXml(suiteName)}" tests="1" failures="${failures}" errors="${errors}"`
+            + ` skipped="0" time="${time}"${report.startTime ? ` timestamp="${report.startTime}"` : ''}>`
+    ];
+    if (properties.length > 0) {
+        lines.push('    <properties>');
+        properties.forEach((p) => lines.push(
+            `      <property name="${escapeXml(p.name)}" value="${escapeXml(p.value)}"/>`));
+        lines.push('    </properties>');
+    }
+    const testCase = `    <testcase name="${escapeXml(suiteName)}" classname="${escapeXml(report.spec ?? suiteName)}"`
+        + ` time="${time}"`;
+    if (report.status === 'passed') {
+        lines.push(testCase + '/>');
+    } else {
+        lines.push(testCase + '>');
+        if (report.status === 'failed') {
+            const message = report.errors[0]?.message.split('\n')[0] ?? 'Model checking failed';
+            lines.push(`      <failure message="${escapeXml(message)}" type="TLCError">`
+                + escapeXml(report.errors.map(formatReportError).join('\n\n')) + '</failure>');
+        } else {
+            lines.push('      <error message="Model checking did not finish" type="TLCIncomplete"/>');
+        }
+        lines.push('    </testcase>');
+    }
+    if (report.warnings.length > 0 || report.output.length > 0) {
+        const out = report.warnings.map((w) => 'Warning: ' + w).concat(report.output).join('\n');
+        lines.push(`    <system-out>${escapeXml(out)}</system-out>`);
+    }
+    lines.push('  </testsuite>', '</testsuites>', '');
+    return lines.join('\n');
+}
+
+function getReportStatus(state: CheckState): CheckReportStatus {
+    switch (state) {
+        case CheckState.Success:
+            return 'passed';
+        case CheckState.Error:
+            return 'failed';
+        default:
+            return 'incomplete';
+    }
+}
+
+function buildReportError(error: ErrorInfo): ReportError {
+    const sourceLink = error.lines
+        .flatMap((l) => l.spans)
+        .find((s) => s.filePath !== undefined && s.location !== undefined);
+    return {
+        message: formatLines(error.lines),
+        violatedProperty: getViolatedProperty(error),
+        location: sourceLink?.filePath && sourceLink.location
+            ? toLocation(sourceLink.filePath, new Range(sourceLink.location, sourceLink.location))
+            : undefined,
+        trace: error.errorTrace.map(buildTraceState)
+    };
+}
+
+function buildTraceState(item: ErrorTraceItem): ReportTraceState {
+    const variables: Record<string, string> = {};
+    item.variables.items.forEach((v) => {
+        variables[String(v.key)] = v.str;
+    });
+    return {
+        num: item.num,
+        title: item.title,
+        module: item.module,
+        action: item.action,
+        location: toLocation(item.filePath, item.range),
+        variables
+    };
+}
+
+function formatReportError(error: ReportError): string {
+    const lines = [error.message];
+    error.trace.forEach((state) => {
+        lines.push('', `State ${state.num}: <${state.title}>`);
+        Object.entries(state.variables).forEach(([name, value]) => lines.push(`/\\ ${name} = ${value}`));
+    });
+    return lines.join('\n');
+}
+
+function toLocation(filePath: string | undefined, range: Range): ReportLocation | undefined {
+    return filePath
+        ? { file: filePath, line: range.start.line + 1, column: range.start.character + 1 }
+        : undefined;
+}
+
+function formatLines(lines: MessageLine[]): string {
+    return lines.map((l) => l.toString()).join('\n');
+}
+
+function escapeXml(str: string): string {
+    return str
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,202 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { CheckStatus, InitialStateStatItem, ModelCheckResult, SpecFiles } from './check';
+
+const INDEX_FILE_NAME = 'checkpoints.json';
+
+/**
+ * A checkpoint TLC wrote during a model checking run that didn't finish, the run can be resumed from it.
+ */
+export interface CheckpointEntry {
+    tlaFilePath: string;
+    cfgFilePath: string;
+    modelName: string;
+    outputDir: string;
+    metaDir: string;                        // absolute path of the directory TLC keeps the checkpoint in
+    options: string[];                      // TLC options the run was started with
+    fingerprintIndex: number | undefined;   // index of the fingerprint function, must stay the same on resume
+    checkpointTime: string;                 // as printed by TLC
+    distinctStates: number | undefined;
+    statesStat: InitialStateStatItem[];     // statistics up to the checkpoint
+}
+
+/**
+ * A model checking run that may write checkpoints.
+ */
+export class CheckpointRun {
+    checkpoint: CheckpointEntry | undefined;
+    discardCheckpoint = false;      // set when the run is stopped without keeping its checkpoint
+
+    constructor(
+        readonly specFiles: SpecFiles,
+        readonly options: string[],
+        readonly resumedFrom: CheckpointEntry | undefined
+    ) {
+        this.checkpoint = resumedFrom;
+    }
+}
+
+/**
+ * Keeps the last resumable checkpoint of each model on disk, so that interrupted runs
+ * can be resumed after the window is reloaded.
+ */
+export class CheckpointIndex {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChange = this.changeEmitter.event;
+    private entries: CheckpointEntry[] = [];
+
+    constructor(private readonly storageDir: string) {}
+
+    async load(): Promise<void> {
+        try {
+            const text = await fs.readFile(path.join(this.storageDir, INDEX_FILE_NAME), 'utf8');
+            const entries = JSON.parse(text);
+            this.entries = Array.isArray(entries) ? entries : [];
+        } catch (err) {
+            // No checkpoints were recorded yet
+            this.entries = [];
+        }
+        this.changeEmitter.fire();
+    }
+
+    /**
+     * Returns all resumable checkpoints, the most recent first.
+     */
+    getEntries(): ReadonlyArray<CheckpointEntry> {
+        return this.entries;
+    }
+
+    startRun(specFiles: SpecFiles, options: string[], resumedFrom?: CheckpointEntry): CheckpointRun {
+        return new CheckpointRun(specFiles, options, resumedFrom);
+    }
+
+    /**
+     * Records the checkpoint of the run when TLC has completed a new one.
+     */
+    async updateRun(run: CheckpointRun, checkResult: ModelCheckResult): Promise<void> {
+        const checkpoint = checkResult.checkpoint;
+        if (!checkpoint) {
+            return;
+        }
+        const metaDir = path.resolve(path.dirname(run.specFiles.tlaFilePath), checkpoint.metaDir);
+        if (run.checkpoint?.metaDir === metaDir && run.checkpoint.checkpointTime === checkpoint.dateTimeStr) {
+            return;
+        }
+        const entry = createCheckpointEntry(run, checkResult, metaDir, checkpoint.dateTimeStr);
+        run.checkpoint = entry;
+        this.entries = [entry].concat(this.entries.filter((e) => !isSameModel(e, entry) && e.metaDir !== metaDir));
+        await this.save();
+    }
+
+    /**
+     * Forgets the checkpoint of the run when the run has finished or was stopped without keeping it.
+     * Runs that failed, like the ones that ran out of memory, can still be resumed.
+     */
+    async finishRun(run: CheckpointRun, checkResult: ModelCheckResult | undefined): Promise<void> {
+        if (run.checkpoint && (run.discardCheckpoint || checkResult?.status === CheckStatus.Finished)) {
+            await this.delete(run.checkpoint);
+        }
+    }
+
+    async delete(entry: CheckpointEntry): Promise<void> {
+        this.entries = this.entries.filter((e) => e.metaDir !== entry.metaDir);
+        await this.save();
+    }
+
+    private async save(): Promise<void> {
+        this.changeEmitter.fire();
+        await fs.mkdir(this.storageDir, { recursive: true });
+        await fs.writeFile(path.join(this.storageDir, INDEX_FILE_NAME), JSON.stringify(this.entries, null, 2));
+    }
+}
+
+export function createCheckpointEntry(
+    run: CheckpointRun,
+    checkResult: ModelCheckResult,
+    metaDir: string,
+    checkpointTime: string
+): CheckpointEntry {
+    const lastStat = checkResult.initialStatesStat[checkResult.initialStatesStat.length - 1];
+    return {
+        tlaFilePath: run.specFiles.tlaFilePath,
+        cfgFilePath: run.specFiles.cfgFilePath,
+        modelName: run.specFiles.modelName,
+        outputDir: run.specFiles.outputDir,
+        metaDir,
+        options: run.options,
+        fingerprintIndex: parseFingerprintIndex(checkResult.processInfo) ?? run.resumedFrom?.fingerprintIndex,
+        checkpointTime,
+        distinctStates: lastStat?.distinct,
+        statesStat: checkResult.initialStatesStat
+    };
+}
+
+/**
+ * Extracts the fingerprint index from the TLC mode message, like
+ * "Running breadth-first search Model-Checking with fp 22 and seed -5755320172003082571".
+ */
+export function parseFingerprintIndex(processInfo: string | undefined): number | undefined {
+    const matches = processInfo ? /\bwith fp (\d+)\b/.exec(processInfo) : null;
+    return matches ? parseInt(matches[1]) : undefined;
+}
+
+/**
+ * Returns TLC options that resume the run from the checkpoint.
+ */
+export function buildResumeOptions(entry: CheckpointEntry): string[] {
+    const options: string[] = [];
+    for (let i = 0; i < entry.options.length; i++) {
+        if (entry.options[i] === '-recover' || entry.options[i] === '-fp') {
+            i++;        // Skip the option value as well
+        } else {
+            options.push(entry.options[i]);
+        }
+    }
+    options.push('-recover', entry.metaDir);
+    if (entry.fingerprintIndex !== undefined) {
+        options.push('-fp', String(entry.fingerprintIndex));
+    }
+    return options;
+}
+
+/**
+ * Adds statistics of the run the check was resumed from to the result of the resumed check.
+ */
+export function mergeResumedCheckResult(entry: CheckpointEntry, result: ModelCheckResult): ModelCheckResult {
+    const statesStat = entry.statesStat
+        .map((s) => new InitialStateStatItem(s.timeStamp, s.diameter, s.total, s.distinct, s.queueSize))
+        .concat(result.initialStatesStat);
+    return new ModelCheckResult(
+        result.source,
+        result.specFiles,
+        result.showFullOutput,
+        result.state,
+        result.status,
+        result.processInfo,
+        statesStat,
+        result.coverageStat,
+        result.warnings,
+        result.errors,
+        result.sanyMessages,
+        result.startDateTime,
+        result.endDateTime,
+        result.duration,
+        result.workersCount,
+        result.collisionProbability,
+        result.outputLines,
+        result.traceFilePath,
+        result.workers,
+        result.checkpoint,
+        result.simulationStat,
+        result.propertyCoverageStat
+    );
+}
+
+export function checkpointSpecFiles(entry: CheckpointEntry): SpecFiles {
+    return new SpecFiles(entry.tlaFilePath, entry.cfgFilePath, entry.modelName, entry.outputDir);
+}
+
+function isSameModel(a: CheckpointEntry, b: CheckpointEntry): boolean {
+    return a.tlaFilePath === b.tlaFilePath && a.cfgFilePath === b.cfgFilePath;
+}
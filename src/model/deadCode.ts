@@ -0,0 +1,113 @@
+import { DiagnosticSeverity, Range } from 'vscode';
+import { DCollection } from '../diagnostic';
+import { CheckState, CoverageItem, ModelCheckResult, PropertyCoverageItem, SubexpressionCoverageItem } from './check';
+
+export enum DeadCodeKind {
+    NeverEnabledAction = 'neverEnabledAction',
+    NoNewStatesAction = 'noNewStatesAction',
+    NeverTakenDisjunct = 'neverTakenDisjunct',
+    UnreachedSubexpression = 'unreachedSubexpression',
+    VacuousProperty = 'vacuousProperty'
+}
+
+/**
+ * A part of the spec that didn't contribute to the model checking run.
+ */
+export interface DeadCodeFinding {
+    kind: DeadCodeKind;
+    filePath: string;
+    range: Range;
+    message: string;
+}
+
+/**
+ * Finds actions, disjuncts and property clauses that were never exercised by a successful model checking run.
+ * Such parts are either dead code or, in the case of properties, make the property hold vacuously.
+ */
+export function findDeadCode(result: ModelCheckResult): DeadCodeFinding[] {
+    if (result.state !== CheckState.Success) {
+        return [];
+    }
+    const findings: DeadCodeFinding[] = [];
+    for (const action of result.coverageStat) {
+        findings.push(...findActionDeadCode(action, result.coverageStat));
+    }
+    for (const property of result.propertyCoverageStat) {
+        findings.push(...findVacuousProperty(property));
+    }
+    return findings;
+}
+
+/**
+ * Adds dead code found in the model checking result to the collection as warnings.
+ */
+export function addDeadCodeDiagnostics(result: ModelCheckResult, dCol: DCollection): void {
+    for (const finding of findDeadCode(result)) {
+        dCol.addMessage(finding.filePath, finding.range, finding.message, DiagnosticSeverity.Warning);
+    }
+}
+
+function findActionDeadCode(action: CoverageItem, allActions: CoverageItem[]): DeadCodeFinding[] {
+    if (!action.filePath) {
+        return [];
+    }
+    // TLC reports anonymous disjuncts of the next-state relation as separate actions named after the relation
+    const isDisjunct = allActions.some((other) => other !== action
+        && other.module === action.module
+        && other.action === action.action);
+    if (action.total === 0) {
+        return [{
+            kind: isDisjunct ? DeadCodeKind.NeverTakenDisjunct : DeadCodeKind.NeverEnabledAction,
+            filePath: action.filePath,
+            range: action.range,
+            message: isDisjunct
+                ? `Disjunct of ${action.action} is never taken.`
+                : `Action ${action.action} is never enabled.`
+        }];
+    }
+    const findings: DeadCodeFinding[] = [];
+    if (action.distinct === 0) {
+        findings.push({
+            kind: DeadCodeKind.NoNewStatesAction,
+            filePath: action.filePath,
+            range: action.range,
+            message: `Action ${action.action} never produces a new state.`
+        });
+    }
+    for (const sub of findUnreached(action.subexpressions)) {
+        findings.push({
+            kind: DeadCodeKind.UnreachedSubexpression,
+            filePath: sub.filePath,
+            range: sub.range,
+            message: `Expression in action ${action.action} is never evaluated.`
+        });
+    }
+    return findings;
+}
+
+function findVacuousProperty(property: PropertyCoverageItem): DeadCodeFinding[] {
+    return findUnreached(property.subexpressions).map((sub) => ({
+        kind: DeadCodeKind.VacuousProperty,
+        filePath: sub.filePath,
+        range: sub.range,
+        message: `Expression in ${property.name} is never evaluated, ${property.name} may hold vacuously.`
+    }));
+}
+
+/**
+ * Returns the outermost subexpressions that were never evaluated. Their children were never evaluated either,
+ * so they are not reported separately.
+ */
+function findUnreached(items: SubexpressionCoverageItem[]): { filePath: string, range: Range }[] {
+    const unreached: { filePath: string, range: Range }[] = [];
+    for (const item of items) {
+        if (item.count === 0) {
+            if (item.filePath) {
+                unreached.push({ filePath: item.filePath, range: item.range });
+            }
+        } else {
+            unreached.push(...findUnreached(item.children));
+        }
+    }
+    return unreached;
+}
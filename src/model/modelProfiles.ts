@@ -0,0 +1,194 @@
+import * as path from 'path';
+import { splitArguments } from '../tla2tools';
+
+/**
+ * A named set of settings to check a spec with. Paths are absolute.
+ */
+export interface ModelProfile {
+    name: string;
+    specPath: string;
+    cfgPath: string | undefined;        // The model config next to the spec is used when not given
+    workers: number | 'auto' | undefined;
+    simulate: boolean;
+    depth: number | undefined;
+    checkDeadlock: boolean | undefined;
+    heap: string | undefined;           // Maximum JVM heap size, like 4g or 512m
+    searchPaths: string[];              // Extra directories to look for modules in
+    options: string[];                  // Any other TLC options
+}
+
+/**
+ * What a model profile adds to a TLC run.
+ */
+export interface ModelProfileRunOptions {
+    tlcOptions: string[] | undefined;   // Undefined when the options from the settings are to be used
+    javaOptions: string[];
+    libraryPaths: string[];
+}
+
+/**
+ * Thrown when a model profiles file cannot be read.
+ */
+export class ModelProfilesError extends Error {
+    constructor(message: string) {
+        super(message);
+    }
+}
+
+/**
+ * Reads model profiles from the text of a profiles file:
+ *
+ * { "models": [ { "spec": "Spec.tla", "name": "small", "cfg": "Small.cfg", "workers": 4 } ] }
+ *
+ * Relative paths are resolved against the given directory, which is the workspace folder of the file.
+ */
+export function parseModelProfiles(text: string, rootDir: string): ModelProfile[] {
+    let json: unknown;
+    try {
+        json = JSON.parse(text);
+    } catch (err) {
+        throw new ModelProfilesError(`Invalid JSON: ${err instanceof Error ? err.message : err}`);
+    }
+    if (!isObject(json) || !Array.isArray(json.models)) {
+        throw new ModelProfilesError('Expected an object with the "models" list.');
+    }
+    const profiles = json.models.map((entry, idx) => parseProfile(entry, idx, rootDir));
+    profiles.forEach((profile, idx) => {
+        const first = profiles.findIndex((p) => p.specPath === profile.specPath && p.name === profile.name);
+        if (first !== idx) {
+            throw new ModelProfilesError(
+                `Model ${idx + 1}: ${path.basename(profile.specPath)} already has a model named ${profile.name}.`);
+        }
+    });
+    return profiles;
+}
+
+function parseProfile(entry: unknown, idx: number, rootDir: string): ModelProfile {
+    const fail = (message: string) => new ModelProfilesError(`Model ${idx + 1}: ${message}`);
+    if (!isObject(entry)) {
+        throw fail('expected an object.');
+    }
+    const str = (field: string, required = false): string | undefined => {
+        const value = entry[field];
+        if ((value === undefined && !required) || (typeof value === 'string' && value.trim() !== '')) {
+            return value as string | undefined;
+        }
+        throw fail(`"${field}" must be a non-empty string.`);
+    };
+    const bool = (field: string): boolean | undefined => {
+        const value = entry[field];
+        if (value === undefined || typeof value === 'boolean') {
+            return value as boolean | undefined;
+        }
+        throw fail(`"${field}" must be true or false.`);
+    };
+    const positive = (value: unknown) => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+    const workers = entry.workers;
+    if (workers !== undefined && workers !== 'auto' && !positive(workers)) {
+        throw fail('"workers" must be a positive number or "auto".');
+    }
+    const depth = entry.depth;
+    if (depth !== undefined && !positive(depth)) {
+        throw fail('"depth" must be a positive number.');
+    }
+    const heap = str('heap');
+    if (heap !== undefined && !/^\d+[kmg]?$/i.test(heap)) {
+        throw fail('"heap" must be a size like 4g or 512m.');
+    }
+    const searchPaths = entry.searchPaths ?? [];
+    if (!Array.isArray(searchPaths) || searchPaths.some((p) => typeof p !== 'string')) {
+        throw fail('"searchPaths" must be a list of directories.');
+    }
+    const cfg = str('cfg');
+    return {
+        name: str('name', true) as string,
+        specPath: path.resolve(rootDir, str('spec', true) as string),
+        cfgPath: cfg === undefined ? undefined : path.resolve(rootDir, cfg),
+        workers: workers as number | 'auto' | undefined,
+        simulate: bool('simulate') ?? false,
+        depth: depth as number | undefined,
+        checkDeadlock: bool('checkDeadlock'),
+        heap,
+        searchPaths: (searchPaths as string[]).map((p) => path.resolve(rootDir, p)),
+        options: splitArguments(str('options') ?? '')
+    };
+}
+
+function isObject(value: unknown): value is { [key: string]: unknown } {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Finds the profile to check the given model with. The active profile of the spec is used if it's for this model
+ * config, otherwise the first profile of the spec made for exactly this config, if any.
+ */
+export function findModelProfile(
+    profiles: ModelProfile[],
+    tlaFilePath: string,
+    cfgFilePath: string,
+    activeName: string | undefined
+): ModelProfile | undefined {
+    const specProfiles = profiles.filter((p) => samePath(p.specPath, tlaFilePath));
+    const active = specProfiles.find((p) => p.name === activeName);
+    if (active && (active.cfgPath === undefined || samePath(active.cfgPath, cfgFilePath))) {
+        return active;
+    }
+    return specProfiles.find((p) => p.cfgPath !== undefined && samePath(p.cfgPath, cfgFilePath));
+}
+
+/**
+ * Finds the spec a model config belongs to according to the profiles that name the config.
+ */
+export function findProfileSpecPath(profiles: ModelProfile[], cfgFilePath: string): string | undefined {
+    return profiles.find((p) => p.cfgPath !== undefined && samePath(p.cfgPath, cfgFilePath))?.specPath;
+}
+
+export function samePath(path1: string, path2: string): boolean {
+    return path.normalize(path1) === path.normalize(path2);
+}
+
+/**
+ * Builds the TLC options of the given profile. They replace the options from the settings.
+ */
+export function buildProfileTlcOptions(profile: ModelProfile): string[] {
+    const opts: string[] = [];
+    if (profile.workers !== undefined) {
+        opts.push('-workers', String(profile.workers));
+    }
+    if (profile.simulate) {
+        opts.push('-simulate');
+    }
+    if (profile.depth !== undefined) {
+        opts.push('-depth', String(profile.depth));
+    }
+    if (profile.checkDeadlock === false) {
+        opts.push('-deadlock');
+    }
+    return opts.concat(profile.options);
+}
+
+export function buildProfileRunOptions(profile: ModelProfile | undefined): ModelProfileRunOptions {
+    if (!profile) {
+        return { tlcOptions: undefined, javaOptions: [], libraryPaths: [] };
+    }
+    return {
+        tlcOptions: buildProfileTlcOptions(profile),
+        javaOptions: profile.heap ? [`-Xmx${profile.heap}`] : [],
+        libraryPaths: profile.searchPaths
+    };
+}
+
+/**
+ * One-line summary of the profile settings, for pickers.
+ */
+export function describeModelProfile(profile: ModelProfile): string {
+    const parts = buildProfileTlcOptions(profile);
+    if (profile.heap) {
+        parts.push(`heap ${profile.heap}`);
+    }
+    if (profile.searchPaths.length > 0) {
+        parts.push(`${profile.searchPaths.length} search path(s)`);
+    }
+    return parts.length > 0 ? parts.join(' ') : 'Default options';
+}
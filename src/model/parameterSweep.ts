@@ -0,0 +1,193 @@
+import { ParsingError } from '../common';
+import { CheckState, getViolatedProperty, ModelCheckResult } from './check';
+import { parseCfgModel, updateCfgText } from './cfgModel';
+
+/**
+ * A constant along with the values to check the model with.
+ */
+export interface SweepParameter {
+    name: string;
+    values: string[];
+}
+
+/**
+ * Values of the swept constants for a single model, in the order of the parameters.
+ */
+export type SweepCombination = { name: string, value: string }[];
+
+export interface SweepRunResult {
+    combination: SweepCombination;
+    state: CheckState;
+    violatedProperty: string | undefined;
+    distinctStates: number | undefined;
+    diameter: number | undefined;
+    duration: number | undefined;      // msec
+}
+
+/**
+ * Parses constants with their values, like "N \in 2..5; Values \in {{a, b}, {a, b, c}}".
+ * Parameters are separated with semicolons or line breaks, values are given as a range of numbers
+ * or an enumerated set.
+ */
+export function parseSweepParameters(text: string): SweepParameter[] {
+    const params = splitTopLevel(text, /[;\n]/)
+        .map((p) => p.trim())
+        .filter((p) => p !== '')
+        .map(parseSweepParameter);
+    if (params.length === 0) {
+        throw new ParsingError('No constants to sweep are given.');
+    }
+    params.forEach((param, idx) => {
+        if (params.findIndex((p) => p.name === param.name) !== idx) {
+            throw new ParsingError(`Constant ${param.name} is given more than once.`);
+        }
+    });
+    return params;
+}
+
+function parseSweepParameter(text: string): SweepParameter {
+    const matches = /^(\w+)\s*(?:\\in|∈|=)\s*(.+)$/s.exec(text);
+    if (!matches) {
+        throw new ParsingError(`Expected "Constant \\in values", but got "${text}".`);
+    }
+    return { name: matches[1], values: parseSweepValues(matches[1], matches[2].trim()) };
+}
+
+function parseSweepValues(name: string, text: string): string[] {
+    const range = /^(-?\d+)\s*\.\.\s*(-?\d+)$/.exec(text);
+    if (range) {
+        const from = parseInt(range[1]);
+        const to = parseInt(range[2]);
+        if (from > to) {
+            throw new ParsingError(`The range of ${name} is empty.`);
+        }
+        return Array.from({ length: to - from + 1 }, (_, i) => String(from + i));
+    }
+    if (!text.startsWith('{') || !text.endsWith('}') || splitTopLevel(text, /,/).length !== 1) {
+        throw new ParsingError(`Values of ${name} must be a range like 1..3 or a set like {a, b}.`);
+    }
+    const values = splitTopLevel(text.substring(1, text.length - 1), /,/)
+        .map((v) => v.trim().replace(/\s+/g, ' '));
+    if (values.some((v) => v === '')) {
+        throw new ParsingError(`The set of ${name} values is empty or has empty elements.`);
+    }
+    return values;
+}
+
+/**
+ * Splits the text at the separators that are not inside brackets or strings.
+ */
+function splitTopLevel(text: string, separator: RegExp): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let inString = false;
+    let start = 0;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text[i];
+        if (inString) {
+            inString = ch !== '"';
+        } else if (ch === '"') {
+            inString = true;
+        } else if ('{[('.includes(ch) || text.startsWith('<<', i)) {
+            depth++;
+            i += ch === '<' ? 1 : 0;
+        } else if ('}])'.includes(ch) || text.startsWith('>>', i)) {
+            depth--;
+            i += ch === '>' ? 1 : 0;
+        } else if (depth === 0 && separator.test(ch)) {
+            parts.push(text.substring(start, i));
+            start = i + 1;
+        }
+    }
+    parts.push(text.substring(start));
+    return parts;
+}
+
+/**
+ * Returns all combinations of the parameter values. The last parameter changes the fastest.
+ */
+export function getSweepCombinations(params: SweepParameter[]): SweepCombination[] {
+    return params.reduce<SweepCombination[]>(
+        (combinations, param) => combinations.flatMap((c) => param.values.map((value) => c.concat({
+            name: param.name,
+            value
+        }))),
+        [[]]
+    );
+}
+
+/**
+ * Returns the text of the model config with the given constant values. Other constants and sections are kept.
+ */
+export function applySweepCombination(cfgText: string, combination: SweepCombination): string {
+    const model = parseCfgModel(cfgText);
+    combination.forEach(({ name, value }) => {
+        const constant = { name, kind: 'value' as const, value };
+        const idx = model.constants.findIndex((c) => c.name === name);
+        if (idx < 0) {
+            model.constants.push(constant);
+        } else {
+            model.constants[idx] = constant;
+        }
+    });
+    return updateCfgText(cfgText, model);
+}
+
+export function createSweepRunResult(
+    combination: SweepCombination,
+    checkResult: ModelCheckResult | undefined,
+    duration: number | undefined        // msec, undefined when the model wasn't checked
+): SweepRunResult {
+    const lastStat = checkResult?.initialStatesStat[checkResult.initialStatesStat.length - 1];
+    return {
+        combination,
+        state: !checkResult || checkResult.state === CheckState.Running ? CheckState.Stopped : checkResult.state,
+        violatedProperty: checkResult?.errors.map(getViolatedProperty).find((p) => p !== undefined),
+        distinctStates: lastStat?.distinct,
+        diameter: lastStat?.diameter,
+        duration: checkResult?.duration ?? duration
+    };
+}
+
+/**
+ * Formats the results of the sweep as a Markdown document with a row per model.
+ */
+export function formatSweepResults(title: string, params: SweepParameter[], results: SweepRunResult[]): string {
+    const lines = [
+        `# ${title}`,
+        '',
+        `| ${params.map((p) => p.name).join(' | ')} | Outcome | Distinct states | Diameter | Time |`,
+        `|${params.map(() => '---|').join('')}---|---:|---:|---:|`
+    ];
+    results.forEach((r) => {
+        const values = r.combination.map((c) => escapeCell(c.value));
+        const cells = [
+            formatOutcome(r),
+            r.distinctStates ?? '',
+            r.diameter ?? '',
+            r.duration === undefined ? '' : formatDuration(r.duration)
+        ];
+        lines.push(`| ${values.concat(cells.map(String)).join(' | ')} |`);
+    });
+    lines.push('');
+    return lines.join('\n');
+}
+
+function formatOutcome(result: SweepRunResult): string {
+    switch (result.state) {
+        case CheckState.Success:
+            return 'Success';
+        case CheckState.Error:
+            return result.violatedProperty ? `${result.violatedProperty} violated` : 'Error';
+        default:
+            return 'Stopped';
+    }
+}
+
+function formatDuration(msec: number): string {
+    return msec < 1000 ? `${msec} ms` : `${(msec / 1000).toFixed(1)} s`;
+}
+
+function escapeCell(text: string): string {
+    return text.replace(/\|/g, '\\|');
+}
@@ -0,0 +1,184 @@
+import { Value } from './check';
+
+/**
+ * Tells how to read process interactions from the variables of a specification.
+ */
+export interface SequenceDiagramConfig {
+    /** Variable whose domain is the set of processes, e.g. `pc`. Can also be a set of processes. */
+    processes: string;
+    /** Variable holding messages: a set or sequence of them, or a function from processes to such channels. */
+    messages: string;
+    /** Field of a message record with the sending process. */
+    sender: string;
+    /** Field of a message record with the receiving process. The channel owner is used when omitted. */
+    receiver: string;
+}
+
+/**
+ * A message on the diagram, from the state where it appeared to the state where it disappeared.
+ */
+export interface SequenceMessage {
+    label: string;
+    value: string;
+    from: string;
+    to: string;
+    sentAt: number;
+    receivedAt?: number;
+}
+
+export interface SequenceDiagram {
+    processes: string[];
+    messages: SequenceMessage[];
+}
+
+/**
+ * Process standing for message ends that cannot be told from the message.
+ */
+export const UNKNOWN_PROCESS = '?';
+
+/**
+ * The webview receives plain objects rather than class instances, so values are only looked at structurally.
+ */
+interface TraceValue {
+    key: Value['key'];
+    str: string;
+    changeType?: string;
+    items?: TraceValue[];
+    deletedItems?: TraceValue[];
+    prefix?: string;
+}
+
+interface TraceState {
+    variables: TraceValue;
+}
+
+interface Channel {
+    owner: string | undefined;
+    value: TraceValue;
+}
+
+/**
+ * Builds a sequence diagram of an error trace. Messages appear and disappear as changes of the message variable,
+ * the ones marked by findChanges: added items of a channel are sent messages, deleted items are received ones.
+ */
+export function buildSequenceDiagram(trace: TraceState[], config: SequenceDiagramConfig): SequenceDiagram {
+    const messages: SequenceMessage[] = [];
+    const inFlight = new Map<string, SequenceMessage[]>();
+    const send = (channel: Channel, item: TraceValue, stateIndex: number) => {
+        const message = makeMessage(item, channel.owner, config, stateIndex);
+        const key = channelKey(channel.owner, item.str);
+        inFlight.set(key, (inFlight.get(key) ?? []).concat(message));
+        messages.push(message);
+    };
+    const receive = (owner: string | undefined, item: TraceValue, stateIndex: number) => {
+        const pending = inFlight.get(channelKey(owner, item.str));
+        const message = pending?.shift();
+        if (message) {
+            message.receivedAt = stateIndex;
+        }
+    };
+
+    trace.forEach((state, stateIndex) => {
+        const value = findVariable(state, config.messages);
+        if (!value) {
+            return;
+        }
+        getChannels(value).forEach((channel) => {
+            const isNew = stateIndex === 0 || channel.value.changeType === 'A';
+            (channel.value.deletedItems ?? []).forEach((item) => receive(channel.owner, item, stateIndex));
+            (channel.value.items ?? [])
+                .filter((item) => isNew || item.changeType === 'A')
+                .forEach((item) => send(channel, item, stateIndex));
+        });
+        // Channels removed as a whole take their messages with them
+        if (!isChannel(value)) {
+            (value.deletedItems ?? []).forEach((deleted) => {
+                inFlight.forEach((pending, key) => {
+                    if (key.startsWith(channelKey(String(deleted.key), ''))) {
+                        pending.forEach((m) => m.receivedAt = stateIndex);
+                        pending.length = 0;
+                    }
+                });
+            });
+        }
+    });
+
+    return { processes: collectProcesses(trace, config, messages), messages };
+}
+
+function findVariable(state: TraceState, name: string): TraceValue | undefined {
+    return state.variables.items?.find((v) => v.key === name);
+}
+
+function isChannel(value: TraceValue): boolean {
+    return value.prefix === '{' || value.prefix === '<<';
+}
+
+/**
+ * The message variable is either a single channel shared by all processes, or a function from processes
+ * to their own channels.
+ */
+function getChannels(value: TraceValue): Channel[] {
+    if (isChannel(value)) {
+        return [{ owner: undefined, value }];
+    }
+    return (value.items ?? [])
+        .filter((item) => isChannel(item))
+        .map((item) => ({ owner: String(item.key), value: item }));
+}
+
+function channelKey(owner: string | undefined, str: string): string {
+    return `${owner ?? ''}\n${str}`;
+}
+
+function makeMessage(
+    item: TraceValue,
+    owner: string | undefined,
+    config: SequenceDiagramConfig,
+    stateIndex: number
+): SequenceMessage {
+    const fields = item.prefix === '[' ? item.items ?? [] : [];
+    const fieldValue = (name: string) => name ? fields.find((f) => f.key === name)?.str : undefined;
+    const from = fieldValue(config.sender);
+    const to = fieldValue(config.receiver) ?? owner;
+    const otherFields = fields.filter((f) => f.key !== config.sender && f.key !== config.receiver);
+    const label = fields.length === 0
+        ? item.str
+        : `[${otherFields.map((f) => `${f.key} |-> ${f.str}`).join(', ')}]`;
+    return {
+        label,
+        value: item.str,
+        from: from ?? UNKNOWN_PROCESS,
+        to: to ?? UNKNOWN_PROCESS,
+        sentAt: stateIndex
+    };
+}
+
+/**
+ * Processes from the process domain keep their order, the ones only found in messages go after them.
+ */
+function collectProcesses(
+    trace: TraceState[],
+    config: SequenceDiagramConfig,
+    messages: SequenceMessage[]
+): string[] {
+    const processes: string[] = [];
+    const add = (name: string) => {
+        if (!processes.includes(name)) {
+            processes.push(name);
+        }
+    };
+    const domain = trace.length > 0 && config.processes ? findVariable(trace[0], config.processes) : undefined;
+    (domain?.items ?? []).forEach((item) => add(domain?.prefix === '{' ? item.str : String(item.key)));
+    messages.forEach((m) => {
+        add(m.from);
+        add(m.to);
+    });
+    // Unknown ends look best on the edge of the diagram
+    const unknown = processes.indexOf(UNKNOWN_PROCESS);
+    if (unknown >= 0) {
+        processes.splice(unknown, 1);
+        processes.push(UNKNOWN_PROCESS);
+    }
+    return processes;
+}
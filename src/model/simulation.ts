@@ -0,0 +1,222 @@
+import { CoverageItem, ModelCheckResult } from './check';
+import { SimulationStats } from './coverage';
+
+/**
+ * Parameters of a random simulation run.
+ */
+export interface SimulationOptions {
+    depth: number;
+    traces: number | undefined;     // unlimited when undefined
+    seed: number | undefined;       // random when undefined
+}
+
+/**
+ * A state of a trace that TLC wrote during simulation.
+ */
+export interface SampledTraceState {
+    action: string;
+    variables: { name: string, value: string }[];
+}
+
+/**
+ * A trace that TLC wrote to a file during simulation.
+ */
+export interface SampledTraceInfo {
+    name: string;
+    filePath: string;
+    length: number;
+}
+
+export interface ActionFrequency {
+    module: string;
+    action: string;
+    count: number;
+    share: number;      // of all action invocations, from 0 to 1
+}
+
+/**
+ * Everything the simulation dashboard shows.
+ */
+export interface SimulationDashboardData {
+    modelName: string;
+    running: boolean;
+    elapsed: number;                        // sec
+    statesChecked: number | undefined;
+    traces: number | undefined;
+    tracesPerSecond: number | undefined;
+    meanTraceLength: number | undefined;
+    traceLengthSd: number | undefined;
+    actions: ActionFrequency[];
+    statsFileName: string | undefined;      // the .ndjson file the statistics series was read from
+    stats: SimulationStats[];
+    sampledTraces: SampledTraceInfo[];
+    sampling: boolean;
+}
+
+// Options that are set by the simulation parameters rather than taken from the settings
+const SIMULATION_OPTIONS_WITH_VALUES = ['-depth', '-seed'];
+const SIMULATION_FLAGS = ['-simulate'];
+
+/**
+ * Returns TLC options that run random simulation with the given parameters.
+ * Sampled traces are written to files with the given prefix, which TLC only supports for a limited number of traces.
+ */
+export function buildSimulationTlcOptions(
+    options: SimulationOptions,
+    baseOptions: string[],
+    sampledTracesPrefix: string | undefined
+): string[] {
+    const result: string[] = [];
+    for (let i = 0; i < baseOptions.length; i++) {
+        const opt = baseOptions[i];
+        if (SIMULATION_OPTIONS_WITH_VALUES.includes(opt)) {
+            i++;    // Skip the option value as well
+        } else if (SIMULATION_FLAGS.includes(opt)) {
+            // The -simulate flag may be followed by its parameters, like num=10
+            if (i + 1 < baseOptions.length && /^\w+=/.test(baseOptions[i + 1])) {
+                i++;
+            }
+        } else {
+            result.push(opt);
+        }
+    }
+    const simulateParams: string[] = [];
+    if (options.traces !== undefined) {
+        simulateParams.push(`num=${options.traces}`);
+        if (sampledTracesPrefix) {
+            simulateParams.push(`file=${sampledTracesPrefix}`);
+        }
+    }
+    result.unshift('-simulate', ...(simulateParams.length > 0 ? [simulateParams.join(',')] : []));
+    result.push('-depth', String(options.depth));
+    if (options.seed !== undefined) {
+        result.push('-seed', String(options.seed));
+    }
+    return result;
+}
+
+/**
+ * Parses a trace that TLC wrote during simulation. Such a trace is a TLA+ module with a definition per state,
+ * preceded by a comment with the action that led to the state:
+ *
+ *   \* <Next line 10, col 9 to line 12, col 30 of module Spec>
+ *   STATE_2 ==
+ *   /\ x = 1
+ *   /\ y = <<1, 2>>
+ */
+export function parseSampledTrace(text: string): SampledTraceState[] {
+    const states: SampledTraceState[] = [];
+    let action = '';
+    let current: SampledTraceState | undefined;
+    for (const line of text.split(/\r?\n/)) {
+        const comment = /^\\\*\s*(.*)$/.exec(line);
+        const stateDef = /^STATE_\d+\s*==\s*(.*)$/.exec(line);
+        if (comment) {
+            action = comment[1].trim();
+        } else if (stateDef) {
+            current = { action, variables: [] };
+            states.push(current);
+            action = '';
+            addStateLine(current, stateDef[1]);
+        } else if (/^-{4,}|^={4,}/.test(line)) {
+            current = undefined;
+        } else if (current) {
+            addStateLine(current, line);
+        }
+    }
+    return states;
+}
+
+function addStateLine(state: SampledTraceState, line: string) {
+    const variable = /^\s*(?:\/\\)?\s*([A-Za-z_][\w]*)\s*=\s*(.*)$/.exec(line);
+    const isConjunct = /^\s*\/\\/.test(line) || state.variables.length === 0;
+    if (variable && isConjunct) {
+        state.variables.push({ name: variable[1], value: variable[2].trim() });
+    } else if (state.variables.length > 0 && line.trim() !== '') {
+        // Continuation of a multi-line value
+        const last = state.variables[state.variables.length - 1];
+        last.value = `${last.value} ${line.trim()}`;
+    }
+}
+
+/**
+ * Renames the module of a trace TLC wrote during simulation, so that it matches the file the trace is saved to.
+ * The rest of the trace is kept as TLC wrote it.
+ */
+export function renameTraceModule(text: string, moduleName: string): string {
+    return text.replace(/^(\s*-{4,}\s*MODULE\s+)\w+/m, `$1${moduleName}`);
+}
+
+/**
+ * Formats a sampled trace as a TLA+ module that defines the trace as a sequence of records, one per state,
+ * and the actions that lead to these states, like exported error traces.
+ */
+export function formatSampledTraceModule(states: SampledTraceState[], moduleName: string, title: string): string {
+    const lines = [`---- MODULE ${moduleName} ----`, `\\* ${title}`, 'EXTENDS TLC', '', 'Trace == <<'];
+    states.forEach((state, idx) => {
+        const sep = idx === states.length - 1 ? '' : ',';
+        lines.push(`    [${state.variables.map((v) => `${v.name} |-> ${v.value}`).join(', ')}]${sep}`);
+    });
+    lines.push('>>', '', 'TraceActions == <<');
+    states.forEach((state, idx) => {
+        const sep = idx === states.length - 1 ? '' : ',';
+        lines.push(`    "${state.action.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"${sep}`);
+    });
+    lines.push('>>', '', '====', '');
+    return lines.join('\n');
+}
+
+/**
+ * Returns how often each action was taken, according to the coverage statistics TLC reports during simulation.
+ * Actions that were never taken are kept, they are often the most interesting ones.
+ */
+export function getActionFrequencies(coverage: CoverageItem[]): ActionFrequency[] {
+    const total = coverage.reduce((sum, c) => sum + c.total, 0);
+    return coverage
+        .map((c) => ({
+            module: c.module,
+            action: c.action,
+            count: c.total,
+            share: total > 0 ? c.total / total : 0
+        }))
+        .sort((a, b) => b.count - a.count);
+}
+
+/**
+ * Combines the TLC progress reports with the statistics series the spec writes to an .ndjson file.
+ * The series is more precise since it carries the simulation duration, the wall clock time is used otherwise.
+ */
+export function buildSimulationDashboardData(
+    modelName: string,
+    checkResult: ModelCheckResult | undefined,
+    elapsed: number,
+    running: boolean,
+    statsFileName: string | undefined,
+    stats: SimulationStats[],
+    sampledTraces: SampledTraceInfo[],
+    sampling: boolean
+): SimulationDashboardData {
+    const progress = checkResult?.simulationStat[checkResult.simulationStat.length - 1];
+    const lastStats = stats[stats.length - 1];
+    let tracesPerSecond: number | undefined;
+    if (lastStats && lastStats.duration > 0) {
+        tracesPerSecond = lastStats.traces / lastStats.duration;
+    } else if (progress && elapsed > 0) {
+        tracesPerSecond = progress.traces / elapsed;
+    }
+    return {
+        modelName,
+        running,
+        elapsed,
+        statesChecked: progress?.statesChecked ?? lastStats?.generated,
+        traces: progress?.traces ?? lastStats?.traces,
+        tracesPerSecond,
+        meanTraceLength: progress?.meanTraceLength,
+        traceLengthSd: progress?.traceLengthSd,
+        actions: getActionFrequencies(checkResult?.coverageStat ?? []),
+        statsFileName,
+        stats,
+        sampledTraces,
+        sampling
+    };
+}
@@ -0,0 +1,109 @@
+import { InitialStateStatItem } from './check';
+
+// Share of the latest statistics the queue trend is computed on, the queue changes its course during a run
+const QUEUE_TREND_SHARE = 1 / 3;
+const MIN_QUEUE_TREND_POINTS = 3;
+
+/**
+ * State space statistics at a moment of model checking, along with the rates since the previous moment.
+ */
+export interface StateSpacePoint {
+    elapsed: number;                            // sec since the start of the run
+    generated: number;
+    distinct: number;
+    queueSize: number;
+    diameter: number;
+    generatedPerMinute: number | undefined;
+    distinctPerMinute: number | undefined;
+}
+
+export enum QueueTrend {
+    Growing = 'growing',
+    Flat = 'flat',
+    Shrinking = 'shrinking'
+}
+
+/**
+ * A guess of how long model checking will run, based on how fast the queue of unexplored states shrinks.
+ * The state space may still grow, so it's only a heuristic.
+ */
+export interface CompletionEstimate {
+    queueTrend: QueueTrend;
+    queueChangePerMinute: number;
+    remainingTime: number | undefined;          // sec, only when the queue shrinks
+}
+
+/**
+ * Converts a statistics time stamp like "01:02:03", that is hours, minutes and seconds since the start of
+ * the run, to seconds.
+ */
+export function parseElapsedTime(timeStamp: string): number | undefined {
+    const matches = /^(\d+):(\d{2}):(\d{2})$/.exec(timeStamp.trim());
+    if (!matches) {
+        return undefined;
+    }
+    return parseInt(matches[1]) * 3600 + parseInt(matches[2]) * 60 + parseInt(matches[3]);
+}
+
+/**
+ * Returns the state space statistics as a time series with the rates of state generation.
+ * Time stamps of a run resumed from a checkpoint start over, such a run is put after the statistics it continues.
+ */
+export function getStateSpaceGrowth(stats: InitialStateStatItem[]): StateSpacePoint[] {
+    const points: StateSpacePoint[] = [];
+    let offset = 0;
+    let lastTime: number | undefined;
+    for (const stat of stats) {
+        const time = parseElapsedTime(stat.timeStamp);
+        if (time === undefined) {
+            continue;
+        }
+        const prev = points[points.length - 1];
+        if (prev && lastTime !== undefined && time < lastTime) {
+            offset = prev.elapsed;
+        }
+        lastTime = time;
+        const elapsed = offset + time;
+        const minutes = prev ? (elapsed - prev.elapsed) / 60 : 0;
+        points.push({
+            elapsed,
+            generated: stat.total,
+            distinct: stat.distinct,
+            queueSize: stat.queueSize,
+            diameter: stat.diameter,
+            generatedPerMinute: prev && minutes > 0 ? (stat.total - prev.generated) / minutes : undefined,
+            distinctPerMinute: prev && minutes > 0 ? (stat.distinct - prev.distinct) / minutes : undefined
+        });
+    }
+    return points;
+}
+
+/**
+ * Estimates the remaining time of model checking from the trend of the queue size over the latest statistics.
+ */
+export function estimateCompletion(points: StateSpacePoint[]): CompletionEstimate | undefined {
+    if (points.length < MIN_QUEUE_TREND_POINTS) {
+        return undefined;
+    }
+    const count = Math.max(MIN_QUEUE_TREND_POINTS, Math.ceil(points.length * QUEUE_TREND_SHARE));
+    const recent = points.slice(-count);
+    const first = recent[0];
+    const last = recent[recent.length - 1];
+    const minutes = (last.elapsed - first.elapsed) / 60;
+    if (minutes <= 0) {
+        return undefined;
+    }
+    const queueChangePerMinute = (last.queueSize - first.queueSize) / minutes;
+    if (queueChangePerMinute < 0) {
+        return {
+            queueTrend: QueueTrend.Shrinking,
+            queueChangePerMinute,
+            remainingTime: Math.round(last.queueSize / -queueChangePerMinute * 60)
+        };
+    }
+    return {
+        queueTrend: queueChangePerMinute > 0 ? QueueTrend.Growing : QueueTrend.Flat,
+        queueChangePerMinute,
+        remainingTime: undefined
+    };
+}
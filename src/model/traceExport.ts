@@ -0,0 +1,128 @@
+import { CollectionValue, ErrorInfo, ErrorTraceItem, getViolatedProperty, SetValue, SequenceValue,
+    StructureValue, Value } from './check';
+
+export enum TraceExportFormat {
+    Json = 'json',
+    Markdown = 'markdown',
+    Csv = 'csv',
+    TlaModule = 'tla'
+}
+
+/**
+ * Variable value in exported JSON: sets and sequences become arrays, records and functions become objects
+ * and everything else is kept as the TLA+ expression printed by TLC.
+ */
+export type TraceJsonValue = string | TraceJsonValue[] | { [key: string]: TraceJsonValue };
+
+/**
+ * Exports the error trace as a JSON document with the structure of variable values preserved.
+ */
+export function exportTraceJson(error: ErrorInfo): string {
+    const doc = {
+        message: error.lines.map((l) => l.toString()).join('\n'),
+        violatedProperty: getViolatedProperty(error),
+        states: error.errorTrace.map((item) => ({
+            num: item.num,
+            title: item.title,
+            module: item.module || undefined,
+            action: item.action || undefined,
+            location: item.filePath
+                ? { file: item.filePath, line: item.range.start.line + 1, column: item.range.start.character + 1 }
+                : undefined,
+            variables: valueToJson(item.variables)
+        }))
+    };
+    return JSON.stringify(doc, null, 2) + '\n';
+}
+
+/**
+ * Exports the error trace as a Markdown table with a row per state and a column per variable.
+ */
+export function exportTraceMarkdown(error: ErrorInfo): string {
+    const names = collectVariableNames(error.errorTrace);
+    const escape = (s: string) => s.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+    const lines = [
+        '| State | Action | ' + names.map(escape).join(' | ') + ' |',
+        '|---:|---|' + names.map(() => '---|').join('')
+    ];
+    error.errorTrace.forEach((item) => {
+        const values = getVariableValues(item, names).map((v) => v === undefined ? '' : '`' + escape(v) + '`');
+        lines.push(`| ${item.num} | ${escape(item.title)} | ${values.join(' | ')} |`);
+    });
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Exports the error trace as CSV with a row per state and a column per variable.
+ */
+export function exportTraceCsv(error: ErrorInfo): string {
+    const names = collectVariableNames(error.errorTrace);
+    const rows = [['State', 'Action'].concat(names)];
+    error.errorTrace.forEach((item) => {
+        rows.push([String(item.num), item.title].concat(getVariableValues(item, names).map((v) => v ?? '')));
+    });
+    return rows.map((row) => row.map(quoteCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Exports the error trace as a TLA+ module that defines the trace as a sequence of records,
+ * one per state, and the names of the steps that lead to these states.
+ * States without variables, such as the "back to state" step of a lasso, are only mentioned in comments.
+ */
+export function exportTraceModule(error: ErrorInfo, moduleName: string): string {
+    const states = error.errorTrace.filter((item) => item.variables.items.length > 0);
+    const lines = [`---- MODULE ${moduleName} ----`];
+    error.lines.forEach((l) => lines.push(`\\* ${l.toString()}`));
+    lines.push('EXTENDS TLC', '', 'Trace == <<');
+    error.errorTrace.forEach((item) => {
+        lines.push(`    \\* ${item.num}: ${item.title}`);
+        if (item.variables.items.length > 0) {
+            const sep = item === states[states.length - 1] ? '' : ',';
+            lines.push(`    ${formatRecord(item.variables)}${sep}`);
+        }
+    });
+    lines.push('>>', '', 'TraceActions == <<');
+    states.forEach((item, idx) => {
+        const sep = idx === states.length - 1 ? '' : ',';
+        lines.push(`    "${item.title.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"${sep}`);
+    });
+    lines.push('>>', '', '====', '');
+    return lines.join('\n');
+}
+
+function valueToJson(value: Value): TraceJsonValue {
+    if (value instanceof SetValue || value instanceof SequenceValue) {
+        return value.items.map(valueToJson);
+    }
+    if (value instanceof StructureValue) {
+        const obj: { [key: string]: TraceJsonValue } = {};
+        value.items.forEach((item) => {
+            obj[String(item.key)] = valueToJson(item);
+        });
+        return obj;
+    }
+    return value.str;
+}
+
+function formatRecord(variables: CollectionValue): string {
+    return '[' + variables.items.map((v) => `${v.key} |-> ${v.str}`).join(', ') + ']';
+}
+
+function collectVariableNames(trace: ErrorTraceItem[]): string[] {
+    const names: string[] = [];
+    trace.forEach((item) => item.variables.items.forEach((v) => {
+        const name = String(v.key);
+        if (!names.includes(name)) {
+            names.push(name);
+        }
+    }));
+    return names;
+}
+
+function getVariableValues(item: ErrorTraceItem, names: string[]): (string | undefined)[] {
+    return names.map((name) => item.variables.items.find((v) => String(v.key) === name)?.str);
+}
+
+function quoteCsv(field: string): string {
+    return /[",\r\n]/.test(field) ? '"' + field.replace(/"/g, '""') + '"' : field;
+}
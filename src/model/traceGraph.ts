@@ -0,0 +1,100 @@
+import { ErrorInfo, ErrorTraceItem } from './check';
+import { DotGraph } from '../parsers/dot';
+
+/**
+ * A state of a graph. Nodes of error traces refer to their trace items, so that they can be selected
+ * in the error trace view.
+ */
+export interface StateGraphNode {
+    id: string;
+    label: string;
+    details: string;
+    initial: boolean;
+    stateIndex?: number;
+}
+
+/**
+ * A transition between states, labelled with the action name.
+ */
+export interface StateGraphEdge {
+    from: string;
+    to: string;
+    label: string;
+}
+
+/**
+ * Graph is sent to the webview as is, so it only contains plain data.
+ */
+export interface StateGraph {
+    title: string;
+    errorIndex?: number;
+    nodes: StateGraphNode[];
+    edges: StateGraphEdge[];
+}
+
+const BACK_TO_STATE = 'Back to state';
+const STUTTERING = 'Stuttering';
+
+/**
+ * Builds a graph of an error trace: states become nodes and actions become edges.
+ * Liveness traces ending with "Back to state" or "Stuttering" get an edge closing the lasso.
+ */
+export function buildTraceGraph(error: ErrorInfo, errorIndex: number): StateGraph {
+    const nodes: StateGraphNode[] = [];
+    const edges: StateGraphEdge[] = [];
+    error.errorTrace.forEach((item, index) => {
+        const last = nodes[nodes.length - 1];
+        if (last && isBackToState(item)) {
+            const target = nodes.find((n) => n.label === String(item.num));
+            if (target) {
+                edges.push({ from: last.id, to: target.id, label: item.action || BACK_TO_STATE });
+            }
+            return;
+        }
+        if (last && item.title === STUTTERING) {
+            edges.push({ from: last.id, to: last.id, label: STUTTERING });
+            return;
+        }
+        const node: StateGraphNode = {
+            id: String(index),
+            label: String(item.num),
+            details: formatVariables(item),
+            initial: nodes.length === 0,
+            stateIndex: index
+        };
+        if (last) {
+            edges.push({ from: last.id, to: node.id, label: item.title });
+        }
+        nodes.push(node);
+    });
+    return { title: `Counterexample ${errorIndex + 1}`, errorIndex, nodes, edges };
+}
+
+/**
+ * Builds a graph of a state space dumped by TLC with the -dump dot option.
+ * TLC fills initial states and writes state variables to node labels.
+ */
+export function buildDotStateGraph(dot: DotGraph, title: string): StateGraph {
+    const nodes = dot.nodes.map((node, index) => ({
+        id: node.id,
+        label: String(index + 1),
+        details: node.attrs.get('label') ?? node.id,
+        initial: /filled/.test(node.attrs.get('style') ?? '')
+    }));
+    const edges = dot.edges.map((edge) => ({
+        from: edge.from,
+        to: edge.to,
+        label: edge.attrs.get('label') ?? ''
+    }));
+    return { title, nodes, edges };
+}
+
+function isBackToState(item: ErrorTraceItem): boolean {
+    return item.title === BACK_TO_STATE || item.title.endsWith(`(${BACK_TO_STATE})`);
+}
+
+function formatVariables(item: ErrorTraceItem): string {
+    const lines = [`${item.num}: ${item.title}`];
+    item.variables.items.forEach((v) => lines.push(`/\\ ${v.key} = ${v.format('')}`));
+    return lines.join('\n');
+}
@@ -0,0 +1,180 @@
+import * as vscode from 'vscode';
+import { getNonce } from './utilities/getNonce';
+import { getUri } from './utilities/getUri';
+import { CfgModel, CfgSpecInfo, parseCfgModel, updateCfgText } from '../model/cfgModel';
+import { SpecSymbols, SpecSymbolsLoader } from '../symbols/specSymbols';
+import { CFG_TLC_OPTIONS } from '../tla2tools';
+import { replaceExtension } from '../common';
+
+export const CMD_OPEN_CFG_EDITOR = 'tlaplus.cfg.openEditor';
+
+interface CfgEditorMessage {
+    type: string;
+    model?: CfgModel;
+    options?: string;
+}
+
+/**
+ * Edits model config files with a form, for those who'd rather not learn the config syntax.
+ * The form works on the text document, so it is saved, undone and redone like any text.
+ */
+export class CfgEditorProvider implements vscode.CustomTextEditorProvider {
+    public static readonly viewType = 'tlaplus.cfgEditor';
+
+    constructor(
+        private readonly extensionUri: vscode.Uri,
+        private readonly specSymbols: SpecSymbolsLoader
+    ) {}
+
+    public static register(extensionUri: vscode.Uri, specSymbols: SpecSymbolsLoader): vscode.Disposable {
+        return vscode.window.registerCustomEditorProvider(
+            CfgEditorProvider.viewType,
+            new CfgEditorProvider(extensionUri, specSymbols)
+        );
+    }
+
+    resolveCustomTextEditor(
+        document: vscode.TextDocument,
+        webviewPanel: vscode.WebviewPanel,
+        token: vscode.CancellationToken
+    ): void {
+        const webview = webviewPanel.webview;
+        webview.options = {
+            enableScripts: true,
+            localResourceRoots: [vscode.Uri.joinPath(this.extensionUri, 'out')]
+        };
+        webview.html = this.getWebviewContent(webview);
+
+        const update = () => this.sendModel(document, webview);
+        const specPath = replaceExtension(document.uri.fsPath, 'tla');
+        const disposables = [
+            vscode.workspace.onDidChangeTextDocument((event) => {
+                if (event.document === document && event.contentChanges.length > 0) {
+                    update();
+                }
+            }),
+            vscode.workspace.onDidSaveTextDocument((doc) => {
+                // Saved specs are parsed by SANY, which tells levels of operators
+                if (doc.uri.fsPath === specPath) {
+                    update();
+                }
+            }),
+            vscode.workspace.onDidChangeConfiguration((event) => {
+                if (event.affectsConfiguration(CFG_TLC_OPTIONS)) {
+                    update();
+                }
+            }),
+            webview.onDidReceiveMessage((message: CfgEditorMessage) => this.handleMessage(document, webview, message))
+        ];
+        webviewPanel.onDidDispose(() => disposables.forEach((d) => d.dispose()));
+    }
+
+    private async sendModel(document: vscode.TextDocument, webview: vscode.Webview): Promise<void> {
+        const spec = await this.specSymbols.load(document.uri).catch(() => undefined);
+        webview.postMessage({
+            type: 'update',
+            empty: document.getText().trim() === '',
+            model: parseCfgModel(document.getText()),
+            spec: spec ? toCfgSpecInfo(spec) : undefined,
+            tlcOptions: getTlcOptionsSetting()
+        });
+    }
+
+    private async handleMessage(
+        document: vscode.TextDocument,
+        webview: vscode.Webview,
+        message: CfgEditorMessage
+    ): Promise<void> {
+        switch (message.type) {
+            case 'ready':
+                await this.sendModel(document, webview);
+                break;
+            case 'updateModel':
+                if (message.model) {
+                    await replaceText(document, updateCfgText(document.getText(), message.model));
+                }
+                break;
+            case 'useTemplate': {
+                const template = vscode.Uri.joinPath(this.extensionUri, 'tools', 'template.cfg');
+                const templateText = new TextDecoder().decode(await vscode.workspace.fs.readFile(template));
+                await replaceText(document, templateText);
+                break;
+            }
+            case 'setTlcOptions':
+                await setTlcOptionsSetting(message.options ?? '');
+                break;
+            case 'openText':
+                await vscode.commands.executeCommand('vscode.openWith', document.uri, 'default');
+                break;
+        }
+    }
+
+    private getWebviewContent(webview: vscode.Webview): string {
+        const nonce = getNonce();
+        const scriptUri = getUri(webview, this.extensionUri, ['out', 'cfg-editor-view.js']);
+        const styleUri = getUri(webview, this.extensionUri, ['out', 'cfg-editor-view.css']);
+
+        return `<!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <meta http-equiv="Content-Security-Policy"
+                    content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline';
+                        script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+                <link href="${styleUri}" rel="stylesheet">
+                <title>Model Config</title>
+            </head>
+            <body>
+                <div id="root"></div>
+                <script type="module" nonce="${nonce}" src="${scriptUri}"></script>
+            </body>
+            </html>`;
+    }
+}
+
+/**
+ * Opens the given or the active model config file in the model config editor.
+ */
+export async function openCfgEditor(uri?: vscode.Uri): Promise<void> {
+    const cfgUri = uri ?? vscode.window.activeTextEditor?.document.uri;
+    if (!cfgUri || !cfgUri.fsPath.endsWith('.cfg')) {
+        vscode.window.showWarningMessage('Open a model config file to edit it in the model config editor.');
+        return;
+    }
+    await vscode.commands.executeCommand('vscode.openWith', cfgUri, CfgEditorProvider.viewType);
+}
+
+function toCfgSpecInfo(spec: SpecSymbols): CfgSpecInfo {
+    const symbols = Array.from(spec.symbols.values());
+    return {
+        moduleName: spec.moduleName,
+        constants: symbols
+            .filter((s) => s.kind === 'constant' && s.module === spec.moduleName)
+            .map((s) => s.name),
+        definitions: symbols
+            .filter((s) => s.kind === 'definition' && (s.arity === undefined || s.arity === 0))
+            .map((s) => ({ name: s.name, level: s.level }))
+    };
+}
+
+async function replaceText(document: vscode.TextDocument, text: string): Promise<void> {
+    if (text === document.getText()) {
+        return;
+    }
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(document.uri, new vscode.Range(0, 0, document.lineCount, 0), text);
+    await vscode.workspace.applyEdit(edit);
+}
+
+function getTlcOptionsSetting(): string {
+    const setting = vscode.workspace.getConfiguration().inspect<string>(CFG_TLC_OPTIONS);
+    return setting?.workspaceValue || setting?.globalValue || '';
+}
+
+async function setTlcOptionsSetting(options: string): Promise<void> {
+    const target = vscode.workspace.name !== undefined
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration().update(CFG_TLC_OPTIONS, options.trim() || undefined, target);
+}
@@ -0,0 +1,70 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import moment from 'moment';
+import { CheckState, getStateName } from '../model/check';
+import { CheckHistory, CheckHistoryEntry } from '../model/checkHistory';
+import { CMD_CHECK_HISTORY_OPEN } from '../commands/checkHistory';
+
+const STATE_ICONS = new Map<CheckState, vscode.ThemeIcon>([
+    [CheckState.Success, new vscode.ThemeIcon('pass', new vscode.ThemeColor('testing.iconPassed'))],
+    [CheckState.Error, new vscode.ThemeIcon('error', new vscode.ThemeColor('testing.iconFailed'))],
+    [CheckState.Stopped, new vscode.ThemeIcon('circle-slash')]
+]);
+
+export class CheckHistoryItem extends vscode.TreeItem {
+    constructor(readonly entry: CheckHistoryEntry) {
+        super(`${entry.modelName} (${path.basename(entry.tlaFilePath)})`, vscode.TreeItemCollapsibleState.None);
+        const startTime = moment(entry.startTime);
+        this.description = startTime.format('YYYY-MM-DD HH:mm') + ' · ' + describeOutcome(entry);
+        this.iconPath = STATE_ICONS.get(entry.state);
+        this.contextValue = 'checkHistoryEntry';
+        this.tooltip = new vscode.MarkdownString([
+            `**${entry.modelName}**`,
+            '',
+            `- Spec: \`${entry.tlaFilePath}\``,
+            `- Config: \`${entry.cfgFilePath}\``,
+            `- Options: \`${entry.options.join(' ') || '(none)'}\``,
+            `- Started: ${startTime.format('YYYY-MM-DD HH:mm:ss')}`,
+            `- Duration: ${entry.duration === undefined ? '?' : moment.duration(entry.duration).humanize()}`,
+            `- Outcome: ${describeOutcome(entry)}`,
+            `- Distinct states: ${entry.distinctStates ?? '?'}`
+        ].join('\n'));
+        this.command = {
+            command: CMD_CHECK_HISTORY_OPEN,
+            title: 'Show Result',
+            arguments: [this]
+        };
+    }
+}
+
+/**
+ * Shows past model checking runs of the workspace.
+ */
+export class CheckHistoryTreeDataProvider implements vscode.TreeDataProvider<CheckHistoryItem> {
+    static readonly viewType = 'tlaplus.check-history';
+    private _onDidChangeTreeData = new vscode.EventEmitter<CheckHistoryItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(
+        private readonly history: CheckHistory,
+        context: vscode.ExtensionContext
+    ) {
+        context.subscriptions.push(history.onDidChange(() => this._onDidChangeTreeData.fire()));
+    }
+
+    getChildren(element?: CheckHistoryItem): Thenable<CheckHistoryItem[]> {
+        if (element) {
+            return Promise.resolve([]);
+        }
+        return Promise.resolve(this.history.getEntries().map((entry) => new CheckHistoryItem(entry)));
+    }
+
+    getTreeItem(element: CheckHistoryItem): vscode.TreeItem {
+        return element;
+    }
+}
+
+function describeOutcome(entry: CheckHistoryEntry): string {
+    const stateName = getStateName(entry.state);
+    return entry.violatedProperty ? `${stateName}: ${entry.violatedProperty} violated` : stateName;
+}
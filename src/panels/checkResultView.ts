@@ -1,11 +1,19 @@
 import * as vscode from 'vscode';
-import { CMD_CHECK_MODEL_RUN_AGAIN, CMD_CHECK_MODEL_STOP, CMD_SHOW_TLC_OUTPUT } from '../commands/checkModel';
-import { ModelCheckResult, ModelCheckResultSource } from '../model/check';
+import * as path from 'path';
+import {
+    CMD_CHECK_MODEL_RUN_AGAIN, CMD_CHECK_MODEL_STOP, CMD_CHECK_MODEL_STOP_KEEP_CHECKPOINT, CMD_SHOW_TLC_OUTPUT
+} from '../commands/checkModel';
+import { CMD_EXPORT_ERROR_TRACE } from '../commands/exportTrace';
+import { CMD_SHOW_TRACE_GRAPH } from '../commands/traceGraph';
+import { ModelCheckResult, ModelCheckResultSource, SpecFiles } from '../model/check';
+import { SequenceDiagramConfig } from '../model/sequenceDiagram';
 import { getNonce } from './utilities/getNonce';
 import { getUri } from './utilities/getUri';
 import { createDocument, revealFile } from './utilities/workspace';
 import { TLAPLUS_DEBUG_LOAD_TRACE } from '../debugger/debugging';
 
+const CFG_SEQUENCE_DIAGRAMS = 'tlaplus.tlc.modelChecker.sequenceDiagrams';
+
 export function updateCheckResultView(checkResult: ModelCheckResult): void {
     CheckResultViewPanel.updateCheckResult(checkResult);
 }
@@ -22,6 +30,14 @@ export function isCheckResultViewPanelFocused(): boolean {
     return CheckResultViewPanel.isPanelFocused();
 }
 
+export function getLastCheckResult(): ModelCheckResult | undefined {
+    return CheckResultViewPanel.getLastCheckResult();
+}
+
+export function revealCheckResultState(errorIndex: number, stateIndex: number): void {
+    CheckResultViewPanel.revealState(errorIndex, stateIndex);
+}
+
 class CheckResultViewPanel {
     private static readonly viewType = 'modelChecking';
     private static currentPanel: CheckResultViewPanel | undefined;
@@ -31,6 +47,7 @@ class CheckResultViewPanel {
     private readonly extensionUri: vscode.Uri;
     private readonly disposables: vscode.Disposable[] = [];
     private checkResult: ModelCheckResult;
+    private sequenceDiagramModule: string | undefined;   // Module the sequence diagram settings were sent for
 
     private constructor(extensionUri: vscode.Uri) {
         this.extensionUri = extensionUri;
@@ -63,6 +80,13 @@ class CheckResultViewPanel {
 
         // Set message listener
         this.panel.webview.onDidReceiveMessage((message) => this.handleWebviewMessage(message));
+
+        vscode.workspace.onDidChangeConfiguration((event) => {
+            if (event.affectsConfiguration(CFG_SEQUENCE_DIAGRAMS)) {
+                this.updateSequenceDiagramConfig();
+            }
+        }, null, this.disposables);
+        this.updateSequenceDiagramConfig();
     }
 
     public static updateCheckResult(checkResult: ModelCheckResult) {
@@ -72,6 +96,21 @@ class CheckResultViewPanel {
         }
     }
 
+    public static getLastCheckResult(): ModelCheckResult | undefined {
+        return CheckResultViewPanel.lastCheckResult;
+    }
+
+    public static revealState(errorIndex: number, stateIndex: number) {
+        const panel = CheckResultViewPanel.currentPanel;
+        if (!panel) {
+            return;
+        }
+        panel.panel.reveal(undefined, true);
+        panel.panel.webview.postMessage({
+            selectState: { errorIndex, stateIndex }
+        });
+    }
+
     public static isPanelFocused(): boolean {
         return CheckResultViewPanel.currentPanel?.panel.active === true;
     }
@@ -115,6 +154,43 @@ class CheckResultViewPanel {
         this.panel.webview.postMessage({
             checkResult: checkResult
         });
+        // The settings are per module, they only need to be sent again when another spec is checked
+        if (this.getModuleName() !== this.sequenceDiagramModule) {
+            this.updateSequenceDiagramConfig();
+        }
+    }
+
+    private updateSequenceDiagramConfig() {
+        const moduleName = this.getModuleName();
+        this.sequenceDiagramModule = moduleName;
+        const configs = vscode.workspace.getConfiguration()
+            .get<Record<string, SequenceDiagramConfig>>(CFG_SEQUENCE_DIAGRAMS, {});
+        this.panel.webview.postMessage({
+            sequenceDiagramConfig: moduleName ? configs[moduleName] ?? null : null
+        });
+    }
+
+    /**
+     * Saves sequence diagram settings for the checked specification, the webview gets them back
+     * as the configuration changes.
+     */
+    private saveSequenceDiagramConfig(config: SequenceDiagramConfig) {
+        const moduleName = this.getModuleName();
+        if (!moduleName) {
+            return;
+        }
+        const configs = vscode.workspace.getConfiguration()
+            .get<Record<string, SequenceDiagramConfig>>(CFG_SEQUENCE_DIAGRAMS, {});
+        const target = vscode.workspace.name !== undefined ?
+            vscode.ConfigurationTarget.Workspace :
+            vscode.ConfigurationTarget.Global;
+        vscode.workspace.getConfiguration().update(
+            CFG_SEQUENCE_DIAGRAMS, { ...configs, [moduleName]: config }, target);
+    }
+
+    private getModuleName(): string | undefined {
+        const specFiles = this.checkResult.specFiles;
+        return specFiles instanceof SpecFiles ? path.parse(specFiles.tlaFileName).name : undefined;
     }
 
     private dispose() {
@@ -171,6 +247,8 @@ class CheckResultViewPanel {
     private handleWebviewMessage(message: any) {
         if (message.command === 'stop') {
             vscode.commands.executeCommand(CMD_CHECK_MODEL_STOP);
+        } else if (message.command === 'stopKeepCheckpoint') {
+            vscode.commands.executeCommand(CMD_CHECK_MODEL_STOP_KEEP_CHECKPOINT);
         } else if (message.command === 'showTlcOutput') {
             vscode.commands.executeCommand(CMD_SHOW_TLC_OUTPUT);
         } else if (message.command === 'runAgain') {
@@ -183,6 +261,12 @@ class CheckResultViewPanel {
             } else {
                 vscode.window.showWarningMessage('No specification file available for debugging');
             }
+        } else if (message.command === 'exportErrorTrace') {
+            vscode.commands.executeCommand(CMD_EXPORT_ERROR_TRACE, message.errorIndex);
+        } else if (message.command === 'saveSequenceDiagramConfig') {
+            this.saveSequenceDiagramConfig(message.config);
+        } else if (message.command === 'showTraceGraph') {
+            vscode.commands.executeCommand(CMD_SHOW_TRACE_GRAPH, message.errorIndex);
         } else if (message.command === 'openAIChat') {
             const traceText = this.formatErrorTrace();
             const prompt = `Help me analyze this TLA+ counterexample/trace.
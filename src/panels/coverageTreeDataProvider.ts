@@ -0,0 +1,166 @@
+import * as vscode from 'vscode';
+import { CoverageItem, SubexpressionCoverageItem } from '../model/check';
+import {
+    CoverageSortOrder, describeActionCoverage, groupCoverageByModule, isNeverEnabled, ModuleCoverage,
+    sortSubexpressionCoverage
+} from '../model/actionCoverage';
+import { TlcCoverageDecorationProvider } from '../tlcCoverage';
+
+const MAX_LABEL_LENGTH = 60;
+const NEVER_ENABLED_ICON = new vscode.ThemeIcon('warning', new vscode.ThemeColor('list.warningForeground'));
+
+export class CoverageModuleItem extends vscode.TreeItem {
+    constructor(readonly coverage: ModuleCoverage) {
+        super(coverage.module, vscode.TreeItemCollapsibleState.Expanded);
+        this.id = `module:${coverage.module}`;
+        this.iconPath = new vscode.ThemeIcon('symbol-module');
+        this.description = `${coverage.actions.length} actions`
+            + (coverage.neverEnabled > 0 ? `, ${coverage.neverEnabled} never enabled` : '');
+    }
+}
+
+export class CoverageActionItem extends vscode.TreeItem {
+    constructor(readonly coverage: CoverageItem, readonly parent: CoverageModuleItem) {
+        super(
+            coverage.action,
+            coverage.subexpressions.length > 0
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None
+        );
+        this.id = `action:${coverage.module}:${coverage.action}:${coverage.range.start.line}`;
+        this.description = describeActionCoverage(coverage);
+        this.iconPath = isNeverEnabled(coverage) ? NEVER_ENABLED_ICON : new vscode.ThemeIcon('symbol-event');
+        this.command = openSourceCommand(coverage.filePath, coverage.range);
+    }
+}
+
+export class CoverageSubexpressionItem extends vscode.TreeItem {
+    constructor(
+        readonly coverage: SubexpressionCoverageItem,
+        readonly parent: CoverageActionItem | CoverageSubexpressionItem,
+        label: string
+    ) {
+        super(
+            label,
+            coverage.children.length > 0
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None
+        );
+        this.description = coverage.cost === undefined
+            ? coverage.count.toLocaleString()
+            : `${coverage.count.toLocaleString()} (cost ${coverage.cost.toLocaleString()})`;
+        this.tooltip = `Line ${coverage.range.start.line + 1}, column ${coverage.range.start.character + 1}`
+            + ` of module ${coverage.module}`;
+        this.command = openSourceCommand(coverage.filePath, coverage.range);
+    }
+}
+
+export type CoverageTreeItem = CoverageModuleItem | CoverageActionItem | CoverageSubexpressionItem;
+
+/**
+ * Shows coverage of the last model checking run as a tree of modules, actions and their subexpressions.
+ */
+export class CoverageTreeDataProvider implements vscode.TreeDataProvider<CoverageTreeItem> {
+    static readonly viewType = 'tlaplus.coverage';
+    private _onDidChangeTreeData = new vscode.EventEmitter<CoverageTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+    private sortOrder = CoverageSortOrder.Source;
+    // Items are kept so that actions can be revealed in the view
+    private moduleItems: CoverageModuleItem[] = [];
+    private actionItems = new Map<CoverageModuleItem, CoverageActionItem[]>();
+
+    constructor(
+        private readonly coverage: TlcCoverageDecorationProvider,
+        context: vscode.ExtensionContext
+    ) {
+        context.subscriptions.push(coverage.onDidChangeCoverage(() => this.refresh()));
+        this.refresh();
+    }
+
+    getSortOrder(): CoverageSortOrder {
+        return this.sortOrder;
+    }
+
+    setSortOrder(order: CoverageSortOrder): void {
+        this.sortOrder = order;
+        this.refresh();
+    }
+
+    hasCoverage(): boolean {
+        return this.moduleItems.length > 0;
+    }
+
+    /**
+     * Finds the tree item of the given action.
+     */
+    findActionItem(coverage: CoverageItem): CoverageActionItem | undefined {
+        for (const items of this.actionItems.values()) {
+            const found = items.find((item) => item.coverage === coverage);
+            if (found) {
+                return found;
+            }
+        }
+        return undefined;
+    }
+
+    async getChildren(element?: CoverageTreeItem): Promise<CoverageTreeItem[]> {
+        if (!element) {
+            return this.moduleItems;
+        }
+        if (element instanceof CoverageModuleItem) {
+            return this.actionItems.get(element) ?? [];
+        }
+        const children = element instanceof CoverageActionItem
+            ? element.coverage.subexpressions
+            : element.coverage.children;
+        const sorted = sortSubexpressionCoverage(children, this.sortOrder);
+        const labels = await Promise.all(sorted.map((sub) => getSourceLabel(sub)));
+        return sorted.map((sub, idx) => new CoverageSubexpressionItem(sub, element, labels[idx]));
+    }
+
+    getParent(element: CoverageTreeItem): CoverageTreeItem | undefined {
+        return element instanceof CoverageModuleItem ? undefined : element.parent;
+    }
+
+    getTreeItem(element: CoverageTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    private refresh(): void {
+        const modules = groupCoverageByModule(this.coverage.getAllCoverage(), this.sortOrder);
+        this.moduleItems = modules.map((m) => new CoverageModuleItem(m));
+        this.actionItems = new Map(this.moduleItems.map((item) => [
+            item,
+            item.coverage.actions.map((action) => new CoverageActionItem(action, item))
+        ]));
+        this._onDidChangeTreeData.fire();
+    }
+}
+
+function openSourceCommand(filePath: string | undefined, range: vscode.Range): vscode.Command | undefined {
+    if (!filePath) {
+        return undefined;
+    }
+    return {
+        command: 'vscode.open',
+        title: 'Go to Source',
+        arguments: [vscode.Uri.file(filePath), { selection: range }]
+    };
+}
+
+/**
+ * Returns the beginning of the subexpression source, so that subexpressions can be told apart in the tree.
+ */
+async function getSourceLabel(sub: SubexpressionCoverageItem): Promise<string> {
+    const location = `line ${sub.range.start.line + 1}, col ${sub.range.start.character + 1}`;
+    if (!sub.filePath) {
+        return location;
+    }
+    try {
+        const doc = await vscode.workspace.openTextDocument(sub.filePath);
+        const text = doc.getText(sub.range).replace(/\s+/g, ' ').trim();
+        return text.length > MAX_LABEL_LENGTH ? text.substring(0, MAX_LABEL_LENGTH) + '…' : text || location;
+    } catch (err) {
+        return location;
+    }
+}
@@ -0,0 +1,68 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { DebugHistory, RecordedStep, RecordedVariable } from '../debugger/debugHistory';
+
+export class DebugHistoryStepItem extends vscode.TreeItem {
+    constructor(readonly step: RecordedStep, current: boolean) {
+        super(
+            `${step.index + 1}: ${step.frameName}`,
+            step.variables.length > 0
+                ? vscode.TreeItemCollapsibleState.Collapsed
+                : vscode.TreeItemCollapsibleState.None
+        );
+        const location = step.filePath ? `${path.basename(step.filePath)}:${step.line}` : `line ${step.line}`;
+        this.description = current ? `${location} · current` : location;
+        this.tooltip = `Stopped on ${step.reason} at ${step.filePath ?? '?'}:${step.line}:${step.column}`;
+        this.iconPath = new vscode.ThemeIcon(current ? 'debug-stackframe' : 'debug-stackframe-dot');
+        this.contextValue = 'debugHistoryStep';
+        if (step.filePath) {
+            const position = new vscode.Position(Math.max(step.line - 1, 0), Math.max(step.column - 1, 0));
+            this.command = {
+                command: 'vscode.open',
+                title: 'Go to Source',
+                arguments: [vscode.Uri.file(step.filePath), { selection: new vscode.Range(position, position) }]
+            };
+        }
+    }
+}
+
+export class DebugHistoryVariableItem extends vscode.TreeItem {
+    constructor(variable: RecordedVariable) {
+        super(variable.name, vscode.TreeItemCollapsibleState.None);
+        this.description = variable.value;
+        this.tooltip = `${variable.name} = ${variable.value}`;
+    }
+}
+
+type DebugHistoryItem = DebugHistoryStepItem | DebugHistoryVariableItem;
+
+/**
+ * Shows the states visited in the last TLA+ debug session.
+ */
+export class DebugHistoryTreeDataProvider implements vscode.TreeDataProvider<DebugHistoryItem> {
+    static readonly viewType = 'tlaplus.debug-history';
+    private _onDidChangeTreeData = new vscode.EventEmitter<DebugHistoryItem | undefined | null | void>();
+    readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+    constructor(
+        private readonly history: DebugHistory,
+        context: vscode.ExtensionContext
+    ) {
+        context.subscriptions.push(history.onDidChange(() => this._onDidChangeTreeData.fire()));
+    }
+
+    getChildren(element?: DebugHistoryItem): Thenable<DebugHistoryItem[]> {
+        if (element instanceof DebugHistoryStepItem) {
+            return Promise.resolve(element.step.variables.map((v) => new DebugHistoryVariableItem(v)));
+        }
+        if (element) {
+            return Promise.resolve([]);
+        }
+        const current = this.history.getCurrentStep();
+        return Promise.resolve(this.history.getSteps().map((step) => new DebugHistoryStepItem(step, step === current)));
+    }
+
+    getTreeItem(element: DebugHistoryItem): vscode.TreeItem {
+        return element;
+    }
+}
@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import { getNonce } from './utilities/getNonce';
+import { getUri } from './utilities/getUri';
+import { DelayedFn, deleteDir, listFiles } from '../common';
+import { ModelCheckResult, SpecFiles } from '../model/check';
+import { SimulationStats } from '../model/coverage';
+import {
+    buildSimulationDashboardData, parseSampledTrace, renameTraceModule, SampledTraceInfo
+} from '../model/simulation';
+import { parseNDJSON } from '../parsers/ndjson';
+import { onDidUpdateCheckResult } from '../commands/checkModel';
+
+const SHOWN_SAMPLED_TRACES = 20;
+const UPDATE_PERIOD = 1000;     // ms
+
+/**
+ * Shows how a simulation run progresses, along with the traces TLC samples during the run.
+ */
+export class SimulationDashboardPanel {
+    private static readonly viewType = 'simulationDashboard';
+    private static currentPanel: SimulationDashboardPanel | undefined;
+
+    private readonly panel: vscode.WebviewPanel;
+    private readonly disposables: vscode.Disposable[] = [];
+    private readonly delayedUpdate = new DelayedFn(UPDATE_PERIOD);
+    private statsWatcher: vscode.FileSystemWatcher | undefined;
+    private checkResult: ModelCheckResult | undefined;
+    private startTime = Date.now();
+    private endTime: number | undefined;
+    private statsFilePath: string | undefined;
+    private stats: SimulationStats[] = [];
+    private sampledTraces: SampledTraceInfo[] = [];
+    private disposed = false;
+
+    private constructor(
+        private readonly extensionUri: vscode.Uri,
+        private specFiles: SpecFiles,
+        private sampledTracesDir: string | undefined
+    ) {
+        this.panel = vscode.window.createWebviewPanel(
+            SimulationDashboardPanel.viewType,
+            `Simulation: ${specFiles.modelName}`,
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'out')]
+            }
+        );
+        this.panel.iconPath = {
+            light: vscode.Uri.joinPath(extensionUri, 'resources', 'images', 'tlaplus-nightly.png'),
+            dark: vscode.Uri.joinPath(extensionUri, 'resources', 'images', 'tlaplus-nightly.png')
+        };
+        this.panel.webview.html = this.getWebviewContent(this.panel.webview);
+        this.panel.webview.onDidReceiveMessage((message) => this.handleMessage(message), undefined, this.disposables);
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+        onDidUpdateCheckResult((result) => this.onCheckResult(result), undefined, this.disposables);
+        this.setupStatsWatcher();
+    }
+
+    /**
+     * Shows the dashboard for a simulation run that is about to start.
+     * Traces TLC samples during the run are looked for in the given directory.
+     */
+    public static start(
+        extensionUri: vscode.Uri,
+        specFiles: SpecFiles,
+        sampledTracesDir: string | undefined
+    ): SimulationDashboardPanel {
+        const current = SimulationDashboardPanel.currentPanel;
+        if (!current) {
+            SimulationDashboardPanel.currentPanel = new SimulationDashboardPanel(
+                extensionUri, specFiles, sampledTracesDir);
+            return SimulationDashboardPanel.currentPanel;
+        }
+        current.removeSampledTraces();
+        current.specFiles = specFiles;
+        current.sampledTracesDir = sampledTracesDir;
+        current.checkResult = undefined;
+        current.startTime = Date.now();
+        current.endTime = undefined;
+        current.statsFilePath = undefined;
+        current.stats = [];
+        current.sampledTraces = [];
+        current.panel.title = `Simulation: ${specFiles.modelName}`;
+        current.setupStatsWatcher();
+        current.sendData();
+        current.panel.reveal(vscode.ViewColumn.Beside);
+        return current;
+    }
+
+    /**
+     * Marks the run as finished, the dashboard keeps showing its results.
+     */
+    public finish(): void {
+        this.endTime = Date.now();
+        if (this.disposed) {
+            // The panel was closed while TLC was still writing traces, nothing shows them anymore
+            this.removeSampledTraces();
+            return;
+        }
+        this.update();
+    }
+
+    private onCheckResult(result: ModelCheckResult): void {
+        const specFiles = result.specFiles instanceof SpecFiles ? result.specFiles : undefined;
+        if (this.endTime === undefined && specFiles?.tlaFilePath === this.specFiles.tlaFilePath) {
+            this.checkResult = result;
+            this.delayedUpdate.do(() => this.update());
+        }
+    }
+
+    /**
+     * Specs write their statistics series to .ndjson files next to them, the latest file that was
+     * written during the run is shown.
+     */
+    private setupStatsWatcher(): void {
+        this.statsWatcher?.dispose();
+        this.statsWatcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(this.specFiles.tlaFilePath)), '*.ndjson'));
+        const onStatsFile = (uri: vscode.Uri) => {
+            if (this.endTime === undefined) {
+                this.statsFilePath = uri.fsPath;
+                this.delayedUpdate.do(() => this.update());
+            }
+        };
+        this.statsWatcher.onDidCreate(onStatsFile);
+        this.statsWatcher.onDidChange(onStatsFile);
+    }
+
+    private async update(): Promise<void> {
+        try {
+            await Promise.all([this.readStats(), this.readSampledTraces()]);
+            // The panel may be closed while the results are read
+            if (!this.disposed) {
+                this.sendData();
+            }
+        } catch (err) {
+            console.error(`Cannot read simulation results: ${err}`);
+        }
+    }
+
+    private async readStats(): Promise<void> {
+        if (this.statsFilePath) {
+            this.stats = parseNDJSON(await fs.readFile(this.statsFilePath, 'utf-8'));
+        }
+    }
+
+    private async readSampledTraces(): Promise<void> {
+        const dir = this.sampledTracesDir;
+        if (!dir) {
+            return;
+        }
+        const fileNames = await listFiles(dir);
+        const files = await Promise.all(fileNames.map(async (name) => {
+            const filePath = path.join(dir, name);
+            return { name, filePath, modified: (await fs.stat(filePath)).mtimeMs };
+        }));
+        const latest = files.sort((a, b) => b.modified - a.modified).slice(0, SHOWN_SAMPLED_TRACES);
+        const known = new Map(this.sampledTraces.map((t) => [t.filePath, t]));
+        this.sampledTraces = await Promise.all(latest.map(async (file) => {
+            // Trace files are written once, so there's no need to read them again
+            const knownTrace = known.get(file.filePath);
+            if (knownTrace) {
+                return knownTrace;
+            }
+            const states = parseSampledTrace(await fs.readFile(file.filePath, 'utf-8'));
+            return { name: path.parse(file.name).name, filePath: file.filePath, length: states.length };
+        }));
+    }
+
+    private sendData(): void {
+        const now = this.endTime ?? Date.now();
+        this.panel.webview.postMessage({
+            type: 'update',
+            data: buildSimulationDashboardData(
+                this.specFiles.modelName,
+                this.checkResult,
+                Math.round((now - this.startTime) / 1000),
+                this.endTime === undefined,
+                this.statsFilePath ? vscode.workspace.asRelativePath(this.statsFilePath) : undefined,
+                this.stats,
+                this.sampledTraces,
+                this.sampledTracesDir !== undefined
+            )
+        });
+    }
+
+    private async saveTrace(filePath: string): Promise<void> {
+        if (!this.sampledTraces.some((t) => t.filePath === filePath)) {
+            return;
+        }
+        const specName = path.parse(this.specFiles.tlaFileName).name;
+        const defaultName = `${specName}_${path.parse(filePath).name}.tla`;
+        const fileUri = await vscode.window.showSaveDialog({
+            defaultUri: vscode.Uri.file(path.join(this.specFiles.outputDir, defaultName)),
+            filters: { 'TLA+ modules': ['tla'] },
+            saveLabel: 'Save'
+        });
+        if (!fileUri) {
+            return;
+        }
+        // TLC's own trace module is kept, only its name has to match the new file
+        const moduleName = path.parse(fileUri.fsPath).name;
+        await fs.writeFile(fileUri.fsPath, renameTraceModule(await fs.readFile(filePath, 'utf-8'), moduleName));
+        await vscode.window.showTextDocument(fileUri);
+    }
+
+    private handleMessage(message: { type: string; filePath?: string }): void {
+        switch (message.type) {
+            case 'ready':
+                this.sendData();
+                break;
+            case 'saveTrace':
+                if (message.filePath) {
+                    this.saveTrace(message.filePath)
+                        .catch((err) => vscode.window.showErrorMessage(`Cannot save trace: ${err}`));
+                }
+                break;
+        }
+    }
+
+    private removeSampledTraces(): void {
+        if (this.sampledTracesDir) {
+            deleteDir(this.sampledTracesDir)
+                .catch((err) => console.error(`Cannot delete sampled traces: ${err}`));
+        }
+    }
+
+    private getWebviewContent(webview: vscode.Webview): string {
+        const nonce = getNonce();
+        const scriptUri = getUri(webview, this.extensionUri, ['out', 'simulationDashboard.js']);
+        const styleUri = getUri(webview, this.extensionUri, ['out', 'simulationDashboard.css']);
+
+        return `<!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <meta http-equiv="Content-Security-Policy"
+                    content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline';
+                        script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+                <link href="${styleUri}" rel="stylesheet">
+                <title>Simulation Dashboard</title>
+            </head>
+            <body>
+                <div id="root"></div>
+                <script nonce="${nonce}" src="${scriptUri}"></script>
+            </body>
+            </html>`;
+    }
+
+    private dispose(): void {
+        SimulationDashboardPanel.currentPanel = undefined;
+        this.disposed = true;
+        // TLC keeps writing traces until the run is over
+        if (this.endTime !== undefined) {
+            this.removeSampledTraces();
+        }
+        this.statsWatcher?.dispose();
+        this.panel.dispose();
+        while (this.disposables.length) {
+            this.disposables.pop()?.dispose();
+        }
+    }
+}
@@ -0,0 +1,115 @@
+import * as vscode from 'vscode';
+import { getNonce } from './utilities/getNonce';
+import { getUri } from './utilities/getUri';
+import { StateGraph } from '../model/traceGraph';
+import { revealCheckResultState } from './checkResultView';
+
+export class TraceGraphPanel {
+    private static readonly viewType = 'traceGraph';
+    private static currentPanel: TraceGraphPanel | undefined;
+
+    private readonly panel: vscode.WebviewPanel;
+    private readonly extensionUri: vscode.Uri;
+    private readonly disposables: vscode.Disposable[] = [];
+    private graph: StateGraph;
+
+    private constructor(extensionUri: vscode.Uri, graph: StateGraph) {
+        this.extensionUri = extensionUri;
+        this.graph = graph;
+
+        this.panel = vscode.window.createWebviewPanel(
+            TraceGraphPanel.viewType,
+            `Graph: ${graph.title}`,
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true,
+                localResourceRoots: [vscode.Uri.joinPath(extensionUri, 'out')]
+            }
+        );
+
+        this.panel.iconPath = {
+            dark: vscode.Uri.joinPath(extensionUri, 'resources', 'images', 'preview-dark.svg'),
+            light: vscode.Uri.joinPath(extensionUri, 'resources', 'images', 'preview-light.svg'),
+        };
+
+        this.panel.webview.html = this.getWebviewContent(this.panel.webview);
+
+        this.panel.webview.onDidReceiveMessage(
+            message => this.handleMessage(message),
+            undefined,
+            this.disposables
+        );
+
+        this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+
+        this.sendGraph();
+    }
+
+    public static render(extensionUri: vscode.Uri, graph: StateGraph): void {
+        if (TraceGraphPanel.currentPanel) {
+            TraceGraphPanel.currentPanel.graph = graph;
+            TraceGraphPanel.currentPanel.panel.title = `Graph: ${graph.title}`;
+            TraceGraphPanel.currentPanel.sendGraph();
+            TraceGraphPanel.currentPanel.panel.reveal(vscode.ViewColumn.Beside);
+        } else {
+            TraceGraphPanel.currentPanel = new TraceGraphPanel(extensionUri, graph);
+        }
+    }
+
+    private sendGraph(): void {
+        this.panel.webview.postMessage({
+            type: 'update',
+            graph: this.graph
+        });
+    }
+
+    private handleMessage(message: { type: string; errorIndex?: number; stateIndex?: number }): void {
+        switch (message.type) {
+            case 'ready':
+                this.sendGraph();
+                break;
+            case 'selectState':
+                if (message.errorIndex !== undefined && message.stateIndex !== undefined) {
+                    revealCheckResultState(message.errorIndex, message.stateIndex);
+                }
+                break;
+        }
+    }
+
+    private getWebviewContent(webview: vscode.Webview): string {
+        const nonce = getNonce();
+        const scriptUri = getUri(webview, this.extensionUri, ['out', 'trace-graph-view.js']);
+        const styleUri = getUri(webview, this.extensionUri, ['out', 'trace-graph-view.css']);
+
+        return `<!DOCTYPE html>
+            <html lang="en">
+            <head>
+                <meta charset="UTF-8">
+                <meta name="viewport" content="width=device-width, initial-scale=1.0">
+                <meta http-equiv="Content-Security-Policy"
+                    content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline';
+                        script-src 'nonce-${nonce}'; font-src ${webview.cspSource};">
+                <link href="${styleUri}" rel="stylesheet">
+                <title>State Graph</title>
+            </head>
+            <body>
+                <div id="root"></div>
+                <script type="module" nonce="${nonce}" src="${scriptUri}"></script>
+            </body>
+            </html>`;
+    }
+
+    private dispose(): void {
+        TraceGraphPanel.currentPanel = undefined;
+
+        this.panel.dispose();
+
+        while (this.disposables.length) {
+            const disposable = this.disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+}
@@ -0,0 +1,185 @@
+import * as vscode from 'vscode';
+
+export const TLA_CFG_KEYWORDS = [
+    'SPECIFICATION', 'INVARIANT', 'INVARIANTS', 'PROPERTY', 'PROPERTIES', 'CONSTANT', 'CONSTANTS', 'INIT',
+    'NEXT', 'SYMMETRY', 'CONSTRAINT', 'CONSTRAINTS', 'ACTION_CONSTRAINT', 'ACTION_CONSTRAINTS', 'VIEW',
+    'CHECK_DEADLOCK', 'POSTCONDITION', 'ALIAS'
+];
+
+/**
+ * The highest level of operators each section of a model config file accepts.
+ */
+export const CFG_SECTION_LEVELS: { [keyword: string]: number } = {
+    'SPECIFICATION': 3,
+    'INIT': 1,
+    'NEXT': 2,
+    'INVARIANT': 1,
+    'INVARIANTS': 1,
+    'PROPERTY': 3,
+    'PROPERTIES': 3,
+    'CONSTRAINT': 1,
+    'CONSTRAINTS': 1,
+    'ACTION_CONSTRAINT': 2,
+    'ACTION_CONSTRAINTS': 2,
+    'SYMMETRY': 0,
+    'VIEW': 1,
+    'POSTCONDITION': 1,
+    'ALIAS': 1
+};
+
+// Longer keywords go first, so that INVARIANTS is not taken for INVARIANT
+const KEYWORDS_REGEX = new RegExp(
+    '\\b(' + TLA_CFG_KEYWORDS.slice().sort((a, b) => b.length - a.length).join('|') + ')\\b', 'g');
+const NAME_REGEX = /[A-Za-z0-9_]*[A-Za-z][A-Za-z0-9_]*/g;
+
+/**
+ * A name mentioned in a model config file.
+ */
+export interface CfgName {
+    name: string;
+    range: vscode.Range;
+}
+
+/**
+ * A keyword of a model config file along with the text that follows it up to the next keyword.
+ */
+export interface CfgSection {
+    keyword: string;
+    range: vscode.Range;            // Range of the keyword
+    bodyRange: vscode.Range;        // Range of the text after the keyword
+    body: string;                   // Text after the keyword with comments blanked out
+    names: CfgName[];               // All the identifiers in the body
+}
+
+/**
+ * Splits the text of a model config file into sections started by keywords.
+ */
+export function parseCfgSections(text: string): CfgSection[] {
+    const code = maskCfgComments(text);
+    const lineStarts = [0];
+    for (let i = 0; i < code.length; i++) {
+        if (code[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+    const positionAt = (offset: number) => {
+        let line = lineStarts.length - 1;
+        while (lineStarts[line] > offset) {
+            line -= 1;
+        }
+        return new vscode.Position(line, offset - lineStarts[line]);
+    };
+    const keywords = Array.from(code.matchAll(KEYWORDS_REGEX));
+    return keywords.map((match, idx) => {
+        const start = match.index ?? 0;
+        const bodyStart = start + match[0].length;
+        const bodyEnd = idx + 1 < keywords.length ? keywords[idx + 1].index ?? code.length : code.length;
+        const body = code.substring(bodyStart, bodyEnd);
+        const names = Array.from(body.matchAll(NAME_REGEX)).map((m) => {
+            const nameStart = bodyStart + (m.index ?? 0);
+            return {
+                name: m[0],
+                range: new vscode.Range(positionAt(nameStart), positionAt(nameStart + m[0].length))
+            };
+        });
+        return {
+            keyword: match[0],
+            range: new vscode.Range(positionAt(start), positionAt(bodyStart)),
+            bodyRange: new vscode.Range(positionAt(bodyStart), positionAt(bodyEnd)),
+            body,
+            names
+        };
+    });
+}
+
+/**
+ * A constant of the spec given a value or replaced with an operator in a model config file.
+ */
+export interface CfgConstant {
+    name: CfgName;
+    operator: '=' | '<-';
+    value: CfgName | undefined;     // Operator replacing the constant, unless it is taken from another module
+    valueText: string;              // Text after the operator up to the next constant
+}
+
+/**
+ * Returns the constants of a CONSTANT(S) section. Names used in values, like model values, are left out.
+ */
+export function parseCfgConstants(section: CfgSection): CfgConstant[] {
+    const matches = Array.from(section.body.matchAll(NAME_REGEX));
+    const constants: CfgConstant[] = [];
+    const valueStarts: number[] = [];
+    const nameStarts: number[] = [];
+    let depth = 0;
+    let prevEnd = 0;
+    matches.forEach((match, idx) => {
+        const start = match.index ?? 0;
+        depth += countNesting(section.body.substring(prevEnd, start));
+        prevEnd = start + match[0].length;
+        const assignment = /^\s*(<-|=)/.exec(section.body.substring(prevEnd));
+        if (depth > 0 || !assignment) {
+            return;
+        }
+        const operator = assignment[1] === '<-' ? '<-' : '=';
+        const next = matches[idx + 1];
+        const between = next ? section.body.substring(prevEnd + assignment[0].length, next.index ?? 0) : '';
+        // Operators from other modules are given as [Mod] Op
+        const value = operator === '<-' && next && between.trim() === '' ? section.names[idx + 1] : undefined;
+        constants.push({ name: section.names[idx], operator, value, valueText: '' });
+        nameStarts.push(start);
+        valueStarts.push(prevEnd + assignment[0].length);
+    });
+    constants.forEach((constant, idx) => {
+        const valueEnd = idx + 1 < nameStarts.length ? nameStarts[idx + 1] : section.body.length;
+        constant.valueText = section.body.substring(valueStarts[idx], valueEnd).trim();
+    });
+    return constants;
+}
+
+function countNesting(text: string): number {
+    const opening = text.match(/<<|[{([]/g)?.length ?? 0;
+    const closing = text.match(/>>|[})\]]/g)?.length ?? 0;
+    return opening - closing;
+}
+
+/**
+ * Returns names of the invariants and properties listed in a model config file.
+ */
+export function parseCfgProperties(text: string): CfgName[] {
+    return parseCfgSections(text)
+        .filter((s) => /^(INVARIANTS?|PROPERT(Y|IES))$/.test(s.keyword))
+        .flatMap((s) => s.names);
+}
+
+/**
+ * Replaces comments with spaces, keeping line breaks so that offsets don't change.
+ */
+function maskCfgComments(text: string): string {
+    const blank = (s: string) => s.replace(/[^\n]/g, ' ');
+    let result = '';
+    let depth = 0;
+    let i = 0;
+    while (i < text.length) {
+        if (text.startsWith('(*', i)) {
+            depth += 1;
+            result += '  ';
+            i += 2;
+        } else if (depth > 0 && text.startsWith('*)', i)) {
+            depth -= 1;
+            result += '  ';
+            i += 2;
+        } else if (depth > 0) {
+            result += blank(text[i]);
+            i += 1;
+        } else if (text.startsWith('\\*', i)) {
+            const end = text.indexOf('\n', i);
+            const commentEnd = end < 0 ? text.length : end;
+            result += blank(text.substring(i, commentEnd));
+            i = commentEnd;
+        } else {
+            result += text[i];
+            i += 1;
+        }
+    }
+    return result;
+}
@@ -0,0 +1,212 @@
+/**
+ * A node or an edge of a DOT graph with its attributes, like label or style.
+ */
+export interface DotNode {
+    id: string;
+    attrs: Map<string, string>;
+}
+
+export interface DotEdge {
+    from: string;
+    to: string;
+    attrs: Map<string, string>;
+}
+
+export interface DotGraph {
+    nodes: DotNode[];
+    edges: DotEdge[];
+}
+
+/**
+ * Subgraphs TLC adds next to the state graph to explain colors of actions.
+ */
+const LEGEND_SUBGRAPH_REGEX = /^cluster_legend/;
+
+/**
+ * Parses the subset of the DOT language that TLC writes with the -dump dot option.
+ * Graph attributes and default node and edge attributes are skipped.
+ */
+export function parseDotGraph(text: string): DotGraph {
+    const tokens = tokenize(text);
+    const graph: DotGraph = { nodes: [], edges: [] };
+    const nodeIndexes = new Map<string, number>();
+    const addNode = (id: string, attrs: Map<string, string>) => {
+        const index = nodeIndexes.get(id);
+        if (index === undefined) {
+            nodeIndexes.set(id, graph.nodes.length);
+            graph.nodes.push({ id, attrs });
+        } else {
+            attrs.forEach((value, key) => graph.nodes[index].attrs.set(key, value));
+        }
+    };
+
+    let pos = 0;
+    let legendDepth = 0;   // Nesting level of braces inside a legend subgraph, 0 when outside
+    while (pos < tokens.length) {
+        const token = tokens[pos];
+        if (token.value === 'subgraph' && !token.quoted) {
+            const name = tokens[pos + 1]?.value ?? '';
+            if (legendDepth === 0 && LEGEND_SUBGRAPH_REGEX.test(name)) {
+                legendDepth = 1;
+                pos = skipUntil(tokens, pos, '{') + 1;
+                continue;
+            }
+        }
+        if (legendDepth > 0) {
+            if (token.value === '{' && !token.quoted) {
+                legendDepth += 1;
+            } else if (token.value === '}' && !token.quoted) {
+                legendDepth -= 1;
+            }
+            pos += 1;
+            continue;
+        }
+        if (isKeyword(token)) {
+            // Skip the graph name or the default attributes
+            const next = tokens[pos + 1];
+            pos = next && isId(next) && !isKeyword(next) ? pos + 2 : parseAttrs(tokens, pos + 1)[1];
+            continue;
+        }
+        if (!isId(token)) {
+            pos += 1;
+            continue;
+        }
+        const next = tokens[pos + 1];
+        if (next && next.value === '=' && !next.quoted) {
+            // Graph attribute
+            pos += 3;
+            continue;
+        }
+        if (next && next.value === '->' && !next.quoted && tokens[pos + 2] && isId(tokens[pos + 2])) {
+            const to = tokens[pos + 2].value;
+            const [attrs, end] = parseAttrs(tokens, pos + 3);
+            addNode(token.value, new Map());
+            addNode(to, new Map());
+            graph.edges.push({ from: token.value, to, attrs });
+            pos = end;
+            continue;
+        }
+        const [attrs, end] = parseAttrs(tokens, pos + 1);
+        addNode(token.value, attrs);
+        pos = end;
+    }
+    return graph;
+}
+
+interface Token {
+    value: string;
+    quoted: boolean;
+}
+
+function tokenize(text: string): Token[] {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            i += 1;
+        } else if (ch === '/' && text[i + 1] === '/') {
+            i = skipLine(text, i);
+        } else if (ch === '#' && (i === 0 || text[i - 1] === '\n')) {
+            i = skipLine(text, i);
+        } else if (ch === '/' && text[i + 1] === '*') {
+            const end = text.indexOf('*/', i + 2);
+            i = end < 0 ? text.length : end + 2;
+        } else if (ch === '"') {
+            const [value, end] = readQuoted(text, i + 1);
+            tokens.push({ value, quoted: true });
+            i = end;
+        } else if (ch === '<') {
+            const [value, end] = readHtml(text, i + 1);
+            tokens.push({ value, quoted: true });
+            i = end;
+        } else if (ch === '-' && (text[i + 1] === '>' || text[i + 1] === '-')) {
+            tokens.push({ value: '->', quoted: false });
+            i += 2;
+        } else if ('{}[]=;,:'.includes(ch)) {
+            tokens.push({ value: ch, quoted: false });
+            i += 1;
+        } else {
+            const match = /^-?[\w.]+/.exec(text.substring(i));
+            const value = match ? match[0] : ch;
+            tokens.push({ value, quoted: false });
+            i += value.length;
+        }
+    }
+    return tokens;
+}
+
+function skipLine(text: string, pos: number): number {
+    const end = text.indexOf('\n', pos);
+    return end < 0 ? text.length : end + 1;
+}
+
+function readQuoted(text: string, pos: number): [string, number] {
+    let value = '';
+    let i = pos;
+    while (i < text.length && text[i] !== '"') {
+        if (text[i] === '\\' && i + 1 < text.length) {
+            const next = text[i + 1];
+            if (next === 'n' || next === 'l' || next === 'r') {
+                value += '\n';
+            } else if (next === '\n') {
+                // Line continuation
+            } else {
+                value += next;
+            }
+            i += 2;
+        } else {
+            value += text[i];
+            i += 1;
+        }
+    }
+    return [value, i + 1];
+}
+
+function readHtml(text: string, pos: number): [string, number] {
+    let depth = 1;
+    let i = pos;
+    while (i < text.length && depth > 0) {
+        if (text[i] === '<') {
+            depth += 1;
+        } else if (text[i] === '>') {
+            depth -= 1;
+        }
+        i += 1;
+    }
+    return [text.substring(pos, i - 1), i];
+}
+
+function parseAttrs(tokens: Token[], pos: number): [Map<string, string>, number] {
+    const attrs = new Map<string, string>();
+    let i = pos;
+    while (tokens[i] && tokens[i].value === '[' && !tokens[i].quoted) {
+        i += 1;
+        while (tokens[i] && !(tokens[i].value === ']' && !tokens[i].quoted)) {
+            if (tokens[i + 1]?.value === '=' && tokens[i + 2]) {
+                attrs.set(tokens[i].value, tokens[i + 2].value);
+                i += 3;
+            } else {
+                i += 1;
+            }
+        }
+        i += 1;
+    }
+    return [attrs, i];
+}
+
+function skipUntil(tokens: Token[], pos: number, value: string): number {
+    let i = pos;
+    while (i < tokens.length && !(tokens[i].value === value && !tokens[i].quoted)) {
+        i += 1;
+    }
+    return i;
+}
+
+function isId(token: Token): boolean {
+    return token.quoted || /^-?[\w.]+$/.test(token.value);
+}
+
+function isKeyword(token: Token): boolean {
+    return !token.quoted && /^(strict|digraph|graph|subgraph|node|edge)$/i.test(token.value);
+}
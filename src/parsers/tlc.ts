@@ -5,7 +5,8 @@ import { clearTimeout } from 'timers';
 import { CheckStatus, ModelCheckResult, InitialStateStatItem, CoverageItem, MessageLine, MessageSpan, ErrorTraceItem,
     CheckState, OutputLine, StructureValue, findChanges, ModelCheckResultSource, WarningInfo,
     ErrorInfo,
-    SpecFiles} from '../model/check';
+    SpecFiles, DistributedWorker, WorkerState, CheckpointInfo, SimulationStatItem,
+    SubexpressionCoverageItem, PropertyCoverageItem } from '../model/check';
 import { ProcessOutputHandler } from '../outputHandler';
 import { parseVariableValue } from './tlcValues';
 import { SanyData, SanyStdoutParser } from './sany';
@@ -197,6 +198,7 @@ class ModelCheckResultBuilder {
     private processInfo: string | undefined;
     private initialStatesStat: InitialStateStatItem[] = [];
     private coverageStat: CoverageItem[] = [];
+    private propertyCoverageStat: PropertyCoverageItem[] = [];
     private readonly warnings: WarningInfo[] = [];
     private readonly errors: ErrorInfo[] = [];
     private readonly messages = new MessageStack();
@@ -204,6 +206,12 @@ class ModelCheckResultBuilder {
     private sanyData: SanyData | undefined;
     private readonly outputLines: OutputLine[] = [];
     private workersCount = 0;
+    private readonly workers: DistributedWorker[] = [];
+    private checkpointingDir: string | undefined;
+    private checkpoint: CheckpointInfo | undefined;
+    private readonly simulationStat: SimulationStatItem[] = [];
+    // Subexpressions that may contain the next reported one, the innermost last
+    private coverageParents: { level: number, children: SubexpressionCoverageItem[] }[] = [];
     private firstStatTime: moment.Moment | undefined;
     private fingerprintCollisionProbability: string | undefined;
     private traceFilePathFromOutput: string | undefined;
@@ -279,7 +287,11 @@ class ModelCheckResultBuilder {
             this.workersCount,
             this.fingerprintCollisionProbability,
             this.outputLines,
-            traceFilePath
+            traceFilePath,
+            this.workers.slice(),
+            this.checkpoint,
+            this.simulationStat.slice(),
+            this.propertyCoverageStat
         );
     }
 
@@ -302,6 +314,9 @@ class ModelCheckResultBuilder {
             this.parseWarningMessage(message.lines);
             return;
         }
+        if (tlcCode === msg.TLC_DISTRIBUTED_WORKER_LOST) {
+            this.updateWorkerState(message.lines, WorkerState.Lost);
+        }
         if (effectiveType === TlcCodeType.Error) {
             this.parseErrorMessage(message.lines);
             return;
@@ -319,6 +334,10 @@ class ModelCheckResultBuilder {
                 break;
             case msg.TLC_CHECKPOINT_START:
                 this.status = CheckStatus.Checkpointing;
+                this.parseCheckpointStart(message.lines);
+                break;
+            case msg.TLC_CHECKPOINT_END:
+                this.parseCheckpointEnd(message.lines);
                 break;
             case msg.TLC_STARTING:
                 this.parseStarting(message.lines);
@@ -348,22 +367,46 @@ class ModelCheckResultBuilder {
             case msg.TLC_DISTRIBUTED_WORKER_REGISTERED:
                 this.status = CheckStatus.WorkersRegistered;
                 this.workersCount += 1;
+                this.updateWorkerState(message.lines, WorkerState.Connected);
                 break;
             case msg.TLC_DISTRIBUTED_WORKER_DEREGISTERED:
                 this.workersCount -= 1;
+                this.updateWorkerState(message.lines, WorkerState.Disconnected);
+                break;
+            case msg.TLC_DISTRIBUTED_WORKER_STATS:
+                this.parseWorkerStats(message.lines);
+                break;
+            case msg.TLC_DISTRIBUTED_SERVER_NOT_RUNNING:
+                message.lines.forEach((line) => this.addOutputLine(line));
                 break;
             case msg.TLC_PROGRESS_STATS:
-            case msg.TLC_PROGRESS_SIMU:
                 this.parseProgressStats(message.lines);
                 this.status = CheckStatus.SuccessorStatesComputing;
                 break;
+            case msg.TLC_PROGRESS_SIMU:
+                this.parseSimulationProgress(message.lines);
+                this.status = CheckStatus.SuccessorStatesComputing;
+                break;
             case msg.TLC_COVERAGE_INIT:
                 this.coverageStat.length = 0;
+                this.propertyCoverageStat.length = 0;
                 this.parseCoverage(message.lines);
                 break;
             case msg.TLC_COVERAGE_NEXT:
                 this.parseCoverage(message.lines);
                 break;
+            case msg.TLC_COVERAGE_VALUE:
+            case msg.TLC_COVERAGE_VALUE_COST:
+                this.parseSubexpressionCoverage(message.lines);
+                break;
+            case msg.TLC_COVERAGE_PROPERTY:
+                this.parsePropertyCoverage(message.lines);
+                break;
+            case msg.TLC_COVERAGE_CONSTRAINT:
+            case msg.TLC_COVERAGE_VAR:
+                // Subexpressions of constraints and variables are not collected
+                this.coverageParents = [];
+                break;
             case msg.TLC_STATE_PRINT1:
             case msg.TLC_STATE_PRINT2:
             case msg.TLC_STATE_PRINT3:
@@ -432,6 +475,32 @@ class ModelCheckResultBuilder {
         }
     }
 
+    private parseSimulationProgress(lines: string[]) {
+        // eslint-disable-next-line max-len
+        const regex = /^Progress: ([\d,.\s]+) states checked, ([\d,.\s]+) traces generated \(trace length: mean=([\d.]+), var\(x\)=[\d.]+, sd=([\d.]+)\)/g;
+        const matches = this.tryMatchBufferLine(lines, regex);
+        if (matches) {
+            this.simulationStat.push(new SimulationStatItem(
+                parseLocalizedInt(matches[1]),
+                parseLocalizedInt(matches[2]),
+                parseFloat(matches[3]),
+                parseFloat(matches[4])
+            ));
+        }
+    }
+
+    private parseCheckpointStart(lines: string[]) {
+        const matches = this.tryMatchBufferLine(lines, /^Checkpointing of run (.+)$/g);
+        this.checkpointingDir = matches ? matches[1].trim() : undefined;
+    }
+
+    private parseCheckpointEnd(lines: string[]) {
+        const matches = this.tryMatchBufferLine(lines, /^Checkpointing completed at \((.+)\)$/g);
+        if (this.checkpointingDir) {
+            this.checkpoint = new CheckpointInfo(this.checkpointingDir, matches ? matches[1] : '');
+        }
+    }
+
     private parseSuccess(lines: string[]) {
         const matches = this.tryMatchBufferLine(lines, /calculated \(optimistic\):\s+val = (.+)$/g, 3);
         if (matches) {
@@ -448,6 +517,38 @@ class ModelCheckResultBuilder {
         }
     }
 
+    private updateWorkerState(lines: string[], state: WorkerState) {
+        const address = parseWorkerAddress(lines.join(' '));
+        const prev = this.workers.find((w) => w.address === address);
+        this.putWorker(new DistributedWorker(
+            address, state, prev?.statesSent, prev?.statesReceived, prev?.cacheRatio));
+    }
+
+    private parseWorkerStats(lines: string[]) {
+        const matches = this.tryMatchBufferLine(lines, /^Worker: (.+) Sent: (\d+) Rcvd: (\d+) CacheRatio: (.+)$/g);
+        if (!matches) {
+            return;
+        }
+        const address = parseWorkerAddress(matches[1]);
+        const prev = this.workers.find((w) => w.address === address);
+        this.putWorker(new DistributedWorker(
+            address,
+            prev ? prev.state : WorkerState.Disconnected,
+            parseInt(matches[2]),
+            parseInt(matches[3]),
+            matches[4]
+        ));
+    }
+
+    private putWorker(worker: DistributedWorker) {
+        const idx = this.workers.findIndex((w) => w.address === worker.address);
+        if (idx < 0) {
+            this.workers.push(worker);
+        } else {
+            this.workers[idx] = worker;
+        }
+    }
+
     private parseSanyOutput() {
         const sany = new SanyStdoutParser(this.sanyLines);
         this.sanyData = sany.readAllSync();
@@ -514,7 +615,64 @@ class ModelCheckResultBuilder {
                 parseInt(matches[8]),
                 parseInt(matches[7])
             ));
+            const item = this.coverageStat[this.coverageStat.length - 1];
+            this.coverageParents = [{ level: -1, children: item.subexpressions }];
+        }
+    }
+
+    private parsePropertyCoverage(lines: string[]) {
+        const regex = /^<(\w+) line (\d+), col (\d+) to line (\d+), col (\d+) of module (\w+)(?: \(\d+ \d+ \d+ \d+\))?>/g;
+        const matches = this.tryMatchBufferLine(lines, regex);
+        if (!matches) {
+            this.coverageParents = [];
+            return;
         }
+        const moduleName = matches[6];
+        const item = new PropertyCoverageItem(
+            moduleName,
+            matches[1],
+            this.getModulePath(moduleName),
+            new Range(
+                parseInt(matches[2]) - 1,
+                parseInt(matches[3]) - 1,
+                parseInt(matches[4]) - 1,
+                parseInt(matches[5])
+            )
+        );
+        this.propertyCoverageStat.push(item);
+        this.coverageParents = [{ level: -1, children: item.subexpressions }];
+    }
+
+    /**
+     * Parses evaluation counts of action and property subexpressions, which follow the action. Nesting is denoted by
+     * the number of bars, like "  ||line 12, col 9 to line 12, col 20 of module Foo: 42:17".
+     */
+    private parseSubexpressionCoverage(lines: string[]) {
+        const regex = /^\s*(\|*)line (\d+), col (\d+) to line (\d+), col (\d+) of module (\w+): (\d+)(?::(\d+))?/g;
+        const matches = this.tryMatchBufferLine(lines, regex);
+        if (!matches || this.coverageParents.length === 0) {
+            return;
+        }
+        const level = matches[1].length;
+        const parents = this.coverageParents;
+        while (parents.length > 1 && parents[parents.length - 1].level >= level) {
+            parents.pop();
+        }
+        const moduleName = matches[6];
+        const item = new SubexpressionCoverageItem(
+            moduleName,
+            this.getModulePath(moduleName),
+            new Range(
+                parseInt(matches[2]) - 1,
+                parseInt(matches[3]) - 1,
+                parseInt(matches[4]) - 1,
+                parseInt(matches[5])
+            ),
+            parseInt(matches[7]),
+            matches[8] === undefined ? undefined : parseInt(matches[8])
+        );
+        parents[parents.length - 1].children.push(item);
+        parents.push({ level, children: item.children });
     }
 
     private parseWarningMessage(lines: string[]) {
@@ -737,6 +895,15 @@ class ModelCheckResultBuilder {
 /**
  * Parses string with an integer value that was formatted in accordance with some locale.
  */
+/**
+ * Extracts the host and port of a worker from a message of the distributed TLC master.
+ * Falls back to the message text, so that each worker is still shown.
+ */
+function parseWorkerAddress(text: string): string {
+    const matches = /(?:\w+:\/\/)?([\w.-]+:\d+)/.exec(text);
+    return matches ? matches[1] : text.trim();
+}
+
 function parseLocalizedInt(str: string): number {
     const numStr = str.replace(/[^\d]/g, '');
     return parseInt(numStr);
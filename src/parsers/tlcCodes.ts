@@ -211,7 +211,7 @@ export const TLC_SUCCESS = registerCode(2193, TlcCodeType.Info);
 export const TLC_SEARCH_DEPTH = registerCode(2194, TlcCodeType.Ignore);
 export const TLC_STATE_GRAPH_OUTDEGREE = registerCode(2268, TlcCodeType.Ignore);
 export const TLC_CHECKPOINT_START = registerCode(2195, TlcCodeType.Info);
-export const TLC_CHECKPOINT_END = registerCode(2196, TlcCodeType.Ignore);
+export const TLC_CHECKPOINT_END = registerCode(2196, TlcCodeType.Info);
 export const TLC_CHECKPOINT_RECOVER_START = registerCode(2197, TlcCodeType.Ignore);
 export const TLC_CHECKPOINT_RECOVER_END = registerCode(2198, TlcCodeType.Ignore);
 export const TLC_STATS = registerCode(2199, TlcCodeType.Ignore);
@@ -252,14 +252,14 @@ export const TLC_STATE_PRINT3 = registerCode(2218, TlcCodeType.Info);
 export const TLC_SANY_END = registerCode(2219, TlcCodeType.Info);
 export const TLC_SANY_START = registerCode(2220, TlcCodeType.Info);
 export const TLC_COVERAGE_MISMATCH = registerCode(2776, TlcCodeType.Ignore);
-export const TLC_COVERAGE_VALUE = registerCode(2221, TlcCodeType.Ignore);
-export const TLC_COVERAGE_VALUE_COST = registerCode(2775, TlcCodeType.Ignore);
+export const TLC_COVERAGE_VALUE = registerCode(2221, TlcCodeType.Info);
+export const TLC_COVERAGE_VALUE_COST = registerCode(2775, TlcCodeType.Info);
 export const TLC_COVERAGE_NEXT = registerCode(2772, TlcCodeType.Info);
 export const TLC_COVERAGE_INIT = registerCode(2773, TlcCodeType.Info);
-export const TLC_COVERAGE_PROPERTY = registerCode(2774, TlcCodeType.Ignore);
+export const TLC_COVERAGE_PROPERTY = registerCode(2774, TlcCodeType.Info);
 export const TLC_COVERAGE_END_OVERHEAD = registerCode(2777, TlcCodeType.Ignore);
-export const TLC_COVERAGE_CONSTRAINT = registerCode(2778, TlcCodeType.Ignore);
-export const TLC_COVERAGE_VAR = registerCode(2779, TlcCodeType.Ignore);
+export const TLC_COVERAGE_CONSTRAINT = registerCode(2778, TlcCodeType.Info);
+export const TLC_COVERAGE_VAR = registerCode(2779, TlcCodeType.Info);
 
 // config file errors
 export const TLC_CONFIG_VALUE_NOT_ASSIGNED_TO_CONSTANT_PARAM = registerCode(2222, TlcCodeType.Error);
@@ -0,0 +1,501 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { listFiles, pathToModuleName } from '../common';
+import { resolveModelForUri } from '../commands/modelResolver';
+import { collectReferencedModules, provideSymbolLocations } from '../declarations/tlaDeclarations';
+import { TlaDocumentInfos } from '../model/documentInfo';
+import { samePath } from '../model/modelProfiles';
+import { TLA_CONSTANTS, TLA_OTHER_KEYWORDS, TLA_PROOF_STARTING_KEYWORDS, TLA_STARTING_KEYWORDS }
+    from '../completions/tlaCompletions';
+
+const RESERVED_WORDS = new Set([
+    ...TLA_STARTING_KEYWORDS, ...TLA_PROOF_STARTING_KEYWORDS, ...TLA_OTHER_KEYWORDS, ...TLA_CONSTANTS,
+    'MODULE', 'SF_', 'WF_'
+]);
+const MAX_LOOKAROUND = 100;
+
+/**
+ * The symbol under the cursor together with the places where it's defined.
+ */
+interface SymbolTarget {
+    name: string;
+    range: vscode.Range;
+    definitions: vscode.Location[];
+    isLabel: boolean;
+}
+
+/**
+ * Finds usages of TLA+ definitions, variables, constants and PlusCal labels in the defining module,
+ * in modules that EXTEND or INSTANCE it, and in their model config files.
+ */
+export class TlaReferenceProvider implements vscode.ReferenceProvider {
+    constructor(private readonly docInfos: TlaDocumentInfos) {}
+
+    async provideReferences(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        context: vscode.ReferenceContext,
+        token: vscode.CancellationToken
+    ): Promise<vscode.Location[] | undefined> {
+        const target = await resolveTarget(document, position, this.docInfos);
+        if (!target || token.isCancellationRequested) {
+            return undefined;
+        }
+        const locations = await findReferences(target, document, token);
+        if (context.includeDeclaration) {
+            return locations;
+        }
+        return locations.filter((loc) => !target.definitions.some((def) => isSameStart(def, loc)));
+    }
+}
+
+/**
+ * Renames TLA+ symbols everywhere the reference provider finds them.
+ */
+export class TlaRenameProvider implements vscode.RenameProvider {
+    constructor(private readonly docInfos: TlaDocumentInfos) {}
+
+    async prepareRename(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        _token: vscode.CancellationToken
+    ): Promise<vscode.Range> {
+        const target = await this.resolveRenameTarget(document, position);
+        return target.range;
+    }
+
+    async provideRenameEdits(
+        document: vscode.TextDocument,
+        position: vscode.Position,
+        newName: string,
+        token: vscode.CancellationToken
+    ): Promise<vscode.WorkspaceEdit | undefined> {
+        if (!/^\w*[A-Za-z]\w*$/.test(newName) || RESERVED_WORDS.has(newName)) {
+            throw new Error(`"${newName}" is not a valid TLA+ identifier.`);
+        }
+        const target = await this.resolveRenameTarget(document, position);
+        const locations = await findReferences(target, document, token);
+        if (token.isCancellationRequested) {
+            return undefined;
+        }
+        const edit = new vscode.WorkspaceEdit();
+        for (const loc of locations) {
+            edit.replace(loc.uri, loc.range, newName);
+        }
+        return edit;
+    }
+
+    private async resolveRenameTarget(
+        document: vscode.TextDocument,
+        position: vscode.Position
+    ): Promise<SymbolTarget> {
+        const target = await resolveTarget(document, position, this.docInfos);
+        if (!target) {
+            throw new Error('Cannot find the definition of the symbol.');
+        }
+        if (target.definitions.some((def) => def.uri.scheme !== 'file')) {
+            throw new Error('Cannot rename symbols defined outside of the workspace.');
+        }
+        return target;
+    }
+}
+
+async function resolveTarget(
+    document: vscode.TextDocument,
+    position: vscode.Position,
+    docInfos: TlaDocumentInfos
+): Promise<SymbolTarget | undefined> {
+    const range = document.getWordRangeAtPosition(position, /\w+/);
+    if (!range) {
+        return undefined;
+    }
+    const name = document.getText(range);
+    if (RESERVED_WORDS.has(name) || /^\d+$/.test(name)) {
+        return undefined;
+    }
+    if (isLabel(maskNonCode(document.getText()), name)) {
+        return { name, range, definitions: [], isLabel: true };
+    }
+    const result = await provideSymbolLocations(document, position, docInfos);
+    const definitions = !result ? [] : Array.isArray(result) ? result : [result];
+    // Positions at the start of a module are produced for module names in EXTENDS and INSTANCE
+    const symbolDefinitions = definitions.filter((def) => !def.range.start.isEqual(new vscode.Position(0, 0)));
+    if (symbolDefinitions.length === 0) {
+        return undefined;
+    }
+    return { name, range, definitions: symbolDefinitions, isLabel: false };
+}
+
+async function findReferences(
+    target: SymbolTarget,
+    document: vscode.TextDocument,
+    token: vscode.CancellationToken
+): Promise<vscode.Location[]> {
+    // PlusCal labels are local to the algorithm
+    const documents = target.definitions.length > 0
+        ? await collectDependentDocuments(target.definitions[0].uri, token)
+        : [document];
+    const locations: vscode.Location[] = [];
+    for (const doc of documents) {
+        const masked = maskNonCode(doc.getText(), target.isLabel ? (value) => value === target.name : undefined);
+        for (const range of findTlaOccurrences(doc, masked, target.name, target.isLabel)) {
+            locations.push(new vscode.Location(doc.uri, range));
+        }
+    }
+    for (const cfgPath of await collectModelConfigs(documents)) {
+        if (token.isCancellationRequested) {
+            break;
+        }
+        const cfgDoc = await vscode.workspace.openTextDocument(vscode.Uri.file(cfgPath));
+        for (const range of findCfgOccurrences(cfgDoc, target.name)) {
+            locations.push(new vscode.Location(cfgDoc.uri, range));
+        }
+    }
+    return locations;
+}
+
+/**
+ * Returns the module with the given URI and all workspace modules that extend or instantiate it,
+ * directly or through other modules.
+ */
+async function collectDependentDocuments(
+    moduleUri: vscode.Uri,
+    token: vscode.CancellationToken
+): Promise<vscode.TextDocument[]> {
+    const result = [await vscode.workspace.openTextDocument(moduleUri)];
+    const moduleNames = new Set([pathToModuleName(moduleUri.path)]);
+    const candidates = new Map<vscode.Uri, string>();
+    for (const uri of await vscode.workspace.findFiles('**/*.tla')) {
+        if (uri.toString() !== moduleUri.toString()) {
+            candidates.set(uri, await readDocumentText(uri));
+        }
+    }
+    let found = true;
+    while (found && !token.isCancellationRequested) {
+        found = false;
+        for (const [uri, text] of candidates) {
+            // Cheap check before asking for the EXTENDS and INSTANCE statements
+            if (!Array.from(moduleNames).some((name) => new RegExp(`\\b${name}\\b`).test(text))) {
+                continue;
+            }
+            const doc = await vscode.workspace.openTextDocument(uri);
+            if (collectReferencedModules(doc).some((name) => moduleNames.has(name))) {
+                result.push(doc);
+                moduleNames.add(pathToModuleName(uri.path));
+                candidates.delete(uri);
+                found = true;
+            }
+        }
+    }
+    return result;
+}
+
+async function readDocumentText(uri: vscode.Uri): Promise<string> {
+    const openDoc = vscode.workspace.textDocuments.find((d) => d.uri.toString() === uri.toString());
+    if (openDoc) {
+        return openDoc.getText();
+    }
+    return Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+}
+
+/**
+ * Returns the model configs of the given modules, i.e. the configs in their directories that resolve to one of them.
+ */
+async function collectModelConfigs(documents: vscode.TextDocument[]): Promise<string[]> {
+    const tlaPaths = documents.filter((d) => d.uri.scheme === 'file').map((d) => d.uri.fsPath);
+    const dirs = new Set(tlaPaths.map((tlaPath) => path.dirname(tlaPath)));
+    const result: string[] = [];
+    for (const dir of dirs) {
+        let names: string[];
+        try {
+            names = await listFiles(dir, (name) => name.endsWith('.cfg'));
+        } catch {
+            continue;       // Directory may be gone by now, skip it
+        }
+        for (const name of names) {
+            const cfgPath = path.join(dir, name);
+            const model = await resolveModelForUri(vscode.Uri.file(cfgPath), false, false);
+            if (model && tlaPaths.some((tlaPath) => samePath(tlaPath, model.tlaPath))) {
+                result.push(cfgPath);
+            }
+        }
+    }
+    return result;
+}
+
+function findTlaOccurrences(
+    document: vscode.TextDocument,
+    maskedText: string,
+    name: string,
+    isLabel: boolean
+): vscode.Range[] {
+    const ranges: vscode.Range[] = [];
+    // Labels can't be bound locally, other names may be parameters, bound variables or LET definitions
+    const localScopes = isLabel ? [] : findLocalScopes(maskedText, name);
+    const regex = new RegExp(`(?<!\\w)${name}(?!\\w)`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(maskedText))) {
+        const offset = match.index;
+        if (localScopes.some((scope) => scope.start <= offset && offset < scope.end)) {
+            continue;       // The name refers to a local symbol here
+        }
+        const before = maskedText.substring(Math.max(0, match.index - MAX_LOOKAROUND), match.index);
+        const after = maskedText.substr(match.index + name.length, MAX_LOOKAROUND);
+        if (before.endsWith('.')) {
+            continue;       // Record field access: r.name
+        }
+        if (!isLabel && /[[,]\s*$/.test(before) && /^\s*(\|->|:(?![:=]))/.test(after)) {
+            continue;       // Record field definition: [name |-> ...] or [name : ...]
+        }
+        const start = document.positionAt(match.index);
+        ranges.push(new vscode.Range(start, start.translate(0, name.length)));
+    }
+    return ranges;
+}
+
+/**
+ * Returns the top-level units (definitions, declarations, assumptions, etc.) that bind the given name locally,
+ * as an operator parameter, a bound variable of a quantifier, CHOOSE, LAMBDA, set or function constructor,
+ * or a LET definition. TLA+ doesn't allow shadowing a symbol that is in scope, so the name refers to the local
+ * symbol everywhere in such a unit. Units start at lines that aren't indented. Definitions in PlusCal define blocks
+ * are top-level ones, so they don't make a unit local.
+ */
+export function findLocalScopes(maskedText: string, name: string): { start: number, end: number }[] {
+    const starts = [0];
+    const lineStart = /\n(?=\S)/g;
+    let match: RegExpExecArray | null;
+    while ((match = lineStart.exec(maskedText))) {
+        starts.push(match.index + 1);
+    }
+    starts.push(maskedText.length);
+    const defineBlocks = findDefineBlocks(maskedText);
+    const scopes: { start: number, end: number }[] = [];
+    for (let i = 0; i < starts.length - 1; i++) {
+        const unit = maskedText.substring(starts[i], starts[i + 1]);
+        const isDefineBlockDefinition = (offset: number) => defineBlocks.some((block) => {
+            const position = starts[i] + offset;
+            if (position < block.start || block.end <= position) {
+                return false;
+            }
+            // A LET that is still open makes the definition local even in a define block
+            const preceding = maskedText.substring(block.start, position);
+            return countWords(preceding, 'LET') <= countWords(preceding, 'IN');
+        });
+        if (bindsName(unit, name, isDefineBlockDefinition)) {
+            scopes.push({ start: starts[i], end: starts[i + 1] });
+        }
+    }
+    return scopes;
+}
+
+/**
+ * Returns the define blocks of PlusCal algorithms, in both the P-syntax (define ... end define)
+ * and the C-syntax (define { ... }). Definitions there are translated to top-level ones.
+ */
+function findDefineBlocks(maskedText: string): { start: number, end: number }[] {
+    const blocks: { start: number, end: number }[] = [];
+    const defineStart = /(?<!\w)define(?!\w)\s*(\{)?/g;
+    let match: RegExpExecArray | null;
+    while ((match = defineStart.exec(maskedText))) {
+        const bodyStart = match.index + match[0].length;
+        let end = -1;
+        if (match[1]) {
+            let depth = 1;
+            for (let i = bodyStart; i < maskedText.length && depth > 0; i++) {
+                depth += maskedText[i] === '{' ? 1 : maskedText[i] === '}' ? -1 : 0;
+                end = i + 1;
+            }
+        } else {
+            const endDefine = /(?<!\w)end\s+define(?!\w)/g;
+            endDefine.lastIndex = bodyStart;
+            const endMatch = endDefine.exec(maskedText);
+            end = endMatch ? endMatch.index : -1;
+        }
+        if (end < 0) {
+            end = maskedText.length;
+        }
+        blocks.push({ start: match.index, end });
+        defineStart.lastIndex = Math.max(end, bodyStart);
+    }
+    return blocks;
+}
+
+function countWords(text: string, word: string): number {
+    return (text.match(new RegExp(`(?<!\\w)${word}(?!\\w)`, 'g')) || []).length;
+}
+
+function bindsName(unit: string, name: string, isDefineBlockDefinition: (offset: number) => boolean): boolean {
+    const word = new RegExp(`(?<!\\w)${name}(?!\\w)`);
+    if (!word.test(unit)) {
+        return false;
+    }
+    // Parameters of operators, including ones defined with LET: Op(a, f(_)) == or f[x \in S] ==
+    const headers = /\w+\s*(?:\(([^()]*(?:\([^()]*\)[^()]*)*)\)|\[([^\]]*)\])\s*==/g;
+    let match: RegExpExecArray | null;
+    while ((match = headers.exec(unit))) {
+        if (match[1] !== undefined && match[1].split(',').some((p) => p.replace(/\(.*\)/, '').trim() === name)) {
+            return true;
+        }
+        if (match[2] !== undefined && isBoundIn(match[2], name)) {
+            return true;
+        }
+    }
+    // Operators defined with LET, a definition at the start of the unit is a top-level one
+    const letDefinition = new RegExp(`(?<!\\w)${name}\\s*(?:\\([^)]*\\)|\\[[^\\]]*\\])?\\s*==`, 'g');
+    while ((match = letDefinition.exec(unit))) {
+        if (unit.substring(0, match.index).trim().replace(/^LOCAL$/, '') !== '' && !isDefineBlockDefinition(match.index)) {
+            return true;
+        }
+    }
+    // Quantifiers, CHOOSE and LAMBDA: \A x, y \in S : or LAMBDA x : or \E <<a, b>> \in S :
+    const binders = /(?:\\AA|\\EE|\\A|\\E|\\forall|\\exists|CHOOSE|LAMBDA)\s+([^:]*?):/g;
+    while ((match = binders.exec(unit))) {
+        if (isBoundIn(match[1], name)) {
+            return true;
+        }
+    }
+    // Set filters {x \in S : P} and functions [x \in S |-> e]
+    const constructors = /\{\s*(<<[^>]*>>|\w+)\s*\\in\b|\[([^[\]|]*\\in[^[\]|]*)\|->/g;
+    while ((match = constructors.exec(unit))) {
+        if (isBoundIn(match[1] ?? match[2], name)) {
+            return true;
+        }
+    }
+    // Set maps {e : x \in S}, unlike filters the expression before the colon doesn't bind anything
+    const setMaps = /\{([^{}:]*):([^{}:]*)\}/g;
+    while ((match = setMaps.exec(unit))) {
+        if (!/^\s*(<<[^>]*>>|\w+)\s*\\in\b/.test(match[1]) && isBoundIn(match[2], name)) {
+            return true;
+        }
+    }
+    return false;
+}
+
+/**
+ * Checks whether the name is one of the bound identifiers of a list like "x, y \in S, <<a, b>> \in T".
+ * Names in the bounding sets are references, not bindings.
+ */
+function isBoundIn(boundList: string, name: string): boolean {
+    const items: string[] = [];
+    let depth = 0;
+    let itemStart = 0;
+    for (let i = 0; i < boundList.length; i++) {
+        const pair = boundList.substring(i, i + 2);
+        if (pair === '<<' || pair === '>>') {
+            depth += pair === '<<' ? 1 : -1;
+            i++;
+        } else if ('([{'.includes(boundList[i])) {
+            depth++;
+        } else if (')]}'.includes(boundList[i])) {
+            depth--;
+        } else if (boundList[i] === ',' && depth === 0) {
+            items.push(boundList.substring(itemStart, i));
+            itemStart = i + 1;
+        }
+    }
+    items.push(boundList.substring(itemStart));
+    return items.some((item) => {
+        const bound = item.split('\\in')[0].replace(/<<|>>/g, '');
+        return bound.split(',').some((id) => id.trim() === name);
+    });
+}
+
+function findCfgOccurrences(document: vscode.TextDocument, name: string): vscode.Range[] {
+    const ranges: vscode.Range[] = [];
+    const maskedText = maskNonCode(document.getText());
+    const regex = new RegExp(`(?<!\\w)${name}(?!\\w)`, 'g');
+    let match: RegExpExecArray | null;
+    while ((match = regex.exec(maskedText))) {
+        const start = document.positionAt(match.index);
+        const lineBefore = document.lineAt(start.line).text.substring(0, start.character);
+        if (/=/.test(lineBefore.replace(/<-/g, ''))) {
+            continue;       // Right-hand side of a constant assignment is a TLC value, not a TLA+ symbol
+        }
+        ranges.push(new vscode.Range(start, start.translate(0, name.length)));
+    }
+    return ranges;
+}
+
+function isLabel(maskedText: string, name: string): boolean {
+    return new RegExp(`^\\s*${name}\\s*:(?![:=])`, 'm').test(maskedText)
+        || new RegExp(`\\bgoto\\s+${name}\\b`).test(maskedText);
+}
+
+function isSameStart(a: vscode.Location, b: vscode.Location): boolean {
+    return a.uri.toString() === b.uri.toString() && a.range.start.isEqual(b.range.start);
+}
+
+/**
+ * Replaces comments and string literals with spaces keeping the offsets of the rest of the text intact.
+ * The body of a PlusCal algorithm is preserved unless asked otherwise, even though it's placed inside a comment.
+ */
+export function maskNonCode(
+    text: string,
+    keepString?: (value: string) => boolean,
+    keepPlusCal = true
+): string {
+    const chars = text.split('');
+    const blank = (from: number, to: number) => {
+        for (let k = from; k < to && k < chars.length; k++) {
+            if (chars[k] !== '\n') {
+                chars[k] = ' ';
+            }
+        }
+    };
+    let depth = 0;              // Depth of nested block comments
+    let inAlgorithm = false;
+    let i = 0;
+    while (i < text.length) {
+        if (text.startsWith('(*', i)) {
+            if (keepPlusCal && depth === 0 && !inAlgorithm && startsAlgorithm(text, i + 2)) {
+                inAlgorithm = true;
+            } else {
+                depth += 1;
+            }
+            blank(i, i + 2);
+            i += 2;
+        } else if (text.startsWith('*)', i) && (depth > 0 || inAlgorithm)) {
+            if (depth > 0) {
+                depth -= 1;
+            } else {
+                inAlgorithm = false;
+            }
+            blank(i, i + 2);
+            i += 2;
+        } else if (depth > 0) {
+            blank(i, i + 1);
+            i += 1;
+        } else if (text.startsWith('\\*', i)) {
+            const end = text.indexOf('\n', i);
+            const lineEnd = end < 0 ? text.length : end;
+            blank(i, lineEnd);
+            i = lineEnd;
+        } else if (text[i] === '"') {
+            let end = i + 1;
+            while (end < text.length && text[end] !== '"' && text[end] !== '\n') {
+                end += text[end] === '\\' ? 2 : 1;
+            }
+            if (keepString && keepString(text.substring(i + 1, end))) {
+                blank(i, i + 1);
+                blank(end, end + 1);
+            } else {
+                blank(i, end + 1);
+            }
+            i = end + 1;
+        } else {
+            i += 1;
+        }
+    }
+    return chars.join('');
+}
+
+function startsAlgorithm(text: string, from: number): boolean {
+    const regex = /--(?:fair\s+)?algorithm\b/g;
+    regex.lastIndex = from;
+    const match = regex.exec(text);
+    if (!match) {
+        return false;
+    }
+    const between = text.substring(from, match.index);
+    return !between.includes('*)') && !between.includes('(*');
+}
@@ -0,0 +1,170 @@
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { exists, pathToModuleName } from '../common';
+import { resolveModelForUri } from '../commands/modelResolver';
+import { TlaDocumentInfos } from '../model/documentInfo';
+import { TlaDocumentSymbolsProvider, TlaSymbolInformation } from './tlaSymbols';
+
+export type SpecSymbolKind = 'constant' | 'variable' | 'definition';
+
+/**
+ * A symbol of the specification that can be mentioned in its model config file.
+ */
+export interface SpecSymbol {
+    name: string;
+    module: string;
+    kind: SpecSymbolKind;
+    level: number | undefined;                  // Known only when the spec is parsed by SANY
+    arity: number | undefined;
+    location: vscode.Location | undefined;      // Not known for symbols of standard modules
+}
+
+/**
+ * Symbols of the specification a model config file belongs to.
+ */
+export interface SpecSymbols {
+    moduleName: string;
+    symbols: Map<string, SpecSymbol>;
+    // Whether symbols of extended modules are included, so that a name not found among them doesn't exist
+    complete: boolean;
+}
+
+/**
+ * Converts document symbols of a module into symbols that can be mentioned in its model config.
+ * Symbols found by SANY come with levels and arities and may belong to extended modules, whose files
+ * are looked up in the given map. Symbols found with regular expressions only belong to the module itself.
+ */
+export function toSpecSymbols(
+    moduleName: string,
+    docSymbols: vscode.SymbolInformation[],
+    moduleUris: ReadonlyMap<string, vscode.Uri> = new Map()
+): SpecSymbols {
+    const symbols = new Map<string, SpecSymbol>();
+    let complete = false;
+    for (const docSymbol of docSymbols) {
+        if (docSymbol instanceof TlaSymbolInformation && docSymbol.level !== undefined) {
+            complete = true;
+            const moduleUri = docSymbol.containerName === moduleName
+                ? docSymbol.location.uri
+                : moduleUris.get(docSymbol.containerName);
+            symbols.set(docSymbol.name, {
+                name: docSymbol.name,
+                module: docSymbol.containerName,
+                kind: docSymbol.declared ? (docSymbol.level === 0 ? 'constant' : 'variable') : 'definition',
+                level: docSymbol.level,
+                arity: docSymbol.arity,
+                location: moduleUri ? new vscode.Location(moduleUri, docSymbol.location.range) : undefined
+            });
+            continue;
+        }
+        // Local definitions of LET expressions are contained in top level definitions rather than modules
+        if (docSymbol.containerName !== moduleName) {
+            continue;
+        }
+        const symbol = fromRegexSymbol(moduleName, docSymbol);
+        if (symbol && !symbols.has(symbol.name)) {
+            symbols.set(symbol.name, symbol);
+        }
+    }
+    return { moduleName, symbols, complete };
+}
+
+function fromRegexSymbol(moduleName: string, docSymbol: vscode.SymbolInformation): SpecSymbol | undefined {
+    const symbol = {
+        name: docSymbol.name,
+        module: moduleName,
+        location: docSymbol.location
+    };
+    switch (docSymbol.kind) {
+        case vscode.SymbolKind.Constant:
+            // Constant operators like Op(_, _) are not told from simple constants
+            return { ...symbol, kind: 'constant', level: 0, arity: undefined };
+        case vscode.SymbolKind.Variable:
+            return { ...symbol, kind: 'variable', level: 1, arity: 0 };
+        case vscode.SymbolKind.Field:
+            return { ...symbol, kind: 'definition', level: undefined, arity: 0 };
+        case vscode.SymbolKind.Function:
+            // Either an operator with parameters or a function, which doesn't have them
+            return { ...symbol, kind: 'definition', level: undefined, arity: undefined };
+        default:
+            return undefined;
+    }
+}
+
+interface CachedSymbols {
+    version: string;
+    symbols: Promise<SpecSymbols>;
+}
+
+/**
+ * Finds symbols of the specifications model config files belong to.
+ * Specs are parsed again only after they change.
+ */
+export class SpecSymbolsLoader {
+    // Symbols of extended modules must not show up in the spec editor, so they are kept apart
+    private readonly symbolsProvider = new TlaDocumentSymbolsProvider(new TlaDocumentInfos());
+    private readonly cache = new Map<string, CachedSymbols>();
+
+    /**
+     * @param findProfileSpecPath Finds the spec of a model config named by model profiles.
+     */
+    constructor(
+        private readonly findProfileSpecPath: (cfgFilePath: string) => string | undefined = () => undefined
+    ) {}
+
+    async load(cfgUri: vscode.Uri): Promise<SpecSymbols | undefined> {
+        const tlaPath = await this.resolveSpecPath(cfgUri);
+        if (!tlaPath) {
+            return undefined;
+        }
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(tlaPath));
+        // SANY only parses saved specs, so saving changes the result even if the text stays the same
+        const version = `${document.version}:${document.isDirty}`;
+        const cached = this.cache.get(tlaPath);
+        if (cached && cached.version === version) {
+            return cached.symbols;
+        }
+        const symbols = this.parse(document);
+        this.cache.set(tlaPath, { version, symbols });
+        return symbols;
+    }
+
+    /**
+     * Finds the spec a model config file belongs to: the module next to it with the same name,
+     * or the spec of the model profiles that name the config.
+     */
+    async resolveSpecPath(cfgUri: vscode.Uri): Promise<string | undefined> {
+        const model = await resolveModelForUri(cfgUri, false, false);
+        return model?.tlaPath ?? this.findProfileSpecPath(cfgUri.fsPath);
+    }
+
+    private async parse(document: vscode.TextDocument): Promise<SpecSymbols> {
+        const tokenSource = new vscode.CancellationTokenSource();
+        try {
+            const docSymbols = await this.symbolsProvider.provideDocumentSymbols(document, tokenSource.token, true);
+            const infos = docSymbols.filter((s): s is vscode.SymbolInformation => 'containerName' in s);
+            const moduleName = pathToModuleName(document.uri.fsPath);
+            return toSpecSymbols(moduleName, infos, await findModuleUris(document.uri, infos));
+        } finally {
+            tokenSource.dispose();
+        }
+    }
+}
+
+/**
+ * Looks for files of the modules the symbols come from next to the spec.
+ */
+async function findModuleUris(
+    specUri: vscode.Uri,
+    docSymbols: vscode.SymbolInformation[]
+): Promise<Map<string, vscode.Uri>> {
+    const moduleUris = new Map<string, vscode.Uri>();
+    const moduleNames = new Set(docSymbols.map((s) => s.containerName));
+    for (const moduleName of moduleNames) {
+        const modulePath = path.join(path.dirname(specUri.fsPath), `${moduleName}.tla`);
+        if (moduleName && await exists(modulePath)) {
+            moduleUris.set(moduleName, vscode.Uri.file(modulePath));
+        }
+    }
+    return moduleUris;
+}
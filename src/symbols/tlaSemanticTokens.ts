@@ -0,0 +1,194 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { XMLParser } from 'fast-xml-parser';
+import { exportModuleXml } from './tlaSymbols';
+
+const TOKEN_TYPES = ['stateVariable', 'variable', 'parameter', 'boundVariable', 'function'];
+const TOKEN_MODIFIERS = [
+    'declaration', 'readonly', 'primed', 'recursive', 'stateLevel', 'actionLevel', 'temporalLevel'
+];
+const LEVEL_MODIFIERS = [undefined, 'stateLevel', 'actionLevel', 'temporalLevel'];
+const PRIME_OPERATOR = '\'';
+
+export const TLA_SEMANTIC_TOKENS_LEGEND = new vscode.SemanticTokensLegend(TOKEN_TYPES, TOKEN_MODIFIERS);
+
+interface SanyLocation {
+    filename: string;
+    line: { begin: number, end: number };
+    column: { begin: number, end: number };
+}
+
+/**
+ * A symbol from the SANY context, with the way it should be highlighted.
+ */
+interface SemanticSymbol {
+    name: string;
+    type: string;
+    modifiers: string[];
+    location?: SanyLocation;
+}
+
+/**
+ * Highlights TLA+ symbols according to their meaning in the module as SANY sees it.
+ * State variables, constants, operator parameters and bound variables get different token types,
+ * while definitions are marked with their level and whether they are recursive.
+ */
+export class TlaSemanticTokensProvider implements vscode.DocumentSemanticTokensProvider {
+    private readonly changeEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeSemanticTokens = this.changeEmitter.event;
+
+    /**
+     * Asks VS Code to request tokens again, e.g. when a module has been saved.
+     */
+    refresh(): void {
+        this.changeEmitter.fire();
+    }
+
+    async provideDocumentSemanticTokens(
+        document: vscode.TextDocument,
+        token: vscode.CancellationToken
+    ): Promise<vscode.SemanticTokens> {
+        // SANY only sees the saved file. Failing the request makes VS Code keep the previous tokens,
+        // shifted according to the edits, until the document is saved again.
+        if (document.isDirty) {
+            throw new vscode.CancellationError();
+        }
+        const xml = await exportModuleXml(document.uri);
+        if (!xml || token.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+        return parseSemanticTokens(xml, document);
+    }
+}
+
+/**
+ * Builds semantic tokens for the given document from the XML exported by SANY.
+ */
+export function parseSemanticTokens(xml: string, document: vscode.TextDocument): vscode.SemanticTokens {
+    const parser = new XMLParser({
+        ignoreAttributes: false,
+        attributeNamePrefix: '',
+        isArray: (name) => ['entry', 'operands', 'params', 'leibnizparam'].includes(name)
+    });
+    const xmlObj = parser.parse(xml);
+    const builder = new vscode.SemanticTokensBuilder(TLA_SEMANTIC_TOKENS_LEGEND);
+    const entries = xmlObj.modules?.context?.entry;
+    if (!Array.isArray(entries)) {
+        return builder.build();
+    }
+
+    const moduleName = path.posix.basename(document.uri.path, '.tla');
+    const symbols = new Map<string, SemanticSymbol>();
+    const builtIns = new Map<string, string>();
+    const paramUids = new Set<string>();
+    for (const entry of entries) {
+        const uid = String(entry.UID);
+        if (entry.UserDefinedOpKind) {
+            const node = entry.UserDefinedOpKind;
+            const modifiers = [LEVEL_MODIFIERS[Number(node.level)]].filter((m): m is string => !!m);
+            if (node.recursive !== undefined) {
+                modifiers.push('recursive');
+            }
+            symbols.set(uid, { name: String(node.uniquename), type: 'function', modifiers, location: node.location });
+            for (const params of node.params ?? []) {
+                for (const param of params.leibnizparam ?? []) {
+                    if (param.FormalParamNodeRef) {
+                        paramUids.add(String(param.FormalParamNodeRef.UID));
+                    }
+                }
+            }
+        } else if (entry.OpDeclNode) {
+            const node = entry.OpDeclNode;
+            const level = Number(node.level);
+            if (level === 0) {
+                symbols.set(uid, {
+                    name: String(node.uniquename), type: 'variable', modifiers: ['readonly'], location: node.location
+                });
+            } else if (level === 1) {
+                symbols.set(uid, {
+                    name: String(node.uniquename), type: 'stateVariable', modifiers: [], location: node.location
+                });
+            }
+        } else if (entry.FormalParamNode) {
+            const node = entry.FormalParamNode;
+            symbols.set(uid, {
+                name: String(node.uniquename), type: 'boundVariable', modifiers: [], location: node.location
+            });
+        } else if (entry.BuiltInKind) {
+            builtIns.set(uid, String(entry.BuiltInKind.uniquename));
+        }
+    }
+    for (const uid of paramUids) {
+        const param = symbols.get(uid);
+        if (param) {
+            param.type = 'parameter';
+        }
+    }
+
+    const seen = new Set<string>();
+    const pushToken = (symbol: SemanticSymbol, location: SanyLocation | undefined, modifiers: string[]) => {
+        if (!location || String(location.filename) !== moduleName) {
+            return;
+        }
+        // Some applications, e.g. infix operators, don't start with the operator name
+        const start = new vscode.Position(Number(location.line.begin) - 1, Number(location.column.begin) - 1);
+        if (start.line < 0 || start.line >= document.lineCount) {
+            return;
+        }
+        const lineText = document.lineAt(start.line).text;
+        if (!lineText.startsWith(symbol.name, start.character)) {
+            return;
+        }
+        const key = `${start.line}:${start.character}`;
+        if (seen.has(key)) {
+            return;
+        }
+        seen.add(key);
+        const end = start.translate(0, symbol.name.length);
+        const tokenModifiers = symbol.modifiers.concat(modifiers);
+        if (symbol.type === 'stateVariable' && lineText.charAt(end.character) === PRIME_OPERATOR
+            && !tokenModifiers.includes('primed')) {
+            tokenModifiers.push('primed');
+        }
+        builder.push(new vscode.Range(start, end), symbol.type, tokenModifiers);
+    };
+
+    // Definitions and declarations
+    for (const symbol of symbols.values()) {
+        pushToken(symbol, symbol.location, ['declaration']);
+    }
+
+    // Usages
+    const visit = (node: unknown, primed: boolean) => {
+        if (Array.isArray(node)) {
+            node.forEach((n) => visit(n, primed));
+            return;
+        }
+        if (!node || typeof node !== 'object') {
+            return;
+        }
+        for (const [key, child] of Object.entries(node)) {
+            if (key !== 'OpApplNode') {
+                visit(child, primed);
+                continue;
+            }
+            for (const appl of Array.isArray(child) ? child : [child]) {
+                const operator = appl.operator ?? {};
+                const ref = operator.UserDefinedOpKindRef ?? operator.OpDeclNodeRef ?? operator.FormalParamNodeRef;
+                const symbol = ref ? symbols.get(String(ref.UID)) : undefined;
+                if (symbol) {
+                    pushToken(symbol, appl.location, primed && symbol.type === 'stateVariable' ? ['primed'] : []);
+                }
+                const builtIn = operator.BuiltInKindRef ? builtIns.get(String(operator.BuiltInKindRef.UID)) : undefined;
+                const primedOperands = primed || builtIn === PRIME_OPERATOR;
+                for (const [applKey, applChild] of Object.entries(appl)) {
+                    if (applKey !== 'operator') {
+                        visit(applChild, primedOperands);
+                    }
+                }
+            }
+        }
+    };
+    visit(xmlObj.modules, false);
+    return builder.build();
+}
@@ -21,6 +21,8 @@ export class TlaSymbolInformation extends vscode.SymbolInformation {
      * @param containerName The name of the symbol containing this symbol
      * @param location The location of this symbol
      * @param level The TLA+ level of this symbol (0 = constant, 1 = state, 2 = action, 3 = temporal)
+     * @param arity The number of arguments of an operator
+     * @param declared Whether this is a declared constant or variable rather than a definition
      */
     constructor(
         name: string,
@@ -28,7 +30,9 @@ export class TlaSymbolInformation extends vscode.SymbolInformation {
         containerName: string,
         location: vscode.Location,
         public readonly preComment?: string,
-        public readonly level?: number
+        public readonly level?: number,
+        public readonly arity?: number,
+        public readonly declared?: boolean
     ) {
         super(name, kind, containerName, location);
     }
@@ -246,6 +250,48 @@ export class TLADocumentSymbolProvider implements vscode.DocumentSymbolProvider
 
 const sanyOutChannel = new ToolOutputChannel('SANY XML Exporter');
 
+/**
+ * Runs the XML exporter on the given module and returns the XML it produces.
+ * Errors are reported to the output channel, in which case the result is undefined.
+ */
+export async function exportModuleXml(
+    uri: vscode.Uri, includeExtendedModules?: boolean, libraryPaths: string[] = []
+): Promise<string | undefined> {
+    try {
+        // Run XML exporter
+        const processInfo: ToolProcessInfo = await runXMLExporter(uri, false, includeExtendedModules, libraryPaths);
+
+        // Collect output from merged stream
+        let stdoutData = '';
+
+        processInfo.mergedOutput.on('data', (data) => {
+            stdoutData += data.toString();
+        });
+
+        // Wait for process to complete
+        const exitCode = await new Promise<number>((resolve) => {
+            processInfo.process.on('close', (code) => {
+                resolve(code ?? 1);
+            });
+        });
+
+        if (exitCode !== 0) {
+            sanyOutChannel.appendLine(`XML exporter failed with exit code ${exitCode}`);
+            return undefined;
+        }
+
+        if (!stdoutData) {
+            sanyOutChannel.appendLine('XML exporter did not produce any output');
+            return undefined;
+        }
+        return stdoutData;
+    } catch (error: unknown) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        sanyOutChannel.appendLine(`Error running XML exporter: ${errorMessage}`);
+        return undefined;
+    }
+}
+
 /**
  * Provides TLA+ symbols from the given document.
  */
@@ -353,41 +399,8 @@ export class TlaDocumentSymbolsProvider implements vscode.DocumentSymbolProvider
     private async runXmlExporter(
         uri: vscode.Uri, includeExtendedModules?: boolean
     ): Promise<vscode.SymbolInformation[] | undefined> {
-        try {
-            // Run XML exporter
-            const processInfo: ToolProcessInfo = await runXMLExporter(uri, false, includeExtendedModules);
-
-            // Collect output from merged stream
-            let stdoutData = '';
-
-            processInfo.mergedOutput.on('data', (data) => {
-                stdoutData += data.toString();
-            });
-
-            // Wait for process to complete
-            const exitCode = await new Promise<number>((resolve) => {
-                processInfo.process.on('close', (code) => {
-                    resolve(code ?? 1);
-                });
-            });
-
-            if (exitCode !== 0) {
-                sanyOutChannel.appendLine(`XML exporter failed with exit code ${exitCode}`);
-                return undefined;
-            }
-
-            // Parse XML directly from stdout
-            if (!stdoutData) {
-                sanyOutChannel.appendLine('XML exporter did not produce any output');
-                return undefined;
-            }
-
-            return this.parseXmlSymbols(stdoutData, uri);
-        } catch (error: unknown) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            sanyOutChannel.appendLine(`Error running XML exporter: ${errorMessage}`);
-            return undefined;
-        }
+        const xml = await exportModuleXml(uri, includeExtendedModules);
+        return xml ? this.parseXmlSymbols(xml, uri) : undefined;
     }
 
     /**
@@ -427,16 +440,18 @@ export class TlaDocumentSymbolsProvider implements vscode.DocumentSymbolProvider
                             const endCol = parseInt(location.column?.end || '0') - 1;
                             const preComments = opKind['pre-comments'] || undefined;
                             const level = parseInt(opKind.level);
+                            const arity = parseInt(opKind.arity);
                             symbols.push(new TlaSymbolInformation(
                                 name,
-                                this.determineSymbolKind(level, parseInt(opKind.arity)),
+                                this.determineSymbolKind(level, arity),
                                 opKind.location.filename,
                                 new vscode.Location(
                                     documentUri,
                                     new vscode.Range(line, col, endLine, endCol)
                                 ),
                                 preComments,
-                                level
+                                level,
+                                arity
                             ));
                         }
                     } else if (entry.TheoremDefNode) {
@@ -494,17 +509,20 @@ export class TlaDocumentSymbolsProvider implements vscode.DocumentSymbolProvider
                             const endCol = parseInt(location.column?.end || '0') - 1;
                             const preComments = declNode['pre-comments'] || undefined;
                             const level = parseInt(declNode.level); // Parse level from declaration
+                            const arity = parseInt(declNode.arity);
 
                             symbols.push(new TlaSymbolInformation(
                                 name,
-                                this.determineSymbolKind(level, parseInt(declNode.arity)),
+                                this.determineSymbolKind(level, arity),
                                 declNode.location.filename,
                                 new vscode.Location(
                                     documentUri,
                                     new vscode.Range(line, col, endLine, endCol)
                                 ),
                                 preComments,
-                                level
+                                level,
+                                arity,
+                                true
                             ));
                         }
                     }
@@ -0,0 +1,237 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Readable } from 'stream';
+import { readFile, replaceExtension } from './common';
+import { DCollection, applyDCollection } from './diagnostic';
+import { CheckState, ModelCheckResult, ModelCheckResultSource, SpecFiles } from './model/check';
+import { ProcessOutputHandler } from './outputHandler';
+import { TranspilerStdoutParser } from './parsers/pluscal';
+import { SanyStdoutParser } from './parsers/sany';
+import { TlcModelCheckerStdoutParser } from './parsers/tlc';
+import { runPlusCal, runSany, runTex, runTlc, stopProcess, ToolProcessInfo, waitForExit } from './tla2tools';
+import { mapTlcOutputLine } from './commands/checkModel';
+import { resolveModelForUri } from './commands/modelResolver';
+
+export const TASK_TYPE_TLAPLUS = 'tlaplus';
+
+const PLUSCAL_ALGORITHM_REGEX = /--(fair\s+)?algorithm\b/;
+
+export type TlaTaskTool = 'sany' | 'pcal' | 'tlc' | 'tex';
+
+/**
+ * Definition of a task as written in tasks.json.
+ * Relative paths are resolved against the workspace folder of the task.
+ */
+export interface TlaTaskDefinition extends vscode.TaskDefinition {
+    tool: TlaTaskTool;
+    spec: string;
+    config?: string;    // Model config for TLC, the .cfg next to the spec by default
+    options?: string[]; // Tool options, TLC and PlusCal ones default to the extension settings
+}
+
+const TOOL_TITLES: Record<TlaTaskTool, string> = {
+    sany: 'Parse module',
+    pcal: 'Translate PlusCal',
+    tlc: 'Check model',
+    tex: 'Export to LaTeX'
+};
+
+/**
+ * Provides tasks that run TLA+ tools and report the problems they find to the Problems panel.
+ */
+export class TlaTaskProvider implements vscode.TaskProvider {
+    constructor(private readonly diagnostic: vscode.DiagnosticCollection) {}
+
+    async provideTasks(token: vscode.CancellationToken): Promise<vscode.Task[]> {
+        const tasks: vscode.Task[] = [];
+        const tlaUris = await vscode.workspace.findFiles('**/*.tla', undefined, undefined, token);
+        for (const tlaUri of tlaUris) {
+            const folder = vscode.workspace.getWorkspaceFolder(tlaUri);
+            if (!folder) {
+                continue;
+            }
+            const spec = vscode.workspace.asRelativePath(tlaUri, false);
+            tasks.push(this.createTask({ type: TASK_TYPE_TLAPLUS, tool: 'sany', spec }, folder));
+            const text = await readFile(tlaUri.fsPath).catch(() => '');
+            if (PLUSCAL_ALGORITHM_REGEX.test(text)) {
+                tasks.push(this.createTask({ type: TASK_TYPE_TLAPLUS, tool: 'pcal', spec }, folder));
+            }
+        }
+        const cfgUris = await vscode.workspace.findFiles('**/*.cfg', undefined, undefined, token);
+        for (const cfgUri of cfgUris) {
+            const folder = vscode.workspace.getWorkspaceFolder(cfgUri);
+            const model = await resolveModelForUri(cfgUri, false, false);
+            if (!folder || !model) {
+                continue;
+            }
+            tasks.push(this.createTask({
+                type: TASK_TYPE_TLAPLUS,
+                tool: 'tlc',
+                spec: vscode.workspace.asRelativePath(model.tlaPath, false),
+                config: vscode.workspace.asRelativePath(cfgUri, false)
+            }, folder));
+        }
+        return tasks;
+    }
+
+    resolveTask(task: vscode.Task): vscode.Task | undefined {
+        const definition = task.definition as TlaTaskDefinition;
+        if (!TOOL_TITLES[definition.tool] || !definition.spec) {
+            return undefined;
+        }
+        const scope = task.scope ?? vscode.TaskScope.Workspace;
+        // The definition must be the same object, otherwise VS Code will not match the task to tasks.json
+        return this.createTask(definition, scope, task.name);
+    }
+
+    private createTask(
+        definition: TlaTaskDefinition,
+        scope: vscode.WorkspaceFolder | vscode.TaskScope,
+        name: string = `${TOOL_TITLES[definition.tool]}: ${definition.config ?? definition.spec}`
+    ): vscode.Task {
+        const folderPath = typeof scope === 'object' ? scope.uri.fsPath : undefined;
+        const task = new vscode.Task(
+            definition,
+            scope,
+            name,
+            TASK_TYPE_TLAPLUS,
+            new vscode.CustomExecution(async (resolved) =>
+                new TlaTaskTerminal(resolved as TlaTaskDefinition, folderPath, this.diagnostic))
+        );
+        if (definition.tool === 'sany' || definition.tool === 'pcal') {
+            task.group = vscode.TaskGroup.Build;
+        } else if (definition.tool === 'tlc') {
+            task.group = vscode.TaskGroup.Test;
+        }
+        return task;
+    }
+}
+
+/**
+ * Runs a tool and parses its output the same way the corresponding command does.
+ * The task fails when the tool reports errors, so that dependent tasks don't run.
+ */
+class TlaTaskTerminal implements vscode.Pseudoterminal {
+    private readonly writeEmitter = new vscode.EventEmitter<string>();
+    private readonly closeEmitter = new vscode.EventEmitter<number>();
+    readonly onDidWrite = this.writeEmitter.event;
+    readonly onDidClose = this.closeEmitter.event;
+    private procInfo: ToolProcessInfo | undefined;
+    private closed = false;
+
+    constructor(
+        private readonly definition: TlaTaskDefinition,
+        private readonly folderPath: string | undefined,
+        private readonly diagnostic: vscode.DiagnosticCollection
+    ) {}
+
+    open(): void {
+        this.run().then(
+            (exitCode) => this.closeEmitter.fire(exitCode),
+            (err) => {
+                this.writeLine(`${err instanceof Error ? err.message : err}`);
+                this.closeEmitter.fire(1);
+            }
+        );
+    }
+
+    close(): void {
+        this.closed = true;
+        if (this.procInfo) {
+            stopProcess(this.procInfo.process);
+        }
+    }
+
+    private async run(): Promise<number> {
+        const tlaFilePath = this.resolvePath(this.definition.spec);
+        const options = this.definition.options;
+        switch (this.definition.tool) {
+            case 'sany': {
+                const procInfo = await runSany(tlaFilePath, [], options);
+                const output = this.bindTo(procInfo);
+                const sanyData = await new SanyStdoutParser(procInfo.mergedOutput).readAll();
+                await output;
+                return this.reportProblems(sanyData.dCollection, procInfo);
+            }
+            case 'pcal': {
+                const procInfo = await runPlusCal(tlaFilePath, options);
+                const output = this.bindTo(procInfo);
+                const dCol = await new TranspilerStdoutParser(procInfo.mergedOutput, tlaFilePath).readAll();
+                await output;
+                return this.reportProblems(dCol, procInfo);
+            }
+            case 'tlc': {
+                const cfgFilePath = this.definition.config
+                    ? this.resolvePath(this.definition.config)
+                    : replaceExtension(tlaFilePath, 'cfg');
+                const procInfo = await runTlc(tlaFilePath, cfgFilePath, false, [], [], options);
+                if (!procInfo) {
+                    return 1;
+                }
+                const output = this.bindTo(procInfo, mapTlcOutputLine);
+                let checkResult: ModelCheckResult | undefined;
+                const dCol = await new TlcModelCheckerStdoutParser(
+                    ModelCheckResultSource.Process,
+                    procInfo.process.stdout,
+                    new SpecFiles(tlaFilePath, cfgFilePath),
+                    false,
+                    (result) => { checkResult = result; }
+                ).readAll();
+                await output;
+                const exitCode = await this.reportProblems(dCol, procInfo);
+                return checkResult?.state === CheckState.Error ? Math.max(exitCode, 1) : exitCode;
+            }
+            case 'tex': {
+                const procInfo = await runTex(tlaFilePath, options);
+                await this.bindTo(procInfo);
+                return await waitForExit(procInfo.process) ?? 1;
+            }
+        }
+    }
+
+    /**
+     * Sends the tool output to the terminal, the returned promise resolves when the output ends.
+     */
+    private bindTo(procInfo: ToolProcessInfo, lineMapper?: (line: string) => string | undefined): Promise<void> {
+        this.procInfo = procInfo;
+        if (this.closed) {
+            stopProcess(procInfo.process);
+        }
+        this.writeLine(procInfo.commandLine);
+        this.writeLine('');
+        return new TerminalSender(procInfo.mergedOutput, (line) => {
+            const eLine = lineMapper ? lineMapper(line) : line;
+            if (eLine !== undefined) {
+                this.writeLine(eLine);
+            }
+        }).readAll();
+    }
+
+    private async reportProblems(dCol: DCollection, procInfo: ToolProcessInfo): Promise<number> {
+        applyDCollection(dCol, this.diagnostic);
+        const hasErrors = dCol.getMessages().some((m) => m.diagnostic.severity === vscode.DiagnosticSeverity.Error);
+        // A process killed by a signal has no exit code, it didn't succeed either
+        const exitCode = await waitForExit(procInfo.process) ?? 1;
+        return hasErrors ? Math.max(exitCode, 1) : exitCode;
+    }
+
+    private resolvePath(filePath: string): string {
+        return path.isAbsolute(filePath) || !this.folderPath ? filePath : path.join(this.folderPath, filePath);
+    }
+
+    private writeLine(line: string): void {
+        this.writeEmitter.fire(line + '\r\n');
+    }
+}
+
+class TerminalSender extends ProcessOutputHandler<void> {
+    constructor(source: Readable, private readonly sendLine: (line: string) => void) {
+        super(source);
+    }
+
+    protected handleLine(line: string | null): void {
+        if (line !== null) {
+            this.sendLine(line);
+        }
+    }
+}
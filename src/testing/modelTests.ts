@@ -0,0 +1,223 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { readFile } from '../common';
+import { canRunTlc, doCheckModel, stopModelChecking } from '../commands/checkModel';
+import { resolveModelForUri } from '../commands/modelResolver';
+import { CheckState, ErrorInfo, getViolatedProperty, ModelCheckResult, SpecFiles } from '../model/check';
+import { parseCfgProperties } from '../parsers/cfg';
+
+const CONTROLLER_ID = 'tlaplusModels';
+
+/**
+ * Exposes every model (a .cfg file with the corresponding .tla module) of the workspace as a test,
+ * with invariants and properties of the model as its children. Running a test checks the model with TLC.
+ */
+export class ModelTestController implements vscode.Disposable {
+    private readonly controller: vscode.TestController;
+    private readonly specFiles = new WeakMap<vscode.TestItem, SpecFiles>();
+    private readonly disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private readonly extContext: vscode.ExtensionContext,
+        private readonly diagnostic: vscode.DiagnosticCollection
+    ) {
+        this.controller = vscode.tests.createTestController(CONTROLLER_ID, 'TLA+ Models');
+        this.controller.resolveHandler = (item) => item ? Promise.resolve() : this.discoverModels();
+        this.controller.refreshHandler = () => this.discoverModels();
+        this.controller.createRunProfile(
+            'Check model',
+            vscode.TestRunProfileKind.Run,
+            (request, token) => this.runTests(request, token),
+            true
+        );
+        const watcher = vscode.workspace.createFileSystemWatcher('**/*.{cfg,tla}');
+        watcher.onDidCreate((uri) => this.updateModel(uri));
+        watcher.onDidChange((uri) => this.updateModel(uri));
+        watcher.onDidDelete((uri) => this.controller.items.delete(toCfgUri(uri).toString()));
+        this.disposables.push(this.controller, watcher);
+    }
+
+    dispose(): void {
+        this.disposables.forEach((d) => d.dispose());
+    }
+
+    private async discoverModels(): Promise<void> {
+        const cfgUris = await vscode.workspace.findFiles('**/*.cfg');
+        const items: vscode.TestItem[] = [];
+        for (const cfgUri of cfgUris) {
+            const item = await this.createModelItem(cfgUri);
+            if (item) {
+                items.push(item);
+            }
+        }
+        this.controller.items.replace(items);
+    }
+
+    private async updateModel(uri: vscode.Uri): Promise<void> {
+        const cfgUri = toCfgUri(uri);
+        const item = await this.createModelItem(cfgUri);
+        if (item) {
+            this.controller.items.add(item);
+        } else {
+            this.controller.items.delete(cfgUri.toString());
+        }
+    }
+
+    private async createModelItem(cfgUri: vscode.Uri): Promise<vscode.TestItem | undefined> {
+        const model = await resolveModelForUri(cfgUri, false, false);
+        if (!model) {
+            return undefined;
+        }
+        const item = this.controller.createTestItem(cfgUri.toString(), model.modelName, cfgUri);
+        item.description = path.basename(model.tlaPath);
+        this.specFiles.set(item, new SpecFiles(model.tlaPath, model.cfgPath, model.modelName, model.outputDir));
+        let cfgText: string;
+        try {
+            cfgText = await readFile(model.cfgPath);
+        } catch (err) {
+            return item;
+        }
+        for (const property of parseCfgProperties(cfgText)) {
+            const child = this.controller.createTestItem(
+                `${cfgUri.toString()}#${property.name}`, property.name, cfgUri);
+            child.range = property.range;
+            item.children.add(child);
+        }
+        return item;
+    }
+
+    private async runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+        const run = this.controller.createTestRun(request);
+        // Properties are checked all at once by running their model
+        const models = new Map<vscode.TestItem, vscode.TestItem[]>();
+        const requested = request.include ?? collectItems(this.controller.items);
+        for (const item of requested) {
+            if (request.exclude?.includes(item)) {
+                continue;
+            }
+            const model = item.parent ?? item;
+            const properties = models.get(model) ?? [];
+            if (item.parent) {
+                properties.push(item);
+            } else {
+                collectItems(item.children).forEach((child) => properties.push(child));
+            }
+            models.set(model, properties.filter((p) => !request.exclude?.includes(p)));
+        }
+        // Only the check this run started is stopped, other checks belong to the user
+        let runningModel: SpecFiles | undefined;
+        const cancellation = token.onCancellationRequested(() => {
+            if (runningModel) {
+                stopModelChecking((lastSpecFiles) => lastSpecFiles === runningModel, true);
+            }
+        });
+        let blocked = false;
+        try {
+            for (const [model, properties] of models) {
+                if (token.isCancellationRequested) {
+                    [model, ...properties].forEach((item) => run.skipped(item));
+                    continue;
+                }
+                // TLC checks one model at a time, the running check may have been started outside the test run
+                blocked = blocked || !canRunTlc(this.extContext);
+                if (blocked) {
+                    const message = new vscode.TestMessage('Another model checking process is currently running');
+                    [model, ...properties].forEach((item) => run.errored(item, message));
+                    continue;
+                }
+                runningModel = this.specFiles.get(model);
+                await this.runModel(run, model, properties);
+                runningModel = undefined;
+            }
+        } finally {
+            cancellation.dispose();
+            run.end();
+        }
+    }
+
+    private async runModel(
+        run: vscode.TestRun,
+        model: vscode.TestItem,
+        properties: vscode.TestItem[]
+    ): Promise<void> {
+        const specFiles = this.specFiles.get(model);
+        if (!specFiles) {
+            run.skipped(model);
+            return;
+        }
+        [model, ...properties].forEach((item) => run.started(item));
+        const startTime = Date.now();
+        const checkResult = await doCheckModel(specFiles, false, this.extContext, this.diagnostic, false);
+        const duration = Date.now() - startTime;
+        if (!checkResult) {
+            const message = new vscode.TestMessage('Model checking could not be started, see TLC output for details');
+            [model, ...properties].forEach((item) => run.errored(item, message, duration));
+            return;
+        }
+        reportResult(run, model, properties, checkResult, duration);
+    }
+}
+
+function reportResult(
+    run: vscode.TestRun,
+    model: vscode.TestItem,
+    properties: vscode.TestItem[],
+    checkResult: ModelCheckResult,
+    duration: number
+): void {
+    if (checkResult.state === CheckState.Success) {
+        [model, ...properties].forEach((item) => run.passed(item, duration));
+        return;
+    }
+    if (checkResult.state !== CheckState.Error) {
+        [model, ...properties].forEach((item) => run.skipped(item));
+        return;
+    }
+    const modelMessages: vscode.TestMessage[] = [];
+    const failedProperties = new Set<vscode.TestItem>();
+    for (const error of checkResult.errors) {
+        const message = createTestMessage(error);
+        const violated = getViolatedProperty(error);
+        const property = properties.find((p) => p.label === violated);
+        if (property) {
+            run.failed(property, message, duration);
+            failedProperties.add(property);
+        }
+        modelMessages.push(message);
+    }
+    // TLC stops at the first violation, so the other properties are not known to hold
+    properties.filter((p) => !failedProperties.has(p)).forEach((p) => run.skipped(p));
+    run.failed(model, modelMessages, duration);
+}
+
+/**
+ * Converts TLC error to a test message that points to the source of the error
+ * and shows the counterexample as the stack trace.
+ */
+export function createTestMessage(error: ErrorInfo): vscode.TestMessage {
+    const message = new vscode.TestMessage(error.lines.map((l) => l.toString()).join('\n'));
+    const sourceLink = error.lines
+        .flatMap((l) => l.spans)
+        .find((s) => s.filePath !== undefined && s.location !== undefined);
+    if (sourceLink?.filePath && sourceLink.location) {
+        message.location = new vscode.Location(vscode.Uri.file(sourceLink.filePath), sourceLink.location);
+    }
+    if (error.errorTrace.length > 0) {
+        message.stackTrace = error.errorTrace.map((item) => new vscode.TestMessageStackFrame(
+            `${item.num}: ${item.title}`,
+            item.filePath ? vscode.Uri.file(item.filePath) : undefined,
+            item.filePath ? item.range.start : undefined
+        ));
+    }
+    return message;
+}
+
+function collectItems(collection: vscode.TestItemCollection): vscode.TestItem[] {
+    const items: vscode.TestItem[] = [];
+    collection.forEach((item) => items.push(item));
+    return items;
+}
+
+function toCfgUri(uri: vscode.Uri): vscode.Uri {
+    return uri.path.endsWith('.tla') ? uri.with({ path: uri.path.slice(0, -4) + '.cfg' }) : uri;
+}
@@ -16,7 +16,7 @@ const CFG_EXTENSION = '@ext:tlaplus.vscode-ide';
 
 const CFG_JAVA_HOME = 'tlaplus.java.home';
 const CFG_JAVA_OPTIONS = 'tlaplus.java.options';
-const CFG_TLC_OPTIONS = 'tlaplus.tlc.modelChecker.options';
+export const CFG_TLC_OPTIONS = 'tlaplus.tlc.modelChecker.options';
 const CFG_PLUSCAL_OPTIONS = 'tlaplus.pluscal.options';
 const CFG_TLC_OPTIONS_PROMPT = 'tlaplus.tlc.modelChecker.optionsPrompt';
 const CFG_TLA_PDF_NUMBER_LINES = 'tlaplus.pdf.numberLines';
@@ -53,6 +53,8 @@ export enum TlaTool {
     SANY = 'tla2sany.SANY',
     XMLExporter = 'tla2sany.xml.XMLExporter',
     TLC = 'tlc2.TLC',
+    TLC_SERVER = 'tlc2.tool.distributed.TLCServer',
+    TLC_WORKER = 'tlc2.tool.distributed.TLCWorker',
     TEX = 'tla2tex.TLA'
 }
 
@@ -105,16 +107,24 @@ export class JavaVersion {
     ) { }
 }
 
-function makeTlaLibraryJavaOpt(): string {
-    const libPaths = paths.moduleSearchPaths.
-        getOtherPaths(paths.TLC).
-        filter(p => !p.startsWith('jar:')). // TODO: Support archive paths as well.
-        join(path.delimiter);
+function makeTlaLibraryJavaOpt(extraPaths: string[] = []): string {
+    const libPaths = extraPaths.concat(getModuleSearchDirs()).join(path.delimiter);
     return '-DTLA-Library=' + libPaths;
 }
 
-export async function runPlusCal(tlaFilePath: string): Promise<ToolProcessInfo> {
-    const customOptions = getConfigOptions(CFG_PLUSCAL_OPTIONS);
+/**
+ * Returns the directories from the module search paths where the tools look for modules.
+ */
+export function getModuleSearchDirs(): string[] {
+    return paths.moduleSearchPaths.
+        getOtherPaths(paths.TLC).
+        filter(p => !p.startsWith('jar:')); // TODO: Support archive paths as well.
+}
+
+export async function runPlusCal(
+    tlaFilePath: string,
+    customOptions: string[] = getConfigOptions(CFG_PLUSCAL_OPTIONS)
+): Promise<ToolProcessInfo> {
     return runTool(
         TlaTool.PLUS_CAL,
         tlaFilePath,
@@ -123,17 +133,22 @@ export async function runPlusCal(tlaFilePath: string): Promise<ToolProcessInfo>
     );
 }
 
-export async function runSany(tlaFilePath: string): Promise<ToolProcessInfo> {
+export async function runSany(
+    tlaFilePath: string,
+    libraryPaths: string[] = [],
+    customOptions: string[] = []
+): Promise<ToolProcessInfo> {
     return runTool(
         TlaTool.SANY,
         tlaFilePath,
-        [path.basename(tlaFilePath)],
-        [makeTlaLibraryJavaOpt()]
+        customOptions.concat([path.basename(tlaFilePath)]),
+        [makeTlaLibraryJavaOpt(libraryPaths)]
     );
 }
 
 export async function runXMLExporter(
-    uri: vscode.Uri, addRetCodeHandler: boolean = true, includeExtendedModules: boolean = false
+    uri: vscode.Uri, addRetCodeHandler: boolean = true, includeExtendedModules: boolean = false,
+    libraryPaths: string[] = []
 ): Promise<ToolProcessInfo> {
     // If the URI scheme is our 'jarfile' scheme, SANY accepts the file name as is.
     // Otherwise, we need to convert it to a file system path.
@@ -149,7 +164,7 @@ export async function runXMLExporter(
         TlaTool.XMLExporter,
         fsPath,
         toolOptions,
-        [makeTlaLibraryJavaOpt()],
+        [makeTlaLibraryJavaOpt(libraryPaths)],
         addRetCodeHandler
     );
 }
@@ -179,13 +194,14 @@ function buildTexOptions(
     return toolArgs;
 }
 
-export async function runTex(tlaFilePath: string): Promise<ToolProcessInfo> {
+export async function runTex(tlaFilePath: string, customOptions: string[] = []): Promise<ToolProcessInfo> {
     const shadeComments = vscode.workspace.getConfiguration().get<boolean>(CFG_TLA_PDF_COMMENTS_SHADE, true);
     const commentColor = vscode.workspace.getConfiguration().get<number>(CFG_TLA_PDF_COMMENTS_SHADE_COLOR, 0.85);
     const numberLines = vscode.workspace.getConfiguration().get<boolean>(CFG_TLA_PDF_NUMBER_LINES, false);
     const noPcalShade = vscode.workspace.getConfiguration().get<boolean>(CFG_TLA_PDF_NO_PCAL_SHADE, false);
 
-    const options = buildTexOptions(tlaFilePath, shadeComments, commentColor, numberLines, noPcalShade);
+    const options = customOptions.concat(
+        buildTexOptions(tlaFilePath, shadeComments, commentColor, numberLines, noPcalShade));
 
     return runTool(
         TlaTool.TEX,
@@ -207,15 +223,19 @@ export async function runTlc(
     cfgFilePath: string,
     showOptionsPrompt: boolean,
     extraOpts: string[] = [],
-    extraJavaOpts: string[] = []
+    extraJavaOpts: string[] = [],
+    tlcOptions?: string[],      // Options to use instead of the ones from the settings
+    libraryPaths: string[] = [],
+    onOptionsChosen?: (tlcOptions: string[]) => void
 ): Promise<ToolProcessInfo | undefined> {
-    const promptedOptions = await getTlcOptions(showOptionsPrompt);
+    const promptedOptions = tlcOptions ?? await getTlcOptions(showOptionsPrompt);
     if (promptedOptions === undefined) {
         // Command cancelled by user
         return undefined;
     }
+    onOptionsChosen?.(promptedOptions);
     const customOptions = extraOpts.concat(promptedOptions);
-    const javaOptions = [makeTlaLibraryJavaOpt()];
+    const javaOptions = [makeTlaLibraryJavaOpt(libraryPaths)];
     const shareStats = vscode.workspace.getConfiguration().get<ShareOption>(CFG_TLC_STATISTICS_TYPE);
     if (shareStats !== ShareOption.DoNotShare) {
         javaOptions.push('-Dtlc2.TLC.ide=vscode');
@@ -228,6 +248,58 @@ export async function runTlc(
     );
 }
 
+/**
+ * Runs the master of a distributed TLC run. It checks nothing by itself, but waits for workers to connect.
+ */
+export async function runTlcServer(
+    tlaFilePath: string,
+    cfgFilePath: string,
+    tlcOptions: string[],
+    extraJavaOpts: string[] = [],
+    libraryPaths: string[] = []
+): Promise<ToolProcessInfo> {
+    const custOpts = tlcOptions.map((opt) => {
+        return opt
+            .replace(VAR_TLC_SPEC_NAME, path.parse(tlaFilePath).name)
+            .replace(VAR_TLC_MODEL_NAME, path.parse(cfgFilePath).name);
+    });
+    const opts = ['-tool'];
+    addValueOrDefault('-config', cfgFilePath, custOpts, opts);
+    return runTool(
+        TlaTool.TLC_SERVER,
+        tlaFilePath,
+        opts.concat(custOpts, [path.basename(tlaFilePath)]),
+        [makeTlaLibraryJavaOpt(libraryPaths)].concat(extraJavaOpts)
+    );
+}
+
+/**
+ * Runs a worker JVM of a distributed TLC run on this machine.
+ * @param tlaFilePath Spec the master checks, the worker is run in its directory.
+ * @param serverHost Host where the master runs.
+ */
+export async function runTlcWorker(tlaFilePath: string, serverHost: string): Promise<ToolProcessInfo> {
+    // Workers exit with errors when the master is stopped, there's no need to report that
+    return runTool(TlaTool.TLC_WORKER, tlaFilePath, [serverHost], [], false);
+}
+
+/**
+ * Runs a worker JVM of a distributed TLC run on another machine over SSH.
+ * The machine must have Java and the TLA+ tools installed, and accept SSH keys without prompts.
+ */
+export function runSshTlcWorker(
+    sshHost: string,
+    remoteJavaPath: string,
+    remoteToolsJarPath: string,
+    serverHost: string
+): ToolProcessInfo {
+    const args = [
+        '-o', 'BatchMode=yes', sshHost,
+        remoteJavaPath, '-cp', remoteToolsJarPath, TlaTool.TLC_WORKER, serverHost
+    ];
+    return new ToolProcessInfo(buildCommandLine('ssh', args), spawn('ssh', args));
+}
+
 async function runTool(
     toolName: string,
     filePath: string,
@@ -289,6 +361,17 @@ export function stopProcess(p: cp.ChildProcess): void {
     }
 }
 
+/**
+ * Resolves with the exit code of the given process once it has exited, or null if it was killed by a signal.
+ * The output streams of a process may end before it exits, so the exit code isn't known yet at that moment.
+ */
+export function waitForExit(p: cp.ChildProcess): Promise<number | null> {
+    if (p.exitCode !== null || p.signalCode !== null) {
+        return Promise.resolve(p.exitCode);
+    }
+    return new Promise((resolve) => p.once('exit', (code) => resolve(code)));
+}
+
 export function getJavaPath(): string {
     const javaHome = vscode.workspace.getConfiguration().get<string>(CFG_JAVA_HOME);
     if (cachedJavaPath && javaHome === lastUsedJavaHome) {
@@ -1,5 +1,5 @@
 import * as vscode from 'vscode';
-import { CoverageItem } from './model/check';
+import { CoverageItem, SubexpressionCoverageItem } from './model/check';
 
 export interface CoverageLevel {
     name: string;
@@ -21,6 +21,10 @@ export class TlcCoverageDecorationProvider {
     private enabled = false;
     private decorationTypes = new Map<string, vscode.TextEditorDecorationType>();
     private currentCoverage = new Map<string, CoverageItem[]>(); // filePath -> coverage items
+    private currentSubexpressions = new Map<string, SubexpressionCoverageItem[]>(); // filePath -> subexpressions
+    private allCoverage: CoverageItem[] = [];
+    private readonly coverageEmitter = new vscode.EventEmitter<void>();
+    readonly onDidChangeCoverage = this.coverageEmitter.event;
     private totalDistinctStates = 0;
     private disposables: vscode.Disposable[] = [];
 
@@ -78,6 +82,8 @@ export class TlcCoverageDecorationProvider {
     public updateCoverage(coverageItems: CoverageItem[], totalDistinctStates?: number) {
         // Clear existing coverage
         this.currentCoverage.clear();
+        this.currentSubexpressions.clear();
+        this.allCoverage = coverageItems.slice();
 
         // Update total distinct states if provided
         if (totalDistinctStates !== undefined) {
@@ -95,7 +101,9 @@ export class TlcCoverageDecorationProvider {
             if (items) {
                 items.push(item);
             }
+            this.addSubexpressions(item.subexpressions);
         }
+        this.coverageEmitter.fire();
 
         // Update all visible editors
         if (this.enabled) {
@@ -103,6 +111,34 @@ export class TlcCoverageDecorationProvider {
         }
     }
 
+    /**
+     * Subexpressions may be defined in other modules than their actions, so they are grouped by their own files.
+     */
+    private addSubexpressions(subexpressions: SubexpressionCoverageItem[]) {
+        for (const sub of subexpressions) {
+            if (sub.filePath) {
+                const items = this.currentSubexpressions.get(sub.filePath) ?? [];
+                items.push(sub);
+                this.currentSubexpressions.set(sub.filePath, items);
+            }
+            this.addSubexpressions(sub.children);
+        }
+    }
+
+    /**
+     * Returns coverage of the actions defined in the given file.
+     */
+    public getCoverage(filePath: string): CoverageItem[] {
+        return this.currentCoverage.get(filePath) ?? [];
+    }
+
+    /**
+     * Returns coverage of all actions of the last model checking run.
+     */
+    public getAllCoverage(): CoverageItem[] {
+        return this.allCoverage;
+    }
+
     private updateAllEditors() {
         vscode.window.visibleTextEditors.forEach(editor => {
             this.updateDecorations(editor);
@@ -112,13 +148,14 @@ export class TlcCoverageDecorationProvider {
     private updateDecorations(editor: vscode.TextEditor) {
         const filePath = editor.document.uri.fsPath;
         const coverageItems = this.currentCoverage.get(filePath) || [];
+        const subexpressions = this.currentSubexpressions.get(filePath) || [];
 
         // Clear all decorations first
         this.decorationTypes.forEach(decType => {
             editor.setDecorations(decType, []);
         });
 
-        if (!this.enabled || coverageItems.length === 0) {
+        if (!this.enabled || (coverageItems.length === 0 && subexpressions.length === 0)) {
             return;
         }
 
@@ -146,6 +183,16 @@ export class TlcCoverageDecorationProvider {
             }
         }
 
+        // Subexpressions are scaled on their own, evaluation counts are not comparable with numbers of states
+        const maxEvaluations = Math.max(...subexpressions.map(sub => sub.count), 1);
+        for (const sub of subexpressions) {
+            const level = this.getInvocationLevel(sub.count, maxEvaluations, useRelativeScale);
+            decorationsByLevel.get(level.name)?.push({
+                range: sub.range,
+                hoverMessage: this.createSubexpressionHoverMessage(sub)
+            });
+        }
+
         // Apply decorations
         decorationsByLevel.forEach((decorations, levelName) => {
             const decType = this.decorationTypes.get(levelName);
@@ -196,6 +243,15 @@ export class TlcCoverageDecorationProvider {
         return md;
     }
 
+    private createSubexpressionHoverMessage(sub: SubexpressionCoverageItem): vscode.MarkdownString {
+        const md = new vscode.MarkdownString();
+        md.appendMarkdown(`**Evaluated ${sub.count} times**`);
+        if (sub.cost !== undefined) {
+            md.appendMarkdown(` at the cost of ${sub.cost}`);
+        }
+        return md;
+    }
+
     public setEnabled(enabled: boolean) {
         this.enabled = enabled;
         if (enabled) {
@@ -211,7 +267,10 @@ export class TlcCoverageDecorationProvider {
 
     public clearCoverage() {
         this.currentCoverage.clear();
+        this.currentSubexpressions.clear();
+        this.allCoverage = [];
         this.clearAllDecorations();
+        this.coverageEmitter.fire();
     }
 
     private clearAllDecorations() {
@@ -229,6 +288,7 @@ export class TlcCoverageDecorationProvider {
 
     public dispose() {
         this.disposeDecorationTypes();
+        this.coverageEmitter.dispose();
         this.disposables.forEach(d => d.dispose());
     }
 }
\ No newline at end of file
@@ -0,0 +1,38 @@
+import * as React from 'react';
+import { createRoot } from 'react-dom/client';
+import { CfgEditor, CfgEditorData } from './cfgEditor/cfgEditor';
+import { vscode } from './cfgEditor/vscode';
+
+import '@vscode/codicons/dist/codicon.css';
+import './cfgEditor/index.css';
+
+interface CfgEditorViewAppI {data: CfgEditorData | undefined}
+const CfgEditorViewApp = React.memo(({data}: CfgEditorViewAppI) =>
+    <React.StrictMode>
+        {data && <CfgEditor {...data}/>}
+    </React.StrictMode>
+);
+
+const root = createRoot(document.getElementById('root') as HTMLElement);
+
+function render(data: CfgEditorData | undefined) {
+    root.render(<CfgEditorViewApp data={data}/>);
+}
+
+window.addEventListener('message', (event) => {
+    if (event.data.type === 'update') {
+        const data: CfgEditorData = {
+            empty: event.data.empty,
+            model: event.data.model,
+            spec: event.data.spec,
+            tlcOptions: event.data.tlcOptions
+        };
+        vscode.setState(data);
+        render(data);
+    }
+});
+
+window.addEventListener('load', () => {
+    render(vscode.getState() as CfgEditorData | undefined);
+    vscode.ready();
+});
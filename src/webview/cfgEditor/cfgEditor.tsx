@@ -0,0 +1,337 @@
+import * as React from 'react';
+import {
+    VscodeButton,
+    VscodeCheckbox,
+    VscodeOption,
+    VscodeSingleSelect,
+    VscodeTable,
+    VscodeTableBody,
+    VscodeTableCell,
+    VscodeTableHeader,
+    VscodeTableHeaderCell,
+    VscodeTableRow,
+    VscodeTextfield
+} from '@vscode-elements/react-elements';
+import { CfgConstantKind, CfgConstantValue, CfgModel, CfgSpecDefinition, CfgSpecInfo } from '../../model/cfgModel';
+import { vscode } from './vscode';
+
+type SingleSelectElement = HTMLElementTagNameMap['vscode-single-select'];
+type TextfieldElement = HTMLElementTagNameMap['vscode-textfield'];
+type CheckboxElement = HTMLElementTagNameMap['vscode-checkbox'];
+
+const CONSTANT_KINDS: { kind: CfgConstantKind, label: string }[] = [
+    { kind: 'value', label: 'Ordinary value' },
+    { kind: 'modelValue', label: 'Model value' },
+    { kind: 'modelValues', label: 'Set of model values' },
+    { kind: 'replacement', label: 'Operator' }
+];
+
+const LEVEL_CONSTANT = 0;
+const LEVEL_STATE = 1;
+const LEVEL_ACTION = 2;
+const LEVEL_TEMPORAL = 3;
+
+export interface CfgEditorData {
+    empty: boolean;
+    model: CfgModel;
+    spec: CfgSpecInfo | undefined;
+    tlcOptions: string;
+}
+
+/**
+ * Form for the sections of a model config file. Every change is sent to the extension right away,
+ * which updates the text and sends the new model back.
+ */
+export const CfgEditor = React.memo(({empty, model, spec, tlcOptions}: CfgEditorData) => {
+    const update = (changes: Partial<CfgModel>) => vscode.updateModel({ ...model, ...changes });
+    const definitions = spec?.definitions ?? [];
+
+    if (empty) {
+        return (
+            <div className="cfg-editor">
+                <p>This model config is empty.</p>
+                <div className="cfg-editor-buttons">
+                    <VscodeButton onClick={() => vscode.useTemplate()}>Start from template</VscodeButton>
+                    <VscodeButton secondary onClick={() => update(createInitialModel(spec))}>
+                        Start from scratch
+                    </VscodeButton>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="cfg-editor">
+            <div className="cfg-editor-header">
+                <h2>{spec ? `Model of ${spec.moduleName}` : 'Model'}</h2>
+                <span
+                    title="Edit as text"
+                    onClick={() => vscode.openText()}
+                    className="codicon codicon-go-to-file cursor-pointer option-button"/>
+            </div>
+            {!spec && <p className="cfg-editor-hint">The specification of this model is not found.</p>}
+
+            <h3>Behavior</h3>
+            <p className="cfg-editor-hint">
+                Give either a temporal formula, or initial predicate and next-state action.
+            </p>
+            <div className="cfg-editor-grid">
+                <label>Temporal formula</label>
+                <OperatorSelect
+                    value={model.specification}
+                    options={definitions}
+                    maxLevel={LEVEL_TEMPORAL}
+                    onChange={(specification) => update({ specification })}/>
+                <label>Initial predicate</label>
+                <OperatorSelect
+                    value={model.init}
+                    options={definitions}
+                    maxLevel={LEVEL_STATE}
+                    onChange={(init) => update({ init })}/>
+                <label>Next-state action</label>
+                <OperatorSelect
+                    value={model.next}
+                    options={definitions}
+                    maxLevel={LEVEL_ACTION}
+                    onChange={(next) => update({ next })}/>
+            </div>
+
+            <h3>Constants</h3>
+            <ConstantsTable
+                constants={model.constants}
+                declared={spec?.constants ?? []}
+                onChange={(constants) => update({ constants })}/>
+
+            <h3>Invariants</h3>
+            <OperatorChecklist
+                checked={model.invariants}
+                options={definitions.filter((d) => d.level === undefined || d.level <= LEVEL_STATE)}
+                onChange={(invariants) => update({ invariants })}/>
+
+            <h3>Properties</h3>
+            <OperatorChecklist
+                checked={model.properties}
+                options={definitions.filter((d) => d.level === undefined || d.level === LEVEL_TEMPORAL)}
+                onChange={(properties) => update({ properties })}/>
+
+            <h3>Options</h3>
+            <div className="cfg-editor-grid">
+                <label>Symmetry set</label>
+                <OperatorSelect
+                    value={model.symmetry}
+                    options={definitions}
+                    maxLevel={LEVEL_CONSTANT}
+                    onChange={(symmetry) => update({ symmetry })}/>
+                <label>View</label>
+                <OperatorSelect
+                    value={model.view}
+                    options={definitions}
+                    maxLevel={LEVEL_STATE}
+                    onChange={(view) => update({ view })}/>
+                <label>Alias</label>
+                <OperatorSelect
+                    value={model.alias}
+                    options={definitions}
+                    maxLevel={LEVEL_STATE}
+                    onChange={(alias) => update({ alias })}/>
+                <label>Check deadlock</label>
+                <DeadlockSelect value={model.checkDeadlock} onChange={(checkDeadlock) => update({ checkDeadlock })}/>
+                <label>TLC options</label>
+                <VscodeTextfield
+                    value={tlcOptions}
+                    placeholder="-workers 1 -coverage 1"
+                    title="Options for all TLC runs, saved to the tlaplus.tlc.modelChecker.options setting"
+                    onChange={(event: React.ChangeEvent<TextfieldElement>) =>
+                        vscode.setTlcOptions(event.currentTarget.value)}/>
+            </div>
+        </div>
+    );
+});
+
+interface OperatorSelectI {
+    value: string;
+    options: CfgSpecDefinition[];
+    maxLevel: number;
+    onChange: (value: string) => void;
+}
+
+/**
+ * Picks an operator that fits the section. The current value is always offered, even if it doesn't fit.
+ */
+const OperatorSelect = ({value, options, maxLevel, onChange}: OperatorSelectI) => {
+    const names = options
+        .filter((d) => d.level === undefined || d.level <= maxLevel)
+        .map((d) => d.name);
+    if (value && !names.includes(value)) {
+        names.unshift(value);
+    }
+    return (
+        <VscodeSingleSelect
+            value={value}
+            combobox
+            onChange={(event: React.ChangeEvent<SingleSelectElement>) => onChange(event.currentTarget.value)}>
+            <VscodeOption value="" selected={value === ''}>(none)</VscodeOption>
+            {names.map((name) => <VscodeOption key={name} value={name} selected={value === name}>{name}</VscodeOption>)}
+        </VscodeSingleSelect>
+    );
+};
+
+interface DeadlockSelectI {
+    value: boolean | undefined;
+    onChange: (value: boolean | undefined) => void;
+}
+
+const DeadlockSelect = ({value, onChange}: DeadlockSelectI) => {
+    const current = value === undefined ? '' : String(value);
+    const handleChange = (event: React.ChangeEvent<SingleSelectElement>) => {
+        const selected = event.currentTarget.value;
+        onChange(selected === '' ? undefined : selected === 'true');
+    };
+    return (
+        <VscodeSingleSelect value={current} onChange={handleChange}>
+            <VscodeOption value="" selected={current === ''}>Default (checked)</VscodeOption>
+            <VscodeOption value="true" selected={current === 'true'}>Yes</VscodeOption>
+            <VscodeOption value="false" selected={current === 'false'}>No</VscodeOption>
+        </VscodeSingleSelect>
+    );
+};
+
+interface OperatorChecklistI {
+    checked: string[];
+    options: CfgSpecDefinition[];
+    onChange: (checked: string[]) => void;
+}
+
+const OperatorChecklist = ({checked, options, onChange}: OperatorChecklistI) => {
+    const names = options.map((d) => d.name);
+    checked.filter((name) => !names.includes(name)).forEach((name) => names.push(name));
+    if (names.length === 0) {
+        return <p className="cfg-editor-hint">No suitable definitions found in the specification.</p>;
+    }
+    const toggle = (name: string, isChecked: boolean) => {
+        onChange(isChecked ? checked.concat(name) : checked.filter((n) => n !== name));
+    };
+    return (
+        <div className="cfg-editor-checklist">
+            {names.map((name) =>
+                <VscodeCheckbox
+                    key={name}
+                    label={name}
+                    checked={checked.includes(name)}
+                    onChange={(event: React.ChangeEvent<CheckboxElement>) =>
+                        toggle(name, event.currentTarget.checked)}/>)}
+        </div>
+    );
+};
+
+interface ConstantsTableI {
+    constants: CfgConstantValue[];
+    declared: string[];
+    onChange: (constants: CfgConstantValue[]) => void;
+}
+
+/**
+ * Lists the constants declared in the spec along with the ones the config assigns.
+ * Constants without values are left out of the config.
+ */
+const ConstantsTable = ({constants, declared, onChange}: ConstantsTableI) => {
+    const names = declared.slice();
+    constants.filter((c) => !names.includes(c.name)).forEach((c) => names.push(c.name));
+    if (names.length === 0) {
+        return <p className="cfg-editor-hint">The specification declares no constants.</p>;
+    }
+    const change = (constant: CfgConstantValue) => {
+        const assigned = constant.kind === 'modelValue' || constant.value.trim() !== '';
+        const others = constants.filter((c) => c.name !== constant.name);
+        const index = constants.findIndex((c) => c.name === constant.name);
+        if (!assigned) {
+            onChange(others);
+        } else if (index < 0) {
+            onChange(constants.concat(constant));
+        } else {
+            onChange(constants.map((c) => c.name === constant.name ? constant : c));
+        }
+    };
+    return (
+        <VscodeTable aria-label="Constants" borderedRows zebra columns={['20%', '25%', 'auto']}>
+            <VscodeTableHeader slot="header">
+                <VscodeTableHeaderCell>Name</VscodeTableHeaderCell>
+                <VscodeTableHeaderCell>Kind</VscodeTableHeaderCell>
+                <VscodeTableHeaderCell>Value</VscodeTableHeaderCell>
+            </VscodeTableHeader>
+            <VscodeTableBody slot="body">
+                {names.map((name) =>
+                    <ConstantRow
+                        key={name}
+                        constant={constants.find((c) => c.name === name) ?? { name, kind: 'value', value: '' }}
+                        declared={declared.includes(name)}
+                        onChange={change}/>)}
+            </VscodeTableBody>
+        </VscodeTable>
+    );
+};
+
+interface ConstantRowI {
+    constant: CfgConstantValue;
+    declared: boolean;
+    onChange: (constant: CfgConstantValue) => void;
+}
+
+const ConstantRow = ({constant, declared, onChange}: ConstantRowI) => {
+    // Constants without values are not in the config, so their kind is only kept here until a value is given
+    const [kind, setKind] = React.useState(constant.kind);
+    React.useEffect(() => setKind(constant.kind), [constant.kind, constant.value]);
+    const handleKind = (event: React.ChangeEvent<SingleSelectElement>) => {
+        const newKind = event.currentTarget.value as CfgConstantKind;
+        setKind(newKind);
+        onChange({ ...constant, kind: newKind });
+    };
+    const handleValue = (event: React.ChangeEvent<TextfieldElement>) => {
+        onChange({ ...constant, kind, value: event.currentTarget.value });
+    };
+    return (
+        <VscodeTableRow>
+            <VscodeTableCell title={declared ? undefined : 'Not declared in the specification'}>
+                {declared ? constant.name : <s>{constant.name}</s>}
+            </VscodeTableCell>
+            <VscodeTableCell>
+                <VscodeSingleSelect value={kind} onChange={handleKind}>
+                    {CONSTANT_KINDS.map((k) =>
+                        <VscodeOption key={k.kind} value={k.kind} selected={kind === k.kind}>
+                            {k.label}
+                        </VscodeOption>)}
+                </VscodeSingleSelect>
+            </VscodeTableCell>
+            <VscodeTableCell>
+                {kind !== 'modelValue' &&
+                    <VscodeTextfield
+                        value={constant.value}
+                        placeholder={getValuePlaceholder(kind)}
+                        onChange={handleValue}/>}
+            </VscodeTableCell>
+        </VscodeTableRow>
+    );
+};
+
+function getValuePlaceholder(kind: CfgConstantKind): string {
+    switch (kind) {
+        case 'modelValues':
+            return 'p1, p2, p3';
+        case 'replacement':
+            return 'Operator name';
+        default:
+            return 'TLA+ expression';
+    }
+}
+
+/**
+ * A model with the conventional Init and Next, and all the constants as model values, to be refined from there.
+ */
+function createInitialModel(spec: CfgSpecInfo | undefined): Partial<CfgModel> {
+    const names = (spec?.definitions ?? []).map((d) => d.name);
+    return {
+        init: names.includes('Init') ? 'Init' : '',
+        next: names.includes('Next') ? 'Next' : '',
+        constants: (spec?.constants ?? []).map((name) => ({ name, kind: 'modelValue', value: '' }))
+    };
+}
@@ -0,0 +1,47 @@
+import { vsCodeApi } from '../common/vscode_api';
+import { CfgModel } from '../../model/cfgModel';
+
+class VSCodeWrapper {
+
+    public ready() {
+        vsCodeApi.postMessage({
+            type: 'ready'
+        });
+    }
+
+    public updateModel(model: CfgModel) {
+        vsCodeApi.postMessage({
+            type: 'updateModel',
+            model
+        });
+    }
+
+    public useTemplate() {
+        vsCodeApi.postMessage({
+            type: 'useTemplate'
+        });
+    }
+
+    public setTlcOptions(options: string) {
+        vsCodeApi.postMessage({
+            type: 'setTlcOptions',
+            options
+        });
+    }
+
+    public openText() {
+        vsCodeApi.postMessage({
+            type: 'openText'
+        });
+    }
+
+    public setState<T extends unknown | undefined>(newState: T) {
+        return vsCodeApi.setState(newState);
+    }
+
+    public getState(): unknown {
+        return vsCodeApi.getState();
+    }
+}
+
+export const vscode = new VSCodeWrapper();
@@ -1,7 +1,8 @@
 import * as React from 'react';
 import { createRoot } from 'react-dom/client';
 import { ModelCheckResult } from '../model/check';
-import { ErrorTraceSection } from './checkResultView/errorTraceSection';
+import { SequenceDiagramConfig } from '../model/sequenceDiagram';
+import { ErrorTraceSection, selectErrorTraceState } from './checkResultView/errorTraceSection';
 import { HeaderSection } from './checkResultView/headerSection';
 import { OutputSection } from './checkResultView/outputSection';
 import { StatsSection } from './checkResultView/statsSection';
@@ -9,24 +10,39 @@ import { vscode } from './checkResultView/vscode';
 
 import '@vscode/codicons/dist/codicon.css';
 
-interface CheckResultViewAppI {state: ModelCheckResult}
-const CheckResultViewApp = React.memo(({state}: CheckResultViewAppI) =>
+interface CheckResultViewAppI {
+    state: ModelCheckResult;
+    sequenceDiagramConfig: SequenceDiagramConfig | undefined;
+}
+const CheckResultViewApp = React.memo(({state, sequenceDiagramConfig}: CheckResultViewAppI) =>
     <React.StrictMode>
         {state && <HeaderSection checkResult={state}/>}
         {state && <StatsSection checkResult={state}/>}
         {state && <OutputSection checkResult={state}/>}
-        {state && <ErrorTraceSection checkResult={state}/>}
+        {state && <ErrorTraceSection checkResult={state} sequenceDiagramConfig={sequenceDiagramConfig}/>}
     </React.StrictMode>
 );
 
 let root = createRoot(document.getElementById('root') as HTMLElement);
+let sequenceDiagramConfig: SequenceDiagramConfig | undefined;
 
 function render(checkResult: ModelCheckResult) {
-    root.render(<CheckResultViewApp state={checkResult}/>);
+    root.render(<CheckResultViewApp state={checkResult} sequenceDiagramConfig={sequenceDiagramConfig}/>);
 }
 
 window.addEventListener('message',
     (event) => {
+        if (event.data.selectState) {
+            selectErrorTraceState(event.data.selectState.errorIndex, event.data.selectState.stateIndex);
+            return;
+        }
+
+        if ('sequenceDiagramConfig' in event.data) {
+            sequenceDiagramConfig = event.data.sequenceDiagramConfig ?? undefined;
+            render(vscode.getState() as ModelCheckResult);
+            return;
+        }
+
         if (JSON.stringify(vscode.getState()) === JSON.stringify(event.data.checkResult)) {
             return;
         }
@@ -6,7 +6,10 @@ import {
 } from '@vscode-elements/react-elements';
 import * as React from 'react';
 import { ErrorInfo } from '../../../model/check';
+import { SequenceDiagramConfig } from '../../../model/sequenceDiagram';
 import { ErrorTraceState } from './errorTraceState';
+import { SequenceDiagramView } from './sequenceDiagramView';
+import { StateDiffView } from './stateDiffView';
 import { createTreeItemRegistry, TreeItemRegistry } from './treeItemRegistry';
 import { vscode } from '../vscode';
 
@@ -17,8 +20,15 @@ interface ErrorTraceI {
     traceId: number;
     state: string;
     traceFilePath: string | undefined;
+    sequenceDiagramConfig: SequenceDiagramConfig | undefined;
 }
-export const ErrorTrace = React.memo(({errorInfo, traceId, state, traceFilePath}: ErrorTraceI) => {
+export const ErrorTrace = React.memo(({
+    errorInfo,
+    traceId,
+    state,
+    traceFilePath,
+    sequenceDiagramConfig
+}: ErrorTraceI) => {
     if (!errorInfo.errorTrace || errorInfo.errorTrace.length === 0) {
         return (null);
     }
@@ -31,6 +41,8 @@ export const ErrorTrace = React.memo(({errorInfo, traceId, state, traceFilePath}
         collapseAllStates,
         expandAllStates
     } = useSettings();
+    const [view, setView] = React.useState<TraceView>('tree');
+    const toggleView = (newView: TraceView) => setView(view === newView ? 'tree' : newView);
 
     const handleFilterChange = (event: React.ChangeEvent<TextfieldElement>) => {
         setFilter(event.currentTarget.value);
@@ -67,21 +79,43 @@ export const ErrorTrace = React.memo(({errorInfo, traceId, state, traceFilePath}
                             onClick={() => setHideModified(true)}
                             className="codicon codicon-eye-closed cursor-pointer option-button"/>}
 
+                    {view === 'tree' &&
+                        <span
+                            title="Collapse all states"
+                            onClick={collapseAllStates}
+                            className="codicon codicon-fold cursor-pointer option-button"/>}
+
+                    {view === 'tree' &&
+                        <span
+                            title="Expand all states"
+                            onClick={expandAllStates}
+                            className="codicon codicon-unfold cursor-pointer option-button"/>}
+
                     <span
-                        title="Collapse all states"
-                        onClick={collapseAllStates}
-                        className="codicon codicon-fold cursor-pointer option-button"/>
+                        title={view === 'diff' ? 'Show all states' : 'Compare states'}
+                        onClick={() => toggleView('diff')}
+                        className={getViewToggleClass(view, 'diff', 'diff')}/>
 
                     <span
-                        title="Expand all states"
-                        onClick={expandAllStates}
-                        className="codicon codicon-unfold cursor-pointer option-button"/>
+                        title={view === 'sequence' ? 'Show all states' : 'Show as sequence diagram'}
+                        onClick={() => toggleView('sequence')}
+                        className={getViewToggleClass(view, 'sequence', 'arrow-swap')}/>
 
                     <span
                         title={getDebugTooltip(state, traceFilePath)}
                         onClick={isDebugDisabled(state, traceFilePath) ? undefined : vscode.debugCounterexample}
                         className={`codicon codicon-debug-alt cursor-pointer option-button${isDebugDisabled(state, traceFilePath) ? ' disabled' : ''}`}/>
 
+                    <span
+                        title="Show counterexample as a graph"
+                        onClick={() => vscode.showTraceGraph(traceId)}
+                        className="codicon codicon-type-hierarchy-sub cursor-pointer option-button"/>
+
+                    <span
+                        title="Export counterexample"
+                        onClick={() => vscode.exportErrorTrace(traceId)}
+                        className="codicon codicon-export cursor-pointer option-button"/>
+
                     <span
                         title="Ask AI about this counterexample"
                         onClick={vscode.openAIChat}
@@ -89,21 +123,29 @@ export const ErrorTrace = React.memo(({errorInfo, traceId, state, traceFilePath}
 
                 </div>
 
-                <VscodeTree>
-                    {errorInfo.errorTrace.map(
-                        (v, index) =>
-                            <ErrorTraceState
-                                key={index}
-                                stateIndex={index}
-                                errorTraceItem={v}
-                                settings={settings}
-                                registerTreeItem={registerStateTreeItem}/>)}
-                </VscodeTree>
+                {view === 'diff' && <StateDiffView errorTrace={errorInfo.errorTrace} settings={settings}/>}
+
+                {view === 'sequence' &&
+                    <SequenceDiagramView errorTrace={errorInfo.errorTrace} config={sequenceDiagramConfig}/>}
+
+                {view === 'tree' &&
+                    <VscodeTree>
+                        {errorInfo.errorTrace.map(
+                            (v, index) =>
+                                <ErrorTraceState
+                                    key={index}
+                                    stateIndex={index}
+                                    errorTraceItem={v}
+                                    settings={settings}
+                                    registerTreeItem={registerStateTreeItem}/>)}
+                    </VscodeTree>}
             </VscodeTabPanel>
         </>
     );
 });
 
+type TraceView = 'tree' | 'diff' | 'sequence';
+
 export interface ErrorTraceSettings {
     readonly hideModified: boolean;
     readonly filter: string[];
@@ -156,6 +198,14 @@ const useSettings = () => {
     };
 };
 
+/**
+ * Toggles show the icon of the view they switch to, which is the states tree when their own view is shown.
+ */
+const getViewToggleClass = (view: TraceView, toggleView: TraceView, icon: string): string => {
+    const shownIcon = view === toggleView ? 'list-tree' : icon;
+    return `codicon codicon-${shownIcon} cursor-pointer option-button`;
+};
+
 const isDebugDisabled = (state: string, traceFilePath: string | undefined): boolean => {
     const stillRunning = state === 'R';
     const hasTraceFile = traceFilePath !== undefined;
@@ -41,7 +41,7 @@ export const ErrorTraceState = React.memo(({
     }, []);
 
     return (
-        <VscodeTreeItem id={stateId} ref={handleRef}>
+        <VscodeTreeItem id={stateId} ref={handleRef} data-state-index={stateIndex}>
             <div className="error-trace-title">
                 <span> {errorTraceItem.num}: {errorTraceItem.title} </span>
                 <CodeRangeLink line=' >>' filepath={errorTraceItem.filePath} range={errorTraceItem.range}/>
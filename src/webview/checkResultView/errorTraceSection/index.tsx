@@ -1,12 +1,19 @@
 import { VscodeTabs } from '@vscode-elements/react-elements';
 import * as React from 'react';
 import { ModelCheckResult } from '../../../model/check';
+import { SequenceDiagramConfig } from '../../../model/sequenceDiagram';
 import { ErrorTrace } from './errorTrace';
 
 import './index.css';
 
-interface ErrorTraceSectionI {checkResult: ModelCheckResult}
-export const ErrorTraceSection = React.memo(({checkResult}: ErrorTraceSectionI) => {
+type TabsElement = HTMLElementTagNameMap['vscode-tabs'];
+type TreeItemElement = HTMLElementTagNameMap['vscode-tree-item'];
+
+interface ErrorTraceSectionI {
+    checkResult: ModelCheckResult;
+    sequenceDiagramConfig: SequenceDiagramConfig | undefined;
+}
+export const ErrorTraceSection = React.memo(({checkResult, sequenceDiagramConfig}: ErrorTraceSectionI) => {
     if (!checkResult.errors || checkResult.errors.length === 0) {
         return (null);
     }
@@ -19,8 +26,33 @@ export const ErrorTraceSection = React.memo(({checkResult}: ErrorTraceSectionI)
                     errorInfo={error} 
                     traceId={index}
                     state={checkResult.state}
-                    traceFilePath={checkResult.traceFilePath}/>)}
+                    traceFilePath={checkResult.traceFilePath}
+                    sequenceDiagramConfig={sequenceDiagramConfig}/>)}
             </VscodeTabs>
         </section>
     );
 });
+
+/**
+ * Switches to the counterexample tab and reveals the state in it, e.g. when the state is picked in the graph view.
+ */
+export function selectErrorTraceState(errorIndex: number, stateIndex: number): void {
+    const tabs = document.getElementById('error-trace-tabs') as TabsElement | null;
+    if (!tabs) {
+        return;
+    }
+    tabs.selectedIndex = errorIndex;
+    const panel = tabs.querySelectorAll('vscode-tab-panel')[errorIndex];
+    if (!panel) {
+        return;
+    }
+    const items = panel.querySelectorAll<TreeItemElement>('vscode-tree-item[data-state-index]');
+    items.forEach((item) => {
+        const selected = item.dataset.stateIndex === String(stateIndex);
+        item.selected = selected;
+        if (selected) {
+            item.open = true;
+            item.scrollIntoView({ block: 'start', behavior: 'smooth' });
+        }
+    });
+}
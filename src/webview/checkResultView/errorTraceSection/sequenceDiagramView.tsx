@@ -0,0 +1,193 @@
+import * as React from 'react';
+import {
+    VscodeButton,
+    VscodeOption,
+    VscodeSingleSelect,
+    VscodeTextfield
+} from '@vscode-elements/react-elements';
+import { ErrorTraceItem } from '../../../model/check';
+import {
+    buildSequenceDiagram, SequenceDiagramConfig, SequenceMessage
+} from '../../../model/sequenceDiagram';
+import { vscode } from '../vscode';
+
+type SingleSelectElement = HTMLElementTagNameMap['vscode-single-select'];
+type TextfieldElement = HTMLElementTagNameMap['vscode-textfield'];
+
+const COLUMN_WIDTH = 150;
+const ROW_HEIGHT = 36;
+const STATES_WIDTH = 200;
+const HEADER_HEIGHT = 40;
+const SELF_MESSAGE_WIDTH = 30;
+
+interface SequenceDiagramViewI {
+    errorTrace: ErrorTraceItem[];
+    config: SequenceDiagramConfig | undefined;
+}
+
+/**
+ * Shows the trace as processes exchanging messages, as configured for the specification.
+ */
+export const SequenceDiagramView = React.memo(({errorTrace, config}: SequenceDiagramViewI) => {
+    const [editing, setEditing] = React.useState(false);
+    const diagram = React.useMemo(
+        () => config ? buildSequenceDiagram(errorTrace, config) : undefined,
+        [errorTrace, config]);
+
+    if (!config || !diagram || editing) {
+        return (
+            <SequenceDiagramSettings
+                errorTrace={errorTrace}
+                config={config}
+                onSave={(newConfig) => {
+                    vscode.saveSequenceDiagramConfig(newConfig);
+                    setEditing(false);
+                }}
+                onCancel={config ? () => setEditing(false) : undefined}/>
+        );
+    }
+
+    const columnX = (process: string) => STATES_WIDTH + (diagram.processes.indexOf(process) + 0.5) * COLUMN_WIDTH;
+    const rowY = (stateIndex: number) => HEADER_HEIGHT + (stateIndex + 0.5) * ROW_HEIGHT;
+    const width = STATES_WIDTH + diagram.processes.length * COLUMN_WIDTH;
+    const height = HEADER_HEIGHT + (errorTrace.length + 1) * ROW_HEIGHT;
+
+    return (
+        <div className="flex-direction-column">
+            <div className="error-trace-options sequence-diagram-options">
+                <span>Messages in <code>{config.messages}</code></span>
+                <span
+                    title="Sequence diagram settings"
+                    onClick={() => setEditing(true)}
+                    className="codicon codicon-gear cursor-pointer option-button"/>
+            </div>
+
+            {diagram.messages.length === 0 && <p>No messages found in <code>{config.messages}</code>.</p>}
+
+            <div className="sequence-diagram">
+                <svg width={width} height={height}>
+                    <defs>
+                        <marker
+                            id="sequence-arrow"
+                            viewBox="0 0 10 10"
+                            refX="10"
+                            refY="5"
+                            markerWidth="7"
+                            markerHeight="7"
+                            orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" className="sequence-arrow"/>
+                        </marker>
+                    </defs>
+
+                    {errorTrace.map((item, index) =>
+                        <g key={index} className="sequence-state">
+                            <title>{item.num}: {item.title}</title>
+                            <line x1={0} y1={rowY(index)} x2={width} y2={rowY(index)}/>
+                            <text x={4} y={rowY(index) - 4}>{item.num}: {item.title}</text>
+                        </g>)}
+
+                    {diagram.processes.map((process) =>
+                        <g key={process} className="sequence-lifeline">
+                            <text x={columnX(process)} y={HEADER_HEIGHT / 2} textAnchor="middle">{process}</text>
+                            <line
+                                x1={columnX(process)}
+                                y1={HEADER_HEIGHT}
+                                x2={columnX(process)}
+                                y2={height - ROW_HEIGHT / 2}/>
+                        </g>)}
+
+                    {diagram.messages.map((message, index) =>
+                        <SequenceMessageArrow
+                            key={index}
+                            message={message}
+                            fromX={columnX(message.from)}
+                            toX={columnX(message.to)}
+                            fromY={rowY(message.sentAt)}
+                            toY={message.receivedAt !== undefined
+                                ? rowY(message.receivedAt)
+                                : height - ROW_HEIGHT / 2}/>)}
+                </svg>
+            </div>
+        </div>
+    );
+});
+
+interface SequenceMessageArrowI {
+    message: SequenceMessage;
+    fromX: number;
+    fromY: number;
+    toX: number;
+    toY: number;
+}
+
+const SequenceMessageArrow = ({message, fromX, fromY, toX, toY}: SequenceMessageArrowI) => {
+    const selfMessage = fromX === toX;
+    const bendX = fromX + SELF_MESSAGE_WIDTH;
+    const path = selfMessage
+        ? `M ${fromX} ${fromY} C ${bendX} ${fromY} ${bendX} ${toY} ${toX} ${toY}`
+        : `M ${fromX} ${fromY} L ${toX} ${toY}`;
+    const labelX = selfMessage ? bendX : (fromX + toX) / 2;
+    const labelY = (fromY + toY) / 2 - 4;
+    const inFlight = message.receivedAt === undefined;
+    return (
+        <g className={`sequence-message${inFlight ? ' in-flight' : ''}`}>
+            <title>{message.value}{inFlight ? ' (not received)' : ''}</title>
+            <path d={path} markerEnd="url(#sequence-arrow)"/>
+            <text x={labelX} y={labelY} textAnchor={selfMessage ? 'start' : 'middle'}>{message.label}</text>
+        </g>
+    );
+};
+
+interface SequenceDiagramSettingsI {
+    errorTrace: ErrorTraceItem[];
+    config: SequenceDiagramConfig | undefined;
+    onSave: (config: SequenceDiagramConfig) => void;
+    onCancel: (() => void) | undefined;
+}
+
+const SequenceDiagramSettings = ({errorTrace, config, onSave, onCancel}: SequenceDiagramSettingsI) => {
+    const variables = errorTrace[0].variables.items.map((v) => String(v.key));
+    const [draft, setDraft] = React.useState<SequenceDiagramConfig>(config ?? {
+        processes: variables.includes('pc') ? 'pc' : '',
+        messages: variables.find((v) => /^(msgs|messages|network|chan)/i.test(v)) ?? variables[0] ?? '',
+        sender: 'src',
+        receiver: 'dst'
+    });
+
+    const handleSelect = (field: 'processes' | 'messages') => (event: React.ChangeEvent<SingleSelectElement>) => {
+        setDraft({ ...draft, [field]: event.currentTarget.value });
+    };
+    const handleText = (field: 'sender' | 'receiver') => (event: React.ChangeEvent<TextfieldElement>) => {
+        setDraft({ ...draft, [field]: event.currentTarget.value.trim() });
+    };
+
+    return (
+        <div className="sequence-diagram-settings">
+            <p>Choose how processes and their messages are represented in this specification.</p>
+
+            <label>Processes are the domain of</label>
+            <VscodeSingleSelect value={draft.processes} onChange={handleSelect('processes')}>
+                <VscodeOption value="" selected={draft.processes === ''}>(taken from messages)</VscodeOption>
+                {variables.map((name) =>
+                    <VscodeOption key={name} value={name} selected={draft.processes === name}>{name}</VscodeOption>)}
+            </VscodeSingleSelect>
+
+            <label>Messages are in</label>
+            <VscodeSingleSelect value={draft.messages} onChange={handleSelect('messages')}>
+                {variables.map((name) =>
+                    <VscodeOption key={name} value={name} selected={draft.messages === name}>{name}</VscodeOption>)}
+            </VscodeSingleSelect>
+
+            <label>Sender field</label>
+            <VscodeTextfield value={draft.sender} onChange={handleText('sender')}/>
+
+            <label>Receiver field (empty for per-process channels)</label>
+            <VscodeTextfield value={draft.receiver} onChange={handleText('receiver')}/>
+
+            <div className="sequence-diagram-buttons">
+                <VscodeButton disabled={!draft.messages} onClick={() => onSave(draft)}>Save</VscodeButton>
+                {onCancel && <VscodeButton secondary onClick={onCancel}>Cancel</VscodeButton>}
+            </div>
+        </div>
+    );
+};
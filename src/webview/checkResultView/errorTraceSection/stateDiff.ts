@@ -0,0 +1,118 @@
+import { Value } from '../../../model/check';
+
+/**
+ * Same letters as the change types of values, so that the same styles apply.
+ */
+export type DiffChange = 'N' | 'A' | 'M' | 'D';
+
+/**
+ * Difference of a value between two states, with the differences of the nested values for collections.
+ */
+export interface ValueDiff {
+    key: string;
+    change: DiffChange;
+    before: string | undefined;
+    after: string | undefined;
+    children: ValueDiff[];
+}
+
+/**
+ * Webview receives plain objects rather than class instances, so values are only looked at structurally.
+ */
+interface DiffableValue {
+    key: Value['key'];
+    str: string;
+    items?: DiffableValue[];
+    prefix?: string;
+    changeType?: string;
+}
+
+/**
+ * Compares variables of two arbitrary states of a trace.
+ */
+export function diffStates(before: DiffableValue, after: DiffableValue): ValueDiff[] {
+    return diffItems(before, after);
+}
+
+/**
+ * Tells whether the value differs between the states.
+ */
+export function isChanged(diff: ValueDiff): boolean {
+    return diff.change !== 'N';
+}
+
+function diffValues(before: DiffableValue | undefined, after: DiffableValue | undefined): ValueDiff {
+    if (!after) {
+        return wholeValueDiff(before as DiffableValue, 'D');
+    }
+    if (!before) {
+        return wholeValueDiff(after, 'A');
+    }
+    const key = String(after.key);
+    const children = isCollection(before) && isCollection(after) && before.prefix === after.prefix
+        ? diffItems(before, after)
+        : [];
+    const changed = before.str !== after.str || children.some(isChanged);
+    return { key, change: changed ? 'M' : 'N', before: before.str, after: after.str, children };
+}
+
+/**
+ * Diff of a value that exists in only one of the states.
+ */
+function wholeValueDiff(value: DiffableValue, change: 'A' | 'D'): ValueDiff {
+    return {
+        key: String(value.key),
+        change,
+        before: change === 'D' ? value.str : undefined,
+        after: change === 'A' ? value.str : undefined,
+        children: collectionItems(value).map((item) => wholeValueDiff(item, change))
+    };
+}
+
+function diffItems(before: DiffableValue, after: DiffableValue): ValueDiff[] {
+    const beforeItems = collectionItems(before);
+    const afterItems = collectionItems(after);
+    if (before.prefix === '{') {
+        return diffSetItems(beforeItems, afterItems);
+    }
+    if (before.prefix === '<<') {
+        const length = Math.max(beforeItems.length, afterItems.length);
+        const diffs: ValueDiff[] = [];
+        for (let i = 0; i < length; i++) {
+            diffs.push(diffValues(beforeItems[i], afterItems[i]));
+        }
+        return diffs;
+    }
+    // Records, functions and the states themselves are matched by keys
+    const diffs = beforeItems.map((item) => diffValues(item, afterItems.find((a) => a.key === item.key)));
+    afterItems
+        .filter((item) => !beforeItems.some((b) => b.key === item.key))
+        .forEach((item) => diffs.push(diffValues(undefined, item)));
+    return diffs;
+}
+
+/**
+ * Set elements have no identity other than their value, so they are either the same, added or deleted.
+ */
+function diffSetItems(beforeItems: DiffableValue[], afterItems: DiffableValue[]): ValueDiff[] {
+    const unmatched = afterItems.slice();
+    const diffs = beforeItems.map((item) => {
+        const idx = unmatched.findIndex((a) => a.str === item.str);
+        if (idx < 0) {
+            return diffValues(item, undefined);
+        }
+        const [match] = unmatched.splice(idx, 1);
+        return diffValues(item, match);
+    });
+    unmatched.forEach((item) => diffs.push(diffValues(undefined, item)));
+    return diffs;
+}
+
+function isCollection(value: DiffableValue): boolean {
+    return Array.isArray(value.items);
+}
+
+function collectionItems(value: DiffableValue): DiffableValue[] {
+    // Deleted items are only kept to highlight changes between consecutive states
+    return (value.items ?? []).filter((item) => item.changeType !== 'D');
+}
@@ -0,0 +1,139 @@
+import * as React from 'react';
+import Ansi from '@cocalc/ansi-to-react';
+import { VscodeOption, VscodeSingleSelect } from '@vscode-elements/react-elements';
+import { ErrorTraceItem } from '../../../model/check';
+import { ErrorTraceSettings } from './errorTrace';
+import { diffStates, isChanged, ValueDiff } from './stateDiff';
+
+type SingleSelectElement = HTMLElementTagNameMap['vscode-single-select'];
+
+interface StateDiffViewI {
+    errorTrace: ErrorTraceItem[];
+    settings: ErrorTraceSettings;
+}
+
+/**
+ * Shows differences between two states of a trace, or between a pinned state and all the states after it.
+ */
+export const StateDiffView = React.memo(({errorTrace, settings}: StateDiffViewI) => {
+    const [baseIndex, setBaseIndex] = React.useState(0);
+    const [targetIndex, setTargetIndex] = React.useState(Math.min(1, errorTrace.length - 1));
+    const [pinned, setPinned] = React.useState(false);
+
+    const targetIndexes = pinned
+        ? errorTrace.map((_, index) => index).filter((index) => index > baseIndex)
+        : [targetIndex];
+
+    return (
+        <div className="flex-direction-column">
+            <div className="error-trace-options state-diff-options">
+                <span>Compare</span>
+                <StateSelect errorTrace={errorTrace} value={baseIndex} onChange={setBaseIndex}/>
+
+                <span
+                    title={pinned ? 'Unpin the state' : 'Pin the state and compare all later states with it'}
+                    onClick={() => setPinned(!pinned)}
+                    className={`codicon codicon-${pinned ? 'pinned' : 'pin'} cursor-pointer option-button`}/>
+
+                {!pinned && <span>with</span>}
+                {!pinned && <StateSelect errorTrace={errorTrace} value={targetIndex} onChange={setTargetIndex}/>}
+            </div>
+
+            {targetIndexes.length === 0 && <p>There are no states after the pinned one.</p>}
+
+            {targetIndexes.map((index) =>
+                <StateDiffTable
+                    key={index}
+                    before={errorTrace[baseIndex]}
+                    after={errorTrace[index]}
+                    settings={settings}/>)}
+        </div>
+    );
+});
+
+interface StateSelectI {
+    errorTrace: ErrorTraceItem[];
+    value: number;
+    onChange: (index: number) => void;
+}
+
+const StateSelect = ({errorTrace, value, onChange}: StateSelectI) => {
+    const handleChange = (event: React.ChangeEvent<SingleSelectElement>) => {
+        onChange(Number(event.currentTarget.value));
+    };
+
+    return (
+        <VscodeSingleSelect className="state-diff-select" value={String(value)} onChange={handleChange}>
+            {errorTrace.map((item, index) =>
+                <VscodeOption key={index} value={String(index)} selected={index === value}>
+                    {item.num}: {item.title}
+                </VscodeOption>)}
+        </VscodeSingleSelect>
+    );
+};
+
+interface StateDiffTableI {
+    before: ErrorTraceItem;
+    after: ErrorTraceItem;
+    settings: ErrorTraceSettings;
+}
+
+const StateDiffTable = React.memo(({before, after, settings}: StateDiffTableI) => {
+    const diffs = diffStates(before.variables, after.variables)
+        .filter((diff) => !settings.hideModified || isChanged(diff))
+        .filter((diff) => checkFilter(diff.key, settings.filter));
+
+    return (
+        <div className="state-diff">
+            <div className="state-diff-row state-diff-header">
+                <div>Variable</div>
+                <div>{before.num}: {before.title}</div>
+                <div>{after.num}: {after.title}</div>
+            </div>
+
+            {diffs.length === 0 && <div className="state-diff-row"><div>No differences</div></div>}
+
+            {diffs.map((diff) => <StateDiffRows key={diff.key} diff={diff} depth={0}/>)}
+        </div>
+    );
+});
+
+interface StateDiffRowsI {
+    diff: ValueDiff;
+    depth: number;
+}
+
+const StateDiffRows = ({diff, depth}: StateDiffRowsI) => (
+    <>
+        <div className="state-diff-row">
+            <div className="var-name" style={{paddingLeft: `${depth * 1.2}em`}} title={changeHints[diff.change]}>
+                {diff.key}
+                {diff.change !== 'N' &&
+                    <span className={`change-marker change-marker-${diff.change}`}>{diff.change}</span>}
+            </div>
+            <div className={diff.before !== undefined && diff.change !== 'N' ? `var-value value-${diff.change}` : ''}>
+                {diff.before !== undefined && <Ansi>{diff.before}</Ansi>}
+            </div>
+            <div className={diff.after !== undefined && diff.change !== 'N' ? `var-value value-${diff.change}` : ''}>
+                {diff.after !== undefined && <Ansi>{diff.after}</Ansi>}
+            </div>
+        </div>
+
+        {/* Nested values are only worth showing where something has changed inside */}
+        {diff.change === 'M' &&
+            diff.children.map((child, index) =>
+                <StateDiffRows key={index} diff={child} depth={depth + 1}/>)}
+    </>
+);
+
+const changeHints = {
+    A: 'This item only exists in the second state',
+    M: 'This item differs between the states',
+    D: 'This item only exists in the first state',
+    N: 'This item is the same in both states'
+} as const;
+
+function checkFilter(str: string, filterItems: string[]): boolean {
+    const eKey = str.toLowerCase();
+    return filterItems.length === 0 || filterItems.some((filter) => eKey.indexOf(filter) >= 0);
+}
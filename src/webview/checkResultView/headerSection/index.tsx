@@ -32,7 +32,10 @@ export const HeaderSection = React.memo(({checkResult}: HeaderSectionI) => {
             <div className="checking-state">
                 <span className={`state-${checkResult.state}`}> {checkResult.stateName} </span>
                 <span hidden={checkResult.state !== 'R'}>
-                    (<VSCodeLink onClick={vscode.stopProcess}> stop </VSCodeLink>)
+                    (<VSCodeLink onClick={vscode.stopProcess}> stop </VSCodeLink>
+                    {checkResult.checkpoint && <>
+                        , <VSCodeLink onClick={vscode.stopProcessKeepCheckpoint}> stop and keep checkpoint </VSCodeLink>
+                    </>})
                 </span>
                 <span hidden={ checkResult.statusDetails === undefined
                     || checkResult.statusDetails === null}>: {' ' + checkResult.statusDetails} </span>
@@ -40,6 +43,9 @@ export const HeaderSection = React.memo(({checkResult}: HeaderSectionI) => {
 
             <div className="timeInfo"> Start: {checkResult.startDateTimeStr}, end: {checkResult.endDateTimeStr} </div>
 
+            {checkResult.checkpoint && stillRunning &&
+                <div className="timeInfo"> Last checkpoint: {checkResult.checkpoint.dateTimeStr} </div>}
+
             <EmptyLine/>
             <VscodeDivider/>
         </section>
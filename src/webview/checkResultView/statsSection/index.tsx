@@ -3,7 +3,9 @@ import * as React from 'react';
 import { ModelCheckResult } from '../../../model/check';
 import { EmptyLine } from '../common';
 import { CoverageStats } from './coverageStats';
+import { StatesGrowth } from './statesGrowth';
 import { StatesStats } from './statesStats';
+import { WorkersStats } from './workersStats';
 
 import './index.css';
 
@@ -13,7 +15,10 @@ export const StatsSection = React.memo(({checkResult}: StatsSectionI) => {
         <section>
             <VscodeTabs panel>
                 <StatesStats stats={checkResult.initialStatesStat}/>
+                {checkResult.initialStatesStat.length > 1 &&
+                    <StatesGrowth stats={checkResult.initialStatesStat} running={checkResult.state === 'R'}/>}
                 {checkResult.coverageStat.length > 0 && <CoverageStats stats={checkResult.coverageStat}/>}
+                {checkResult.workers.length > 0 && <WorkersStats workers={checkResult.workers}/>}
             </VscodeTabs>
             <EmptyLine/>
             <VscodeDivider/>
@@ -0,0 +1,120 @@
+import { VscodeTabHeader, VscodeTabPanel } from '@vscode-elements/react-elements';
+import {
+    CategoryScale,
+    Chart as ChartJS,
+    ChartData,
+    ChartOptions,
+    Legend,
+    LinearScale,
+    LineElement,
+    PointElement,
+    Tooltip
+} from 'chart.js';
+import * as React from 'react';
+import { Line } from 'react-chartjs-2';
+import { InitialStateStatItem } from '../../../model/check';
+import {
+    CompletionEstimate, estimateCompletion, getStateSpaceGrowth, QueueTrend, StateSpacePoint
+} from '../../../model/stateSpaceGrowth';
+import { formatDuration } from '../../common/formatters';
+
+ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+
+interface StatesGrowthI {
+    stats: InitialStateStatItem[];
+    running: boolean;
+}
+
+export const StatesGrowth = React.memo(({stats, running}: StatesGrowthI) => {
+    const points = React.useMemo(() => getStateSpaceGrowth(stats), [stats]);
+    const estimate = running ? estimateCompletion(points) : undefined;
+    const lastRates = points.length > 0 ? points[points.length - 1] : undefined;
+    return (
+        <>
+            <VscodeTabHeader slot="header">Growth</VscodeTabHeader>
+            <VscodeTabPanel panel className="panel-padding">
+                <div className="growth-summary">
+                    <span>Generated: {formatRate(lastRates?.generatedPerMinute)} states/min</span>
+                    <span>Distinct: {formatRate(lastRates?.distinctPerMinute)} states/min</span>
+                    {running && <span>{formatEstimate(estimate)}</span>}
+                </div>
+                <div className="growth-chart">
+                    <Line data={statesChartData(points)} options={chartOptions('States', 'Diameter')}/>
+                </div>
+                <div className="growth-chart">
+                    <Line data={ratesChartData(points)} options={chartOptions('States per minute', undefined)}/>
+                </div>
+            </VscodeTabPanel>
+        </>
+    );
+});
+
+function statesChartData(points: StateSpacePoint[]): ChartData<'line'> {
+    return {
+        labels: points.map((p) => formatDuration(p.elapsed, true)),
+        datasets: [
+            dataset('Generated', points.map((p) => p.generated), 'rgb(59, 130, 246)', 'y'),
+            dataset('Distinct', points.map((p) => p.distinct), 'rgb(34, 197, 94)', 'y'),
+            dataset('Queue', points.map((p) => p.queueSize), 'rgb(234, 179, 8)', 'y'),
+            dataset('Diameter', points.map((p) => p.diameter), 'rgb(168, 85, 247)', 'y1')
+        ]
+    };
+}
+
+function ratesChartData(points: StateSpacePoint[]): ChartData<'line'> {
+    return {
+        labels: points.map((p) => formatDuration(p.elapsed, true)),
+        datasets: [
+            dataset('Generated', points.map((p) => p.generatedPerMinute ?? null), 'rgb(59, 130, 246)', 'y'),
+            dataset('Distinct', points.map((p) => p.distinctPerMinute ?? null), 'rgb(34, 197, 94)', 'y')
+        ]
+    };
+}
+
+function dataset(label: string, data: (number | null)[], color: string, yAxisID: string) {
+    return { label, data, yAxisID, borderColor: color, backgroundColor: color, tension: 0.1, pointRadius: 2 };
+}
+
+function chartOptions(yTitle: string, y1Title: string | undefined): ChartOptions<'line'> {
+    const style = getComputedStyle(document.documentElement);
+    const foreground = style.getPropertyValue('--vscode-foreground');
+    const border = style.getPropertyValue('--vscode-panel-border');
+    const axis = (title: string, position: 'left' | 'right') => ({
+        position,
+        beginAtZero: true,
+        title: { display: true, text: title, color: foreground },
+        ticks: { color: foreground, callback: (value: string | number) => value.toLocaleString() },
+        grid: { color: border, drawOnChartArea: position === 'left' }
+    });
+    return {
+        responsive: true,
+        maintainAspectRatio: false,
+        animation: false,       // The charts are updated with every progress report
+        interaction: { mode: 'index', intersect: false },
+        plugins: { legend: { labels: { color: foreground } } },
+        scales: {
+            x: { ticks: { color: foreground }, grid: { color: border } },
+            y: axis(yTitle, 'left'),
+            ...(y1Title ? { y1: axis(y1Title, 'right') } : {})
+        }
+    };
+}
+
+function formatRate(rate: number | undefined): string {
+    return rate === undefined ? '-' : Math.round(rate).toLocaleString();
+}
+
+function formatEstimate(estimate: CompletionEstimate | undefined): string {
+    if (!estimate) {
+        return 'Not enough statistics to estimate the remaining time yet';
+    }
+    const queueChange = `${formatRate(Math.abs(estimate.queueChangePerMinute))} states/min`;
+    switch (estimate.queueTrend) {
+        case QueueTrend.Shrinking:
+            return `Queue shrinks by ${queueChange}, about ${formatDuration(estimate.remainingTime ?? 0)} left`;
+        case QueueTrend.Growing:
+            return `Queue grows by ${queueChange}, the end is not in sight yet`;
+        case QueueTrend.Flat:
+            return 'Queue size is stable, the end is not in sight yet';
+    }
+}
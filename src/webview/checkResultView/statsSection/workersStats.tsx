@@ -0,0 +1,65 @@
+import {
+    VscodeTabHeader,
+    VscodeTabPanel,
+    VscodeTable,
+    VscodeTableBody,
+    VscodeTableHeader,
+    VscodeTableRow
+} from '@vscode-elements/react-elements';
+import * as React from 'react';
+import { DistributedWorker } from '../../../model/check';
+import { DataGridCellDefault, DataGridCellHeader } from '../common';
+
+interface WorkersStatsI {workers: DistributedWorker[]}
+export const WorkersStats = React.memo(({workers}: WorkersStatsI) => (
+    <>
+        <VscodeTabHeader slot="header">Workers</VscodeTabHeader>
+        <VscodeTabPanel panel className="panel-padding">
+            <VscodeTable aria-label="Workers of distributed TLC" borderedRows responsive breakpoint={320}>
+                <VscodeTableHeader>
+                    <VscodeTableRow>
+                        {headerColumns.map((v, id) =>
+                            <DataGridCellHeader
+                                key={id}
+                                value={v.value}
+                                alignRight={v.alignRight}
+                                tooltip={v.tooltip}/>)}
+                    </VscodeTableRow>
+                </VscodeTableHeader>
+
+                <VscodeTableBody>
+                    {workers.map((worker) =>
+                        <VscodeTableRow key={worker.address}>
+                            <DataGridCellDefault value={worker.address} alignRight={false}/>
+                            <DataGridCellDefault value={worker.stateName} alignRight={false}/>
+                            <DataGridCellDefault value={worker.statesSent ?? ''} alignRight={true}/>
+                            <DataGridCellDefault value={worker.statesReceived ?? ''} alignRight={true}/>
+                            <DataGridCellDefault value={worker.cacheRatio ?? ''} alignRight={true}/>
+                        </VscodeTableRow>)}
+                </VscodeTableBody>
+            </VscodeTable>
+        </VscodeTabPanel>
+    </>
+));
+
+const headerColumns =
+    [{
+        value: 'Worker', alignRight: false,
+        tooltip: 'Host and port of the worker'
+    },
+    {
+        value: 'State', alignRight: false,
+        tooltip: ''
+    },
+    {
+        value: 'Sent', alignRight: true,
+        tooltip: 'The number of states the worker sent to the master, reported at the end of the run'
+    },
+    {
+        value: 'Received', alignRight: true,
+        tooltip: 'The number of states the worker received from the master, reported at the end of the run'
+    },
+    {
+        value: 'Cache ratio', alignRight: true,
+        tooltip: 'The share of fingerprint lookups the worker answered from its cache'
+    }];
@@ -1,4 +1,5 @@
 import { vsCodeApi } from '../common/vscode_api';
+import { SequenceDiagramConfig } from '../../model/sequenceDiagram';
 
 
 class VSCodeWrapper {
@@ -17,6 +18,12 @@ class VSCodeWrapper {
         });
     }
 
+    public stopProcessKeepCheckpoint() {
+        vsCodeApi.postMessage({
+            command: 'stopKeepCheckpoint'
+        });
+    }
+
     public checkAgain() {
         vsCodeApi.postMessage({
             command: 'runAgain'
@@ -35,6 +42,27 @@ class VSCodeWrapper {
         });
     }
 
+    public exportErrorTrace(errorIndex: number) {
+        vsCodeApi.postMessage({
+            command: 'exportErrorTrace',
+            errorIndex
+        });
+    }
+
+    public showTraceGraph(errorIndex: number) {
+        vsCodeApi.postMessage({
+            command: 'showTraceGraph',
+            errorIndex
+        });
+    }
+
+    public saveSequenceDiagramConfig(config: SequenceDiagramConfig) {
+        vsCodeApi.postMessage({
+            command: 'saveSequenceDiagramConfig',
+            config
+        });
+    }
+
     public openAIChat() {
         vsCodeApi.postMessage({
             command: 'openAIChat'
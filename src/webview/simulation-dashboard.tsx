@@ -0,0 +1,34 @@
+import * as React from 'react';
+import { createRoot } from 'react-dom/client';
+import { SimulationDashboardData } from '../model/simulation';
+import { Dashboard } from './simulationDashboard/dashboard';
+import { vscode } from './simulationDashboard/vscode';
+
+import '@vscode/codicons/dist/codicon.css';
+import './simulationDashboard/index.css';
+
+const root = createRoot(document.getElementById('root') as HTMLElement);
+
+function render(data: SimulationDashboardData | undefined) {
+    root.render(
+        <React.StrictMode>
+            {data
+                ? <Dashboard data={data}/>
+                : <div className="loading">Waiting for the simulation to start...</div>}
+        </React.StrictMode>
+    );
+}
+
+window.addEventListener('message', (event) => {
+    const message = event.data;
+    if (message.type === 'update') {
+        vscode.setState(message.data);
+        render(message.data);
+    }
+});
+
+window.addEventListener('load', () => {
+    const savedData = vscode.getState() as SimulationDashboardData | undefined;
+    render(savedData);
+    vscode.postMessage({ type: 'ready' });
+});
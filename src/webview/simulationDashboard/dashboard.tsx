@@ -0,0 +1,105 @@
+import * as React from 'react';
+import { SimulationDashboardData } from '../../model/simulation';
+import { CoverageChart } from '../coverageView/coverageChart';
+import { formatDuration } from '../common/formatters';
+import { vscode } from './vscode';
+
+interface DashboardProps {
+    data: SimulationDashboardData;
+}
+
+export const Dashboard = React.memo(({ data }: DashboardProps) => (
+    <div className="simulation-dashboard">
+        <DashboardHeader data={data}/>
+        <ActionFrequencies data={data}/>
+        <SampledTraces data={data}/>
+        {data.stats.length > 0 && data.statsFileName &&
+            <CoverageChart data={{ stats: data.stats, fileName: data.statsFileName, lastUpdated: new Date() }}/>}
+    </div>
+));
+
+const DashboardHeader = React.memo(({ data }: DashboardProps) => (
+    <div className="dashboard-header">
+        <h2>Simulation of {data.modelName} {data.running ? '(running)' : '(finished)'}</h2>
+        <div className="metrics">
+            <Metric label="Time" value={formatDuration(data.elapsed)}/>
+            <Metric label="States checked" value={formatNumber(data.statesChecked)}/>
+            <Metric label="Traces" value={formatNumber(data.traces)}/>
+            <Metric label="Traces/sec" value={formatNumber(data.tracesPerSecond, 1)}/>
+            <Metric
+                label="Mean trace length"
+                value={data.meanTraceLength === undefined
+                    ? '-'
+                    : `${formatNumber(data.meanTraceLength, 1)} (sd ${formatNumber(data.traceLengthSd, 1)})`}/>
+        </div>
+    </div>
+));
+
+const Metric = React.memo(({ label, value }: { label: string, value: string }) => (
+    <span className="metric">
+        <span className="metric-label">{label}:</span>
+        <span className="metric-value">{value}</span>
+    </span>
+));
+
+const ActionFrequencies = React.memo(({ data }: DashboardProps) => (
+    <div className="dashboard-section">
+        <h3>Action frequency</h3>
+        {data.actions.length === 0
+            ? <p className="hint">TLC reports actions once it has collected coverage, see the -coverage option.</p>
+            : <table>
+                <thead>
+                    <tr><th>Module</th><th>Action</th><th className="number">Taken</th><th>Share</th></tr>
+                </thead>
+                <tbody>
+                    {data.actions.map((a) => (
+                        <tr key={`${a.module}.${a.action}`} className={a.count === 0 ? 'never-taken' : ''}>
+                            <td>{a.module}</td>
+                            <td>{a.action}</td>
+                            <td className="number">{a.count.toLocaleString()}</td>
+                            <td>
+                                <span className="share-bar" style={{ width: `${Math.round(a.share * 100)}%` }}/>
+                                {(a.share * 100).toFixed(1)}%
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>}
+    </div>
+));
+
+const SampledTraces = React.memo(({ data }: DashboardProps) => (
+    <div className="dashboard-section">
+        <h3>Sampled traces</h3>
+        {!data.sampling && <p className="hint">Traces are sampled when a limited number of traces is generated.</p>}
+        {data.sampling && data.sampledTraces.length === 0 && <p className="hint">No traces were sampled yet.</p>}
+        {data.sampledTraces.length > 0 &&
+            <table>
+                <thead>
+                    <tr><th>Trace</th><th className="number">Length</th><th></th></tr>
+                </thead>
+                <tbody>
+                    {data.sampledTraces.map((t) => (
+                        <tr key={t.filePath}>
+                            <td>{t.name}</td>
+                            <td className="number">{t.length}</td>
+                            <td>
+                                <button
+                                    className="icon-button"
+                                    title="Save as TLA+ module"
+                                    onClick={() => vscode.saveTrace(t.filePath)}>
+                                    <span className="codicon codicon-save"></span>
+                                </button>
+                            </td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>}
+    </div>
+));
+
+function formatNumber(value: number | undefined, fractionDigits = 0): string {
+    return value === undefined
+        ? '-'
+        : value.toLocaleString(undefined, { maximumFractionDigits: fractionDigits });
+}
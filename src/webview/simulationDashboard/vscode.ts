@@ -0,0 +1,40 @@
+import { WebviewApi } from 'vscode-webview';
+
+/**
+ * A utility wrapper around the acquireVsCodeApi() function that enables
+ * message passing and state management between the webview and the extension.
+ */
+class VSCodeApiWrapper {
+    private readonly vsCodeApi: WebviewApi<unknown> | undefined;
+
+    constructor() {
+        if (typeof acquireVsCodeApi === 'function') {
+            this.vsCodeApi = acquireVsCodeApi();
+        }
+    }
+
+    public postMessage(message: unknown) {
+        this.vsCodeApi?.postMessage(message);
+    }
+
+    public getState(): unknown | undefined {
+        return this.vsCodeApi?.getState();
+    }
+
+    public setState<T extends unknown | undefined>(newState: T): T {
+        if (this.vsCodeApi) {
+            return this.vsCodeApi.setState(newState);
+        }
+        return newState;
+    }
+
+    /**
+     * Asks the extension to save a sampled trace as a TLA+ module.
+     */
+    public saveTrace(filePath: string) {
+        this.postMessage({ type: 'saveTrace', filePath });
+    }
+}
+
+// Export singleton to prevent multiple invocations of acquireVsCodeApi
+export const vscode = new VSCodeApiWrapper();
@@ -0,0 +1,36 @@
+import * as React from 'react';
+import { createRoot } from 'react-dom/client';
+import { StateGraph } from '../model/traceGraph';
+import { GraphView } from './traceGraphView/graphView';
+import { vscode } from './traceGraphView/vscode';
+
+import '@vscode/codicons/dist/codicon.css';
+import './traceGraphView/index.css';
+
+interface TraceGraphViewAppI {graph: StateGraph | undefined}
+const TraceGraphViewApp = React.memo(({graph}: TraceGraphViewAppI) =>
+    <React.StrictMode>
+        {graph && <GraphView graph={graph}/>}
+    </React.StrictMode>
+);
+
+const root = createRoot(document.getElementById('root') as HTMLElement);
+
+function render(graph: StateGraph | undefined) {
+    root.render(<TraceGraphViewApp graph={graph}/>);
+}
+
+window.addEventListener('message', (event) => {
+    if (event.data.type === 'update') {
+        vscode.setState(event.data.graph);
+        render(event.data.graph);
+    }
+});
+
+window.addEventListener('load', () => {
+    const graph = vscode.getState() as StateGraph | undefined;
+    render(graph);
+    if (!graph) {
+        vscode.ready();
+    }
+});
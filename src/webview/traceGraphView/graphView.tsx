@@ -0,0 +1,100 @@
+import * as React from 'react';
+import { StateGraph, StateGraphNode } from '../../model/traceGraph';
+import { layoutGraph, NODE_RADIUS } from './layout';
+import { vscode } from './vscode';
+
+const ZOOM_STEP = 1.25;
+
+interface GraphViewI {
+    graph: StateGraph;
+}
+
+export const GraphView = React.memo(({graph}: GraphViewI) => {
+    const layout = React.useMemo(() => layoutGraph(graph), [graph]);
+    const [selectedId, setSelectedId] = React.useState<string | undefined>(undefined);
+    const [zoom, setZoom] = React.useState(1);
+
+    React.useEffect(() => setSelectedId(undefined), [graph]);
+
+    const selectedNode = graph.nodes.find((n) => n.id === selectedId);
+
+    const handleNodeClick = (node: StateGraphNode) => {
+        setSelectedId(node.id);
+        if (graph.errorIndex !== undefined && node.stateIndex !== undefined) {
+            vscode.selectState(graph.errorIndex, node.stateIndex);
+        }
+    };
+
+    return (
+        <div className="graph-view">
+            <div className="graph-toolbar">
+                <span className="graph-title">{graph.title}</span>
+                <span className="graph-stats">
+                    {graph.nodes.length} states, {graph.edges.length} transitions
+                </span>
+                <span
+                    title="Zoom in"
+                    onClick={() => setZoom(zoom * ZOOM_STEP)}
+                    className="codicon codicon-zoom-in cursor-pointer option-button margin-left-auto"/>
+                <span
+                    title="Zoom out"
+                    onClick={() => setZoom(zoom / ZOOM_STEP)}
+                    className="codicon codicon-zoom-out cursor-pointer option-button"/>
+                <span
+                    title="Reset zoom"
+                    onClick={() => setZoom(1)}
+                    className="codicon codicon-screen-normal cursor-pointer option-button"/>
+            </div>
+
+            <div className="graph-canvas">
+                <svg
+                    width={layout.width * zoom}
+                    height={layout.height * zoom}
+                    viewBox={`0 0 ${layout.width} ${layout.height}`}>
+                    <defs>
+                        <marker
+                            id="graph-arrow"
+                            viewBox="0 0 10 10"
+                            refX="10"
+                            refY="5"
+                            markerWidth="7"
+                            markerHeight="7"
+                            orient="auto-start-reverse">
+                            <path d="M 0 0 L 10 5 L 0 10 z" className="graph-arrow"/>
+                        </marker>
+                    </defs>
+
+                    {layout.edges.map((e, index) =>
+                        <g key={index} className="graph-edge">
+                            <path d={e.path} markerEnd="url(#graph-arrow)"/>
+                            <text x={e.labelX} y={e.labelY} textAnchor="middle">{e.edge.label}</text>
+                        </g>)}
+
+                    {layout.nodes.map((n) =>
+                        <g
+                            key={n.node.id}
+                            transform={`translate(${n.x}, ${n.y})`}
+                            onClick={() => handleNodeClick(n.node)}
+                            className={nodeClassName(n.node, n.node.id === selectedId)}>
+                            <title>{n.node.details}</title>
+                            <circle r={NODE_RADIUS}/>
+                            <text dy="0.35em" textAnchor="middle">{n.node.label}</text>
+                        </g>)}
+                </svg>
+            </div>
+
+            {selectedNode && <pre className="graph-details">{selectedNode.details}</pre>}
+        </div>
+    );
+});
+
+function nodeClassName(node: StateGraphNode, selected: boolean): string {
+    const classes = ['graph-node'];
+    if (node.initial) {
+        classes.push('graph-node-initial');
+    }
+    if (selected) {
+        classes.push('graph-node-selected');
+    }
+    return classes.join(' ');
+}
@@ -0,0 +1,157 @@
+import { StateGraph, StateGraphEdge, StateGraphNode } from '../../model/traceGraph';
+
+export const NODE_RADIUS = 18;
+const LAYER_SPACING = 160;
+const ROW_SPACING = 80;
+const MARGIN = 80;
+const CURVE_OFFSET = 40;
+const LOOP_HEIGHT = 45;
+
+export interface NodeLayout {
+    node: StateGraphNode;
+    x: number;
+    y: number;
+}
+
+export interface EdgeLayout {
+    edge: StateGraphEdge;
+    path: string;
+    labelX: number;
+    labelY: number;
+}
+
+export interface GraphLayout {
+    nodes: NodeLayout[];
+    edges: EdgeLayout[];
+    width: number;
+    height: number;
+}
+
+interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Places states in columns by their distance from initial states, left to right.
+ * Edges to the next column are straight, all others (loops, back edges and parallel edges) are curved,
+ * so that lasso shapes of liveness traces and branching of state graphs stand out.
+ */
+export function layoutGraph(graph: StateGraph): GraphLayout {
+    const layers = assignLayers(graph);
+    const rows = new Map<string, number>();
+    const layerSizes: number[] = [];
+    graph.nodes.forEach((node) => {
+        const layer = layers.get(node.id) ?? 0;
+        rows.set(node.id, layerSizes[layer] ?? 0);
+        layerSizes[layer] = (layerSizes[layer] ?? 0) + 1;
+    });
+
+    const positions = new Map<string, Point>();
+    const nodes = graph.nodes.map((node) => {
+        const x = MARGIN + (layers.get(node.id) ?? 0) * LAYER_SPACING;
+        const y = MARGIN + (rows.get(node.id) ?? 0) * ROW_SPACING;
+        positions.set(node.id, { x, y });
+        return { node, x, y };
+    });
+
+    const pairCounts = new Map<string, number>();
+    const edges: EdgeLayout[] = [];
+    graph.edges.forEach((edge) => {
+        const from = positions.get(edge.from);
+        const to = positions.get(edge.to);
+        if (!from || !to) {
+            return;
+        }
+        const pairKey = `${edge.from}->${edge.to}`;
+        const pairIndex = pairCounts.get(pairKey) ?? 0;
+        pairCounts.set(pairKey, pairIndex + 1);
+        if (edge.from === edge.to) {
+            edges.push(layoutLoop(edge, from, pairIndex));
+            return;
+        }
+        const layerDiff = (layers.get(edge.to) ?? 0) - (layers.get(edge.from) ?? 0);
+        if (layerDiff === 1 && pairIndex === 0) {
+            edges.push(layoutCurve(edge, from, to, 0));
+            return;
+        }
+        // Longer edges bend more to keep clear of the states they pass by
+        const skew = layerDiff === 1 ? 0 : 10 * Math.abs(layerDiff);
+        edges.push(layoutCurve(edge, from, to, CURVE_OFFSET * (1 + pairIndex) + skew));
+    });
+
+    const width = MARGIN * 2 + Math.max(0, layerSizes.length - 1) * LAYER_SPACING;
+    const height = MARGIN * 2 + Math.max(0, Math.max(0, ...layerSizes) - 1) * ROW_SPACING;
+    return { nodes, edges, width, height };
+}
+
+/**
+ * Breadth-first distances from the initial states. States not reachable from them start new columns.
+ */
+function assignLayers(graph: StateGraph): Map<string, number> {
+    const successors = new Map<string, string[]>();
+    graph.edges.forEach((edge) => {
+        const list = successors.get(edge.from) ?? [];
+        list.push(edge.to);
+        successors.set(edge.from, list);
+    });
+    const layers = new Map<string, number>();
+    const visit = (roots: string[], firstLayer: number) => {
+        const queue = roots.filter((id) => !layers.has(id));
+        queue.forEach((id) => layers.set(id, firstLayer));
+        for (let i = 0; i < queue.length; i++) {
+            const layer = layers.get(queue[i]) ?? firstLayer;
+            (successors.get(queue[i]) ?? []).forEach((next) => {
+                if (!layers.has(next)) {
+                    layers.set(next, layer + 1);
+                    queue.push(next);
+                }
+            });
+        }
+    };
+    visit(graph.nodes.filter((n) => n.initial).map((n) => n.id), 0);
+    graph.nodes.forEach((node) => {
+        if (!layers.has(node.id)) {
+            visit([node.id], layers.size === 0 ? 0 : Math.max(...layers.values()) + 1);
+        }
+    });
+    return layers;
+}
+
+function layoutCurve(edge: StateGraphEdge, from: Point, to: Point, offset: number): EdgeLayout {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.hypot(dx, dy) || 1;
+    const control = {
+        x: (from.x + to.x) / 2 - dy / length * offset,
+        y: (from.y + to.y) / 2 + dx / length * offset
+    };
+    const start = moveTowards(from, control, NODE_RADIUS);
+    const end = moveTowards(to, control, NODE_RADIUS);
+    const path = offset === 0
+        ? `M ${fmt(start.x)} ${fmt(start.y)} L ${fmt(end.x)} ${fmt(end.y)}`
+        : `M ${fmt(start.x)} ${fmt(start.y)} Q ${fmt(control.x)} ${fmt(control.y)} ${fmt(end.x)} ${fmt(end.y)}`;
+    // The middle point of a quadratic curve
+    const labelX = 0.25 * start.x + 0.5 * control.x + 0.25 * end.x;
+    const labelY = 0.25 * start.y + 0.5 * control.y + 0.25 * end.y;
+    return { edge, path, labelX, labelY: labelY - 6 };
+}
+
+function layoutLoop(edge: StateGraphEdge, at: Point, index: number): EdgeLayout {
+    const height = LOOP_HEIGHT + index * 20;
+    const top = at.y - NODE_RADIUS;
+    const path = `M ${fmt(at.x - 8)} ${fmt(top)} C ${fmt(at.x - 30)} ${fmt(top - height)} `
+        + `${fmt(at.x + 30)} ${fmt(top - height)} ${fmt(at.x + 8)} ${fmt(top)}`;
+    return { edge, path, labelX: at.x, labelY: top - height * 0.75 - 6 };
+}
+
+function moveTowards(from: Point, to: Point, distance: number): Point {
+    const dx = to.x - from.x;
+    const dy = to.y - from.y;
+    const length = Math.hypot(dx, dy) || 1;
+    return { x: from.x + dx / length * distance, y: from.y + dy / length * distance };
+}
+
+function fmt(num: number): string {
+    return String(Math.round(num * 10) / 10);
+}
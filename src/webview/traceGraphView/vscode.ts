@@ -0,0 +1,28 @@
+import { vsCodeApi } from '../common/vscode_api';
+
+class VSCodeWrapper {
+
+    public ready() {
+        vsCodeApi.postMessage({
+            type: 'ready'
+        });
+    }
+
+    public selectState(errorIndex: number, stateIndex: number) {
+        vsCodeApi.postMessage({
+            type: 'selectState',
+            errorIndex,
+            stateIndex
+        });
+    }
+
+    public setState<T extends unknown | undefined>(newState: T) {
+        return vsCodeApi.setState(newState);
+    }
+
+    public getState(): unknown {
+        return vsCodeApi.getState();
+    }
+}
+
+export const vscode = new VSCodeWrapper();
@@ -0,0 +1,86 @@
+import * as assert from 'assert';
+import { validateCfg } from '../../src/cfgValidation';
+import { SpecSymbol, SpecSymbols } from '../../src/symbols/specSymbols';
+import { range } from './shortcuts';
+
+function spec(complete: boolean, ...symbols: Omit<SpecSymbol, 'module' | 'location'>[]): SpecSymbols {
+    return {
+        moduleName: 'Spec',
+        symbols: new Map(symbols.map((s) => [s.name, { ...s, module: 'Spec', location: undefined }])),
+        complete
+    };
+}
+
+const SPEC = spec(
+    true,
+    { name: 'N', kind: 'constant', level: 0, arity: 0 },
+    { name: 'Op', kind: 'constant', level: 0, arity: 2 },
+    { name: 'x', kind: 'variable', level: 1, arity: 0 },
+    { name: 'Init', kind: 'definition', level: 1, arity: 0 },
+    { name: 'Next', kind: 'definition', level: 2, arity: 0 },
+    { name: 'TypeOK', kind: 'definition', level: 1, arity: 0 },
+    { name: 'Max', kind: 'definition', level: 0, arity: 2 },
+    { name: 'Succ', kind: 'definition', level: 0, arity: 1 },
+    { name: 'Small', kind: 'definition', level: 1, arity: 0 }
+);
+
+function messages(lines: string[], specSymbols = SPEC): string[] {
+    return validateCfg(lines.join('\n'), specSymbols).map((d) => d.message);
+}
+
+suite('Model Config Validation Test Suite', () => {
+
+    test('Accepts valid config', () => {
+        assert.deepEqual(messages([
+            'CONSTANTS N = 3',
+            '    Op <- Max',
+            'INIT Init',
+            'NEXT Next',
+            'INVARIANT TypeOK'
+        ]), []);
+    });
+
+    test('Reports unknown names', () => {
+        const diagnostics = validateCfg([
+            'CONSTANTS N = 3 Op <- Max',
+            'INVARIANT TypeOk'
+        ].join('\n'), SPEC);
+        assert.deepEqual(diagnostics.map((d) => d.message), ['TypeOk is not defined in Spec or the modules it uses.']);
+        assert.deepEqual(diagnostics[0].range, range(1, 10, 1, 16));
+    });
+
+    test('Doesn\'t report unknown names when extended modules are not known', () => {
+        const symbols = spec(false, { name: 'Init', kind: 'definition', level: undefined, arity: 0 });
+        assert.deepEqual(messages(['INIT Init', 'INVARIANT Extended'], symbols), []);
+    });
+
+    test('Reports operators of wrong levels', () => {
+        assert.deepEqual(messages(['CONSTANTS N = 3 Op <- Max', 'INVARIANT Next', 'SYMMETRY Small']), [
+            'INVARIANT must be state-level, but Next is action-level.',
+            'SYMMETRY must be constant-level, but Small is state-level.'
+        ]);
+    });
+
+    test('Reports operators with arguments and declarations', () => {
+        assert.deepEqual(messages(['CONSTANTS N = 3 Op <- Max', 'INVARIANT Succ', 'CONSTRAINT x']), [
+            'Succ takes 1 argument(s), INVARIANT expects none.',
+            'x is a variable, CONSTRAINT expects a defined operator.'
+        ]);
+    });
+
+    test('Reports wrong constant replacements', () => {
+        assert.deepEqual(messages(['CONSTANTS N <- Init', '    Op <- Succ']), [
+            'N is a constant, but Init is state-level.',
+            'Succ takes 1 argument(s), but Op takes 2.'
+        ]);
+        assert.deepEqual(messages(['CONSTANTS N = 3', '    Op = 5']), [
+            'Op takes 2 argument(s), it can only be replaced with <-.'
+        ]);
+    });
+
+    test('Reports unassigned constants', () => {
+        const diagnostics = validateCfg(['INIT Init', 'CONSTANT Op <- Max'].join('\n'), SPEC);
+        assert.deepEqual(diagnostics.map((d) => d.message), ['Constant N of Spec is not assigned a value.']);
+        assert.deepEqual(diagnostics[0].range, range(1, 0, 1, 8));
+    });
+});
@@ -0,0 +1,36 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { CliUsageError, formatReport, parseCliArgs, readCheckResult } from '../../../src/cli/tlcReport';
+import { ModelCheckResultSource } from '../../../src/model/check';
+
+const FIXTURES_PATH = path.resolve(__dirname, '../../../../tests/fixtures/parsers/tlc');
+
+suite('TLC Report CLI Test Suite', () => {
+
+    test('Parses arguments of a TLC run', () => {
+        const args = parseCliArgs(['--format', 'junit', '--config', 'MC.cfg', 'Spec.tla', '--', '-workers', '4']);
+        assert.strictEqual(args.format, 'junit');
+        assert.strictEqual(args.specPath, 'Spec.tla');
+        assert.strictEqual(args.configPath, 'MC.cfg');
+        assert.deepEqual(args.tlcOptions, ['-workers', '4']);
+    });
+
+    test('Requires either spec or .out file', () => {
+        assert.throws(() => parseCliArgs([]), CliUsageError);
+        assert.throws(() => parseCliArgs(['Spec.tla', '--out', 'Spec.out']), CliUsageError);
+        assert.throws(() => parseCliArgs(['--format', 'xml', 'Spec.tla']), CliUsageError);
+    });
+
+    test('Reports saved TLC output', async () => {
+        const stream = new PassThrough();
+        stream.end(fs.readFileSync(path.join(FIXTURES_PATH, 'error-trace.out')));
+        const checkResult = await readCheckResult(ModelCheckResultSource.OutFile, stream, undefined);
+        assert.ok(checkResult);
+        const report = JSON.parse(formatReport(checkResult, 'json', 'error-trace'));
+        assert.strictEqual(report.status, 'failed');
+        assert.strictEqual(report.errors[0].violatedProperty, 'FooInvariant');
+        assert.strictEqual(report.errors[0].trace.length, 3);
+    });
+});
@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import {
+    DebugHistory, formatDebugTraceConfig, formatDebugTraceModule, getRecordedTrace, isDebugTraceModule, isRecordedState
+} from '../../../src/debugger/debugHistory';
+
+suite('Debug History Test Suite', () => {
+    let history: DebugHistory;
+    let seq: number;
+
+    setup(() => {
+        history = new DebugHistory();
+        history.startSession('Debug Spec');
+        seq = 0;
+    });
+
+    teardown(() => {
+        history.dispose();
+    });
+
+    function stopAt(frameName: string, line: number, variables: { name: string, value: string }[]) {
+        history.handleResponse({ type: 'event', event: 'stopped', body: { reason: 'step' } });
+        history.handleResponse({
+            type: 'response', command: 'stackTrace', success: true,
+            body: { stackFrames: [{ name: frameName, line, column: 3, source: { path: '/spec.tla' } }] }
+        });
+        history.handleResponse({
+            type: 'response', command: 'scopes', success: true,
+            body: { scopes: [{ name: 'Constants', variablesReference: 1 }, { name: 'State', variablesReference: 10 }] }
+        });
+        seq++;
+        history.handleRequest({ type: 'request', seq, command: 'variables', arguments: { variablesReference: 1 } });
+        history.handleResponse({
+            type: 'response', request_seq: seq, command: 'variables', success: true,
+            body: { variables: [{ name: 'N', value: '3' }] }
+        });
+        seq++;
+        history.handleRequest({ type: 'request', seq, command: 'variables', arguments: { variablesReference: 10 } });
+        history.handleResponse({
+            type: 'response', request_seq: seq, command: 'variables', success: true,
+            body: { variables }
+        });
+    }
+
+    test('Records stopped states with their variables', () => {
+        stopAt('Init', 5, [{ name: 'x', value: '0' }]);
+        stopAt('Inc', 7, [{ name: 'x', value: '1' }]);
+        const steps = history.getSteps();
+        assert.deepEqual(steps.map((s) => [s.index, s.frameName, s.line, s.stateReference]), [
+            [0, 'Init', 5, 10],
+            [1, 'Inc', 7, 10]
+        ]);
+        assert.deepEqual(steps[1].variables, [{ name: 'x', value: '1' }]);
+        assert.strictEqual(history.getCurrentStep(), steps[1]);
+    });
+
+    test('Does not record a jump back as a new step', () => {
+        stopAt('Init', 5, [{ name: 'x', value: '0' }]);
+        stopAt('Inc', 7, [{ name: 'x', value: '1' }]);
+        history.expectJump(history.getSteps()[0]);
+        history.handleResponse({ type: 'event', event: 'stopped', body: { reason: 'goto' } });
+        assert.strictEqual(history.getSteps().length, 2);
+        assert.strictEqual(history.getCurrentStep()?.index, 0);
+        stopAt('Reset', 9, [{ name: 'x', value: '5' }]);
+        assert.strictEqual(history.getSteps().length, 3);
+        assert.strictEqual(history.getCurrentStep()?.frameName, 'Reset');
+    });
+
+    test('Starts over with a new session', () => {
+        stopAt('Init', 5, [{ name: 'x', value: '0' }]);
+        history.startSession('Debug Trace');
+        assert.strictEqual(history.getSteps().length, 0);
+        assert.strictEqual(history.getCurrentStep(), undefined);
+        assert.strictEqual(history.getSessionName(), 'Debug Trace');
+    });
+
+    test('Drops repeated states from the recorded trace', () => {
+        stopAt('Init', 5, [{ name: 'x', value: '0' }]);
+        stopAt('Inc', 7, [{ name: 'x', value: '0' }]);
+        stopAt('Inc', 8, [{ name: 'x', value: '1' }]);
+        assert.deepEqual(getRecordedTrace(history.getSteps()), [
+            { action: 'Init', variables: [{ name: 'x', value: '0' }] },
+            { action: 'Inc', variables: [{ name: 'x', value: '1' }] }
+        ]);
+    });
+
+    test('Matches a recorded step with a trace state', () => {
+        stopAt('Inc', 7, [{ name: 'x', value: '1' }, { name: 'y', value: 'TRUE' }]);
+        const step = history.getSteps()[0];
+        assert.ok(isRecordedState(step, [{ name: 'y', value: 'TRUE' }, { name: 'x', value: '1' }]));
+        assert.ok(!isRecordedState(step, [{ name: 'x', value: '1' }, { name: 'y', value: 'FALSE' }]));
+        assert.ok(!isRecordedState(step, [{ name: 'x', value: '1' }]));
+    });
+
+    test('Exports the recorded trace as a module that replays it', () => {
+        const cfg = 'INIT Init\nNEXT Next\nCONSTANTS\n    Procs = {p1, p2}\nPROPERTY Live\n';
+        const trace = [
+            { action: 'Init', variables: [{ name: 'x', value: '0' }, { name: 'p', value: 'p1' }] },
+            { action: 'Inc', variables: [{ name: 'x', value: '1' }, { name: 'p', value: 'p2' }] }
+        ];
+        const module = formatDebugTraceModule(trace, 'Spec_debug_trace', 'Spec', cfg, 'Recorded');
+        assert.strictEqual(module, [
+            '---- MODULE Spec_debug_trace ----',
+            '\\* Recorded',
+            '\\* Debug trace: debug this module to replay the recorded states',
+            'EXTENDS Spec, TLC',
+            '',
+            'CONSTANTS p1, p2',
+            '',
+            'Trace == <<',
+            '    [x |-> 0, p |-> p1],',
+            '    [x |-> 1, p |-> p2]',
+            '>>',
+            '',
+            'TraceActions == <<',
+            '    "Init",',
+            '    "Inc"',
+            '>>',
+            '',
+            'TraceState(i) ==',
+            '    /\\ x = Trace[i].x',
+            '    /\\ p = Trace[i].p',
+            '',
+            'TraceInit ==',
+            '    /\\ Init',
+            '    /\\ TraceState(1)',
+            '',
+            'TraceNext ==',
+            '    /\\ Next',
+            '    /\\ \\E i \\in DOMAIN Trace :',
+            '        /\\ i + 1 \\in DOMAIN Trace',
+            '        /\\ TraceState(i)',
+            '        /\\ x\' = Trace[i + 1].x',
+            '        /\\ p\' = Trace[i + 1].p',
+            '',
+            '====',
+            ''
+        ].join('\n'));
+        assert.ok(isDebugTraceModule(module));
+        assert.ok(!isDebugTraceModule(cfg));
+        const traceCfg = formatDebugTraceConfig(cfg);
+        assert.ok(traceCfg.includes('INIT TraceInit'));
+        assert.ok(traceCfg.includes('NEXT TraceNext'));
+        assert.ok(traceCfg.includes('p1 = p1'));
+        assert.ok(traceCfg.includes('p2 = p2'));
+        assert.ok(traceCfg.includes('CHECK_DEADLOCK FALSE'));
+        assert.ok(!traceCfg.includes('Live'));
+    });
+});
@@ -0,0 +1,165 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { OPT_4_SPACES } from './formatting';
+import { applyDocEdits, replaceDocContents } from '../document';
+import { normalizeSanyXml, TlaDocumentFormattingEditProvider } from '../../../src/formatters/tlaDocument';
+import { LANG_TLAPLUS } from '../../../src/common';
+import { range } from '../shortcuts';
+
+suite('TLA Document Formatting Test Suite', () => {
+    let doc: vscode.TextDocument;
+
+    suiteSetup(async () => {
+        doc = await vscode.workspace.openTextDocument({ language: LANG_TLAPLUS });
+    });
+
+    suiteTeardown(async () => {
+        await vscode.window.showTextDocument(doc, {preview: true, preserveFocus: false});
+        return vscode.commands.executeCommand('workbench.action.closeActiveEditor');
+    });
+
+    test('Indents definition body', () => {
+        return assertDocumentFormatting(doc, [
+            'Foo ==',
+            '        /\\ a',
+            '          + 1',
+            '        /\\ b'
+        ], [
+            'Foo ==',
+            '    /\\ a',
+            '      + 1',
+            '    /\\ b'
+        ]);
+    });
+
+    test('Aligns junction list together with the definition sign', () => {
+        return assertDocumentFormatting(doc, [
+            'Foo   ==   /\\ a',
+            '           /\\ b'
+        ], [
+            'Foo == /\\ a',
+            '       /\\ b'
+        ]);
+    });
+
+    test('Removes extra spaces after one-line bullets only', () => {
+        return assertDocumentFormatting(doc, [
+            'Foo ==',
+            '    /\\   x = 1',
+            '    /\\  \\/ a',
+            '        \\/ b'
+        ], [
+            'Foo ==',
+            '    /\\ x = 1',
+            '    /\\  \\/ a',
+            '        \\/ b'
+        ]);
+    });
+
+    test('Aligns IN with LET', () => {
+        return assertDocumentFormatting(doc, [
+            'Foo == LET x == 1',
+            '  IN  x + 1'
+        ], [
+            'Foo == LET x == 1',
+            '       IN  x + 1'
+        ]);
+    });
+
+    test('Aligns CASE arms', () => {
+        return assertDocumentFormatting(doc, [
+            'Foo == CASE a -> 1',
+            '     [] b -> 2',
+            '           [] OTHER -> 3'
+        ], [
+            'Foo == CASE a -> 1',
+            '         [] b -> 2',
+            '         [] OTHER -> 3'
+        ]);
+    });
+
+    test('Normalizes separators and trailing spaces', () => {
+        return assertDocumentFormatting(doc, [
+            '---- MODULE foo ----  ',
+            'EXTENDS Naturals   ',
+            '----',
+            '===='
+        ], [
+            '---- MODULE foo ----',
+            'EXTENDS Naturals',
+            '--------------------',
+            '===================='
+        ]);
+    });
+
+    test('Keeps layout that changes parsing', () => {
+        return assertDocumentFormatting(doc, [
+            'Foo == /\\ LET a == 1',
+            '       IN a'
+        ], [
+            'Foo == /\\ LET a == 1',
+            '       IN a'
+        ]);
+    });
+
+    test('Keeps PlusCal algorithm intact', () => {
+        return assertDocumentFormatting(doc, [
+            '(*--algorithm foo',
+            'define',
+            '  Foo ==    TRUE',
+            'end define;',
+            'end algorithm; *)'
+        ], [
+            '(*--algorithm foo',
+            'define',
+            '  Foo ==    TRUE',
+            'end define;',
+            'end algorithm; *)'
+        ]);
+    });
+
+    test('Formats only definitions in range', async () => {
+        await replaceDocContents(doc, [
+            'Foo ==',
+            '        TRUE',
+            'Bar ==',
+            '        FALSE'
+        ].join('\n'));
+        const formatter = new TlaDocumentFormattingEditProvider();
+        const tokenSrc = new vscode.CancellationTokenSource();
+        const edits = await formatter.provideDocumentRangeFormattingEdits(
+            doc, range(3, 0, 3, 2), OPT_4_SPACES, tokenSrc.token);
+        await applyDocEdits(doc.uri, edits);
+        assert.deepEqual(doc.getText().split('\n'), [
+            'Foo ==',
+            '        TRUE',
+            'Bar ==',
+            '    FALSE'
+        ]);
+    });
+
+    test('Compares SANY syntax trees without locations and comments', () => {
+        const original = [
+            '<modules><context><entry><UID>1</UID><OpDefNode>',
+            '<location><column><begin>1</begin><end>3</end></column><line><begin>2</begin><end>2</end></line>',
+            '<filename>foo</filename></location><pre-comments>Foo is  cool</pre-comments>',
+            '<uniquename>Foo</uniquename></OpDefNode></entry></context></modules>'
+        ].join('\n');
+        const moved = original.replace('<begin>1</begin>', '<begin>5</begin>').replace('is  cool', 'is cool');
+        assert.strictEqual(normalizeSanyXml(moved), normalizeSanyXml(original));
+        assert.notStrictEqual(normalizeSanyXml(original.replace('>Foo<', '>Bar<')), normalizeSanyXml(original));
+    });
+});
+
+async function assertDocumentFormatting(
+    doc: vscode.TextDocument,
+    docLines: string[],
+    expectLines: string[]
+): Promise<void> {
+    await replaceDocContents(doc, docLines.join('\n'));
+    const formatter = new TlaDocumentFormattingEditProvider();
+    const tokenSrc = new vscode.CancellationTokenSource();
+    const edits = await formatter.provideDocumentFormattingEdits(doc, OPT_4_SPACES, tokenSrc.token);
+    await applyDocEdits(doc.uri, edits);
+    assert.deepEqual(doc.getText().split('\n'), expectLines);
+}
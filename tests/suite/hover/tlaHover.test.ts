@@ -0,0 +1,108 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { LANG_TLAPLUS } from '../../../src/common';
+import { parseDocInfo, replaceDocContents } from '../document';
+import { TlaDocumentInfos } from '../../../src/model/documentInfo';
+import { TlaDocumentSymbolsProvider } from '../../../src/symbols/tlaSymbols';
+import { TlaHoverProvider } from '../../../src/hover/tlaHover';
+
+suite('TLA Hover Provider Test Suite', () => {
+    let doc: vscode.TextDocument;
+
+    suiteSetup(async () => {
+        doc = await vscode.workspace.openTextDocument({ language: LANG_TLAPLUS });
+    });
+
+    test('Shows operator signature and module', () => {
+        return assertHover(doc, [
+            '---- MODULE foo ----',
+            'Inc(x, y) == x + y',
+            'Bar == I${n}c(1, 2)',
+            '===='
+        ], [
+            'Inc(x, y) ==',
+            '*Module:* `foo`'
+        ]);
+    });
+
+    test('Shows signature with parameters on multiple lines', () => {
+        return assertHover(doc, [
+            '---- MODULE foo ----',
+            'Inc(x,',
+            '    y) == x + y',
+            'Bar == I${n}c(1, 2)',
+            '===='
+        ], [
+            'Inc(x, y) =='
+        ]);
+    });
+
+    test('Shows declaration keyword of variables', () => {
+        return assertHover(doc, [
+            '---- MODULE foo ----',
+            'VARIABLES bar, baz',
+            "Next == b${a}z' = bar",
+            '===='
+        ], [
+            'VARIABLE baz'
+        ]);
+    });
+
+    test('Shows line comment above definition', () => {
+        return assertHover(doc, [
+            '---- MODULE foo ----',
+            '\\* Always holds',
+            'Foo == TRUE',
+            'Bar == ${F}oo',
+            '===='
+        ], [
+            'Foo ==',
+            'Always holds'
+        ]);
+    });
+
+    test('Shows block comment above definition', () => {
+        return assertHover(doc, [
+            '---- MODULE foo ----',
+            '(* Never holds *)',
+            'Foo == FALSE',
+            'Bar == ${F}oo',
+            '===='
+        ], [
+            'Foo ==',
+            'Never holds'
+        ]);
+    });
+
+    test('Shows nothing for unknown symbols', () => {
+        return assertHover(doc, [
+            '---- MODULE foo ----',
+            'Bar == ${U}nknown',
+            '===='
+        ], undefined);
+    });
+});
+
+async function assertHover(
+    doc: vscode.TextDocument,
+    docLines: string[],
+    expectFragments: string[] | undefined
+): Promise<void> {
+    const testDocInfo = parseDocInfo(docLines);
+    await replaceDocContents(doc, testDocInfo.lines.join('\n'));
+    const docInfos = new TlaDocumentInfos();
+    const hoverProvider = new TlaHoverProvider(docInfos);
+    const symbolsProvider = new TlaDocumentSymbolsProvider(docInfos);
+    const tokenSrc = new vscode.CancellationTokenSource();
+    await symbolsProvider.provideDocumentSymbols(doc, tokenSrc.token);
+    const hover = await hoverProvider.provideHover(doc, testDocInfo.position, tokenSrc.token);
+    if (!expectFragments) {
+        assert.strictEqual(hover, undefined);
+        return;
+    }
+    assert.ok(hover);
+    const text = hover.contents.map((c) => (c instanceof vscode.MarkdownString ? c.value : String(c))).join('\n');
+    for (const fragment of expectFragments) {
+        assert.ok(text.includes(fragment), `Expected "${fragment}" in hover:\n${text}`);
+    }
+}
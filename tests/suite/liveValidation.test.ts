@@ -0,0 +1,21 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { DCollection } from '../../src/diagnostic';
+import { remapDCollection } from '../../src/liveValidation';
+import { range } from './shortcuts';
+
+suite('Live Validation Test Suite', () => {
+
+    test('Maps temporary module copies to original files', () => {
+        const dCol = new DCollection();
+        dCol.addFilePath('/tmp/tlaplus-1/Foo.tla');
+        dCol.addMessage('/tmp/tlaplus-1/Foo.tla', range(2, 0, 2, 5), 'Unknown operator: `y`.');
+        dCol.addMessage('/specs/Bar.tla', range(1, 4, 1, 6), 'Multiply-defined symbol');
+        const remapped = remapDCollection(dCol, new Map([['/tmp/tlaplus-1/Foo.tla', '/specs/Foo.tla']]));
+        assert.deepEqual(Array.from(remapped.getModules().values()), ['/specs/Foo.tla', '/specs/Bar.tla']);
+        assert.deepEqual(remapped.getMessages().map((m) => m.filePath), ['/specs/Foo.tla', '/specs/Bar.tla']);
+        assert.deepEqual(remapped.getMessages()[0].diagnostic.range, range(2, 0, 2, 5));
+        assert.strictEqual(remapped.getMessages()[0].diagnostic.message, 'Unknown operator: `y`.');
+        assert.strictEqual(remapped.getMessages()[1].diagnostic.severity, vscode.DiagnosticSeverity.Error);
+    });
+});
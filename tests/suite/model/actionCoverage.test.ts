@@ -0,0 +1,64 @@
+import * as assert from 'assert';
+import { CoverageItem, SubexpressionCoverageItem } from '../../../src/model/check';
+import {
+    CoverageSortOrder, describeActionCoverage, groupCoverageByModule, isNeverEnabled, sortSubexpressionCoverage
+} from '../../../src/model/actionCoverage';
+import { range } from '../shortcuts';
+
+suite('Action Coverage Test Suite', () => {
+
+    test('Describes action coverage', () => {
+        assert.strictEqual(describeActionCoverage(action('M', 'Next', 5, 12, 34)), '12 distinct of 34 states');
+        assert.strictEqual(describeActionCoverage(action('M', 'Stop', 7, 0, 0)), 'Never enabled');
+        assert.ok(isNeverEnabled(action('M', 'Stop', 7, 0, 0)));
+        assert.ok(!isNeverEnabled(action('M', 'Next', 5, 0, 10)));
+    });
+
+    test('Groups actions by module', () => {
+        const modules = groupCoverageByModule([
+            action('Spec', 'Next', 10, 5, 10),
+            action('Lib', 'Op', 3, 0, 0),
+            action('Spec', 'Init', 2, 1, 1)
+        ], CoverageSortOrder.Source);
+        assert.deepEqual(modules.map((m) => m.module), ['Lib', 'Spec']);
+        assert.deepEqual(modules[1].actions.map((a) => a.action), ['Init', 'Next']);
+        assert.strictEqual(modules[0].neverEnabled, 1);
+        assert.strictEqual(modules[1].neverEnabled, 0);
+    });
+
+    test('Sorts actions by coverage', () => {
+        const items = [
+            action('Spec', 'A', 1, 5, 10),
+            action('Spec', 'B', 2, 0, 0),
+            action('Spec', 'C', 3, 20, 40)
+        ];
+        const mostCovered = groupCoverageByModule(items, CoverageSortOrder.MostCovered)[0];
+        assert.deepEqual(mostCovered.actions.map((a) => a.action), ['C', 'A', 'B']);
+        const leastCovered = groupCoverageByModule(items, CoverageSortOrder.LeastCovered)[0];
+        assert.deepEqual(leastCovered.actions.map((a) => a.action), ['B', 'A', 'C']);
+    });
+
+    test('Sorts subexpressions', () => {
+        const items = [
+            subexpr(4, 10),
+            subexpr(2, 3),
+            subexpr(3, 10)
+        ];
+        assert.deepEqual(sortSubexpressionCoverage(items, CoverageSortOrder.Source).map(line), [2, 3, 4]);
+        assert.deepEqual(sortSubexpressionCoverage(items, CoverageSortOrder.MostCovered).map(line), [3, 4, 2]);
+        assert.deepEqual(sortSubexpressionCoverage(items, CoverageSortOrder.LeastCovered).map(line), [2, 3, 4]);
+        assert.deepEqual(items.map(line), [4, 2, 3]);
+    });
+});
+
+function action(module: string, name: string, ln: number, distinct: number, total: number): CoverageItem {
+    return new CoverageItem(module, name, `/${module}.tla`, range(ln, 0, ln, 10), total, distinct);
+}
+
+function subexpr(ln: number, count: number): SubexpressionCoverageItem {
+    return new SubexpressionCoverageItem('Spec', '/Spec.tla', range(ln, 4, ln, 20), count, undefined);
+}
+
+function line(item: SubexpressionCoverageItem): number {
+    return item.range.start.line;
+}
@@ -0,0 +1,88 @@
+import * as assert from 'assert';
+import { parseCfgModel, updateCfgText } from '../../../src/model/cfgModel';
+
+const CFG = [
+    '\\* Model of the spec',
+    'CONSTANTS',
+    '    N = 3',
+    '    Nil = Nil',
+    '    Procs = {p1, p2}',
+    '    Op <- MyOp',
+    '',
+    'INIT Init',
+    'NEXT Next',
+    '',
+    'CONSTRAINT Bound',
+    'INVARIANT TypeOK',
+    '\\* Checked later',
+    'CHECK_DEADLOCK FALSE',
+    ''
+].join('\n');
+
+suite('Model Config Editor Model Test Suite', () => {
+
+    test('Reads model config', () => {
+        assert.deepEqual(parseCfgModel(CFG), {
+            specification: '',
+            init: 'Init',
+            next: 'Next',
+            constants: [
+                { name: 'N', kind: 'value', value: '3' },
+                { name: 'Nil', kind: 'modelValue', value: '' },
+                { name: 'Procs', kind: 'modelValues', value: 'p1, p2' },
+                { name: 'Op', kind: 'replacement', value: 'MyOp' }
+            ],
+            invariants: ['TypeOK'],
+            properties: [],
+            symmetry: '',
+            view: '',
+            alias: '',
+            checkDeadlock: false
+        });
+    });
+
+    test('Keeps text of unchanged model', () => {
+        assert.strictEqual(updateCfgText(CFG, parseCfgModel(CFG)), CFG);
+    });
+
+    test('Rewrites changed sections only', () => {
+        const model = parseCfgModel(CFG);
+        model.invariants = ['TypeOK', 'Safe'];
+        model.constants[2].value = 'p1, p2, p3';
+        model.checkDeadlock = undefined;
+        assert.strictEqual(updateCfgText(CFG, model), [
+            '\\* Model of the spec',
+            'CONSTANTS',
+            '    N = 3',
+            '    Nil = Nil',
+            '    Procs = {p1, p2, p3}',
+            '    Op <- MyOp',
+            '',
+            'INIT Init',
+            'NEXT Next',
+            '',
+            'CONSTRAINT Bound',
+            'INVARIANTS',
+            '    TypeOK',
+            '    Safe',
+            '\\* Checked later',
+            ''
+        ].join('\n'));
+    });
+
+    test('Appends new sections', () => {
+        const model = parseCfgModel('INIT Init\n');
+        model.next = 'Next';
+        model.properties = ['Live'];
+        assert.strictEqual(updateCfgText('INIT Init\n', model), 'INIT Init\n\nNEXT Next\n\nPROPERTY Live\n');
+        assert.strictEqual(updateCfgText('', model), 'INIT Init\n\nNEXT Next\n\nPROPERTY Live\n');
+    });
+
+    test('Merges sections of the same kind', () => {
+        const text = 'INVARIANT A\nINIT Init\nINVARIANT B\n';
+        const model = parseCfgModel(text);
+        assert.deepEqual(model.invariants, ['A', 'B']);
+        model.invariants = ['B'];
+        assert.strictEqual(updateCfgText(text, model), 'INVARIANT B\nINIT Init\n');
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { CheckState, CheckStatus } from '../../../src/model/check';
+import { compareCheckResults, CounterexampleChange, formatComparison } from '../../../src/model/checkComparison';
+import { CheckResultBuilder, message, range, struct, traceItem, v } from '../shortcuts';
+
+suite('Model Check Comparison Test Suite', () => {
+
+    test('Computes state space deltas', () => {
+        const before = new CheckResultBuilder('a.out', CheckState.Success, CheckStatus.Finished)
+            .addInitState('00:00:01', 5, 120, 40, 0)
+            .build();
+        const after = new CheckResultBuilder('b.out', CheckState.Success, CheckStatus.Finished)
+            .addInitState('00:00:01', 4, 100, 42, 0)
+            .build();
+        assert.deepEqual(compareCheckResults(before, after).stateSpace, [
+            { name: 'States found', before: 120, after: 100 },
+            { name: 'Distinct states', before: 40, after: 42 },
+            { name: 'Diameter', before: 5, after: 4 }
+        ]);
+    });
+
+    test('Sums coverage per action', () => {
+        const before = new CheckResultBuilder('a.out', CheckState.Success, CheckStatus.Finished)
+            .addCoverage('foo', 'Inc', '/foo.tla', range(3, 0, 3, 5), 10, 4)
+            .addCoverage('foo', 'Inc', '/foo.tla', range(4, 0, 4, 5), 2, 1)
+            .addCoverage('foo', 'Reset', '/foo.tla', range(5, 0, 5, 5), 3, 3)
+            .build();
+        const after = new CheckResultBuilder('b.out', CheckState.Success, CheckStatus.Finished)
+            .addCoverage('foo', 'Inc', '/foo.tla', range(3, 0, 3, 5), 8, 4)
+            .addCoverage('foo', 'Dec', '/foo.tla', range(6, 0, 6, 5), 1, 1)
+            .build();
+        const coverage = compareCheckResults(before, after).coverage;
+        assert.deepEqual(coverage.map((c) => [c.action, c.distinct.before, c.distinct.after]), [
+            ['Inc', 5, 4],
+            ['Reset', 3, undefined],
+            ['Dec', undefined, 1]
+        ]);
+        assert.deepEqual(coverage.map((c) => [c.total.before, c.total.after]), [
+            [12, 8],
+            [3, undefined],
+            [undefined, 1]
+        ]);
+    });
+
+    test('Detects changed messages and counterexamples', () => {
+        const trace = (x: number) => [
+            traceItem(1, 'Initial predicate', '', '', undefined, range(0, 0, 0, 0), struct('', v('x', '0'))),
+            traceItem(2, 'Inc', 'foo', 'Inc', '/foo.tla', range(3, 0, 3, 5), struct('', v('x', String(x))))
+        ];
+        const before = new CheckResultBuilder('a.out', CheckState.Error, CheckStatus.Finished)
+            .addWarning([message('Declaring symmetry during liveness checking is dangerous.')])
+            .addError([message('Invariant Small is violated.')], trace(1))
+            .build();
+        const after = new CheckResultBuilder('b.out', CheckState.Error, CheckStatus.Finished)
+            .addError([message('Invariant Small is violated.')], trace(2))
+            .build();
+        const comparison = compareCheckResults(before, after);
+        assert.deepEqual(comparison.removedMessages, [
+            'Warning: Declaring symmetry during liveness checking is dangerous.'
+        ]);
+        assert.deepEqual(comparison.addedMessages, []);
+        assert.strictEqual(comparison.counterexample, CounterexampleChange.Changed);
+        assert.strictEqual(compareCheckResults(after, after).counterexample, CounterexampleChange.Unchanged);
+    });
+
+    test('Formats comparison as Markdown', () => {
+        const before = new CheckResultBuilder('a.out', CheckState.Success, CheckStatus.Finished)
+            .addInitState('00:00:01', 5, 120, 40, 0)
+            .build();
+        const text = formatComparison(compareCheckResults(before, before), 'Run 1', 'Run 2');
+        assert.ok(text.includes('| Distinct states | 40 | 40 | 0 |'));
+        assert.ok(text.includes('Neither run produced a counterexample.'));
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CheckState, CheckStatus, SpecFiles } from '../../../src/model/check';
+import { CheckHistory, CheckHistoryRun, createHistoryEntry } from '../../../src/model/checkHistory';
+import { CheckResultBuilder, message } from '../shortcuts';
+
+const SPEC_FILES = new SpecFiles('/specs/foo.tla', '/specs/foo.cfg');
+
+suite('Model Check History Test Suite', () => {
+
+    test('Records successful run', () => {
+        const run = new CheckHistoryRun('1', SPEC_FILES, ['-workers', '2'], 1000, '/tmp/1.out');
+        const checkResult = new CheckResultBuilder('foo.out', CheckState.Success, CheckStatus.Finished)
+            .addInitState('00:00:00', 0, 1, 1, 1)
+            .addInitState('00:00:01', 3, 42, 17, 0)
+            .setDuration(1234)
+            .build();
+        assert.deepEqual(createHistoryEntry(run, checkResult, 5000), {
+            id: '1',
+            tlaFilePath: '/specs/foo.tla',
+            cfgFilePath: '/specs/foo.cfg',
+            modelName: 'foo',
+            outputDir: '/specs',
+            options: ['-workers', '2'],
+            startTime: 1000,
+            duration: 1234,
+            state: CheckState.Success,
+            distinctStates: 17,
+            violatedProperty: undefined
+        });
+    });
+
+    test('Records violated invariant', () => {
+        const run = new CheckHistoryRun('1', SPEC_FILES, [], 1000, '/tmp/1.out');
+        const checkResult = new CheckResultBuilder('foo.out', CheckState.Error, CheckStatus.Finished)
+            .addError([message('Invariant TypeOK is violated.')])
+            .build();
+        const entry = createHistoryEntry(run, checkResult, 5000);
+        assert.strictEqual(entry.state, CheckState.Error);
+        assert.strictEqual(entry.violatedProperty, 'TypeOK');
+    });
+
+    test('Records unfinished run as stopped', () => {
+        const run = new CheckHistoryRun('1', SPEC_FILES, [], 1000, '/tmp/1.out');
+        const checkResult = new CheckResultBuilder('foo.out', CheckState.Running, CheckStatus.SuccessorStatesComputing)
+            .build();
+        const entry = createHistoryEntry(run, checkResult, 5000);
+        assert.strictEqual(entry.state, CheckState.Stopped);
+        assert.strictEqual(entry.duration, 4000);
+    });
+
+    test('Persists runs between sessions', async () => {
+        const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tlc-history-'));
+        try {
+            const history = new CheckHistory(storageDir);
+            await history.load();
+            await history.finishRun(history.startRun(SPEC_FILES, ['-deadlock']), undefined);
+            const reloaded = new CheckHistory(storageDir);
+            await reloaded.load();
+            assert.strictEqual(reloaded.getEntries().length, 1);
+            assert.deepEqual(reloaded.getEntries()[0].options, ['-deadlock']);
+            await reloaded.clear();
+            assert.strictEqual(reloaded.getEntries().length, 0);
+        } finally {
+            fs.rmSync(storageDir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { CheckState, CheckStatus } from '../../../src/model/check';
+import { buildCheckReport, formatJUnitReport } from '../../../src/model/checkReport';
+import { CheckResultBuilder, message, pos, range, sourceLink, struct, traceItem, v } from '../shortcuts';
+
+suite('Model Check Report Test Suite', () => {
+
+    test('Reports statistics and coverage', () => {
+        const checkResult = new CheckResultBuilder('foo.out', CheckState.Success, CheckStatus.Finished)
+            .addInitState('00:00:01', 3, 42, 17, 0)
+            .addCoverage('foo', 'Inc', '/foo.tla', range(3, 0, 3, 5), 10, 4)
+            .addOutLine('Hello', 2)
+            .setDuration(1500)
+            .build();
+        const report = buildCheckReport(checkResult);
+        assert.strictEqual(report.status, 'passed');
+        assert.deepEqual(report.statistics, { states: 42, distinctStates: 17, queueSize: 0, diameter: 3 });
+        assert.deepEqual(report.coverage, [{
+            module: 'foo',
+            action: 'Inc',
+            location: { file: '/foo.tla', line: 4, column: 1 },
+            total: 10,
+            distinct: 4
+        }]);
+        assert.deepEqual(report.output, ['Hello', 'Hello']);
+    });
+
+    test('Reports error trace', () => {
+        const checkResult = new CheckResultBuilder('foo.out', CheckState.Error, CheckStatus.Finished)
+            .addError(
+                [message('Invariant ', sourceLink('Small', '/foo.tla', pos(7, 2)), ' is violated.')],
+                [
+                    traceItem(1, 'Initial predicate', '', '', undefined, range(0, 0, 0, 0), struct('', v('x', '0'))),
+                    traceItem(2, 'Inc', 'foo', 'Inc', '/foo.tla', range(3, 0, 3, 5), struct('', v('x', '1')))
+                ]
+            )
+            .build();
+        const report = buildCheckReport(checkResult);
+        assert.strictEqual(report.status, 'failed');
+        assert.deepEqual(report.errors, [{
+            message: 'Invariant Small is violated.',
+            violatedProperty: 'Small',
+            location: { file: '/foo.tla', line: 8, column: 3 },
+            trace: [{
+                num: 1,
+                title: 'Initial predicate',
+                module: '',
+                action: '',
+                location: undefined,
+                variables: { x: '0' }
+            }, {
+                num: 2,
+                title: 'Inc',
+                module: 'foo',
+                action: 'Inc',
+                location: { file: '/foo.tla', line: 4, column: 1 },
+                variables: { x: '1' }
+            }]
+        }]);
+    });
+
+    test('Formats JUnit report', () => {
+        const checkResult = new CheckResultBuilder('foo.out', CheckState.Error, CheckStatus.Finished)
+            .addError([message('Invariant Small is violated.')], [
+                traceItem(1, 'Initial predicate', '', '', undefined, range(0, 0, 0, 0), struct('', v('x', '0')))
+            ])
+            .setDuration(2500)
+            .build();
+        const xml = formatJUnitReport(checkResult, 'foo');
+        assert.ok(xml.includes('<testsuite name="foo" tests="1" failures="1" errors="0" skipped="0" time="2.500">'));
+        assert.ok(xml.includes('<failure message="Invariant Small is violated." type="TLCError">'));
+        assert.ok(xml.includes('State 1: &lt;Initial predicate&gt;\n/\\ x = 0</failure>'));
+    });
+
+    test('Reports unfinished run as JUnit error', () => {
+        const checkResult = new CheckResultBuilder('foo.out', CheckState.Stopped, CheckStatus.Finished).build();
+        const xml = formatJUnitReport(checkResult, 'foo');
+        assert.ok(xml.includes('<error message="Model checking did not finish" type="TLCIncomplete"/>'));
+    });
+});
@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CheckState, CheckStatus, InitialStateStatItem, SpecFiles } from '../../../src/model/check';
+import {
+    buildResumeOptions, CheckpointEntry, CheckpointIndex, mergeResumedCheckResult, parseFingerprintIndex
+} from '../../../src/model/checkpoints';
+import { CheckResultBuilder } from '../shortcuts';
+
+const SPEC_FILES = new SpecFiles(path.resolve('/specs/foo.tla'), path.resolve('/specs/foo.cfg'));
+const PROCESS_INFO = 'Running breadth-first search Model-Checking with fp 22 and seed -5755320172003082571.';
+
+function runningResult(checkpointTime: string, distinct: number) {
+    return new CheckResultBuilder('foo.out', CheckState.Running, CheckStatus.SuccessorStatesComputing)
+        .setProcessInfo(PROCESS_INFO)
+        .addInitState('00:00:00', 0, 1, 1, 1)
+        .addInitState('00:30:00', 12, distinct * 3, distinct, 500)
+        .setCheckpoint('states/24-01-01-10-00-00', checkpointTime)
+        .build();
+}
+
+suite('Model Checkpoints Test Suite', () => {
+
+    test('Parses fingerprint index', () => {
+        assert.strictEqual(parseFingerprintIndex(PROCESS_INFO), 22);
+        assert.strictEqual(parseFingerprintIndex('Running Random Simulation with seed 1.'), undefined);
+        assert.strictEqual(parseFingerprintIndex(undefined), undefined);
+    });
+
+    test('Builds resume options', () => {
+        const entry = {
+            metaDir: '/specs/states/24-01-01-10-00-00',
+            options: ['-workers', '4', '-fp', '7', '-recover', '/old', '-checkpoint', '10'],
+            fingerprintIndex: 22
+        } as CheckpointEntry;
+        assert.deepEqual(buildResumeOptions(entry), [
+            '-workers', '4', '-checkpoint', '10', '-recover', '/specs/states/24-01-01-10-00-00', '-fp', '22'
+        ]);
+    });
+
+    test('Merges statistics of resumed run', () => {
+        const entry = {
+            statesStat: [{ timeStamp: '00:00:00', diameter: 0, total: 1, distinct: 1, queueSize: 1 }]
+        } as CheckpointEntry;
+        const result = new CheckResultBuilder('foo.out', CheckState.Running, CheckStatus.SuccessorStatesComputing)
+            .addInitState('00:00:00', 12, 300, 100, 50)
+            .build();
+        const merged = mergeResumedCheckResult(entry, result);
+        assert.deepEqual(merged.initialStatesStat, [
+            new InitialStateStatItem('00:00:00', 0, 1, 1, 1),
+            new InitialStateStatItem('00:00:00', 12, 300, 100, 50)
+        ]);
+        assert.strictEqual(merged.status, CheckStatus.SuccessorStatesComputing);
+    });
+
+    test('Keeps checkpoints of interrupted runs', async () => {
+        const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tlc-checkpoints-'));
+        try {
+            const index = new CheckpointIndex(storageDir);
+            await index.load();
+            const run = index.startRun(SPEC_FILES, ['-workers', '4']);
+            await index.updateRun(run, runningResult('2024-01-01 10:30:00', 100));
+            await index.updateRun(run, runningResult('2024-01-01 11:00:00', 200));
+            await index.finishRun(run, undefined);
+
+            const reloaded = new CheckpointIndex(storageDir);
+            await reloaded.load();
+            assert.deepEqual(reloaded.getEntries().map((e) => [e.metaDir, e.checkpointTime, e.distinctStates]), [
+                [path.resolve('/specs/states/24-01-01-10-00-00'), '2024-01-01 11:00:00', 200]
+            ]);
+            assert.strictEqual(reloaded.getEntries()[0].fingerprintIndex, 22);
+
+            const resumed = reloaded.startRun(SPEC_FILES, [], reloaded.getEntries()[0]);
+            const finished = new CheckResultBuilder('foo.out', CheckState.Success, CheckStatus.Finished).build();
+            await reloaded.finishRun(resumed, finished);
+            assert.strictEqual(reloaded.getEntries().length, 0);
+        } finally {
+            fs.rmSync(storageDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Forgets checkpoints of stopped runs', async () => {
+        const storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tlc-checkpoints-'));
+        try {
+            const index = new CheckpointIndex(storageDir);
+            const run = index.startRun(SPEC_FILES, []);
+            await index.updateRun(run, runningResult('2024-01-01 10:30:00', 100));
+            run.discardCheckpoint = true;
+            await index.finishRun(run, undefined);
+            assert.strictEqual(index.getEntries().length, 0);
+        } finally {
+            fs.rmSync(storageDir, { recursive: true, force: true });
+        }
+    });
+});
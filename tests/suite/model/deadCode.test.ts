@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { CheckState, CheckStatus } from '../../../src/model/check';
+import { DeadCodeKind, findDeadCode } from '../../../src/model/deadCode';
+import { CheckResultBuilder, range, subexpr } from '../shortcuts';
+
+const SPEC = '/spec.tla';
+
+suite('Dead Code Test Suite', () => {
+
+    test('Reports never enabled actions', () => {
+        const result = new CheckResultBuilder('spec.out', CheckState.Success, CheckStatus.Finished)
+            .addCoverage('spec', 'Init', SPEC, range(3, 0, 3, 4), 1, 1)
+            .addCoverage('spec', 'Inc', SPEC, range(5, 0, 5, 3), 10, 4)
+            .addCoverage('spec', 'Reset', SPEC, range(7, 0, 7, 5), 0, 0)
+            .addCoverage('spec', 'Stutter', SPEC, range(9, 0, 9, 7), 6, 0)
+            .build();
+        assert.deepEqual(findDeadCode(result).map((f) => [f.kind, f.range.start.line]), [
+            [DeadCodeKind.NeverEnabledAction, 7],
+            [DeadCodeKind.NoNewStatesAction, 9]
+        ]);
+    });
+
+    test('Reports never taken disjuncts of the next-state relation', () => {
+        const result = new CheckResultBuilder('spec.out', CheckState.Success, CheckStatus.Finished)
+            .addCoverage('spec', 'Next', SPEC, range(10, 7, 10, 20), 5, 5)
+            .addCoverage('spec', 'Next', SPEC, range(11, 7, 11, 20), 0, 0)
+            .build();
+        const findings = findDeadCode(result);
+        assert.strictEqual(findings.length, 1);
+        assert.strictEqual(findings[0].kind, DeadCodeKind.NeverTakenDisjunct);
+        assert.strictEqual(findings[0].message, 'Disjunct of Next is never taken.');
+        assert.strictEqual(findings[0].range.start.line, 11);
+    });
+
+    test('Reports outermost unreached subexpressions', () => {
+        const result = new CheckResultBuilder('spec.out', CheckState.Success, CheckStatus.Finished)
+            .addCoverage('spec', 'Inc', SPEC, range(5, 0, 5, 3), 10, 4, [
+                subexpr('spec', SPEC, range(5, 8, 6, 20), 10, [
+                    subexpr('spec', SPEC, range(5, 8, 5, 15), 10),
+                    subexpr('spec', SPEC, range(6, 8, 6, 20), 0, [
+                        subexpr('spec', SPEC, range(6, 10, 6, 12), 0)
+                    ])
+                ])
+            ])
+            .build();
+        assert.deepEqual(findDeadCode(result).map((f) => [f.kind, f.range.start.line, f.range.start.character]), [
+            [DeadCodeKind.UnreachedSubexpression, 6, 8]
+        ]);
+    });
+
+    test('Reports vacuous invariants', () => {
+        const result = new CheckResultBuilder('spec.out', CheckState.Success, CheckStatus.Finished)
+            .addPropertyCoverage('spec', 'Safe', SPEC, range(12, 0, 12, 4), [
+                subexpr('spec', SPEC, range(12, 8, 12, 30), 7, [
+                    subexpr('spec', SPEC, range(12, 8, 12, 14), 7),
+                    subexpr('spec', SPEC, range(12, 19, 12, 30), 0)
+                ])
+            ])
+            .build();
+        const findings = findDeadCode(result);
+        assert.strictEqual(findings.length, 1);
+        assert.strictEqual(findings[0].kind, DeadCodeKind.VacuousProperty);
+        assert.strictEqual(findings[0].message, 'Expression in Safe is never evaluated, Safe may hold vacuously.');
+    });
+
+    test('Reports nothing for unsuccessful runs', () => {
+        const result = new CheckResultBuilder('spec.out', CheckState.Error, CheckStatus.Finished)
+            .addCoverage('spec', 'Reset', SPEC, range(7, 0, 7, 5), 0, 0)
+            .build();
+        assert.deepEqual(findDeadCode(result), []);
+    });
+});
@@ -0,0 +1,115 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import {
+    buildProfileRunOptions, findModelProfile, findProfileSpecPath, ModelProfile, parseModelProfiles
+} from '../../../src/model/modelProfiles';
+
+const ROOT = path.resolve('/ws');
+
+function parse(...models: unknown[]): ModelProfile[] {
+    return parseModelProfiles(JSON.stringify({ models }), ROOT);
+}
+
+suite('Model Profiles Test Suite', () => {
+
+    test('Reads model profiles', () => {
+        assert.deepEqual(parse({
+            spec: 'specs/Spec.tla',
+            name: 'big',
+            cfg: 'specs/Big.cfg',
+            workers: 'auto',
+            checkDeadlock: false,
+            heap: '8g',
+            searchPaths: ['lib'],
+            options: '-coverage 1'
+        }, {
+            spec: 'specs/Spec.tla',
+            name: 'sim'
+        }), [{
+            name: 'big',
+            specPath: path.join(ROOT, 'specs', 'Spec.tla'),
+            cfgPath: path.join(ROOT, 'specs', 'Big.cfg'),
+            workers: 'auto',
+            simulate: false,
+            depth: undefined,
+            checkDeadlock: false,
+            heap: '8g',
+            searchPaths: [path.join(ROOT, 'lib')],
+            options: ['-coverage', '1']
+        }, {
+            name: 'sim',
+            specPath: path.join(ROOT, 'specs', 'Spec.tla'),
+            cfgPath: undefined,
+            workers: undefined,
+            simulate: false,
+            depth: undefined,
+            checkDeadlock: undefined,
+            heap: undefined,
+            searchPaths: [],
+            options: []
+        }]);
+    });
+
+    test('Rejects invalid profiles', () => {
+        assert.throws(() => parseModelProfiles('{', ROOT), /Invalid JSON/);
+        assert.throws(() => parseModelProfiles('[]', ROOT), /"models" list/);
+        assert.throws(() => parse({ spec: 'Spec.tla' }), /Model 1: "name" must be a non-empty string/);
+        assert.throws(() => parse({ spec: 'Spec.tla', name: 'a', workers: 0 }), /"workers" must be/);
+        assert.throws(() => parse({ spec: 'Spec.tla', name: 'a', heap: 'lots' }), /"heap" must be/);
+        assert.throws(
+            () => parse({ spec: 'Spec.tla', name: 'a' }, { spec: 'Spec.tla', name: 'a' }),
+            /Model 2: Spec.tla already has a model named a/);
+    });
+
+    test('Builds run options', () => {
+        const [profile] = parse({
+            spec: 'Spec.tla',
+            name: 'sim',
+            workers: 4,
+            simulate: true,
+            depth: 50,
+            checkDeadlock: false,
+            heap: '512m',
+            searchPaths: ['lib'],
+            options: '-seed 1'
+        });
+        assert.deepEqual(buildProfileRunOptions(profile), {
+            tlcOptions: ['-workers', '4', '-simulate', '-depth', '50', '-deadlock', '-seed', '1'],
+            javaOptions: ['-Xmx512m'],
+            libraryPaths: [path.join(ROOT, 'lib')]
+        });
+        assert.deepEqual(buildProfileRunOptions(undefined), {
+            tlcOptions: undefined,
+            javaOptions: [],
+            libraryPaths: []
+        });
+    });
+
+    test('Finds profile of model', () => {
+        const profiles = parse(
+            { spec: 'Spec.tla', name: 'small', cfg: 'Small.cfg' },
+            { spec: 'Spec.tla', name: 'big', cfg: 'Big.cfg' },
+            { spec: 'Spec.tla', name: 'any' }
+        );
+        const tla = path.join(ROOT, 'Spec.tla');
+        const find = (cfg: string, active: string | undefined) =>
+            findModelProfile(profiles, tla, path.join(ROOT, cfg), active)?.name;
+        assert.strictEqual(find('Big.cfg', 'big'), 'big');
+        assert.strictEqual(find('Big.cfg', 'small'), 'big');
+        assert.strictEqual(find('Big.cfg', 'any'), 'any');
+        assert.strictEqual(find('Other.cfg', 'small'), undefined);
+        assert.strictEqual(find('Small.cfg', undefined), 'small');
+        assert.strictEqual(findModelProfile(profiles, path.join(ROOT, 'Other.tla'), 'Small.cfg', 'small'), undefined);
+    });
+
+    test('Finds spec of model config named by profiles', () => {
+        const profiles = parse(
+            { spec: 'Spec.tla', name: 'any' },
+            { spec: 'specs/Queue.tla', name: 'small', cfg: 'specs/MC_Small.cfg' }
+        );
+        assert.strictEqual(
+            findProfileSpecPath(profiles, path.join(ROOT, 'specs', 'MC_Small.cfg')),
+            path.join(ROOT, 'specs', 'Queue.tla'));
+        assert.strictEqual(findProfileSpecPath(profiles, path.join(ROOT, 'Spec.cfg')), undefined);
+    });
+});
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { CheckState, CheckStatus } from '../../../src/model/check';
+import {
+    applySweepCombination, createSweepRunResult, formatSweepResults, getSweepCombinations, parseSweepParameters
+} from '../../../src/model/parameterSweep';
+import { CheckResultBuilder, message } from '../shortcuts';
+
+suite('Parameter Sweep Test Suite', () => {
+
+    test('Parses ranges and sets of values', () => {
+        assert.deepEqual(parseSweepParameters('N \\in 2..4; Values ∈ {{a, b}, {a,  b, c}}\nMsg = {"x", <<1, 2>>}'), [
+            { name: 'N', values: ['2', '3', '4'] },
+            { name: 'Values', values: ['{a, b}', '{a, b, c}'] },
+            { name: 'Msg', values: ['"x"', '<<1, 2>>'] }
+        ]);
+    });
+
+    test('Rejects invalid parameters', () => {
+        assert.throws(() => parseSweepParameters(' ; '), /No constants/);
+        assert.throws(() => parseSweepParameters('N 1..3'), /Expected "Constant \\in values"/);
+        assert.throws(() => parseSweepParameters('N \\in 3..1'), /range of N is empty/);
+        assert.throws(() => parseSweepParameters('N \\in Nat'), /must be a range like 1..3 or a set/);
+        assert.throws(() => parseSweepParameters('N \\in {}'), /set of N values is empty/);
+        assert.throws(() => parseSweepParameters('N \\in {1}; N \\in {2}'), /N is given more than once/);
+    });
+
+    test('Combines parameter values', () => {
+        const combinations = getSweepCombinations(parseSweepParameters('N \\in 1..2; M \\in {a, b}'));
+        assert.deepEqual(combinations.map((c) => c.map((v) => `${v.name}=${v.value}`).join(' ')), [
+            'N=1 M=a', 'N=1 M=b', 'N=2 M=a', 'N=2 M=b'
+        ]);
+    });
+
+    test('Sets constant values in model config', () => {
+        const cfg = 'CONSTANTS\n    N = 3\n    Nil = Nil\n\nINIT Init\nNEXT Next\n';
+        assert.strictEqual(
+            applySweepCombination(cfg, [{ name: 'N', value: '5' }, { name: 'Values', value: '{a, b}' }]),
+            'CONSTANTS\n    N = 5\n    Nil = Nil\n    Values = {a, b}\n\nINIT Init\nNEXT Next\n');
+    });
+
+    test('Formats results table', () => {
+        const params = parseSweepParameters('N \\in 1..3');
+        const [one, two, three] = getSweepCombinations(params);
+        const success = new CheckResultBuilder('t.out', CheckState.Success, CheckStatus.Finished)
+            .addInitState('00:00:01', 4, 42, 17, 0)
+            .setDuration(1500)
+            .build();
+        const failure = new CheckResultBuilder('t.out', CheckState.Error, CheckStatus.Finished)
+            .addError([message('Invariant TypeOK is violated.')])
+            .build();
+        assert.strictEqual(formatSweepResults('Sweep', params, [
+            createSweepRunResult(one, success, 2000),
+            createSweepRunResult(two, failure, 300),
+            createSweepRunResult(three, undefined, undefined)
+        ]), [
+            '# Sweep',
+            '',
+            '| N | Outcome | Distinct states | Diameter | Time |',
+            '|---|---|---:|---:|---:|',
+            '| 1 | Success | 17 | 4 | 1.5 s |',
+            '| 2 | TypeOK violated |  |  | 300 ms |',
+            '| 3 | Stopped |  |  |  |',
+            ''
+        ].join('\n'));
+    });
+});
@@ -0,0 +1,77 @@
+import * as assert from 'assert';
+import { findChanges, StructureValue } from '../../../src/model/check';
+import { buildSequenceDiagram, SequenceDiagramConfig, UNKNOWN_PROCESS } from '../../../src/model/sequenceDiagram';
+import { seq, set, struct, v } from '../shortcuts';
+
+const CONFIG: SequenceDiagramConfig = { processes: 'pc', messages: 'msgs', sender: 'src', receiver: 'dst' };
+
+function trace(...states: StructureValue[]): { variables: StructureValue }[] {
+    for (let i = 1; i < states.length; i++) {
+        findChanges(states[i - 1], states[i]);
+    }
+    return states.map((variables) => ({ variables }));
+}
+
+function msg(src: string, dst: string, type: string) {
+    return struct(0, v('dst', dst), v('src', src), v('type', type));
+}
+
+function pc(...procs: string[]) {
+    return struct('pc', ...procs.map((p) => v(p, '"idle"')));
+}
+
+suite('Sequence Diagram Test Suite', () => {
+
+    test('Shows messages sent and received through a set', () => {
+        const diagram = buildSequenceDiagram(trace(
+            struct('', set('msgs'), pc('p1', 'p2')),
+            struct('', set('msgs', msg('p1', 'p2', '"req"')), pc('p1', 'p2')),
+            struct('', set('msgs', msg('p2', 'p1', '"ack"')), pc('p1', 'p2'))
+        ), CONFIG);
+        assert.deepEqual(diagram.processes, ['p1', 'p2']);
+        assert.deepEqual(diagram.messages, [
+            { label: '[type |-> "req"]', value: '[dst |-> p2, src |-> p1, type |-> "req"]',
+                from: 'p1', to: 'p2', sentAt: 1, receivedAt: 2 },
+            { label: '[type |-> "ack"]', value: '[dst |-> p1, src |-> p2, type |-> "ack"]',
+                from: 'p2', to: 'p1', sentAt: 2 }
+        ]);
+    });
+
+    test('Treats messages of the initial state as sent in it', () => {
+        const diagram = buildSequenceDiagram(trace(
+            struct('', set('msgs', msg('p1', 'p2', '"req"')), pc('p1', 'p2'))
+        ), CONFIG);
+        assert.strictEqual(diagram.messages.length, 1);
+        assert.strictEqual(diagram.messages[0].sentAt, 0);
+    });
+
+    test('Uses channel owners as receivers', () => {
+        const config = { ...CONFIG, receiver: '' };
+        const chan = (...items: StructureValue[][]) =>
+            struct('msgs', ...items.map((msgs, idx) => seq(`p${idx + 1}`, ...msgs)));
+        const m = struct(1, v('src', 'p1'), v('val', '5'));
+        const diagram = buildSequenceDiagram(trace(
+            struct('', chan([], [])),
+            struct('', chan([], [m])),
+            struct('', chan([], []))
+        ), config);
+        assert.deepEqual(diagram.processes, ['p1', 'p2']);
+        assert.deepEqual(
+            diagram.messages.map((x) => [x.from, x.to, x.label, x.sentAt, x.receivedAt]),
+            [['p1', 'p2', '[val |-> 5]', 1, 2]]);
+    });
+
+    test('Puts unknown ends last', () => {
+        const diagram = buildSequenceDiagram(trace(
+            struct('', set('msgs'), pc('p1')),
+            struct('', set('msgs', v(0, '"ping"')), pc('p1'))
+        ), CONFIG);
+        assert.deepEqual(diagram.processes, ['p1', UNKNOWN_PROCESS]);
+        assert.deepEqual(diagram.messages[0].label, '"ping"');
+    });
+
+    test('Returns empty diagram when message variable is missing', () => {
+        const diagram = buildSequenceDiagram(trace(struct('', v('x', '1'))), CONFIG);
+        assert.deepEqual(diagram, { processes: [], messages: [] });
+    });
+});
@@ -0,0 +1,106 @@
+import * as assert from 'assert';
+import { CheckState, CheckStatus, CoverageItem } from '../../../src/model/check';
+import {
+    buildSimulationDashboardData, buildSimulationTlcOptions, formatSampledTraceModule, getActionFrequencies,
+    parseSampledTrace, renameTraceModule
+} from '../../../src/model/simulation';
+import { CheckResultBuilder, range } from '../shortcuts';
+
+const SAMPLED_TRACE = [
+    '---------------------- MODULE trace_12_3 ----------------------',
+    'EXTENDS Toolbox',
+    '',
+    '\\* <Initial predicate>',
+    'STATE_1 ==',
+    '/\\ x = 0',
+    '/\\ msgs = {}',
+    '',
+    '\\* <Send line 10, col 9 to line 12, col 30 of module Spec>',
+    'STATE_2 ==',
+    '/\\ x = 1',
+    '/\\ msgs = { [to |-> "a",',
+    '     val |-> 1] }',
+    '',
+    '=================================================================',
+    ''
+].join('\n');
+
+suite('Simulation Test Suite', () => {
+
+    test('Builds simulation options', () => {
+        assert.deepEqual(
+            buildSimulationTlcOptions(
+                { depth: 50, traces: 10, seed: -42 },
+                ['-simulate', 'num=5', '-workers', 'auto', '-depth', '100', '-seed', '7'],
+                '/tmp/traces/trace'),
+            ['-simulate', 'num=10,file=/tmp/traces/trace', '-workers', 'auto', '-depth', '50', '-seed', '-42']);
+        assert.deepEqual(
+            buildSimulationTlcOptions(
+                { depth: 100, traces: undefined, seed: undefined }, ['-coverage', '1'], undefined),
+            ['-simulate', '-coverage', '1', '-depth', '100']);
+    });
+
+    test('Parses sampled traces', () => {
+        assert.deepEqual(parseSampledTrace(SAMPLED_TRACE), [{
+            action: '<Initial predicate>',
+            variables: [{ name: 'x', value: '0' }, { name: 'msgs', value: '{}' }]
+        }, {
+            action: '<Send line 10, col 9 to line 12, col 30 of module Spec>',
+            variables: [{ name: 'x', value: '1' }, { name: 'msgs', value: '{ [to |-> "a", val |-> 1] }' }]
+        }]);
+    });
+
+    test('Formats sampled traces as modules', () => {
+        assert.strictEqual(formatSampledTraceModule(parseSampledTrace(SAMPLED_TRACE), 'Spec_trace', 'Sampled'), [
+            '---- MODULE Spec_trace ----',
+            '\\* Sampled',
+            'EXTENDS TLC',
+            '',
+            'Trace == <<',
+            '    [x |-> 0, msgs |-> {}],',
+            '    [x |-> 1, msgs |-> { [to |-> "a", val |-> 1] }]',
+            '>>',
+            '',
+            'TraceActions == <<',
+            '    "<Initial predicate>",',
+            '    "<Send line 10, col 9 to line 12, col 30 of module Spec>"',
+            '>>',
+            '',
+            '====',
+            ''
+        ].join('\n'));
+    });
+
+    test('Renames sampled trace modules', () => {
+        const renamed = renameTraceModule(SAMPLED_TRACE, 'Spec_trace').split('\n');
+        assert.strictEqual(renamed[0], '---------------------- MODULE Spec_trace ----------------------');
+        assert.deepEqual(renamed.slice(1), SAMPLED_TRACE.split('\n').slice(1));
+    });
+
+    test('Counts action frequencies', () => {
+        const actions = getActionFrequencies([
+            new CoverageItem('Spec', 'Init', '/spec.tla', range(1, 0, 1, 4), 10, 10),
+            new CoverageItem('Spec', 'Send', '/spec.tla', range(3, 0, 3, 4), 30, 20),
+            new CoverageItem('Spec', 'Drop', '/spec.tla', range(5, 0, 5, 4), 0, 0)
+        ]);
+        assert.deepEqual(actions, [
+            { module: 'Spec', action: 'Send', count: 30, share: 0.75 },
+            { module: 'Spec', action: 'Init', count: 10, share: 0.25 },
+            { module: 'Spec', action: 'Drop', count: 0, share: 0 }
+        ]);
+    });
+
+    test('Prefers statistics series for trace rate', () => {
+        const checkResult = new CheckResultBuilder('t.out', CheckState.Running, CheckStatus.SuccessorStatesComputing)
+            .addSimulationStat(5000, 100, 50, 3.5)
+            .build();
+        const fromProgress = buildSimulationDashboardData('Spec', checkResult, 20, true, undefined, [], [], false);
+        assert.strictEqual(fromProgress.tracesPerSecond, 5);
+        assert.strictEqual(fromProgress.meanTraceLength, 50);
+        assert.strictEqual(fromProgress.statesChecked, 5000);
+        const stats = [{ duration: 10, generated: 4000, distinct: 300, traces: 80 }];
+        const fromStats = buildSimulationDashboardData('Spec', checkResult, 20, true, 'stats.ndjson', stats, [], false);
+        assert.strictEqual(fromStats.tracesPerSecond, 8);
+        assert.strictEqual(fromStats.traces, 100);
+    });
+});
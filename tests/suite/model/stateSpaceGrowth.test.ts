@@ -0,0 +1,72 @@
+import * as assert from 'assert';
+import { InitialStateStatItem } from '../../../src/model/check';
+import {
+    estimateCompletion, getStateSpaceGrowth, parseElapsedTime, QueueTrend
+} from '../../../src/model/stateSpaceGrowth';
+
+suite('State Space Growth Test Suite', () => {
+
+    test('Parses statistics time stamps', () => {
+        assert.strictEqual(parseElapsedTime('00:00:00'), 0);
+        assert.strictEqual(parseElapsedTime('01:02:03'), 3723);
+        assert.strictEqual(parseElapsedTime('125:00:10'), 450010);
+        assert.strictEqual(parseElapsedTime('soon'), undefined);
+    });
+
+    test('Computes state generation rates', () => {
+        const points = getStateSpaceGrowth([
+            new InitialStateStatItem('00:00:00', 0, 10, 10, 10),
+            new InitialStateStatItem('00:01:00', 5, 610, 310, 200),
+            new InitialStateStatItem('00:01:30', 7, 910, 460, 250)
+        ]);
+        assert.deepEqual(points.map((p) => [p.elapsed, p.generatedPerMinute, p.distinctPerMinute]), [
+            [0, undefined, undefined],
+            [60, 600, 300],
+            [90, 600, 300]
+        ]);
+        assert.strictEqual(points[2].diameter, 7);
+        assert.strictEqual(points[2].queueSize, 250);
+    });
+
+    test('Continues the time series of resumed runs', () => {
+        const points = getStateSpaceGrowth([
+            new InitialStateStatItem('00:00:00', 0, 10, 10, 10),
+            new InitialStateStatItem('00:02:00', 5, 1210, 610, 200),
+            new InitialStateStatItem('00:00:00', 5, 1210, 610, 200),
+            new InitialStateStatItem('00:01:00', 7, 1810, 910, 250)
+        ]);
+        assert.deepEqual(points.map((p) => [p.elapsed, p.generatedPerMinute, p.distinctPerMinute]), [
+            [0, undefined, undefined],
+            [120, 600, 300],
+            [120, undefined, undefined],
+            [180, 600, 300]
+        ]);
+    });
+
+    test('Estimates remaining time from shrinking queue', () => {
+        const points = getStateSpaceGrowth([
+            new InitialStateStatItem('00:00:00', 0, 1, 1, 1),
+            new InitialStateStatItem('00:01:00', 3, 5000, 4000, 3000),
+            new InitialStateStatItem('00:02:00', 6, 9000, 7000, 2500),
+            new InitialStateStatItem('00:03:00', 8, 12000, 9000, 2000)
+        ]);
+        const estimate = estimateCompletion(points);
+        assert.strictEqual(estimate?.queueTrend, QueueTrend.Shrinking);
+        assert.strictEqual(estimate?.queueChangePerMinute, -500);
+        assert.strictEqual(estimate?.remainingTime, 240);
+    });
+
+    test('Gives no remaining time while queue grows', () => {
+        const growing = getStateSpaceGrowth([
+            new InitialStateStatItem('00:00:00', 0, 1, 1, 1),
+            new InitialStateStatItem('00:01:00', 3, 5000, 4000, 3000),
+            new InitialStateStatItem('00:02:00', 6, 9000, 7000, 4000)
+        ]);
+        assert.deepEqual(estimateCompletion(growing), {
+            queueTrend: QueueTrend.Growing,
+            queueChangePerMinute: 1999.5,
+            remainingTime: undefined
+        });
+        assert.strictEqual(estimateCompletion(growing.slice(0, 2)), undefined);
+    });
+});
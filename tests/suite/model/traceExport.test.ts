@@ -0,0 +1,83 @@
+import * as assert from 'assert';
+import { ErrorInfo } from '../../../src/model/check';
+import {
+    exportTraceCsv, exportTraceJson, exportTraceMarkdown, exportTraceModule
+} from '../../../src/model/traceExport';
+import { message, range, seq, set, struct, traceItem, v } from '../shortcuts';
+
+const ERROR = new ErrorInfo([message('Invariant Small is violated.')], [
+    traceItem(1, 'Initial predicate', '', '', undefined, range(0, 0, 0, 0),
+        struct('', v('msgs', '{}'), v('x', '0'))),
+    traceItem(2, 'Send in foo', 'foo', 'Send', '/foo.tla', range(3, 0, 3, 5),
+        struct('', set('msgs', v(0, '"a, b"')), v('x', '1'))),
+    traceItem(3, 'Back to state', '', '', undefined, range(0, 0, 0, 0), struct(''))
+]);
+
+suite('Error Trace Export Test Suite', () => {
+
+    test('Exports JSON with structured values', () => {
+        const doc = JSON.parse(exportTraceJson(ERROR));
+        assert.strictEqual(doc.violatedProperty, 'Small');
+        assert.deepEqual(doc.states[1], {
+            num: 2,
+            title: 'Send in foo',
+            module: 'foo',
+            action: 'Send',
+            location: { file: '/foo.tla', line: 4, column: 1 },
+            variables: { msgs: ['"a, b"'], x: '1' }
+        });
+    });
+
+    test('Exports Markdown table', () => {
+        assert.strictEqual(exportTraceMarkdown(ERROR), [
+            '| State | Action | msgs | x |',
+            '|---:|---|---|---|',
+            '| 1 | Initial predicate | `{}` | `0` |',
+            '| 2 | Send in foo | `{"a, b"}` | `1` |',
+            '| 3 | Back to state |  |  |',
+            ''
+        ].join('\n'));
+    });
+
+    test('Exports CSV table', () => {
+        assert.strictEqual(exportTraceCsv(ERROR), [
+            'State,Action,msgs,x',
+            '1,Initial predicate,{},0',
+            '2,Send in foo,"{""a, b""}",1',
+            '3,Back to state,,',
+            ''
+        ].join('\r\n'));
+    });
+
+    test('Exports TLA+ trace module', () => {
+        assert.strictEqual(exportTraceModule(ERROR, 'foo_Trace'), [
+            '---- MODULE foo_Trace ----',
+            '\\* Invariant Small is violated.',
+            'EXTENDS TLC',
+            '',
+            'Trace == <<',
+            '    \\* 1: Initial predicate',
+            '    [msgs |-> {}, x |-> 0],',
+            '    \\* 2: Send in foo',
+            '    [msgs |-> {"a, b"}, x |-> 1]',
+            '    \\* 3: Back to state',
+            '>>',
+            '',
+            'TraceActions == <<',
+            '    "Initial predicate",',
+            '    "Send in foo"',
+            '>>',
+            '',
+            '====',
+            ''
+        ].join('\n'));
+    });
+
+    test('Exports sequences as JSON arrays', () => {
+        const error = new ErrorInfo([], [
+            traceItem(1, 'Initial predicate', '', '', undefined, range(0, 0, 0, 0),
+                struct('', seq('q', v(1, '1'), v(2, '2'))))
+        ]);
+        assert.deepEqual(JSON.parse(exportTraceJson(error)).states[0].variables, { q: ['1', '2'] });
+    });
+});
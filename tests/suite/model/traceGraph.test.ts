@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { ErrorInfo } from '../../../src/model/check';
+import { buildDotStateGraph, buildTraceGraph } from '../../../src/model/traceGraph';
+import { parseDotGraph } from '../../../src/parsers/dot';
+import { range, struct, traceItem, v } from '../shortcuts';
+
+suite('Trace Graph Test Suite', () => {
+
+    test('Builds chain of states for safety trace', () => {
+        const graph = buildTraceGraph(new ErrorInfo([], [
+            traceItem(1, 'Initial predicate', '', '', undefined, range(0, 0, 0, 0), struct('', v('x', '0'))),
+            traceItem(2, 'Inc in foo', 'foo', 'Inc', '/foo.tla', range(3, 0, 3, 5), struct('', v('x', '1')))
+        ]), 1);
+        assert.strictEqual(graph.title, 'Counterexample 2');
+        assert.strictEqual(graph.errorIndex, 1);
+        assert.deepEqual(graph.nodes, [
+            { id: '0', label: '1', details: '1: Initial predicate\n/\\ x = 0', initial: true, stateIndex: 0 },
+            { id: '1', label: '2', details: '2: Inc in foo\n/\\ x = 1', initial: false, stateIndex: 1 }
+        ]);
+        assert.deepEqual(graph.edges, [{ from: '0', to: '1', label: 'Inc in foo' }]);
+    });
+
+    test('Closes lasso of liveness trace', () => {
+        const graph = buildTraceGraph(new ErrorInfo([], [
+            traceItem(1, 'Initial predicate', '', '', undefined, range(0, 0, 0, 0), struct('', v('x', '0'))),
+            traceItem(2, 'Inc in foo', 'foo', 'Inc', '/foo.tla', range(3, 0, 3, 5), struct('', v('x', '1'))),
+            traceItem(3, 'Inc in foo', 'foo', 'Inc', '/foo.tla', range(3, 0, 3, 5), struct('', v('x', '2'))),
+            traceItem(2, 'Dec in foo (Back to state)', 'foo', 'Dec', '/foo.tla', range(5, 0, 5, 5), struct(''))
+        ]), 0);
+        assert.strictEqual(graph.nodes.length, 3);
+        assert.deepEqual(graph.edges[2], { from: '2', to: '1', label: 'Dec' });
+    });
+
+    test('Adds loop for stuttering', () => {
+        const graph = buildTraceGraph(new ErrorInfo([], [
+            traceItem(1, 'Initial predicate', '', '', undefined, range(0, 0, 0, 0), struct('', v('x', '0'))),
+            traceItem(2, 'Stuttering', '', '', undefined, range(0, 0, 0, 0), struct(''))
+        ]), 0);
+        assert.strictEqual(graph.nodes.length, 1);
+        assert.deepEqual(graph.edges, [{ from: '0', to: '0', label: 'Stuttering' }]);
+    });
+
+    test('Builds state graph from DOT dump', () => {
+        const dot = parseDotGraph(`strict digraph DiskGraph {
+            1 [label="/\\\\ x = 0",style = filled]
+            1 -> 2 [label="Inc"];
+            2 [label="/\\\\ x = 1"];
+        }`);
+        const graph = buildDotStateGraph(dot, 'Spec.dot');
+        assert.strictEqual(graph.errorIndex, undefined);
+        assert.deepEqual(graph.nodes, [
+            { id: '1', label: '1', details: '/\\ x = 0', initial: true },
+            { id: '2', label: '2', details: '/\\ x = 1', initial: false }
+        ]);
+        assert.deepEqual(graph.edges, [{ from: '1', to: '2', label: 'Inc' }]);
+    });
+});
@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { parseCfgConstants, parseCfgProperties, parseCfgSections } from '../../../src/parsers/cfg';
+
+suite('Model Config Parser Test Suite', () => {
+
+    test('Splits config into sections', () => {
+        const sections = parseCfgSections([
+            'SPECIFICATION Spec',
+            'CONSTANTS N = 3',
+            '    Procs = {p1, p2}',
+            'ACTION_CONSTRAINT Bound'
+        ].join('\n'));
+        assert.deepEqual(sections.map((s) => s.keyword), ['SPECIFICATION', 'CONSTANTS', 'ACTION_CONSTRAINT']);
+        assert.deepEqual(sections[1].names.map((n) => n.name), ['N', 'Procs', 'p1', 'p2']);
+        assert.deepEqual(sections[1].range, new vscode.Range(1, 0, 1, 9));
+        assert.deepEqual(sections[1].names[1].range, new vscode.Range(2, 4, 2, 9));
+    });
+
+    test('Finds invariants and properties', () => {
+        const properties = parseCfgProperties([
+            'INVARIANTS TypeOK',
+            '    Safety',
+            'PROPERTY Liveness',
+            'INVARIANT Small'
+        ].join('\n'));
+        assert.deepEqual(properties.map((p) => p.name), ['TypeOK', 'Safety', 'Liveness', 'Small']);
+        assert.deepEqual(properties[2].range, new vscode.Range(2, 9, 2, 17));
+    });
+
+    test('Ignores comments', () => {
+        const properties = parseCfgProperties([
+            'INVARIANT TypeOK \\* INVARIANT Commented',
+            '(* PROPERTY (* nested *) Skipped *)',
+            'PROPERTY Liveness'
+        ].join('\n'));
+        assert.deepEqual(properties.map((p) => p.name), ['TypeOK', 'Liveness']);
+    });
+
+    test('Finds assigned and replaced constants', () => {
+        const section = parseCfgSections([
+            'CONSTANTS N = 3',
+            '    Procs = {p1, p2}',
+            '    Op <- MyOp',
+            '    Other <- [Mod] OtherOp',
+            '    Init = <<a, b>>'
+        ].join('\n'))[0];
+        const constants = parseCfgConstants(section);
+        assert.deepEqual(
+            constants.map((c) => [c.name.name, c.operator, c.value?.name]),
+            [['N', '=', undefined], ['Procs', '=', undefined], ['Op', '<-', 'MyOp'],
+                ['Other', '<-', undefined], ['Init', '=', undefined]]);
+        assert.deepEqual(constants[2].value?.range, new vscode.Range(2, 10, 2, 14));
+        assert.deepEqual(constants.map((c) => c.valueText), ['3', '{p1, p2}', 'MyOp', '[Mod] OtherOp', '<<a, b>>']);
+    });
+});
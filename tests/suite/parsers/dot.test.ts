@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { parseDotGraph } from '../../../src/parsers/dot';
+
+const TLC_DUMP = `strict digraph DiskGraph {
+nodesep=0.35
+subgraph cluster_graph {
+color="white"
+-3425716447186154521 [label="/\\\\ x = 0\\n/\\\\ msg = \\"a\\"",style = filled]
+-3425716447186154521 -> 5124537386476416811 [label="Inc",color="2",fontcolor="2"];
+5124537386476416811 [label="/\\\\ x = 1\\n/\\\\ msg = \\"a\\""];
+5124537386476416811 -> -3425716447186154521 [label="Reset",color="3",fontcolor="3"];
+5124537386476416811 -> 5124537386476416811 [label="Stay",color="4",fontcolor="4"];
+}
+subgraph cluster_legend {graph[style=bold];label = "Next State Actions" style=solid
+node [ fontsize = 12 shape = record color = "white"]
+{rank=sink; "Inc" [label=<<table border="0"><tr><td>Inc</td></tr></table>>]}
+}
+}`;
+
+suite('DOT Parser Test Suite', () => {
+
+    test('Parses states dumped by TLC', () => {
+        const graph = parseDotGraph(TLC_DUMP);
+        assert.deepEqual(graph.nodes.map((n) => n.id), ['-3425716447186154521', '5124537386476416811']);
+        assert.strictEqual(graph.nodes[0].attrs.get('label'), '/\\ x = 0\n/\\ msg = "a"');
+        assert.strictEqual(graph.nodes[0].attrs.get('style'), 'filled');
+        assert.strictEqual(graph.nodes[1].attrs.get('style'), undefined);
+    });
+
+    test('Parses transitions dumped by TLC', () => {
+        const graph = parseDotGraph(TLC_DUMP);
+        assert.deepEqual(
+            graph.edges.map((e) => [e.from, e.to, e.attrs.get('label')]),
+            [
+                ['-3425716447186154521', '5124537386476416811', 'Inc'],
+                ['5124537386476416811', '-3425716447186154521', 'Reset'],
+                ['5124537386476416811', '5124537386476416811', 'Stay']
+            ]);
+    });
+
+    test('Parses quoted identifiers and skips default attributes', () => {
+        const graph = parseDotGraph(`digraph G {
+            // comment
+            node [shape=circle];
+            "a b" -> c [label="Next"]
+            c [label=<<b>C</b>>]
+        }`);
+        assert.deepEqual(graph.nodes.map((n) => n.id), ['a b', 'c']);
+        assert.strictEqual(graph.nodes[1].attrs.get('label'), '<b>C</b>');
+        assert.strictEqual(graph.edges.length, 1);
+    });
+
+    test('Returns empty graph for empty input', () => {
+        assert.deepEqual(parseDotGraph(''), { nodes: [], edges: [] });
+    });
+});
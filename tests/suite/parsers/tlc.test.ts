@@ -1,16 +1,33 @@
 import * as assert from 'assert';
 import * as path from 'path';
 import * as fs from 'fs';
-import { DiagnosticSeverity } from 'vscode';
+import { DiagnosticSeverity, Range } from 'vscode';
 import { before } from 'mocha';
 import { PassThrough } from 'stream';
 import { ModelCheckResult, CheckState, CheckStatus, ModelCheckResultSource, Value,
-    SpecFiles } from '../../../src/model/check';
+    SpecFiles, WorkerState, SubexpressionCoverageItem } from '../../../src/model/check';
 import { TlcModelCheckerStdoutParser } from '../../../src/parsers/tlc';
-import { CheckResultBuilder, pos, range, struct, v, set, message, sourceLink, traceItem } from '../shortcuts';
+import { CheckResultBuilder, pos, range, struct, v, set, message, sourceLink, traceItem, subexpr } from '../shortcuts';
 
 const TEST_SPEC_FILES = new SpecFiles('/Users/alice/TLA/foo.tla', '/Users/alice/TLA/foo.cfg');
 const FIXTURES_PATH = path.resolve(__dirname, '../../../../tests/fixtures/parsers/tlc');
+const EXAMPLE_TLA_PATH = '/Users/bob/example.tla';
+const EXAMPLE_INIT_COVERAGE = [
+    subexpr('example', EXAMPLE_TLA_PATH, range(13, 8, 13, 23), 1)
+];
+const EXAMPLE_LBL_1_COVERAGE = [
+    subexpr('example', EXAMPLE_TLA_PATH, range(15, 12, 15, 24), 3, [
+        subexpr('example', EXAMPLE_TLA_PATH, range(15, 12, 15, 14), 2)
+    ]),
+    subexpr('example', EXAMPLE_TLA_PATH, range(16, 12, 16, 16), 1),
+    subexpr('example', EXAMPLE_TLA_PATH, range(17, 12, 17, 24), 1)
+];
+const EXAMPLE_TERMINATING_COVERAGE = [
+    subexpr('example', EXAMPLE_TLA_PATH, range(20, 15, 20, 26), 3, [
+        subexpr('example', EXAMPLE_TLA_PATH, range(20, 15, 20, 17), 2)
+    ]),
+    subexpr('example', EXAMPLE_TLA_PATH, range(20, 30, 20, 44), 1)
+];
 
 suite('TLC Output Parser Test Suite', () => {
     before(() => {
@@ -34,9 +51,12 @@ suite('TLC Output Parser Test Suite', () => {
                         + ' (Mac OS X 10.14.5 x86_64, Amazon.com Inc. 11.0.3 x86_64, MSBDiskFPSet, DiskStateQueue).')
                 .addInitState('00:00:00', 0, 1, 1, 1)
                 .addInitState('00:00:01', 2, 3, 2, 0)
-                .addCoverage('example', 'Init', '/Users/bob/example.tla', range(13, 0, 13, 4), 1, 1)
-                .addCoverage('example', 'Lbl_1', '/Users/bob/example.tla', range(15, 0, 15, 5), 1, 1)
-                .addCoverage('example', 'Terminating', '/Users/bob/example.tla', range(20, 0, 20, 11), 1, 0)
+                .addCoverage('example', 'Init', '/Users/bob/example.tla', range(13, 0, 13, 4), 1, 1,
+                    EXAMPLE_INIT_COVERAGE)
+                .addCoverage('example', 'Lbl_1', '/Users/bob/example.tla', range(15, 0, 15, 5), 1, 1,
+                    EXAMPLE_LBL_1_COVERAGE)
+                .addCoverage('example', 'Terminating', '/Users/bob/example.tla', range(20, 0, 20, 11), 1, 0,
+                    EXAMPLE_TERMINATING_COVERAGE)
                 .build()
         );
     });
@@ -68,6 +88,41 @@ suite('TLC Output Parser Test Suite', () => {
         );
     });
 
+    test('Tracks workers of distributed runs', () => {
+        return assertOutput('distributed.out', TEST_SPEC_FILES,
+            new CheckResultBuilder('foo', CheckState.Error, CheckStatus.Finished)
+                .setStartDateTime('2019-01-01 01:02:03')
+                .setEndDateTime('2019-01-01 01:02:05')
+                .setDuration(2345)
+                .setWorkersCount(1)
+                .addInitState('00:00:00', 0, 5184, 5184, 5184)
+                .addError([message('TLC worker connection lost rmi://192.168.1.3:40122')])
+                .addWorker('192.168.1.2:40121', WorkerState.Disconnected, 1200, 1150, '0.25')
+                .addWorker('192.168.1.3:40122', WorkerState.Lost)
+                .build()
+        );
+    });
+
+    test('Tracks completed checkpoints', () => {
+        return assertOutput('checkpoint.out', TEST_SPEC_FILES,
+            new CheckResultBuilder('foo', CheckState.Stopped, CheckStatus.Checkpointing)
+                .setStartDateTime('2019-01-01 01:02:03')
+                .addInitState('00:00:00', 0, 5184, 5184, 5184)
+                .setCheckpoint('states/19-01-01-01-02-03', '2019-01-01 01:32:03')
+                .build()
+        );
+    });
+
+    test('Parses simulation progress', () => {
+        return assertOutput('simulation-progress.out', TEST_SPEC_FILES,
+            new CheckResultBuilder('foo', CheckState.Stopped, CheckStatus.SuccessorStatesComputing)
+                .setStartDateTime('2019-01-01 01:02:03')
+                .addSimulationStat(1523, 18, 84, 12.5)
+                .addSimulationStat(3089012, 36214, 85, 11.8)
+                .build()
+        );
+    });
+
     test('Respects severity levels', () => {
         return assertOutput('severity-levels.out', TEST_SPEC_FILES,
             new CheckResultBuilder('foo', CheckState.Error, CheckStatus.Finished)
@@ -121,7 +176,8 @@ suite('TLC Output Parser Test Suite', () => {
                         + ' (Mac OS X 10.14.5 x86_64, Amazon.com Inc. 11.0.3 x86_64, MSBDiskFPSet, DiskStateQueue).')
                 .addInitState('00:00:00', 0, 1, 1, 1)
                 .addInitState('00:00:01', 2, 3, 2, 0)
-                .addCoverage('example', 'Init', '/Users/bob/example.tla', range(13, 0, 13, 4), 1, 1)
+                .addCoverage('example', 'Init', '/Users/bob/example.tla', range(13, 0, 13, 4), 1, 1,
+                    EXAMPLE_INIT_COVERAGE)
                 .build()
         );
     });
@@ -143,7 +199,8 @@ suite('TLC Output Parser Test Suite', () => {
                         + ' (Mac OS X 10.14.5 x86_64, Amazon.com Inc. 11.0.3 x86_64, MSBDiskFPSet, DiskStateQueue).')
                 .addInitState('00:00:00', 0, 1, 1, 1)
                 .addInitState('00:00:01', 2, 3, 2, 0)
-                .addCoverage('example', 'Init', '/Users/bob/example.tla', range(13, 0, 13, 4), 1, 1)
+                .addCoverage('example', 'Init', '/Users/bob/example.tla', range(13, 0, 13, 4), 1, 1,
+                    EXAMPLE_INIT_COVERAGE)
                 .build()
         );
     });
@@ -163,7 +220,8 @@ suite('TLC Output Parser Test Suite', () => {
                         + ' (Mac OS X 10.14.5 x86_64, Amazon.com Inc. 11.0.3 x86_64, MSBDiskFPSet, DiskStateQueue).')
                 .addInitState('00:00:00', 0, 1, 1, 1)
                 .addInitState('00:00:01', 2, 3, 2, 0)
-                .addCoverage('example', 'Init', '/Users/bob/example.tla', range(13, 0, 13, 4), 1, 1)
+                .addCoverage('example', 'Init', '/Users/bob/example.tla', range(13, 0, 13, 4), 1, 1,
+                    EXAMPLE_INIT_COVERAGE)
                 .addError(
                     [message('Invariant FooInvariant is violated.')],
                     [
@@ -228,8 +286,26 @@ suite('TLC Output Parser Test Suite', () => {
                 .setDuration(1041)
                 .addInitState('00:00:00', 0, 1, 1, 1)
                 .addInitState('00:00:01', 3, 4, 4, 1)
-                .addCoverage('error_trace', 'Init', '/Users/bob/error_trace.tla', range(7, 0, 7, 4), 2, 2)
-                .addCoverage('error_trace', 'SomeFunc', '/Users/bob/error_trace.tla', range(11, 0, 11, 11), 5, 3)
+                .addCoverage('error_trace', 'Init', '/Users/bob/error_trace.tla', range(7, 0, 7, 4), 2, 2, [
+                    subexpr('error_trace', '/Users/bob/error_trace.tla', range(8, 8, 9, 24), 2)
+                ])
+                .addCoverage('error_trace', 'SomeFunc', '/Users/bob/error_trace.tla', range(11, 0, 11, 11), 5, 3, [
+                    errorTraceSubexpr(range(12, 11, 13, 77), 5, [
+                        errorTraceSubexpr(range(13, 14, 13, 77), 5, [
+                            errorTraceSubexpr(range(13, 14, 13, 22), 5),
+                            errorTraceSubexpr(range(13, 34, 13, 77), 5, [
+                                errorTraceSubexpr(range(13, 40, 13, 77), 5, [
+                                    errorTraceSubexpr(range(13, 42, 13, 52), 3),
+                                    errorTraceSubexpr(range(13, 61, 13, 75), 5)
+                                ])
+                            ])
+                        ])
+                    ]),
+                    errorTraceSubexpr(range(14, 11, 14, 24), 5)
+                ])
+                .addPropertyCoverage('error_trace', 'FooInvariant', '/Users/bob/error_trace.tla', range(18, 0, 18, 7), [
+                    errorTraceSubexpr(range(18, 11, 18, 25), 4)
+                ])
                 .addError(
                     [message('Invariant FooInvariant is violated.')],
                     [
@@ -478,9 +554,12 @@ suite('TLC Output Parser Test Suite', () => {
                 .addInitState('00:00:00', 0, 1, 1, 1)
                 // .addInitState('00:00:01', 2, 3, 2, 0) <-- This one must be substituted for the following
                 .addInitState('00:00:01', 2, 13, 12, 0)
-                .addCoverage('example', 'Init', '/Users/bob/example.tla', range(13, 0, 13, 4), 1, 1)
-                .addCoverage('example', 'Lbl_1', '/Users/bob/example.tla', range(15, 0, 15, 5), 1, 1)
-                .addCoverage('example', 'Terminating', '/Users/bob/example.tla', range(20, 0, 20, 11), 1, 0)
+                .addCoverage('example', 'Init', '/Users/bob/example.tla', range(13, 0, 13, 4), 1, 1,
+                    EXAMPLE_INIT_COVERAGE)
+                .addCoverage('example', 'Lbl_1', '/Users/bob/example.tla', range(15, 0, 15, 5), 1, 1,
+                    EXAMPLE_LBL_1_COVERAGE)
+                .addCoverage('example', 'Terminating', '/Users/bob/example.tla', range(20, 0, 20, 11), 1, 0,
+                    EXAMPLE_TERMINATING_COVERAGE)
                 .build()
         );
     });
@@ -495,8 +574,34 @@ suite('TLC Output Parser Test Suite', () => {
                 .setDuration(1166)
                 .setProcessInfo('Running breadth-first search Model-Checking with fp 22 and seed -5755320172003082571.')
                 .addInitState('00:00:00', 2, 7, 3, 0)
-                .addCoverage('issue_209', 'Init', '/Users/alice/issue_209.tla', range(4, 0, 4, 4), 1, 1)
-                .addCoverage('issue_209', 'Next', '/Users/alice/issue_209.tla', range(5, 0, 5, 4), 6, 2)
+                .addCoverage('issue_209', 'Init', '/Users/alice/issue_209.tla', range(4, 0, 4, 4), 1, 1, [
+                    subexpr('issue_209', '/Users/alice/issue_209.tla', range(4, 8, 4, 14), 1)
+                ])
+                .addCoverage('issue_209', 'Next', '/Users/alice/issue_209.tla', range(5, 0, 5, 4), 6, 2, [
+                    subexpr('issue_209', '/Users/alice/issue_209.tla', range(5, 29, 5, 35), 6)
+                ])
+                .build()
+        );
+    });
+
+    test('Parses subexpression coverage and cost', () => {
+        return assertOutput('coverage-cost.out', TEST_SPEC_FILES,
+            new CheckResultBuilder('coverage-cost.out', CheckState.Stopped, CheckStatus.Starting)
+                .setStartDateTime('2019-01-01 01:02:03')
+                .addCoverage('foo', 'Init', undefined, range(4, 0, 4, 4), 1, 1, [
+                    subexpr('foo', undefined, range(4, 8, 4, 14), 1, [], 3)
+                ])
+                .addCoverage('foo', 'Inc', undefined, range(6, 0, 6, 3), 12, 4, [
+                    subexpr('foo', undefined, range(6, 10, 6, 16), 12, [
+                        subexpr('foo', undefined, range(6, 10, 6, 11), 12, [], 12)
+                    ], 40)
+                ])
+                .addCoverage('foo', 'Reset', undefined, range(8, 0, 8, 5), 0, 0, [
+                    subexpr('foo', undefined, range(8, 12, 8, 19), 12)
+                ])
+                .addPropertyCoverage('foo', 'TypeOK', undefined, range(10, 0, 10, 6), [
+                    subexpr('foo', undefined, range(10, 10, 10, 21), 5)
+                ])
                 .build()
         );
     });
@@ -518,6 +623,10 @@ suite('TLC Output Parser Test Suite', () => {
     });
 });
 
+function errorTraceSubexpr(r: Range, count: number, children: SubexpressionCoverageItem[] = []) {
+    return subexpr('error_trace', '/Users/bob/error_trace.tla', r, count, children);
+}
+
 class CheckResultHolder {
     checkResult: ModelCheckResult = ModelCheckResult.createEmpty(ModelCheckResultSource.OutFile);
 }
@@ -530,9 +639,18 @@ function assertEquals(actual: ModelCheckResult, expected: ModelCheckResult) {
     assert.equal(actual.endDateTimeStr, expected.endDateTimeStr, "End date/time doesn't match");
     assert.equal(actual.duration, expected.duration, "Duration doesn't match");
     assert.equal(actual.traceFilePath, expected.traceFilePath, "Trace file path doesn't match");
+    assert.equal(actual.workersCount, expected.workersCount, "Workers count doesn't match");
+    assert.deepEqual(actual.workers, expected.workers, "Workers don't match");
+    assert.deepEqual(actual.checkpoint, expected.checkpoint, "Checkpoint doesn't match");
+    assert.deepEqual(actual.simulationStat, expected.simulationStat, "Simulation statistics doesn't match");
     assert.deepEqual(actual.outputLines, expected.outputLines, "Output lines don't match");
     assert.deepEqual(actual.initialStatesStat, expected.initialStatesStat, "Initial states statistics doesn't match");
     assert.deepEqual(actual.coverageStat, expected.coverageStat, "Coverage statistics doesn't match");
+    assert.deepEqual(
+        actual.propertyCoverageStat,
+        expected.propertyCoverageStat,
+        "Property coverage statistics doesn't match"
+    );
     assert.deepEqual(actual.sanyMessages, expected.sanyMessages, "SANY messages don't match");
     assert.deepEqual(actual.warnings, expected.warnings, "Warnings don't match");
     assert.deepEqual(actual.errors, expected.errors, "Erros don't match");
@@ -0,0 +1,210 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { LANG_TLAPLUS } from '../../../src/common';
+import { range } from '../shortcuts';
+import { parseDocInfo, replaceDocContents } from '../document';
+import { TlaDocumentInfos } from '../../../src/model/documentInfo';
+import { TlaDocumentSymbolsProvider } from '../../../src/symbols/tlaSymbols';
+import {
+    findLocalScopes, maskNonCode, TlaReferenceProvider, TlaRenameProvider
+} from '../../../src/references/tlaReferences';
+
+suite('TLA References Provider Test Suite', () => {
+    let doc: vscode.TextDocument;
+
+    suiteSetup(async () => {
+        doc = await vscode.workspace.openTextDocument({ language: LANG_TLAPLUS });
+    });
+
+    test('Finds all usages of a definition', () => {
+        return assertReferences(doc, [
+            '---- MODULE foo ----',
+            'Foo == TRUE',
+            'Bar == Foo /\\ ~Foo',
+            'Baz == ${F}oo',
+            '===='
+        ], true, [
+            range(1, 0, 1, 3),
+            range(2, 7, 2, 10),
+            range(2, 15, 2, 18),
+            range(3, 7, 3, 10)
+        ]);
+    });
+
+    test('Excludes declaration when asked', () => {
+        return assertReferences(doc, [
+            '---- MODULE foo ----',
+            'VARIABLES bar',
+            "Next == b${a}r' = bar + 1",
+            '===='
+        ], false, [
+            range(2, 8, 2, 11),
+            range(2, 15, 2, 18)
+        ]);
+    });
+
+    test('Ignores comments, strings and record fields', () => {
+        return assertReferences(doc, [
+            '---- MODULE foo ----',
+            'VARIABLES x',
+            '\\* x is not referenced here',
+            '(* neither x is here *)',
+            'Init == x = [x |-> "x"]',
+            'Next == x\' = [x EXCEPT !.x = x.x]',
+            'Inv == ${x} \\in [x : Nat]',
+            '===='
+        ], true, [
+            range(1, 10, 1, 11),
+            range(4, 8, 4, 9),
+            range(5, 8, 5, 9),
+            range(5, 14, 5, 15),
+            range(5, 29, 5, 30),
+            range(6, 7, 6, 8)
+        ]);
+    });
+
+    test('Finds PlusCal labels with their translation', () => {
+        return assertReferences(doc, [
+            '---- MODULE foo ----',
+            '(*--algorithm foo',
+            'begin',
+            '  Lbl: skip;',
+            '  goto ${L}bl;',
+            'end algorithm; *)',
+            '\\* BEGIN TRANSLATION',
+            'Lbl == pc = "Lbl"',
+            '===='
+        ], true, [
+            range(3, 2, 3, 5),
+            range(4, 7, 4, 10),
+            range(7, 0, 7, 3),
+            range(7, 13, 7, 16)
+        ]);
+    });
+
+    test('Skips names bound by parameters and quantifiers', () => {
+        return assertReferences(doc, [
+            '---- MODULE foo ----',
+            'Inc(x) == x + 1',
+            'Pos == {x \\in Nat : x > 0}',
+            'VARIABLE x',
+            "Next == x' = Inc(${x})",
+            '===='
+        ], true, [
+            range(3, 9, 3, 10),
+            range(4, 8, 4, 9),
+            range(4, 17, 4, 18)
+        ]);
+    });
+
+    test('Finds units that bind a name locally', () => {
+        const text = [
+            'A == \\A x, y \\in S : x = y',
+            'B == \\E z \\in x : z',
+            'C == LET x == 1 IN x',
+            'D == [i \\in S |-> x]',
+            'E == {x + 1 : x \\in S}',
+            'F == {s \\in S : x \\in s}',
+            'G == CHOOSE <<a, x>> \\in S \\X S : a',
+            'H(f(_), x) == f(x)',
+            'x == 1'
+        ].join('\n');
+        const units = text.split('\n');
+        const bound = findLocalScopes(text, 'x').map((scope) => text.substring(scope.start, scope.end).trim());
+        assert.deepEqual(bound, [units[0], units[2], units[4], units[6], units[7]]);
+    });
+
+    test('Doesn\'t treat PlusCal define blocks as local definitions', () => {
+        const pSyntax = [
+            '(* --algorithm Counter',
+            'variables x = 0;',
+            'define',
+            '    Small == x < 3',
+            'end define;',
+            'begin',
+            '    Inc: await Small; x := x + 1;',
+            'end algorithm; *)'
+        ].join('\n');
+        assert.deepEqual(findLocalScopes(maskNonCode(pSyntax), 'Small'), []);
+        const cSyntax = [
+            '(* --algorithm Counter {',
+            '    variables x = 0;',
+            '    define { Small == x < 3 }',
+            '    { await Small; x := x + 1 }',
+            '} *)'
+        ].join('\n');
+        assert.deepEqual(findLocalScopes(maskNonCode(cSyntax), 'Small'), []);
+        const letInDefine = [
+            '(* --algorithm Counter',
+            'define',
+            '    Small == LET y == 3 IN x < y',
+            'end define;',
+            'end algorithm; *)'
+        ].join('\n');
+        assert.strictEqual(findLocalScopes(maskNonCode(letInDefine), 'y').length, 1);
+    });
+
+    test('Renames symbol', async () => {
+        const testDocInfo = parseDocInfo([
+            '---- MODULE foo ----',
+            'CONSTANT N',
+            'Init == ${N} > 0',
+            '===='
+        ]);
+        await replaceDocContents(doc, testDocInfo.lines.join('\n'));
+        const docInfos = await collectSymbols(doc);
+        const renameProvider = new TlaRenameProvider(docInfos);
+        const tokenSrc = new vscode.CancellationTokenSource();
+        const edit = await renameProvider.provideRenameEdits(doc, testDocInfo.position, 'Size', tokenSrc.token);
+        assert.ok(edit);
+        const edits = edit.get(doc.uri);
+        assert.deepEqual(edits.map((e) => e.range), [range(1, 9, 1, 10), range(2, 8, 2, 9)]);
+        assert.ok(edits.every((e) => e.newText === 'Size'));
+    });
+
+    test('Refuses to rename to a keyword', async () => {
+        const testDocInfo = parseDocInfo([
+            '---- MODULE foo ----',
+            'CONSTANT N',
+            'Init == ${N} > 0',
+            '===='
+        ]);
+        await replaceDocContents(doc, testDocInfo.lines.join('\n'));
+        const docInfos = await collectSymbols(doc);
+        const renameProvider = new TlaRenameProvider(docInfos);
+        const tokenSrc = new vscode.CancellationTokenSource();
+        await assert.rejects(renameProvider.provideRenameEdits(doc, testDocInfo.position, 'EXCEPT', tokenSrc.token));
+    });
+
+    test('Keeps PlusCal algorithm when masking comments', () => {
+        const masked = maskNonCode('(* c *) (*--algorithm a\nvariable x (* c *)\nend algorithm *)');
+        assert.strictEqual(
+            masked,
+            ' '.repeat(10) + '--algorithm a\nvariable x' + ' '.repeat(8) + '\nend algorithm' + ' '.repeat(3));
+    });
+});
+
+async function collectSymbols(doc: vscode.TextDocument): Promise<TlaDocumentInfos> {
+    const docInfos = new TlaDocumentInfos();
+    const symbolsProvider = new TlaDocumentSymbolsProvider(docInfos);
+    const tokenSrc = new vscode.CancellationTokenSource();
+    await symbolsProvider.provideDocumentSymbols(doc, tokenSrc.token);
+    return docInfos;
+}
+
+async function assertReferences(
+    doc: vscode.TextDocument,
+    docLines: string[],
+    includeDeclaration: boolean,
+    expectRanges: vscode.Range[]
+): Promise<void> {
+    const testDocInfo = parseDocInfo(docLines);
+    await replaceDocContents(doc, testDocInfo.lines.join('\n'));
+    const docInfos = await collectSymbols(doc);
+    const refProvider = new TlaReferenceProvider(docInfos);
+    const tokenSrc = new vscode.CancellationTokenSource();
+    const locations = await refProvider.provideReferences(
+        doc, testDocInfo.position, { includeDeclaration }, tokenSrc.token);
+    assert.ok(locations);
+    assert.deepEqual(locations.map((loc) => loc.range), expectRanges);
+}
@@ -4,7 +4,8 @@ import { Moment } from 'moment';
 import { Value, ValueKey, SetValue, SequenceValue, StructureValue,
     InitialStateStatItem, CoverageItem, ModelCheckResult, CheckState, CheckStatus, MessageLine, MessageSpan,
     ErrorTraceItem, OutputLine, ModelCheckResultSource, ErrorInfo,
-    WarningInfo } from '../../src/model/check';
+    WarningInfo, DistributedWorker, WorkerState, CheckpointInfo, SimulationStatItem,
+    SubexpressionCoverageItem, PropertyCoverageItem } from '../../src/model/check';
 import { DCollection } from '../../src/diagnostic';
 import { ROOT_CONTAINER_NAME } from '../../src/symbols/tlaSymbols';
 
@@ -102,6 +103,17 @@ export function traceItem(
     return new ErrorTraceItem(num, title, module, action, filePath, range, variables);
 }
 
+export function subexpr(
+    module: string,
+    filePath: string | undefined,
+    range: vscode.Range,
+    count: number,
+    children: SubexpressionCoverageItem[] = [],
+    cost?: number
+): SubexpressionCoverageItem {
+    return new SubexpressionCoverageItem(module, filePath, range, count, cost, children);
+}
+
 export class CheckResultBuilder {
     private processInfo: string | undefined;
     private initialStatesStat: InitialStateStatItem[] = [];
@@ -116,6 +128,10 @@ export class CheckResultBuilder {
     private collisionProbability: string | undefined;
     private outputLines: OutputLine[] = [];
     private traceFilePath: string | undefined;
+    private workers: DistributedWorker[] = [];
+    private checkpoint: CheckpointInfo | undefined;
+    private simulationStat: SimulationStatItem[] = [];
+    private propertyCoverageStat: PropertyCoverageItem[] = [];
 
     constructor(
         readonly outFilePath: string,
@@ -142,7 +158,11 @@ export class CheckResultBuilder {
             this.workersCount,
             this.collisionProbability,
             this.outputLines,
-            this.traceFilePath
+            this.traceFilePath,
+            this.workers,
+            this.checkpoint,
+            this.simulationStat,
+            this.propertyCoverageStat
         );
     }
 
@@ -171,6 +191,25 @@ export class CheckResultBuilder {
         return this;
     }
 
+    addWorker(
+        address: string, state: WorkerState, statesSent?: number, statesReceived?: number, cacheRatio?: string
+    ): CheckResultBuilder {
+        this.workers.push(new DistributedWorker(address, state, statesSent, statesReceived, cacheRatio));
+        return this;
+    }
+
+    setCheckpoint(metaDir: string, dateTime: string): CheckResultBuilder {
+        this.checkpoint = new CheckpointInfo(metaDir, dateTime);
+        return this;
+    }
+
+    addSimulationStat(
+        statesChecked: number, traces: number, meanTraceLength: number, traceLengthSd: number
+    ): CheckResultBuilder {
+        this.simulationStat.push(new SimulationStatItem(statesChecked, traces, meanTraceLength, traceLengthSd));
+        return this;
+    }
+
     setTraceFilePath(path: string): CheckResultBuilder {
         this.traceFilePath = path;
         return this;
@@ -189,9 +228,21 @@ export class CheckResultBuilder {
         filePath: string | undefined,
         range: vscode.Range,
         total: number,
-        distinct: number
+        distinct: number,
+        subexpressions: SubexpressionCoverageItem[] = []
+    ): CheckResultBuilder {
+        this.coverageStat.push(new CoverageItem(module, action, filePath, range, total, distinct, subexpressions));
+        return this;
+    }
+
+    addPropertyCoverage(
+        module: string,
+        name: string,
+        filePath: string | undefined,
+        range: vscode.Range,
+        subexpressions: SubexpressionCoverageItem[] = []
     ): CheckResultBuilder {
-        this.coverageStat.push(new CoverageItem(module, action, filePath, range, total, distinct));
+        this.propertyCoverageStat.push(new PropertyCoverageItem(module, name, filePath, range, subexpressions));
         return this;
     }
 
@@ -0,0 +1,120 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import * as path from 'path';
+import { LANG_TLAPLUS } from '../../../src/common';
+import { replaceDocContents } from '../document';
+import { parseSemanticTokens, TLA_SEMANTIC_TOKENS_LEGEND } from '../../../src/symbols/tlaSemanticTokens';
+
+interface DecodedToken {
+    line: number;
+    char: number;
+    text: string;
+    type: string;
+    modifiers: string[];
+}
+
+let moduleName = '';
+
+suite('TLA Semantic Tokens Test Suite', () => {
+    let doc: vscode.TextDocument;
+
+    suiteSetup(async () => {
+        doc = await vscode.workspace.openTextDocument({ language: LANG_TLAPLUS });
+        moduleName = path.posix.basename(doc.uri.path);
+        await replaceDocContents(doc, [
+            '---- MODULE foo ----',
+            'CONSTANT N',
+            'VARIABLE x',
+            'Inc(n) == n + 1',
+            'Next == x\' = Inc(x)',
+            '===='
+        ].join('\n'));
+    });
+
+    test('Marks declarations with their semantic roles', () => {
+        const tokens = decode(doc, parseSemanticTokens(buildXml(), doc));
+        assert.deepEqual(tokens.filter((t) => t.modifiers.includes('declaration')), [
+            { line: 1, char: 9, text: 'N', type: 'variable', modifiers: ['declaration', 'readonly'] },
+            { line: 2, char: 9, text: 'x', type: 'stateVariable', modifiers: ['declaration'] },
+            { line: 3, char: 0, text: 'Inc', type: 'function', modifiers: ['declaration'] },
+            { line: 3, char: 4, text: 'n', type: 'parameter', modifiers: ['declaration'] },
+            { line: 4, char: 0, text: 'Next', type: 'function', modifiers: ['declaration', 'actionLevel'] }
+        ]);
+    });
+
+    test('Marks primed variables and operator applications', () => {
+        const tokens = decode(doc, parseSemanticTokens(buildXml(), doc));
+        assert.deepEqual(tokens.filter((t) => !t.modifiers.includes('declaration')), [
+            { line: 3, char: 10, text: 'n', type: 'parameter', modifiers: [] },
+            { line: 4, char: 8, text: 'x', type: 'stateVariable', modifiers: ['primed'] },
+            { line: 4, char: 13, text: 'Inc', type: 'function', modifiers: [] },
+            { line: 4, char: 17, text: 'x', type: 'stateVariable', modifiers: [] }
+        ]);
+    });
+
+    test('Ignores malformed XML', () => {
+        const tokens = parseSemanticTokens('<modules></modules>', doc);
+        assert.strictEqual(tokens.data.length, 0);
+    });
+});
+
+function loc(line: number, colBegin: number, colEnd: number): string {
+    return '<location><column><begin>' + colBegin + '</begin><end>' + colEnd + '</end></column>'
+        + '<line><begin>' + line + '</begin><end>' + line + '</end></line>'
+        + '<filename>' + moduleName + '</filename></location>';
+}
+
+function ref(kind: string, uid: number): string {
+    return `<operator><${kind}><UID>${uid}</UID></${kind}></operator>`;
+}
+
+function buildXml(): string {
+    return '<modules><context>'
+        + '<entry><UID>1</UID><OpDeclNode>' + loc(2, 10, 10)
+        + '<uniquename>N</uniquename><arity>0</arity><kind>2</kind><level>0</level></OpDeclNode></entry>'
+        + '<entry><UID>2</UID><OpDeclNode>' + loc(3, 10, 10)
+        + '<uniquename>x</uniquename><arity>0</arity><kind>3</kind><level>1</level></OpDeclNode></entry>'
+        + '<entry><UID>3</UID><FormalParamNode>' + loc(4, 5, 5)
+        + '<uniquename>n</uniquename><arity>0</arity></FormalParamNode></entry>'
+        + '<entry><UID>4</UID><UserDefinedOpKind>' + loc(4, 1, 15)
+        + '<level>0</level><uniquename>Inc</uniquename><arity>1</arity>'
+        + '<body><OpApplNode>' + loc(4, 11, 15) + ref('BuiltInKindRef', 9)
+        + '<operands><OpApplNode>' + loc(4, 11, 11) + ref('FormalParamNodeRef', 3) + '</OpApplNode>'
+        + '<NumeralNode><IntValue>1</IntValue></NumeralNode></operands></OpApplNode></body>'
+        + '<params><leibnizparam><FormalParamNodeRef><UID>3</UID></FormalParamNodeRef></leibnizparam></params>'
+        + '</UserDefinedOpKind></entry>'
+        + '<entry><UID>5</UID><UserDefinedOpKind>' + loc(5, 1, 19)
+        + '<level>2</level><uniquename>Next</uniquename><arity>0</arity>'
+        + '<body><OpApplNode>' + loc(5, 9, 19) + ref('BuiltInKindRef', 8)
+        + '<operands><OpApplNode>' + loc(5, 9, 10) + ref('BuiltInKindRef', 7)
+        + '<operands><OpApplNode>' + loc(5, 9, 9) + ref('OpDeclNodeRef', 2) + '</OpApplNode></operands>'
+        + '</OpApplNode><OpApplNode>' + loc(5, 14, 19) + ref('UserDefinedOpKindRef', 4)
+        + '<operands><OpApplNode>' + loc(5, 18, 18) + ref('OpDeclNodeRef', 2) + '</OpApplNode></operands>'
+        + '</OpApplNode></operands></OpApplNode></body>'
+        + '</UserDefinedOpKind></entry>'
+        + '<entry><UID>7</UID><BuiltInKind><uniquename>\'</uniquename></BuiltInKind></entry>'
+        + '<entry><UID>8</UID><BuiltInKind><uniquename>=</uniquename></BuiltInKind></entry>'
+        + '<entry><UID>9</UID><BuiltInKind><uniquename>+</uniquename></BuiltInKind></entry>'
+        + '</context></modules>';
+}
+
+function decode(doc: vscode.TextDocument, tokens: vscode.SemanticTokens): DecodedToken[] {
+    const result = [];
+    let line = 0;
+    let char = 0;
+    for (let i = 0; i < tokens.data.length; i += 5) {
+        const [deltaLine, deltaChar, length, typeIdx, modifierBits] = tokens.data.slice(i, i + 5);
+        line += deltaLine;
+        char = deltaLine === 0 ? char + deltaChar : deltaChar;
+        const modifiers = TLA_SEMANTIC_TOKENS_LEGEND.tokenModifiers
+            .filter((_, idx) => (modifierBits & (1 << idx)) !== 0);
+        result.push({
+            line,
+            char,
+            text: doc.lineAt(line).text.substring(char, char + length),
+            type: TLA_SEMANTIC_TOKENS_LEGEND.tokenTypes[typeIdx],
+            modifiers
+        });
+    }
+    return result;
+}
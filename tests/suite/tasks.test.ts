@@ -0,0 +1,47 @@
+import * as vscode from 'vscode';
+import * as assert from 'assert';
+import { TASK_TYPE_TLAPLUS, TlaTaskDefinition, TlaTaskProvider } from '../../src/tasks';
+
+suite('TLA+ Task Provider Test Suite', () => {
+    const diagnostic = vscode.languages.createDiagnosticCollection('tlaplus-tasks-test');
+    const provider = new TlaTaskProvider(diagnostic);
+
+    suiteTeardown(() => {
+        diagnostic.dispose();
+    });
+
+    test('Resolves task from tasks.json', () => {
+        const definition: TlaTaskDefinition = {
+            type: TASK_TYPE_TLAPLUS,
+            tool: 'tlc',
+            spec: 'specs/Queue.tla',
+            config: 'specs/Queue.cfg',
+            options: ['-workers', 'auto']
+        };
+        const task = new vscode.Task(definition, vscode.TaskScope.Workspace, 'check queue', TASK_TYPE_TLAPLUS);
+        const resolved = provider.resolveTask(task);
+        assert.ok(resolved);
+        assert.strictEqual(resolved.definition, definition);
+        assert.strictEqual(resolved.name, 'check queue');
+        assert.strictEqual(resolved.group, vscode.TaskGroup.Test);
+        assert.ok(resolved.execution instanceof vscode.CustomExecution);
+    });
+
+    test('Assigns parsing to the build group', () => {
+        const definition = { type: TASK_TYPE_TLAPLUS, tool: 'pcal', spec: 'Queue.tla' };
+        const task = new vscode.Task(definition, vscode.TaskScope.Workspace, 'translate', TASK_TYPE_TLAPLUS);
+        assert.strictEqual(provider.resolveTask(task)?.group, vscode.TaskGroup.Build);
+    });
+
+    test('Ignores task with unknown tool', () => {
+        const definition = { type: TASK_TYPE_TLAPLUS, tool: 'apalache', spec: 'Queue.tla' };
+        const task = new vscode.Task(definition, vscode.TaskScope.Workspace, 'check', TASK_TYPE_TLAPLUS);
+        assert.strictEqual(provider.resolveTask(task), undefined);
+    });
+
+    test('Ignores task without spec', () => {
+        const definition = { type: TASK_TYPE_TLAPLUS, tool: 'sany' };
+        const task = new vscode.Task(definition, vscode.TaskScope.Workspace, 'parse', TASK_TYPE_TLAPLUS);
+        assert.strictEqual(provider.resolveTask(task), undefined);
+    });
+});
@@ -0,0 +1,148 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { SpecFiles } from '../../../src/model/check';
+
+type RunHandler = (request: vscode.TestRunRequest, token: vscode.CancellationToken) => Promise<void>;
+type CheckModelModule = typeof import('../../../src/commands/checkModel');
+type ModelTestsModule = typeof import('../../../src/testing/modelTests');
+
+interface RecordedRun {
+    results: Map<string, string>;
+    ended: boolean;
+}
+
+suite('Model Tests Test Suite', () => {
+    const checkModelPath = require.resolve(path.resolve(__dirname, '../../../src/commands/checkModel'));
+    const modelTestsPath = require.resolve(path.resolve(__dirname, '../../../src/testing/modelTests'));
+    const testsApi = vscode.tests as unknown as { createTestController: typeof vscode.tests.createTestController };
+    const originalCreateTestController = testsApi.createTestController;
+
+    let originalCheckModel: CheckModelModule;
+    let tempDir: string;
+    let cfgUri: vscode.Uri;
+    let controller: vscode.TestController | undefined;
+    let runHandler: RunHandler | undefined;
+    let runs: RecordedRun[];
+
+    const makeCacheEntry = (exports: unknown): NodeJS.Module => ({
+        id: checkModelPath,
+        filename: checkModelPath,
+        loaded: true,
+        exports,
+        parent: null,
+        path: checkModelPath,
+        paths: [],
+        children: [],
+        require,
+        isPreloading: false,
+    } as unknown as NodeJS.Module);
+
+    setup(async () => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'model-tests-'));
+        fs.writeFileSync(path.join(tempDir, 'Spec.tla'), '---- MODULE Spec ----\nVARIABLE x\n====\n');
+        fs.writeFileSync(path.join(tempDir, 'Spec.cfg'), 'INIT Init\nNEXT Next\nINVARIANT Inv\n');
+        cfgUri = vscode.Uri.file(path.join(tempDir, 'Spec.cfg'));
+        originalCheckModel = await import(checkModelPath);
+        runs = [];
+        testsApi.createTestController = (id: string, label: string) => {
+            controller = originalCreateTestController(id, label);
+            const createRunProfile = controller.createRunProfile.bind(controller);
+            controller.createRunProfile = (profileLabel, kind, handler, isDefault) => {
+                runHandler = handler as RunHandler;
+                return createRunProfile(profileLabel, kind, handler, isDefault);
+            };
+            controller.createTestRun = () => recordRun();
+            return controller;
+        };
+    });
+
+    teardown(() => {
+        testsApi.createTestController = originalCreateTestController;
+        require.cache[checkModelPath] = makeCacheEntry(originalCheckModel);
+        delete require.cache[modelTestsPath];
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    function recordRun(): vscode.TestRun {
+        const recorded: RecordedRun = { results: new Map(), ended: false };
+        runs.push(recorded);
+        const record = (state: string) => (item: vscode.TestItem) => recorded.results.set(item.label, state);
+        return {
+            started: record('started'),
+            skipped: record('skipped'),
+            errored: record('errored'),
+            failed: record('failed'),
+            passed: record('passed'),
+            end: () => { recorded.ended = true; }
+        } as unknown as vscode.TestRun;
+    }
+
+    async function createModelTests(stubs: Partial<CheckModelModule>): Promise<vscode.Disposable> {
+        require.cache[checkModelPath] = makeCacheEntry({ ...originalCheckModel, ...stubs });
+        delete require.cache[modelTestsPath];
+        const { ModelTestController } = await import(modelTestsPath) as ModelTestsModule;
+        const diagnostics = vscode.languages.createDiagnosticCollection('model-tests');
+        const modelTests = new ModelTestController({} as vscode.ExtensionContext, diagnostics);
+        // Creates the model item the same way the file watcher does
+        await (modelTests as unknown as { updateModel(uri: vscode.Uri): Promise<void> }).updateModel(cfgUri);
+        return { dispose: () => { modelTests.dispose(); diagnostics.dispose(); } };
+    }
+
+    function getModelItem(): vscode.TestItem {
+        const item = controller?.items.get(cfgUri.toString());
+        assert.ok(item, 'Model item must be created');
+        return item;
+    }
+
+    test('Marks models errored when another check is running', async () => {
+        let checks = 0;
+        const modelTests = await createModelTests({
+            canRunTlc: () => false,
+            doCheckModel: async () => {
+                checks++;
+                return undefined;
+            }
+        });
+        try {
+            const tokenSource = new vscode.CancellationTokenSource();
+            await runHandler?.(new vscode.TestRunRequest([getModelItem()]), tokenSource.token);
+            tokenSource.dispose();
+            assert.strictEqual(checks, 0);
+            assert.deepEqual(Array.from(runs[0].results.entries()), [['Spec', 'errored'], ['Inv', 'errored']]);
+            assert.ok(runs[0].ended);
+        } finally {
+            modelTests.dispose();
+        }
+    });
+
+    test('Stops only the check started by the test run on cancellation', async () => {
+        const tokenSource = new vscode.CancellationTokenSource();
+        let checkedFiles: SpecFiles | undefined;
+        let stopPredicate: ((lastSpecFiles: SpecFiles | undefined) => boolean) | undefined;
+        const modelTests = await createModelTests({
+            canRunTlc: () => true,
+            doCheckModel: async (specFiles: SpecFiles) => {
+                checkedFiles = specFiles;
+                tokenSource.cancel();
+                return undefined;
+            },
+            stopModelChecking: (terminateLastRun) => {
+                stopPredicate = terminateLastRun;
+            }
+        });
+        try {
+            await runHandler?.(new vscode.TestRunRequest([getModelItem()]), tokenSource.token);
+            assert.ok(checkedFiles);
+            assert.ok(stopPredicate);
+            assert.strictEqual(stopPredicate(checkedFiles), true);
+            assert.strictEqual(stopPredicate(new SpecFiles(checkedFiles.tlaFilePath, checkedFiles.cfgFilePath)), false);
+            assert.strictEqual(stopPredicate(undefined), false);
+        } finally {
+            tokenSource.dispose();
+            modelTests.dispose();
+        }
+    });
+});
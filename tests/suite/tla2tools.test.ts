@@ -1,6 +1,8 @@
 import * as assert from 'assert';
 import * as path from 'path';
-import { buildJavaOptions, buildTlcOptions, buildPlusCalOptions, splitArguments, extractFingerprintFromTrace } from '../../src/tla2tools';
+import { spawn } from 'child_process';
+import { buildJavaOptions, buildTlcOptions, buildPlusCalOptions, splitArguments, extractFingerprintFromTrace,
+    waitForExit } from '../../src/tla2tools';
 
 suite('TLA+ Tools Test Suite', () => {
 
@@ -406,4 +408,11 @@ suite('TLA+ Tools Test Suite', () => {
         const fp = extractFingerprintFromTrace(traceFile);
         assert.strictEqual(fp, undefined, 'Should return undefined when fingerprint is missing');
     });
+
+    test('Waits for the process exit code after the output ends', async () => {
+        const proc = spawn(process.execPath, ['-e', 'process.stdout.end(() => setTimeout(() => process.exit(3), 200))']);
+        await new Promise((resolve) => proc.stdout.on('data', () => undefined).on('end', resolve));
+        assert.strictEqual(await waitForExit(proc), 3);
+        assert.strictEqual(await waitForExit(proc), 3);
+    });
 });
@@ -0,0 +1,66 @@
+import * as assert from 'assert';
+import { diffStates, isChanged } from '../../../src/webview/checkResultView/errorTraceSection/stateDiff';
+import { seq, set, struct, v } from '../shortcuts';
+
+suite('State Diff Test Suite', () => {
+
+    test('Finds unchanged and modified variables', () => {
+        const diffs = diffStates(
+            struct('', v('x', '1'), v('y', 'TRUE')),
+            struct('', v('x', '2'), v('y', 'TRUE')));
+        assert.deepEqual(diffs, [
+            { key: 'x', change: 'M', before: '1', after: '2', children: [] },
+            { key: 'y', change: 'N', before: 'TRUE', after: 'TRUE', children: [] }
+        ]);
+    });
+
+    test('Finds added and deleted variables', () => {
+        const diffs = diffStates(struct('', v('x', '1')), struct('', v('y', '2')));
+        assert.deepEqual(diffs, [
+            { key: 'x', change: 'D', before: '1', after: undefined, children: [] },
+            { key: 'y', change: 'A', before: undefined, after: '2', children: [] }
+        ]);
+    });
+
+    test('Matches set elements by value', () => {
+        const [diff] = diffStates(
+            struct('', set('s', v(1, '1'), v(2, '2'))),
+            struct('', set('s', v(1, '2'), v(2, '3'))));
+        assert.strictEqual(diff.change, 'M');
+        assert.deepEqual(
+            diff.children.map((c) => [c.change, c.before, c.after]),
+            [['D', '1', undefined], ['N', '2', '2'], ['A', undefined, '3']]);
+    });
+
+    test('Matches sequence elements by index', () => {
+        const [diff] = diffStates(
+            struct('', seq('q', v(1, '"a"'), v(2, '"b"'))),
+            struct('', seq('q', v(1, '"a"'), v(2, '"c"'), v(3, '"d"'))));
+        assert.deepEqual(
+            diff.children.map((c) => [c.key, c.change]),
+            [['1', 'N'], ['2', 'M'], ['3', 'A']]);
+    });
+
+    test('Finds changes in nested records', () => {
+        const [diff] = diffStates(
+            struct('', struct('r', v('a', '1'), seq('b', v(1, '1')))),
+            struct('', struct('r', v('a', '1'), seq('b', v(1, '2')))));
+        assert.strictEqual(diff.change, 'M');
+        const [a, b] = diff.children;
+        assert.strictEqual(a.change, 'N');
+        assert.strictEqual(b.change, 'M');
+        assert.deepEqual(b.children, [{ key: '1', change: 'M', before: '1', after: '2', children: [] }]);
+    });
+
+    test('Marks whole deleted collection with its items', () => {
+        const [diff] = diffStates(struct('', seq('q', v(1, '1'))), struct(''));
+        assert.strictEqual(diff.change, 'D');
+        assert.deepEqual(diff.children, [{ key: '1', change: 'D', before: '1', after: undefined, children: [] }]);
+    });
+
+    test('Compares states that are not adjacent', () => {
+        const first = struct('', v('x', '1'));
+        const last = struct('', v('x', '1'));
+        assert.ok(!diffStates(first, last).some(isChanged));
+    });
+});
@@ -0,0 +1,40 @@
+import * as assert from 'assert';
+import { StateGraph } from '../../../src/model/traceGraph';
+import { layoutGraph } from '../../../src/webview/traceGraphView/layout';
+
+function graph(edges: [string, string][], nodeIds: string[]): StateGraph {
+    return {
+        title: 'Test',
+        nodes: nodeIds.map((id, index) => ({ id, label: id, details: '', initial: index === 0 })),
+        edges: edges.map(([from, to]) => ({ from, to, label: `${from}-${to}` }))
+    };
+}
+
+suite('Trace Graph Layout Test Suite', () => {
+
+    test('Places trace states in one row', () => {
+        const layout = layoutGraph(graph([['a', 'b'], ['b', 'c']], ['a', 'b', 'c']));
+        const ys = new Set(layout.nodes.map((n) => n.y));
+        assert.strictEqual(ys.size, 1);
+        assert.ok(layout.nodes[0].x < layout.nodes[1].x && layout.nodes[1].x < layout.nodes[2].x);
+        assert.ok(layout.edges.every((e) => e.path.includes(' L ')));
+    });
+
+    test('Curves back edges and loops', () => {
+        const layout = layoutGraph(graph([['a', 'b'], ['b', 'c'], ['c', 'b'], ['c', 'c']], ['a', 'b', 'c']));
+        assert.ok(layout.edges[2].path.includes(' Q '));
+        assert.ok(layout.edges[3].path.includes(' C '));
+    });
+
+    test('Places branches in separate rows', () => {
+        const layout = layoutGraph(graph([['a', 'b'], ['a', 'c']], ['a', 'b', 'c']));
+        assert.strictEqual(layout.nodes[1].x, layout.nodes[2].x);
+        assert.notStrictEqual(layout.nodes[1].y, layout.nodes[2].y);
+        assert.ok(layout.height > 0 && layout.width > 0);
+    });
+
+    test('Places unreachable states after reachable ones', () => {
+        const layout = layoutGraph(graph([['a', 'b']], ['a', 'b', 'z']));
+        assert.ok(layout.nodes[2].x > layout.nodes[1].x);
+    });
+});